@@ -0,0 +1,41 @@
+export type LlmProvider = 'gemini' | 'openai' | 'fake';
+
+export interface LlmConfig {
+  provider: LlmProvider;
+  model: string;
+  temperature: number;
+  apiKey?: string;
+  // Base URL of an OpenAI-compatible endpoint (e.g. http://localhost:11434/v1 for Ollama)
+  baseUrl?: string;
+  // JSON file with canned responses per chain, used by the fake provider
+  fakeResponsesPath?: string;
+}
+
+const DEFAULT_MODELS: Record<LlmProvider, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  fake: 'scripted-fake',
+};
+
+export function loadLlmConfig(env: NodeJS.ProcessEnv = process.env): LlmConfig {
+  const provider = (env.LLM_PROVIDER || 'gemini').toLowerCase() as LlmProvider;
+  if (!(provider in DEFAULT_MODELS)) {
+    throw new Error(
+      `Unsupported LLM_PROVIDER "${env.LLM_PROVIDER}". Expected one of: ${Object.keys(DEFAULT_MODELS).join(', ')}`,
+    );
+  }
+
+  const temperature = parseFloat(env.LLM_TEMPERATURE || '0.3');
+
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+    temperature: Number.isNaN(temperature) ? 0.3 : temperature,
+    apiKey:
+      env.LLM_API_KEY ||
+      (provider === 'gemini' ? env.GOOGLE_API_KEY : undefined) ||
+      (provider === 'openai' ? env.OPENAI_API_KEY : undefined),
+    baseUrl: env.LLM_BASE_URL,
+    fakeResponsesPath: env.LLM_FAKE_RESPONSES,
+  };
+}
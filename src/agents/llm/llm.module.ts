@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { LLM_CONFIG, LLM_MODEL, llmProviders } from './llm.provider';
+
+@Module({
+  providers: llmProviders,
+  exports: [LLM_CONFIG, LLM_MODEL],
+})
+export class LlmModule {}
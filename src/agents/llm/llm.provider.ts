@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import { Provider } from '@nestjs/common';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { ChatOpenAI } from '@langchain/openai';
+import { LlmConfig, loadLlmConfig } from './llm.config';
+import { ScriptedChatModel, ScriptedResponses } from './scripted-chat.model';
+
+export const LLM_CONFIG = 'LLM_CONFIG';
+export const LLM_MODEL = 'LLM_MODEL';
+
+export function createChatModel(config: LlmConfig): BaseChatModel {
+  switch (config.provider) {
+    case 'gemini':
+      return new ChatGoogleGenerativeAI({
+        model: config.model,
+        temperature: config.temperature,
+        apiKey: config.apiKey || 'your-api-key-here',
+      });
+
+    case 'openai':
+      return new ChatOpenAI({
+        model: config.model,
+        temperature: config.temperature,
+        // Local OpenAI-compatible servers usually ignore the key, but the client requires one
+        apiKey: config.apiKey || 'not-needed',
+        configuration: config.baseUrl ? { baseURL: config.baseUrl } : undefined,
+      });
+
+    case 'fake': {
+      let responses: ScriptedResponses = {};
+      if (config.fakeResponsesPath) {
+        responses = JSON.parse(
+          fs.readFileSync(config.fakeResponsesPath, 'utf8'),
+        );
+      }
+      return new ScriptedChatModel({ responses });
+    }
+
+    default:
+      throw new Error(`Unsupported LLM provider: ${String(config.provider)}`);
+  }
+}
+
+export const llmProviders: Provider[] = [
+  {
+    provide: LLM_CONFIG,
+    useFactory: () => loadLlmConfig(),
+  },
+  {
+    provide: LLM_MODEL,
+    useFactory: (config: LlmConfig) => createChatModel(config),
+    inject: [LLM_CONFIG],
+  },
+];
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HumanMessage } from '@langchain/core/messages';
+import { loadLlmConfig } from './llm.config';
+import { createChatModel } from './llm.provider';
+import { ScriptedChatModel } from './scripted-chat.model';
+
+type Answer = Record<string, unknown>;
+type Plan = { tasks: { action: string; params: Record<string, unknown> }[] };
+
+async function ask<T = Answer>(
+  model: ScriptedChatModel,
+  prompt: string,
+): Promise<T> {
+  const message = await model.invoke([new HumanMessage(prompt)]);
+  return JSON.parse(message.content as string) as T;
+}
+
+describe('ScriptedChatModel', () => {
+  it('tells the chains apart by their role line', async () => {
+    const model = new ScriptedChatModel();
+
+    const analysis = await ask(
+      model,
+      'You are a data quality analyst.\nData to analyze:\nname,age\nAna,30\nProvide your analysis:',
+    );
+    const query = await ask(
+      model,
+      'You translate questions about tabular data into SQL.\nTable "employees" (name, age)',
+    );
+
+    expect(analysis.needs_cleaning).toBe(true);
+    expect(analysis.raw_text_allowed).toBe(false);
+    expect(query.sql).toBe('SELECT * FROM employees LIMIT 10');
+    expect(model.calls.map((call) => call.chain)).toEqual([
+      'data_analysis',
+      'query',
+    ]);
+    expect(await ask(model, 'Something else entirely')).toEqual({});
+  });
+
+  it('plans from the context it is given', async () => {
+    const model = new ScriptedChatModel();
+    const plan = (context: string) =>
+      ask<Plan>(
+        model,
+        `You are a unified agent\nCONTEXT (if available):\n${context}\nPlan the workflow`,
+      );
+
+    const byFilename = await plan('{"filename":"employees.csv"}');
+    expect(byFilename.tasks.map((task) => task.action)).toEqual([
+      'get_by_filename',
+      'generate_report',
+    ]);
+    expect(byFilename.tasks[0].params).toEqual({ filename: 'employees.csv' });
+
+    const upload = await plan('{"fileData":"a,b"}');
+    expect(upload.tasks[0].action).toBe('process_data');
+    expect(upload.tasks[1].params.recordId).toBe('{{task.0.recordId}}');
+
+    expect((await plan('None')).tasks).toEqual([]);
+  });
+
+  it('plays scripted answers in order and repeats the last one', async () => {
+    const model = new ScriptedChatModel({
+      responses: { summary: [{ summary: 'first' }, { summary: 'then' }] },
+    });
+    const summarize = () => ask(model, 'You are creating concise summaries');
+
+    expect((await summarize()).summary).toBe('first');
+    expect((await summarize()).summary).toBe('then');
+    expect((await summarize()).summary).toBe('then');
+  });
+
+  it('merges partial analyses without duplicates', async () => {
+    const model = new ScriptedChatModel();
+    const partials = [
+      { key_points: ['a', 'b'], insights: ['x'] },
+      { key_points: ['b', 'c'] },
+    ];
+
+    const merged = await ask(
+      model,
+      `You are merging partial analyses.\nPARTIAL ANALYSES:\n${JSON.stringify(partials)}\nCRITICAL JSON FORMATTING RULES:`,
+    );
+    expect(merged.summary).toBe('Scripted merge of 2 partial analyses.');
+    expect(merged.key_points).toEqual(['a', 'b', 'c']);
+    expect(merged.insights).toEqual(['x']);
+  });
+});
+
+describe('createChatModel', () => {
+  it('loads the canned responses of the fake provider from LLM_FAKE_RESPONSES', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fake-'));
+    const file = path.join(dir, 'responses.json');
+    fs.writeFileSync(file, JSON.stringify({ insights: { insights: ['up'] } }));
+
+    try {
+      const config = loadLlmConfig({
+        LLM_PROVIDER: 'FAKE',
+        LLM_FAKE_RESPONSES: file,
+      });
+      const model = createChatModel(config);
+
+      expect(config.model).toBe('scripted-fake');
+      expect(model).toBeInstanceOf(ScriptedChatModel);
+      expect(
+        await ask(
+          model as ScriptedChatModel,
+          'You are providing deep insights',
+        ),
+      ).toEqual({ insights: ['up'] });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses unknown providers', () => {
+    expect(() => loadLlmConfig({ LLM_PROVIDER: 'claude' })).toThrow(
+      'Unsupported LLM_PROVIDER "claude"',
+    );
+  });
+});
@@ -0,0 +1,264 @@
+import { SimpleChatModel } from '@langchain/core/language_models/chat_models';
+import type { BaseChatModelParams } from '@langchain/core/language_models/chat_models';
+import type { BaseMessage } from '@langchain/core/messages';
+
+export type ScriptedChain =
+  | 'planner'
+  | 'data_analysis'
+  | 'summary'
+  | 'insights'
+  | 'reduce'
+  | 'query'
+  | 'unknown';
+
+type ScriptedResponse = string | Record<string, any>;
+
+// Canned responses per chain. An array is consumed in order and its last entry repeats.
+export type ScriptedResponses = Partial<
+  Record<ScriptedChain, ScriptedResponse | ScriptedResponse[]>
+>;
+
+export interface ScriptedChatModelInput extends BaseChatModelParams {
+  responses?: ScriptedResponses;
+}
+
+// Each chain prompt opens with a distinctive role line, which is how the fake tells them apart
+const CHAIN_MARKERS: [ScriptedChain, RegExp][] = [
+  ['planner', /You are a unified agent/],
+  ['data_analysis', /You are a data quality analyst/],
+  ['summary', /creating concise summaries/],
+  ['insights', /providing deep insights/],
+  ['reduce', /merging partial analyses/],
+  ['query', /You translate questions about tabular data into SQL/],
+];
+
+/**
+ * Deterministic, offline chat model. It recognises which chain is calling it from the
+ * prompt and answers with scripted JSON, so the whole orchestration can run without network access.
+ */
+export class ScriptedChatModel extends SimpleChatModel {
+  readonly calls: { chain: ScriptedChain; prompt: string }[] = [];
+  private readonly responses: ScriptedResponses;
+  private readonly cursors: Partial<Record<ScriptedChain, number>> = {};
+
+  constructor(fields: ScriptedChatModelInput = {}) {
+    super(fields);
+    this.responses = fields.responses || {};
+  }
+
+  _llmType(): string {
+    return 'scripted-fake';
+  }
+
+  async _call(messages: BaseMessage[]): Promise<string> {
+    const prompt = messages
+      .map((message) =>
+        typeof message.content === 'string'
+          ? message.content
+          : JSON.stringify(message.content),
+      )
+      .join('\n');
+    const chain = this.detectChain(prompt);
+    this.calls.push({ chain, prompt });
+
+    const response =
+      this.nextScriptedResponse(chain) ?? this.defaultResponse(chain, prompt);
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+
+  private detectChain(prompt: string): ScriptedChain {
+    const marker = CHAIN_MARKERS.find(([, pattern]) => pattern.test(prompt));
+    return marker ? marker[0] : 'unknown';
+  }
+
+  private nextScriptedResponse(
+    chain: ScriptedChain,
+  ): ScriptedResponse | undefined {
+    const scripted = this.responses[chain];
+    if (!Array.isArray(scripted)) {
+      return scripted;
+    }
+    if (scripted.length === 0) {
+      return undefined;
+    }
+
+    const cursor = this.cursors[chain] || 0;
+    this.cursors[chain] = cursor + 1;
+    return scripted[Math.min(cursor, scripted.length - 1)];
+  }
+
+  private defaultResponse(
+    chain: ScriptedChain,
+    prompt: string,
+  ): ScriptedResponse {
+    switch (chain) {
+      case 'planner':
+        return this.defaultPlan(prompt);
+
+      case 'data_analysis': {
+        const data = this.section(
+          prompt,
+          'Data to analyze:',
+          'Provide your analysis:',
+        );
+        const tabular = data.split('\n')[0]?.includes(',') ?? false;
+        return {
+          needs_cleaning: tabular,
+          needs_transformation: tabular,
+          needs_normalization: tabular,
+          needs_deduplication: tabular,
+          needs_validation: tabular,
+          raw_text_allowed: !tabular,
+          explanation: tabular
+            ? 'Scripted analysis: tabular data, running all processing steps.'
+            : 'Scripted analysis: free text, no processing needed.',
+        };
+      }
+
+      case 'summary': {
+        const data = this.section(
+          prompt,
+          'DATA:',
+          'CRITICAL JSON FORMATTING RULES:',
+        );
+        const lines = data.split('\n').filter((line) => line.trim().length > 0);
+        return {
+          summary: 'Scripted summary of the provided dataset.',
+          key_points: ['Scripted key point'],
+          data_quality: 'good - scripted assessment',
+          record_count: Math.max(0, lines.length - 1),
+        };
+      }
+
+      case 'insights':
+        return {
+          insights: ['Scripted insight'],
+          trends: ['Scripted trend'],
+          anomalies: [],
+          recommendations: ['Scripted recommendation'],
+        };
+
+      case 'reduce':
+        return this.defaultReduce(prompt);
+
+      case 'query': {
+        const table = prompt.match(/Table "([^"]+)"/)?.[1] ?? 'data';
+        return {
+          sql: `SELECT * FROM ${table} LIMIT 10`,
+          explanation: 'Scripted query: the first rows of the table.',
+        };
+      }
+
+      default:
+        return '{}';
+    }
+  }
+
+  // Mirrors the planner examples: process uploaded data or fetch the referenced record, then report
+  private defaultPlan(prompt: string): ScriptedResponse {
+    const context = this.section(
+      prompt,
+      'CONTEXT (if available):',
+      'Plan the workflow',
+    );
+    const recordId = context.match(/"recordId":"([^"]+)"/)?.[1];
+    const filename = context.match(/"filename":"([^"]+)"/)?.[1];
+
+    if (context.includes('"fileData"')) {
+      return {
+        tasks: [
+          {
+            agent: 'data',
+            action: 'process_data',
+            params: {},
+            dependencies: [],
+          },
+          {
+            agent: 'report',
+            action: 'generate_report',
+            params: { recordId: '{{task.0.recordId}}' },
+            dependencies: [0],
+          },
+        ],
+        reasoning:
+          'Scripted plan: process the uploaded file, then report on it.',
+      };
+    }
+
+    if (recordId || filename) {
+      return {
+        tasks: [
+          recordId
+            ? {
+                agent: 'data',
+                action: 'get_by_id',
+                params: { id: recordId },
+                dependencies: [],
+              }
+            : {
+                agent: 'data',
+                action: 'get_by_filename',
+                params: { filename },
+                dependencies: [],
+              },
+          {
+            agent: 'report',
+            action: 'generate_report',
+            params: { recordId: '{{task.0.id}}' },
+            dependencies: [0],
+          },
+        ],
+        reasoning:
+          'Scripted plan: retrieve the referenced record, then report on it.',
+      };
+    }
+
+    return {
+      tasks: [],
+      reasoning: 'Scripted plan: no data source found in context.',
+    };
+  }
+
+  // Concatenates the partial analyses, de-duplicated, so merged reports stay predictable
+  private defaultReduce(prompt: string): ScriptedResponse {
+    let partials: Record<string, any>[] = [];
+    try {
+      partials = JSON.parse(
+        this.section(
+          prompt,
+          'PARTIAL ANALYSES:',
+          'CRITICAL JSON FORMATTING RULES:',
+        ),
+      );
+    } catch {
+      // Leave the lists empty
+    }
+
+    const merge = (field: string): string[] => [
+      ...new Set(
+        partials.flatMap((partial) =>
+          Array.isArray(partial[field]) ? partial[field] : [],
+        ),
+      ),
+    ];
+
+    return {
+      summary: `Scripted merge of ${partials.length} partial analyses.`,
+      key_points: merge('key_points'),
+      data_quality: 'good - scripted assessment',
+      insights: merge('insights'),
+      trends: merge('trends'),
+      anomalies: merge('anomalies'),
+      recommendations: merge('recommendations'),
+    };
+  }
+
+  private section(prompt: string, start: string, end: string): string {
+    const from = prompt.indexOf(start);
+    if (from === -1) return '';
+    const to = prompt.indexOf(end, from + start.length);
+    return prompt
+      .substring(from + start.length, to === -1 ? undefined : to)
+      .trim();
+  }
+}
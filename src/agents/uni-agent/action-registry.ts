@@ -0,0 +1,479 @@
+import { z } from 'zod';
+import {
+  appendParamsSchema,
+  joinParamsSchema,
+  projectParamsSchema,
+} from './dataset-operations';
+import { collectTaskReferences, validateTaskGraph } from './workflow-scheduler';
+
+export type AgentName = 'data' | 'report' | 'automation';
+
+export interface ActionDefinition {
+  agent: AgentName;
+  action: string;
+  description: string;
+  // Parameters as the planner must emit them; placeholders such as {{task.0.id}} are strings
+  params: z.ZodTypeAny;
+  // Result fields other tasks may reference with {{task.N.field}}
+  outputs: string[];
+}
+
+export interface PlannedTask {
+  agent: string;
+  action: string;
+  params: any;
+  dependencies?: number[];
+}
+
+const RECORD_FIELDS = [
+  'id',
+  'title',
+  'content',
+  'raw_content',
+  'analysis_summary',
+  'filename',
+  'file_type',
+  'tags',
+  'pipeline',
+  'version',
+  'dialect',
+  'schema',
+  'derived_from',
+  'createdAt',
+];
+// Records built by append_data, join_data and project_data
+const DERIVED_RECORD_FIELDS = [
+  'recordId',
+  'filename',
+  'version',
+  'columns',
+  'rowCount',
+  'derivedFrom',
+  'schema',
+  'processedData',
+];
+const REPORT_FIELDS = [
+  'id',
+  'metadata',
+  'sections',
+  'summary',
+  'recommendations',
+];
+
+// Reports and exports read their data from exactly one of these sources
+const DATA_SOURCES = ['reportId', 'recordId', 'filename', 'data'];
+
+function withDataSource(extra: z.ZodRawShape = {}) {
+  const shape: z.ZodRawShape = {
+    recordId: z.string().optional(),
+    filename: z.string().optional(),
+    data: z.string().optional(),
+    reportType: z.string().optional(),
+    ...extra,
+  };
+  const sources = DATA_SOURCES.filter((key) => key in shape);
+
+  return z
+    .object(shape)
+    .refine((params) => sources.some((key) => !!params[key]), {
+      message: `One of ${sources.join(', ')} is required`,
+    });
+}
+
+const dataSourceParams = withDataSource();
+
+// A stored rule set by name, or an inline JSON/YAML definition
+const ruleSetParams = {
+  ruleSet: z.string().optional(),
+  rules: z.union([z.string(), z.record(z.any())]).optional(),
+};
+
+// Exports can render an already stored report (the id returned by generate_report) instead of a new one
+function exportParams(extra: z.ZodRawShape = {}) {
+  return withDataSource({ reportId: z.string().optional(), ...extra });
+}
+
+export const ACTION_REGISTRY: ActionDefinition[] = [
+  {
+    agent: 'data',
+    action: 'get_by_id',
+    description: 'Retrieve a processed record by its ID',
+    params: z.object({ id: z.string().min(1) }),
+    outputs: RECORD_FIELDS,
+  },
+  {
+    agent: 'data',
+    action: 'get_by_filename',
+    description: 'Retrieve a processed record by its filename',
+    params: z.object({ filename: z.string().min(1) }),
+    outputs: RECORD_FIELDS,
+  },
+  {
+    agent: 'data',
+    action: 'process_data',
+    description:
+      'Process raw data through a cleaning pipeline (clean, transform, normalize, deduplicate, validate) and save to database; the steps follow the data analysis unless a pipeline is given, and validation uses the attached rule set if any',
+    params: z
+      .object({
+        fileData: z.string().optional(),
+        data: z.string().optional(),
+        filename: z.string().optional(),
+        tags: z.string().optional(),
+        // Ordered steps, e.g. [{ "tool": "deduplicate", "keyColumns": ["email"] }]
+        pipeline: z.union([z.string(), z.array(z.any())]).optional(),
+        ...ruleSetParams,
+      })
+      .refine((params) => !!(params.fileData || params.data), {
+        message:
+          'fileData or data is required (uploaded file data is injected automatically)',
+      }),
+    outputs: [
+      'analysis',
+      'pipeline',
+      'processedData',
+      'recordId',
+      'version',
+      'dialect',
+      'schema',
+      'validation',
+    ],
+  },
+  {
+    agent: 'data',
+    action: 'validate_data',
+    description:
+      'Check data against a validation rule set and list every violation (row, column, rule, value)',
+    params: z
+      .object({
+        recordId: z.string().optional(),
+        filename: z.string().optional(),
+        data: z.string().optional(),
+        ...ruleSetParams,
+      })
+      .refine(
+        (params) => !!(params.recordId || params.filename || params.data),
+        {
+          message: 'One of recordId, filename, data is required',
+        },
+      )
+      .refine((params) => !!(params.ruleSet || params.rules), {
+        message: 'ruleSet (stored rule set name) or rules is required',
+      }),
+    outputs: [
+      'valid',
+      'rowCount',
+      'violationCount',
+      'byRule',
+      'byColumn',
+      'violations',
+      'data',
+    ],
+  },
+  {
+    agent: 'data',
+    action: 'append_data',
+    description:
+      'Append the rows of two or more records (e.g. monthly exports) into a new record, aligning columns by name',
+    params: appendParamsSchema,
+    outputs: [...DERIVED_RECORD_FIELDS, 'parents'],
+  },
+  {
+    agent: 'data',
+    action: 'join_data',
+    description:
+      'Join two records on key columns (inner, left or full) into a new record, e.g. employees with departments',
+    params: joinParamsSchema,
+    outputs: DERIVED_RECORD_FIELDS,
+  },
+  {
+    agent: 'data',
+    action: 'project_data',
+    description:
+      'Keep, reorder or rename the columns of a record in a new record',
+    params: projectParamsSchema,
+    outputs: DERIVED_RECORD_FIELDS,
+  },
+  {
+    agent: 'data',
+    action: 'query_data',
+    description:
+      'Answer a question about stored datasets with a read-only SQL query (SELECT with WHERE, GROUP BY, HAVING, ORDER BY, aggregates and joins); the question is translated to SQL unless sql is given, and the query is returned with the result table',
+    params: z
+      .object({
+        question: z.string().optional(),
+        sql: z.string().optional(),
+        recordId: z.string().optional(),
+        // Several records can be joined; each is a table named after its file
+        recordIds: z.array(z.string()).optional(),
+        filename: z.string().optional(),
+        filenames: z.array(z.string()).optional(),
+        data: z.string().optional(),
+      })
+      .refine((params) => !!(params.question || params.sql), {
+        message: 'question or sql is required',
+      })
+      .refine(
+        (params) =>
+          !!(
+            params.recordId ||
+            params.recordIds?.length ||
+            params.filename ||
+            params.filenames?.length ||
+            params.data
+          ),
+        {
+          message:
+            'One of recordId, recordIds, filename, filenames, data is required',
+        },
+      ),
+    outputs: [
+      'question',
+      'sql',
+      'explanation',
+      'tables',
+      'columns',
+      'rows',
+      'rowCount',
+      'truncated',
+      'csv',
+    ],
+  },
+  {
+    agent: 'data',
+    action: 'analyze_data',
+    description: 'Analyze raw data and report which processing it needs',
+    params: z.object({ data: z.string().min(1) }),
+    outputs: [
+      'needs_cleaning',
+      'needs_transformation',
+      'needs_validation',
+      'explanation',
+    ],
+  },
+  {
+    agent: 'report',
+    action: 'generate_report',
+    description:
+      'Generate a comprehensive report with insights and recommendations',
+    params: dataSourceParams,
+    outputs: REPORT_FIELDS,
+  },
+  {
+    agent: 'report',
+    action: 'create_summary',
+    description: 'Create a quick summary of the data',
+    params: dataSourceParams,
+    outputs: ['summary', 'key_points', 'data_quality', 'record_count'],
+  },
+  {
+    agent: 'report',
+    action: 'export_pdf',
+    description:
+      'Export report as a PDF document, optionally with charts of the data',
+    params: exportParams({ includeCharts: z.boolean().optional() }),
+    outputs: [],
+  },
+  {
+    agent: 'report',
+    action: 'export_markdown',
+    description: 'Export report as Markdown',
+    params: exportParams(),
+    outputs: [],
+  },
+  {
+    agent: 'report',
+    action: 'export_json',
+    description: 'Export report as JSON',
+    params: exportParams(),
+    outputs: REPORT_FIELDS,
+  },
+  {
+    agent: 'report',
+    action: 'export_charts',
+    description: 'Generate an HTML page with Chart.js charts from the data',
+    params: exportParams(),
+    outputs: [],
+  },
+  {
+    agent: 'report',
+    action: 'get_statistics',
+    description: 'Get basic statistics about raw CSV data',
+    params: z.object({ data: z.string().min(1) }),
+    outputs: [
+      'totalRecords',
+      'columns',
+      'columnCount',
+      'invalidCounts',
+      'hasInvalidData',
+    ],
+  },
+  {
+    agent: 'automation',
+    action: 'send_report',
+    description: 'Send a generated report to an email address',
+    params: z.object({ recipientEmail: z.string().min(1) }),
+    outputs: ['message'],
+  },
+];
+
+export function findAction(
+  agent: string,
+  action: string,
+): ActionDefinition | undefined {
+  return ACTION_REGISTRY.find(
+    (definition) => definition.agent === agent && definition.action === action,
+  );
+}
+
+// Capability list for the planner prompt, generated so it never drifts from the registry
+export function describeActions(): string {
+  const agents: { agent: AgentName; title: string }[] = [
+    { agent: 'data', title: 'DATA PROCESSING (agent "data")' },
+    { agent: 'report', title: 'REPORT GENERATION (agent "report")' },
+    { agent: 'automation', title: 'AUTOMATION (agent "automation")' },
+  ];
+
+  return agents
+    .map(({ agent, title }, index) => {
+      const actions = ACTION_REGISTRY.filter(
+        (definition) => definition.agent === agent,
+      )
+        .map((definition) => {
+          const params = Object.keys(paramShape(definition.params));
+          return `     * ${definition.action}: ${definition.description} (params: ${params.join(', ') || 'none'})`;
+        })
+        .join('\n');
+      return `${index + 1}. ${title}\n   - Actions:\n${actions}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Checks a planned workflow against the registry before anything runs: known agent/action
+ * pairs, parameter schemas, {{task.N.field}} references and the dependency graph.
+ * Context values that executeTask injects automatically (fileData, filename, recordId and
+ * the attached ruleSet/rules) count as present. Returns human-readable errors, empty when
+ * the plan is valid.
+ */
+export function validateWorkflowPlan(
+  tasks: PlannedTask[],
+  context?: any,
+): string[] {
+  const errors: string[] = [];
+
+  tasks.forEach((task, index) => {
+    const definition = findAction(task.agent, task.action);
+    if (!definition) {
+      const sameAction = ACTION_REGISTRY.find(
+        (candidate) => candidate.action === task.action,
+      );
+      errors.push(
+        sameAction
+          ? `Task ${index}: action "${task.action}" belongs to agent "${sameAction.agent}", not "${task.agent}"`
+          : `Task ${index}: unknown action "${task.action}" for agent "${task.agent}"`,
+      );
+      return;
+    }
+
+    const params = withContextDefaults(task.params || {}, context);
+    const parsed = definition.params.safeParse(params);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const path = issue.path.length > 0 ? ` "${issue.path.join('.')}"` : '';
+        errors.push(
+          `Task ${index} (${task.action}): invalid parameter${path}: ${issue.message}`,
+        );
+      }
+    }
+
+    for (const reference of findTaskPlaceholders(task.params)) {
+      if (reference.task < 0 || reference.task >= tasks.length) {
+        errors.push(
+          `Task ${index}: placeholder ${reference.placeholder} references task ${reference.task}, which does not exist`,
+        );
+        continue;
+      }
+      if (reference.task === index) {
+        errors.push(
+          `Task ${index}: placeholder ${reference.placeholder} references the task itself`,
+        );
+        continue;
+      }
+
+      const target = tasks[reference.task];
+      const targetDefinition = findAction(target.agent, target.action);
+      if (
+        targetDefinition &&
+        !targetDefinition.outputs.includes(reference.field)
+      ) {
+        errors.push(
+          `Task ${index}: placeholder ${reference.placeholder} uses field "${reference.field}", but ${target.action} only provides: ${targetDefinition.outputs.join(', ') || 'no referenceable fields'}`,
+        );
+      }
+    }
+  });
+
+  const graphErrors = validateTaskGraph(
+    tasks.map((task) => [
+      ...new Set([
+        ...(task.dependencies || []),
+        ...collectTaskReferences(task.params),
+      ]),
+    ]),
+  );
+
+  return [...errors, ...graphErrors];
+}
+
+function withContextDefaults(params: any, context?: any): any {
+  if (!context) return params;
+
+  const merged = { ...params };
+  if (context.fileData && !merged.fileData && !merged.data) {
+    merged.fileData = context.fileData;
+  }
+  if (context.filename && !merged.filename) {
+    merged.filename = context.filename;
+  }
+  if (context.recordId && !merged.recordId) {
+    merged.recordId = context.recordId;
+  }
+  if ((context.ruleSet || context.rules) && !merged.ruleSet && !merged.rules) {
+    merged.ruleSet = context.ruleSet;
+    merged.rules = context.rules;
+  }
+  return merged;
+}
+
+function findTaskPlaceholders(
+  params: any,
+): { placeholder: string; task: number; field: string }[] {
+  const found: { placeholder: string; task: number; field: string }[] = [];
+  const visit = (value: any) => {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(/\{?\{?task\.(\d+)\.(\w+)\}?\}?/g)) {
+        found.push({
+          placeholder: match[0],
+          task: parseInt(match[1], 10),
+          field: match[2],
+        });
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(params);
+  return found;
+}
+
+function paramShape(schema: z.ZodTypeAny): Record<string, z.ZodTypeAny> {
+  if (schema instanceof z.ZodEffects) {
+    return paramShape(schema.innerType());
+  }
+  if (schema instanceof z.ZodObject) {
+    return schema.shape;
+  }
+  return {};
+}
@@ -0,0 +1,63 @@
+import type { Response } from 'express';
+import type {
+  AgentTask,
+  ReportSection,
+  WorkflowPlan,
+} from './uni-agent.service';
+
+export type AgentEvent =
+  | { type: 'plan_created'; plan: WorkflowPlan }
+  | {
+      type: 'task_status';
+      index: number;
+      agent: string;
+      action: string;
+      status: AgentTask['status'];
+      error?: string;
+    }
+  | { type: 'report_section'; section: ReportSection }
+  | { type: 'summary'; summary: string }
+  | { type: 'complete'; result: any }
+  | { type: 'error'; message: string };
+
+export type AgentEventListener = (event: AgentEvent) => void;
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Runs `work` while relaying its agent events to the client as Server-Sent Events.
+// The stream always ends with either a `complete` or an `error` event.
+export async function streamAgentEvents(
+  res: Response,
+  work: (emit: AgentEventListener) => Promise<any>,
+): Promise<void> {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  const emit: AgentEventListener = (event) => {
+    if (closed) return;
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(': keep-alive\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const result = await work(emit);
+    emit({ type: 'complete', result });
+  } catch (error) {
+    console.error('Streaming request failed:', error);
+    emit({ type: 'error', message: error.message });
+  } finally {
+    clearInterval(heartbeat);
+    res.end();
+  }
+}
@@ -0,0 +1,128 @@
+import { ChangeLogBuilder, MAX_RECORDED_CHANGES } from './change-log';
+
+const headers = ['name', 'email', 'status'];
+const upload = [
+  ['ana', 'ANA@example.com', 'N/A'],
+  ['bruno', 'bruno@example.com', 'active'],
+  ['ana', 'ANA@example.com', 'N/A'],
+  ['carla', 'not-an-email', 'left'],
+];
+
+describe('ChangeLogBuilder', () => {
+  it('traces every change back to the row of the upload', () => {
+    const cleaned = upload.map((row) =>
+      row.map((cell) => (cell === 'N/A' ? 'Unknown' : cell)),
+    );
+    const deduplicated = [cleaned[0], cleaned[1], cleaned[3]];
+    const validated = deduplicated.map((row) =>
+      row.map((cell) => (cell === 'not-an-email' ? '[INVALID_EMAIL]' : cell)),
+    );
+
+    const builder = new ChangeLogBuilder(upload.length);
+    builder.recordStep(
+      'clean',
+      { headers, rows: upload },
+      { headers, rows: cleaned },
+      'Unknown',
+    );
+    builder.recordStep(
+      'deduplicate',
+      { headers, rows: cleaned },
+      { headers, rows: deduplicated },
+    );
+    builder.recordStep(
+      'validate',
+      { headers, rows: deduplicated },
+      { headers, rows: validated },
+    );
+    const log = builder.build();
+
+    expect(log.steps.map((step) => step.changes)).toEqual([
+      { replaced: 2 },
+      { removed_row: 1 },
+      { tagged: 1 },
+    ]);
+    expect(log.steps[1]).toMatchObject({ rowsBefore: 4, rowsAfter: 3 });
+    expect(log.changes).toEqual([
+      expect.objectContaining({ step: 0, type: 'replaced', row: 1 }),
+      expect.objectContaining({ step: 0, type: 'replaced', row: 3 }),
+      {
+        step: 1,
+        tool: 'deduplicate',
+        type: 'removed_row',
+        row: 3,
+        before: 'ana,ANA@example.com,Unknown',
+      },
+      // Row 3 of the cleaned data is row 4 of the upload
+      {
+        step: 2,
+        tool: 'validate',
+        type: 'tagged',
+        row: 4,
+        column: 'email',
+        before: 'not-an-email',
+        after: '[INVALID_EMAIL]',
+      },
+    ]);
+  });
+
+  it('records enough to undo a step', () => {
+    const transformed = upload.map(([name, email, status]) => [
+      name,
+      email.toLowerCase(),
+      status,
+    ]);
+    const builder = new ChangeLogBuilder(upload.length);
+    builder.recordStep(
+      'transform',
+      { headers, rows: upload },
+      { headers, rows: transformed },
+    );
+
+    const undone = transformed.map((row) => [...row]);
+    for (const change of builder.build().changes) {
+      expect(change.type).toBe('reformatted');
+      expect(undone[change.row - 1][headers.indexOf(change.column!)]).toBe(
+        change.after,
+      );
+      undone[change.row - 1][headers.indexOf(change.column!)] = change.before!;
+    }
+    expect(undone).toEqual(upload);
+  });
+
+  it('stops tracking cells once the data is not a table', () => {
+    const builder = new ChangeLogBuilder(null);
+    builder.recordStep('clean', null, null);
+
+    expect(builder.build()).toEqual({
+      steps: [
+        {
+          step: 0,
+          tool: 'clean',
+          rowsBefore: null,
+          rowsAfter: null,
+          changes: {},
+          note: 'Data is not tabular; cell-level changes are not tracked',
+        },
+      ],
+      changes: [],
+      truncated: false,
+    });
+  });
+
+  it('caps the recorded changes but counts all of them', () => {
+    const rows = Array.from({ length: MAX_RECORDED_CHANGES + 1 }, () => ['']);
+    const builder = new ChangeLogBuilder(rows.length);
+    builder.recordStep(
+      'clean',
+      { headers: ['name'], rows },
+      { headers: ['name'], rows: rows.map(() => ['Unknown']) },
+      'Unknown',
+    );
+    const log = builder.build();
+
+    expect(log.steps[0].changes.replaced).toBe(MAX_RECORDED_CHANGES + 1);
+    expect(log.changes).toHaveLength(MAX_RECORDED_CHANGES);
+    expect(log.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,200 @@
+import type { PipelineTool } from './cleaning-pipeline';
+
+export const CHANGE_TYPES = [
+  'removed_row',
+  'replaced',
+  'reformatted',
+  'tagged',
+] as const;
+export type ChangeType = (typeof CHANGE_TYPES)[number];
+
+export interface CellChange {
+  // Index of the pipeline step that made the change
+  step: number;
+  tool: PipelineTool;
+  type: ChangeType;
+  // 1-based data row of the uploaded file (header and blank lines not counted)
+  row: number;
+  // Unset for removed rows
+  column?: string;
+  before?: string;
+  after?: string;
+}
+
+export interface StepSummary {
+  step: number;
+  tool: PipelineTool;
+  rowsBefore: number | null;
+  rowsAfter: number | null;
+  changes: Partial<Record<ChangeType, number>>;
+  // Set when the data is not tabular, so no cell-level changes could be tracked
+  note?: string;
+}
+
+export interface ChangeLog {
+  steps: StepSummary[];
+  // Capped at MAX_RECORDED_CHANGES; the step summaries count every change
+  changes: CellChange[];
+  truncated: boolean;
+}
+
+export const MAX_RECORDED_CHANGES = 10000;
+
+const TAG_PATTERN = /^\[INVALID_[A-Z_]+\]$/;
+
+/**
+ * Records what each pipeline step changed by comparing the table before and after it. Rows
+ * are tracked back to their position in the uploaded file through every step, including the
+ * ones removed as duplicates, so each change points at the source row it came from.
+ */
+export class ChangeLogBuilder {
+  private readonly steps: StepSummary[] = [];
+  private readonly changes: CellChange[] = [];
+  private truncated = false;
+  // Source row of each current row, or null once the data could not be parsed
+  private sourceRows: number[] | null = null;
+
+  constructor(initialRowCount: number | null) {
+    if (initialRowCount !== null) {
+      this.sourceRows = Array.from(
+        { length: initialRowCount },
+        (_, index) => index + 1,
+      );
+    }
+  }
+
+  /**
+   * `before` and `after` are the parsed tables around the step, null when the data could not
+   * be parsed as CSV. `replacement` is the value the clean step writes for nulls.
+   */
+  recordStep(
+    tool: PipelineTool,
+    before: { headers: string[]; rows: string[][] } | null,
+    after: { headers: string[]; rows: string[][] } | null,
+    replacement?: string,
+  ) {
+    const step = this.steps.length;
+    const summary: StepSummary = {
+      step,
+      tool,
+      rowsBefore: before?.rows.length ?? null,
+      rowsAfter: after?.rows.length ?? null,
+      changes: {},
+    };
+    this.steps.push(summary);
+
+    if (
+      !before ||
+      !after ||
+      !this.sourceRows ||
+      this.sourceRows.length !== before.rows.length
+    ) {
+      summary.note = 'Data is not tabular; cell-level changes are not tracked';
+      // Rows can no longer be traced to the upload, so later steps are not tracked either
+      this.sourceRows = null;
+      return;
+    }
+
+    const kept = matchRows(before.rows, after.rows);
+    const sourceRows = this.sourceRows;
+
+    before.rows.forEach((row, index) => {
+      if (!kept.has(index)) {
+        this.add(summary, {
+          step,
+          tool,
+          type: 'removed_row',
+          row: sourceRows[index],
+          before: row.join(','),
+        });
+      }
+    });
+
+    const survivors = [...kept.entries()].sort((a, b) => a[1] - b[1]);
+    for (const [beforeIndex, afterIndex] of survivors) {
+      const oldRow = before.rows[beforeIndex];
+      const newRow = after.rows[afterIndex];
+
+      after.headers.forEach((column, columnIndex) => {
+        const oldValue = oldRow[columnIndex] ?? '';
+        const newValue = newRow[columnIndex] ?? '';
+        if (oldValue === newValue) return;
+
+        this.add(summary, {
+          step,
+          tool,
+          type: classify(tool, newValue, replacement),
+          row: sourceRows[beforeIndex],
+          column,
+          before: oldValue,
+          after: newValue,
+        });
+      });
+    }
+
+    this.sourceRows = survivors.map(([beforeIndex]) => sourceRows[beforeIndex]);
+  }
+
+  build(): ChangeLog {
+    return {
+      steps: this.steps,
+      changes: this.changes,
+      truncated: this.truncated,
+    };
+  }
+
+  private add(summary: StepSummary, change: CellChange) {
+    summary.changes[change.type] = (summary.changes[change.type] || 0) + 1;
+    if (this.changes.length < MAX_RECORDED_CHANGES) {
+      this.changes.push(change);
+    } else {
+      this.truncated = true;
+    }
+  }
+}
+
+function classify(
+  tool: PipelineTool,
+  after: string,
+  replacement?: string,
+): ChangeType {
+  if (TAG_PATTERN.test(after)) {
+    return 'tagged';
+  }
+  if (tool === 'clean' && after === replacement) {
+    return 'replaced';
+  }
+  return 'reformatted';
+}
+
+/**
+ * Maps each surviving row before the step to its row after it. Steps other than deduplicate
+ * keep every row in place; deduplicate keeps an ordered subset, matched here by content.
+ */
+function matchRows(before: string[][], after: string[][]): Map<number, number> {
+  const kept = new Map<number, number>();
+
+  if (before.length === after.length) {
+    before.forEach((_, index) => kept.set(index, index));
+    return kept;
+  }
+
+  // The kept rows are unchanged and in their original order. Identical rows are
+  // interchangeable, so the first one takes the match.
+  let afterIndex = 0;
+  for (
+    let index = 0;
+    index < before.length && afterIndex < after.length;
+    index++
+  ) {
+    const remaining = before.length - index;
+    const needed = after.length - afterIndex;
+    if (
+      remaining === needed ||
+      before[index].join('\u0000') === after[afterIndex].join('\u0000')
+    ) {
+      kept.set(index, afterIndex++);
+    }
+  }
+  return kept;
+}
@@ -0,0 +1,81 @@
+import {
+  DEFAULT_NULL_TOKENS,
+  PipelineError,
+  parsePipeline,
+  pipelineFromAnalysis,
+  withValidationRules,
+} from './cleaning-pipeline';
+
+describe('parsePipeline', () => {
+  it('reads the steps from an array or a JSON string', () => {
+    const steps = [
+      { tool: 'clean', nullTokens: ['-'], replacement: '' },
+      { tool: 'deduplicate', keyColumns: ['email'], keep: 'last' },
+    ];
+
+    expect(parsePipeline(steps)).toEqual(steps);
+    expect(parsePipeline(JSON.stringify(steps))).toEqual(steps);
+  });
+
+  it('names the step of every problem', () => {
+    expect(() =>
+      parsePipeline([
+        { tool: 'normalize', casing: { name: 'camel' } },
+        { tool: 'deduplicate', keyColumns: [] },
+      ]),
+    ).toThrow(
+      new PipelineError([
+        "step 0.casing.name: Invalid enum value. Expected 'title' | 'upper' | 'lower' | 'none', received 'camel'",
+        'step 1.keyColumns: Array must contain at least 1 element(s)',
+      ]),
+    );
+    expect(() => parsePipeline([{ tool: 'shred' }])).toThrow(
+      /^Invalid pipeline: step 0/,
+    );
+    expect(() => parsePipeline([{ tool: 'clean', extra: true }])).toThrow(
+      /Unrecognized key\(s\) in object: 'extra'/,
+    );
+    expect(() => parsePipeline('[{')).toThrow(/not valid JSON/);
+  });
+});
+
+describe('pipelineFromAnalysis', () => {
+  it('orders the steps the analysis asks for, validating last', () => {
+    expect(
+      pipelineFromAnalysis({
+        needs_validation: true,
+        needs_deduplication: true,
+        duplicate_key_columns: ['id'],
+        needs_normalization: true,
+        needs_cleaning: true,
+        null_tokens: ['?'],
+      }),
+    ).toEqual([
+      { tool: 'clean', nullTokens: [...DEFAULT_NULL_TOKENS, '?'] },
+      { tool: 'normalize' },
+      { tool: 'deduplicate', keyColumns: ['id'] },
+      { tool: 'validate' },
+    ]);
+  });
+
+  it('runs nothing for a failed or missing analysis', () => {
+    expect(pipelineFromAnalysis(null)).toEqual([]);
+    expect(
+      pipelineFromAnalysis({ error: 'timeout', needs_cleaning: true }),
+    ).toEqual([]);
+  });
+});
+
+describe('withValidationRules', () => {
+  it('replaces the validate step, or appends one', () => {
+    const rules = { ruleSet: 'employees' };
+
+    expect(
+      withValidationRules([{ tool: 'validate' }, { tool: 'clean' }], rules),
+    ).toEqual([{ tool: 'validate', ruleSet: 'employees' }, { tool: 'clean' }]);
+    expect(withValidationRules([{ tool: 'clean' }], rules)).toEqual([
+      { tool: 'clean' },
+      { tool: 'validate', ruleSet: 'employees' },
+    ]);
+  });
+});
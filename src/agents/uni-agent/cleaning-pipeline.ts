@@ -0,0 +1,153 @@
+import { z } from 'zod';
+
+export const DEFAULT_NULL_TOKENS = [
+  '',
+  'NULL',
+  'N/A',
+  'NA',
+  'PENDING',
+  'TBD',
+  'undefined',
+  'nil',
+  'none',
+  '--',
+];
+export const DEFAULT_REPLACEMENT = 'Unknown';
+
+const casingSchema = z.enum(['title', 'upper', 'lower', 'none']);
+
+const stepSchema = z.discriminatedUnion('tool', [
+  z
+    .object({
+      tool: z.literal('clean'),
+      // Cells equal to one of these (case-insensitive) are replaced
+      nullTokens: z.array(z.string()).optional(),
+      replacement: z.string().optional(),
+      collapseWhitespace: z.boolean().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      tool: z.literal('transform'),
+      dates: z.boolean().optional(),
+      emails: z.boolean().optional(),
+      phones: z.boolean().optional(),
+      currency: z.boolean().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      tool: z.literal('normalize'),
+      // Per-column casing; without it, name columns are title-cased
+      casing: z.record(casingSchema).optional(),
+      stateCodes: z.boolean().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      tool: z.literal('deduplicate'),
+      // Rows count as duplicates when these columns match; all columns by default
+      keyColumns: z.array(z.string()).nonempty().optional(),
+      keep: z.enum(['first', 'last']).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      tool: z.literal('validate'),
+      // A stored rule set name or an inline definition; column-type checks otherwise
+      ruleSet: z.string().optional(),
+      rules: z.union([z.string(), z.record(z.any())]).optional(),
+    })
+    .strict(),
+]);
+
+export const pipelineSchema = z.array(stepSchema).max(20);
+
+export type PipelineStep = z.infer<typeof stepSchema>;
+export type PipelineTool = PipelineStep['tool'];
+
+export class PipelineError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid pipeline: ${issues.join('; ')}`);
+  }
+}
+
+// Accepts the steps as an array or as a JSON string, e.g. from a multipart form field
+export function parsePipeline(input: unknown): PipelineStep[] {
+  let raw = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch (error) {
+      throw new PipelineError([`not valid JSON: ${error.message}`]);
+    }
+  }
+
+  const parsed = pipelineSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new PipelineError(
+      parsed.error.issues.map((issue) =>
+        issue.path.length > 0
+          ? `step ${issue.path.join('.')}: ${issue.message}`
+          : issue.message,
+      ),
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Builds the pipeline the data analysis asked for, in the order the steps build on each
+ * other: nulls are replaced and values standardized before looking for duplicates, and
+ * validation always runs last.
+ */
+export function pipelineFromAnalysis(analysis: any): PipelineStep[] {
+  const steps: PipelineStep[] = [];
+  if (!analysis || analysis.error) {
+    return steps;
+  }
+
+  if (analysis.needs_cleaning) {
+    steps.push(
+      analysis.null_tokens?.length
+        ? {
+            tool: 'clean',
+            nullTokens: [...DEFAULT_NULL_TOKENS, ...analysis.null_tokens],
+          }
+        : { tool: 'clean' },
+    );
+  }
+  if (analysis.needs_transformation) {
+    steps.push({ tool: 'transform' });
+  }
+  if (analysis.needs_normalization) {
+    steps.push({ tool: 'normalize' });
+  }
+  if (analysis.needs_deduplication) {
+    steps.push(
+      analysis.duplicate_key_columns?.length
+        ? { tool: 'deduplicate', keyColumns: analysis.duplicate_key_columns }
+        : { tool: 'deduplicate' },
+    );
+  }
+  if (analysis.needs_validation) {
+    steps.push({ tool: 'validate' });
+  }
+  return steps;
+}
+
+// Attaches validation rules to the pipeline's validate step(s), appending one when missing
+export function withValidationRules(
+  steps: PipelineStep[],
+  rules: { ruleSet?: string; rules?: string | object },
+): PipelineStep[] {
+  const validate: PipelineStep = {
+    tool: 'validate',
+    ...(rules.ruleSet ? { ruleSet: rules.ruleSet } : {}),
+    ...(rules.rules ? { rules: rules.rules as any } : {}),
+  };
+
+  return steps.some((step) => step.tool === 'validate')
+    ? steps.map((step) => (step.tool === 'validate' ? validate : step))
+    : [...steps, validate];
+}
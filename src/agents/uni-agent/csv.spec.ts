@@ -0,0 +1,131 @@
+import {
+  decodeText,
+  normalizeLocaleNumber,
+  parseCSV,
+  readCsv,
+  sniffDialect,
+} from './csv';
+
+describe('sniffDialect', () => {
+  it('picks the delimiter that splits every record the same way', () => {
+    const semicolons = sniffDialect(
+      'name;city;note\nAna;Porto;likes tea, coffee\nBruno;Braga;none',
+    );
+    expect(semicolons?.delimiter).toBe(';');
+
+    const tabs = sniffDialect('id\tname\n1\tSmith, Jane\n2\tDoe, John');
+    expect(tabs?.delimiter).toBe('\t');
+
+    expect(sniffDialect('Just a sentence.\nAnd another one.')).toBeNull();
+  });
+
+  it('recognises European numbers only when commas do not separate fields', () => {
+    const dialect = sniffDialect(
+      'product;price;stock\nDesk;1.234,50;3\nLamp;19,99;12\nChair;250,00;1.500',
+    );
+    expect(dialect).toMatchObject({
+      delimiter: ';',
+      decimal: ',',
+      thousands: '.',
+    });
+
+    // "1,500" is a thousands group here, never a decimal
+    const us = sniffDialect('product,price\nDesk,"1,234.50"\nLamp,19.99');
+    expect(us).toMatchObject({ delimiter: ',', decimal: '.', thousands: ',' });
+  });
+
+  it('uses single quotes only when they wrap fields', () => {
+    expect(sniffDialect("name|note\n'Ana'|'a|b'\n'Bruno'|'c'")?.quote).toBe(
+      "'",
+    );
+    expect(sniffDialect("name,note\nAna,it's fine\nBruno,ok")?.quote).toBe('"');
+  });
+
+  it('tells a header row from a first data row', () => {
+    expect(
+      sniffDialect('id,name,score\n1001,Ana,3.5\n1002,Bruno,4.25')?.hasHeader,
+    ).toBe(true);
+    expect(
+      sniffDialect('1001,Ana,3.5\n1002,Bruno,4.25\n1003,Carla,2.0')?.hasHeader,
+    ).toBe(false);
+  });
+});
+
+describe('decodeText', () => {
+  it('follows a byte order mark', () => {
+    const utf16 = Buffer.concat([
+      Buffer.from([0xff, 0xfe]),
+      Buffer.from('a;b\n1;2', 'utf16le'),
+    ]);
+    expect(decodeText(utf16)).toEqual({
+      text: 'a;b\n1;2',
+      encoding: 'utf-16le',
+      bom: true,
+    });
+  });
+
+  it('reads invalid UTF-8 as Windows-1252', () => {
+    // "Café €5" as a Windows spreadsheet export writes it
+    const buffer = Buffer.from([0x43, 0x61, 0x66, 0xe9, 0x20, 0x80, 0x35]);
+    expect(decodeText(buffer)).toEqual({
+      text: 'Café €5',
+      encoding: 'windows-1252',
+      bom: false,
+    });
+  });
+});
+
+describe('readCsv', () => {
+  it('rewrites an upload as comma-separated, dot-decimal CSV', () => {
+    const { text, dialect } = readCsv(
+      Buffer.from(
+        '\ufeffproduct;price\nDesk, oak;1.234,50\nLamp;19,99',
+        'utf8',
+      ),
+    );
+
+    expect(text).toBe('product,price\n"Desk, oak",1234.50\nLamp,19.99');
+    expect(dialect).toMatchObject({ delimiter: ';', decimal: ',', bom: true });
+  });
+
+  it('names the columns of a headerless file', () => {
+    const { text } = readCsv(
+      Buffer.from('1001,Ana,3.5\n1002,Bruno,4.25\n1003,Carla,2.0'),
+    );
+    expect(text.split('\n')[0]).toBe('column_1,column_2,column_3');
+    expect(text.split('\n')).toHaveLength(4);
+  });
+
+  it('keeps text that is not delimited as it is', () => {
+    expect(readCsv(Buffer.from('Meeting notes'))).toEqual({
+      text: 'Meeting notes',
+      dialect: null,
+    });
+  });
+});
+
+describe('parseCSV', () => {
+  it('parses quoted fields across lines and pads short rows', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(parseCSV('Name,Note\nAna,"line one\nline two"\nBruno')).toEqual({
+      headers: ['name', 'note'],
+      rows: [
+        ['Ana', 'line one\nline two'],
+        ['Bruno', ''],
+      ],
+    });
+    jest.restoreAllMocks();
+  });
+});
+
+describe('normalizeLocaleNumber', () => {
+  const european = { decimal: ',', thousands: '.' } as const;
+
+  it('rewrites numbers of the format and rejects anything else', () => {
+    expect(normalizeLocaleNumber('1.234,50', european)).toBe('1234.50');
+    expect(normalizeLocaleNumber('-0,5', european)).toBe('-0.5');
+    expect(normalizeLocaleNumber('1.5', european)).toBeNull();
+    expect(normalizeLocaleNumber('12 kg', european)).toBeNull();
+  });
+});
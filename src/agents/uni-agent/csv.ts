@@ -0,0 +1,523 @@
+export const TEXT_ENCODINGS = [
+  'utf-8',
+  'utf-16le',
+  'utf-16be',
+  'windows-1252',
+] as const;
+export type TextEncoding = (typeof TEXT_ENCODINGS)[number];
+
+export interface CsvDialect {
+  delimiter: string;
+  quote: string;
+  hasHeader: boolean;
+  // Number format of the file, e.g. "1.234,56" has decimal "," and thousands "."
+  decimal: '.' | ',';
+  thousands: string | null;
+  encoding: TextEncoding;
+  bom: boolean;
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export const DEFAULT_DIALECT: CsvDialect = {
+  delimiter: ',',
+  quote: '"',
+  hasHeader: true,
+  decimal: '.',
+  thousands: null,
+  encoding: 'utf-8',
+  bom: false,
+};
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const SNIFF_SAMPLE_CHARS = 64 * 1024;
+const SNIFF_SAMPLE_RECORDS = 50;
+
+// Windows-1252 differs from Latin-1 only in 0x80-0x9F; unassigned bytes keep their code point
+const WINDOWS_1252_HIGH = [
+  0x20ac, 0x81, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030,
+  0x0160, 0x2039, 0x0152, 0x8d, 0x017d, 0x8f, 0x90, 0x2018, 0x2019, 0x201c,
+  0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x9d,
+  0x017e, 0x0178,
+];
+
+// ===== DECODING =====
+
+/**
+ * Decodes an uploaded file, going by its byte order mark when there is one. Without one,
+ * UTF-16 is recognised by its zero bytes, and anything that is not valid UTF-8 is read as
+ * Windows-1252, the encoding spreadsheet exports on Western European Windows machines use.
+ */
+export function decodeText(buffer: Buffer): {
+  text: string;
+  encoding: TextEncoding;
+  bom: boolean;
+} {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return {
+      text: buffer.subarray(3).toString('utf8'),
+      encoding: 'utf-8',
+      bom: true,
+    };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return {
+      text: new TextDecoder('utf-16le').decode(buffer.subarray(2)),
+      encoding: 'utf-16le',
+      bom: true,
+    };
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return {
+      text: new TextDecoder('utf-16be').decode(buffer.subarray(2)),
+      encoding: 'utf-16be',
+      bom: true,
+    };
+  }
+
+  const utf16 = detectUtf16(buffer);
+  if (utf16) {
+    return {
+      text: new TextDecoder(utf16).decode(buffer),
+      encoding: utf16,
+      bom: false,
+    };
+  }
+
+  try {
+    return {
+      text: new TextDecoder('utf-8', { fatal: true }).decode(buffer),
+      encoding: 'utf-8',
+      bom: false,
+    };
+  } catch {
+    return {
+      text: decodeWindows1252(buffer),
+      encoding: 'windows-1252',
+      bom: false,
+    };
+  }
+}
+
+// Mostly-ASCII UTF-16 has a zero byte in every other position
+function detectUtf16(buffer: Buffer): 'utf-16le' | 'utf-16be' | null {
+  const length = Math.min(buffer.length, 4096) & ~1;
+  if (length < 4) {
+    return null;
+  }
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let index = 0; index < length; index += 2) {
+    if (buffer[index] === 0) evenZeros++;
+    if (buffer[index + 1] === 0) oddZeros++;
+  }
+
+  const pairs = length / 2;
+  if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) return 'utf-16le';
+  if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) return 'utf-16be';
+  return null;
+}
+
+function decodeWindows1252(buffer: Buffer): string {
+  let text = '';
+  for (const byte of buffer) {
+    text += String.fromCharCode(
+      byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_HIGH[byte - 0x80] : byte,
+    );
+  }
+  return text;
+}
+
+// ===== PARSING =====
+
+/**
+ * Splits delimited text into records. A quote only opens a field at its start, doubled quotes
+ * inside a quoted field are literal, and quoted fields may span lines. Blank lines are skipped.
+ */
+export function splitRecords(
+  text: string,
+  delimiter: string,
+  quote = '"',
+  limit = Infinity,
+): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoted = false;
+
+  const endField = () => {
+    record.push(quoted ? field : field.trim());
+    field = '';
+    quoted = false;
+  };
+  const endRecord = () => {
+    endField();
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record);
+    }
+    record = [];
+  };
+
+  for (let i = 0; i < text.length && records.length < limit; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === quote && text[i + 1] === quote) {
+        field += quote;
+        i++;
+      } else if (char === quote) {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === quote && field.trim() === '' && !quoted) {
+      inQuotes = true;
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+    } else if (!quoted) {
+      field += char;
+    }
+  }
+  if (records.length < limit && (field !== '' || record.length > 0)) {
+    endRecord();
+  }
+  return records;
+}
+
+/**
+ * Parses CSV into lower-cased headers and rows padded or truncated to the header width. The
+ * delimiter and quote character are sniffed unless a dialect is given; the first record is
+ * always taken as the header, since uploads are rewritten with one at ingestion.
+ */
+export function parseCSV(
+  data: string,
+  dialect?: Pick<CsvDialect, 'delimiter' | 'quote'>,
+): CsvTable {
+  // Data passed inline through a plan can arrive with escaped line breaks only
+  const text =
+    !/[\r\n]/.test(data) && data.includes('\\n')
+      ? data.replace(/\\n/g, '\n')
+      : data;
+  const { delimiter, quote } = dialect ?? sniffDialect(text) ?? DEFAULT_DIALECT;
+  const records = splitRecords(text, delimiter, quote);
+
+  if (records.length < 2) {
+    throw new Error('Invalid CSV: needs at least header and one row');
+  }
+
+  const headers = records[0].map((header) => header.toLowerCase());
+  const headerCount = headers.length;
+
+  const rows = records.slice(1).map((cells, idx) => {
+    // Pad row if it has fewer cells than headers
+    while (cells.length < headerCount) {
+      console.warn(
+        `Row ${idx + 2} has ${cells.length} cells but expected ${headerCount}. Padding with empty string.`,
+      );
+      cells.push('');
+    }
+
+    // Truncate row if it has more cells than headers
+    if (cells.length > headerCount) {
+      console.warn(
+        `Row ${idx + 2} has ${cells.length} cells but expected ${headerCount}. Truncating from ${cells.length} to ${headerCount}.`,
+      );
+      console.warn(`Extra values: ${cells.slice(headerCount).join(', ')}`);
+      return cells.slice(0, headerCount);
+    }
+
+    return cells;
+  });
+
+  return { headers, rows };
+}
+
+// parseCSV for data that may not be tabular: null instead of an error
+export function tryParseCSV(data: string): CsvTable | null {
+  try {
+    return parseCSV(data);
+  } catch {
+    return null;
+  }
+}
+
+// Quotes a value when it would otherwise break the CSV row. Line breaks become spaces since
+// the tools and the chunker read one record per line.
+function csvValue(value: string): string {
+  const flat = value.replace(/\r?\n|\r/g, ' ');
+  return /[",]/.test(flat) || flat !== flat.trim()
+    ? `"${flat.replace(/"/g, '""')}"`
+    : flat;
+}
+
+export function toCsv(headers: string[], rows: string[][]): string {
+  return [headers, ...rows]
+    .map((row) =>
+      headers.map((_, index) => csvValue(row[index] ?? '')).join(','),
+    )
+    .join('\n');
+}
+
+// ===== DIALECT SNIFFING =====
+
+/**
+ * Guesses how delimited text is written from a sample of its first records: the delimiter
+ * that splits them into the most consistent number of columns, the quote character, whether
+ * the first record is a header and the number format. Null when no candidate delimiter splits
+ * the text into columns. Encoding fields are left at their defaults; see `readCsv`.
+ */
+export function sniffDialect(
+  text: string,
+  overrides: Partial<Pick<CsvDialect, 'delimiter'>> = {},
+): CsvDialect | null {
+  const sample = sampleOf(text);
+  const delimiter = overrides.delimiter ?? sniffDelimiter(sample);
+  if (!delimiter) {
+    return null;
+  }
+
+  const quote = sniffQuote(sample, delimiter);
+  const records = splitRecords(sample, delimiter, quote, SNIFF_SAMPLE_RECORDS);
+  const { decimal, thousands } = sniffNumberFormat(records.slice(1), delimiter);
+
+  return {
+    ...DEFAULT_DIALECT,
+    delimiter,
+    quote,
+    hasHeader: sniffHeader(records),
+    decimal,
+    thousands,
+  };
+}
+
+// Whole lines from the start of the text, so a cut-off last record does not skew the counts
+function sampleOf(text: string): string {
+  if (text.length <= SNIFF_SAMPLE_CHARS) {
+    return text;
+  }
+  const sample = text.slice(0, SNIFF_SAMPLE_CHARS);
+  const lastBreak = sample.lastIndexOf('\n');
+  return lastBreak > 0 ? sample.slice(0, lastBreak) : sample;
+}
+
+function sniffDelimiter(sample: string): string | null {
+  let best: { delimiter: string; consistency: number; columns: number } | null =
+    null;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const records = splitRecords(
+      sample,
+      delimiter,
+      sniffQuote(sample, delimiter),
+      SNIFF_SAMPLE_RECORDS,
+    );
+    if (records.length === 0) continue;
+
+    const frequencies = new Map<number, number>();
+    for (const record of records) {
+      frequencies.set(record.length, (frequencies.get(record.length) || 0) + 1);
+    }
+    const [columns, count] = [...frequencies.entries()].sort(
+      (a, b) => b[1] - a[1] || b[0] - a[0],
+    )[0];
+    if (columns < 2) continue;
+
+    const consistency = count / records.length;
+    if (
+      !best ||
+      consistency > best.consistency ||
+      (consistency === best.consistency && columns > best.columns)
+    ) {
+      best = { delimiter, consistency, columns };
+    }
+  }
+  return best?.delimiter ?? null;
+}
+
+// Single quotes only when they, and not double quotes, wrap fields
+function sniffQuote(sample: string, delimiter: string): string {
+  const boundary = escapeRegExp(delimiter);
+  const count = (quote: string) =>
+    (
+      sample.match(
+        new RegExp(
+          `(?:^|${boundary})[ \\t]*${quote}[^${quote}\\r\\n]*${quote}[ \\t]*(?=${boundary}|\\r?$)`,
+          'gm',
+        ),
+      ) || []
+    ).length;
+
+  return count("'") > count('"') ? "'" : '"';
+}
+
+const NUMBER_LIKE = /^[-+]?[\d.,\s'\u00a0]*\d[\d.,\s'\u00a0]*$/;
+
+/**
+ * The first record is a header when it does not look like the records below it: a column of
+ * numbers under a non-numeric cell, or a column of fixed-width values under a cell of another
+ * width, counts for it. Without evidence either way, a header is assumed.
+ */
+function sniffHeader(records: string[][]): boolean {
+  if (records.length < 2) {
+    return true;
+  }
+
+  const [first, ...rest] = records;
+  let votes = 0;
+  first.forEach((cell, column) => {
+    const values = rest
+      .map((record) => record[column])
+      .filter((value) => value !== undefined && value.trim() !== '');
+    if (values.length === 0) return;
+
+    if (values.every((value) => NUMBER_LIKE.test(value))) {
+      votes += NUMBER_LIKE.test(cell) ? -1 : 1;
+      return;
+    }
+
+    const lengths = new Set(values.map((value) => value.length));
+    if (lengths.size === 1) {
+      votes += cell.length === values[0].length ? -1 : 1;
+    }
+  });
+  return votes >= 0;
+}
+
+/**
+ * Decimal commas are only considered when commas do not separate fields. A number with a
+ * single separator followed by exactly three digits is ambiguous and ignored; anything else
+ * ("1,5", "1.234,56", "0.25") decides the format by majority.
+ */
+function sniffNumberFormat(
+  rows: string[][],
+  delimiter: string,
+): Pick<CsvDialect, 'decimal' | 'thousands'> {
+  let commaDecimals = 0;
+  let dotDecimals = 0;
+  const separators = { '.': 0, ',': 0, ' ': 0, "'": 0 };
+
+  for (const row of rows) {
+    for (const raw of row) {
+      const value = raw.trim().replace(/\u00a0/g, ' ');
+      if (!NUMBER_LIKE.test(value)) continue;
+
+      if (/^[-+]?\d+,(?:\d{1,2}|\d{4,})$/.test(value)) commaDecimals++;
+      else if (/^[-+]?\d{1,3}(?:[. ']\d{3})+,\d+$/.test(value)) commaDecimals++;
+      else if (/^[-+]?\d+\.(?:\d{1,2}|\d{4,})$/.test(value)) dotDecimals++;
+      else if (/^[-+]?\d{1,3}(?:[, ']\d{3})+\.\d+$/.test(value)) dotDecimals++;
+
+      const grouping = value.match(/^[-+]?\d{1,3}([.,' ])\d{3}(?:\1\d{3})*/);
+      if (grouping) separators[grouping[1]]++;
+    }
+  }
+
+  const decimal = delimiter !== ',' && commaDecimals > dotDecimals ? ',' : '.';
+  const thousands =
+    (Object.keys(separators) as (keyof typeof separators)[])
+      .filter((separator) => separator !== decimal)
+      .sort((a, b) => separators[b] - separators[a])
+      .find((separator) => separators[separator] > 0) ?? null;
+
+  return { decimal, thousands };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ===== NUMBERS =====
+
+/**
+ * Rewrites a number written in the dialect's format as a plain dot-decimal number, keeping its
+ * digits as they are: "1.234,50" with decimal "," and thousands "." becomes "1234.50". Returns
+ * null for anything that is not a number in that format.
+ */
+export function normalizeLocaleNumber(
+  value: string,
+  format: Pick<CsvDialect, 'decimal' | 'thousands'>,
+): string | null {
+  let text = value.trim().replace(/\u00a0/g, ' ');
+  if (format.thousands) {
+    const group = escapeRegExp(format.thousands);
+    const decimal = escapeRegExp(format.decimal);
+    const grouped = new RegExp(
+      `^[-+]?\\d{1,3}(?:${group}\\d{3})+(?:${decimal}\\d+)?$`,
+    );
+    if (grouped.test(text)) {
+      text = text.split(format.thousands).join('');
+    }
+  }
+  if (format.decimal === ',') {
+    if (text.includes('.')) return null;
+    text = text.replace(',', '.');
+  }
+  return /^[-+]?(?:\d+\.?\d*|\.\d+)$/.test(text) ? text : null;
+}
+
+export function parseLocaleNumber(
+  value: string,
+  format: Pick<CsvDialect, 'decimal' | 'thousands'>,
+): number | null {
+  const normalized = normalizeLocaleNumber(value, format);
+  return normalized === null ? null : Number(normalized);
+}
+
+// ===== INGESTION =====
+
+/**
+ * Decodes and sniffs an uploaded delimited file and rewrites it as the comma-separated,
+ * dot-decimal CSV with a header row the tools expect. Headerless files get `column_N` headers.
+ * The dialect describes the file as uploaded; it is null when the text is not delimited.
+ */
+export function readCsv(
+  buffer: Buffer,
+  overrides: Partial<Pick<CsvDialect, 'delimiter'>> = {},
+): { text: string; dialect: CsvDialect | null } {
+  const { text, encoding, bom } = decodeText(buffer);
+  const sniffed = sniffDialect(text, overrides);
+  if (!sniffed) {
+    return { text, dialect: null };
+  }
+
+  const dialect: CsvDialect = { ...sniffed, encoding, bom };
+  // Rewritten even when already comma-separated, so quoted line breaks are flattened too
+  const records = splitRecords(text, dialect.delimiter, dialect.quote);
+  const width = records.reduce(
+    (max, record) => Math.max(max, record.length),
+    0,
+  );
+  const headers = dialect.hasHeader
+    ? Array.from(
+        { length: width },
+        (_, index) => records[0][index]?.trim() || `column_${index + 1}`,
+      )
+    : Array.from({ length: width }, (_, index) => `column_${index + 1}`);
+  const rows = dialect.hasHeader ? records.slice(1) : records;
+
+  return {
+    text: toCsv(
+      headers,
+      dialect.decimal === ','
+        ? rows.map((row) => row.map((cell) => canonicalNumber(cell, dialect)))
+        : rows,
+    ),
+    dialect,
+  };
+}
+
+function canonicalNumber(value: string, dialect: CsvDialect): string {
+  if (!NUMBER_LIKE.test(value.trim())) {
+    return value;
+  }
+  return normalizeLocaleNumber(value, dialect) ?? value;
+}
@@ -0,0 +1,95 @@
+import {
+  PROFILE_TOP_VALUES,
+  parseDateValue,
+  parseNumericValue,
+  profileData,
+} from './data-profiler';
+import { inferSchema } from './schema-inference';
+
+describe('profileData', () => {
+  const headers = ['name', 'salary', 'hired'];
+  const rows = [
+    ['Ana', '$1,000', '2021-01-01'],
+    ['Bruno', '2000', '01/15/2021'],
+    ['Unknown', '3000', 'N/A'],
+    ['Carla', '[INVALID_RANGE]', '2021-12-31'],
+    ['Ana', '$1,000', '2021-01-01'],
+  ];
+
+  it('counts nulls, unknowns, invalid tags and duplicate rows', () => {
+    const profile = profileData(headers, rows);
+
+    expect(profile).toMatchObject({
+      rowCount: 5,
+      columnCount: 3,
+      duplicateRows: 1,
+      invalidMarkers: { RANGE: 1 },
+    });
+    expect(profile.columns[0]).toMatchObject({
+      unknowns: 1,
+      nulls: 0,
+      nullRate: 0.2,
+      distinct: 3,
+      topValues: [
+        { value: 'Ana', count: 2 },
+        { value: 'Bruno', count: 1 },
+        { value: 'Carla', count: 1 },
+      ],
+      length: { min: 3, max: 5, mean: 4 },
+    });
+  });
+
+  it('describes numeric and date columns by their values', () => {
+    const [, salary, hired] = profileData(headers, rows).columns;
+
+    expect(salary.type).toBe('currency');
+    expect(salary.numeric).toEqual({
+      count: 4,
+      min: 1000,
+      max: 3000,
+      mean: 1750,
+      median: 1500,
+      stddev: 957.4271,
+      percentiles: { p5: 1000, p25: 1000, p75: 2250, p95: 2850 },
+    });
+    expect(hired.dates).toEqual({
+      count: 4,
+      min: '2021-01-01',
+      max: '2021-12-31',
+      spanDays: 364,
+    });
+  });
+
+  it('follows the schema over the values', () => {
+    const schema = inferSchema(headers, rows);
+    schema.columns[1].type = 'text';
+
+    const [, salary] = profileData(headers, rows, schema).columns;
+    expect(salary.numeric).toBeUndefined();
+    expect(salary.length).toEqual({ min: 4, max: 6, mean: 5 });
+  });
+
+  it('keeps the most frequent values only', () => {
+    const many = Array.from({ length: PROFILE_TOP_VALUES + 5 }, (_, index) => [
+      `value ${index}`,
+    ]);
+    expect(profileData(['note'], many).columns[0].topValues).toHaveLength(
+      PROFILE_TOP_VALUES,
+    );
+  });
+});
+
+describe('value parsing', () => {
+  it('reads numbers with currency and thousands separators', () => {
+    expect(parseNumericValue('€ 1,234.50')).toBe(1234.5);
+    expect(parseNumericValue('250 USD')).toBe(250);
+    expect(parseNumericValue('about 5')).toBeNull();
+  });
+
+  it('reads dates the way the transform tool writes them', () => {
+    expect(parseDateValue('03/04/2021')).toBe('2021-03-04');
+    expect(parseDateValue('03.04.2021')).toBe('2021-04-03');
+    expect(parseDateValue('13/04/2021')).toBe('2021-04-13');
+    expect(parseDateValue('2021-02-30')).toBeNull();
+  });
+});
@@ -0,0 +1,259 @@
+import {
+  DataSchema,
+  SemanticType,
+  isMissingValue,
+  isNumericValue,
+  resolveColumnTypes,
+} from './schema-inference';
+
+export const PROFILE_TOP_VALUES = 10;
+
+const NUMERIC_TYPES: SemanticType[] = ['integer', 'decimal', 'currency'];
+const INVALID_TAG = /^\[INVALID_([A-Z_]+)\]$/;
+
+export interface NumericProfile {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  stddev: number;
+  percentiles: { p5: number; p25: number; p75: number; p95: number };
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: SemanticType;
+  // Empty cells and null tokens such as "N/A"
+  nulls: number;
+  // Cells the clean step replaced with "Unknown"
+  unknowns: number;
+  // Share of rows that are null or unknown, 0-1
+  nullRate: number;
+  // Cells tagged by validation, by tag, e.g. { EMAIL: 2 }
+  invalid: Record<string, number>;
+  distinct: number;
+  topValues: { value: string; count: number }[];
+  // Numeric columns only
+  numeric?: NumericProfile;
+  // Date columns only, as ISO dates
+  dates?: { count: number; min: string; max: string; spanDays: number };
+  // Non-numeric columns only
+  length?: { min: number; max: number; mean: number };
+}
+
+export interface DataProfile {
+  rowCount: number;
+  columnCount: number;
+  // Rows identical to an earlier row
+  duplicateRows: number;
+  // Invalid tags over all columns
+  invalidMarkers: Record<string, number>;
+  columns: ColumnProfile[];
+}
+
+/**
+ * Profiles a table column by column without the LLM. Column types come from the schema when
+ * given, so numeric and date statistics follow the user's corrections.
+ */
+export function profileData(
+  headers: string[],
+  rows: string[][],
+  schema?: DataSchema | null,
+): DataProfile {
+  const types = resolveColumnTypes(headers, rows, schema);
+  const columns = headers.map((name, index) =>
+    profileColumn(
+      name,
+      types[index],
+      rows.map((row) => (row[index] ?? '').trim()),
+    ),
+  );
+
+  const invalidMarkers: Record<string, number> = {};
+  for (const column of columns) {
+    for (const [tag, count] of Object.entries(column.invalid)) {
+      invalidMarkers[tag] = (invalidMarkers[tag] || 0) + count;
+    }
+  }
+
+  const seen = new Set<string>();
+  let duplicateRows = 0;
+  for (const row of rows) {
+    const key = JSON.stringify(row.map((cell) => cell.trim()));
+    if (seen.has(key)) {
+      duplicateRows++;
+    } else {
+      seen.add(key);
+    }
+  }
+
+  return {
+    rowCount: rows.length,
+    columnCount: headers.length,
+    duplicateRows,
+    invalidMarkers,
+    columns,
+  };
+}
+
+function profileColumn(
+  name: string,
+  type: SemanticType,
+  cells: string[],
+): ColumnProfile {
+  let nulls = 0;
+  let unknowns = 0;
+  const invalid: Record<string, number> = {};
+  const counts = new Map<string, number>();
+
+  for (const cell of cells) {
+    const tag = cell.match(INVALID_TAG);
+    if (tag) {
+      invalid[tag[1]] = (invalid[tag[1]] || 0) + 1;
+    } else if (cell.toLowerCase() === 'unknown') {
+      unknowns++;
+    } else if (isMissingValue(cell)) {
+      nulls++;
+    } else {
+      counts.set(cell, (counts.get(cell) || 0) + 1);
+    }
+  }
+
+  const values = [...counts.entries()].flatMap(([value, count]) =>
+    Array<string>(count).fill(value),
+  );
+  const profile: ColumnProfile = {
+    name,
+    type,
+    nulls,
+    unknowns,
+    nullRate: cells.length > 0 ? round((nulls + unknowns) / cells.length) : 0,
+    invalid,
+    distinct: counts.size,
+    topValues: [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, PROFILE_TOP_VALUES)
+      .map(([value, count]) => ({ value, count })),
+  };
+
+  if (NUMERIC_TYPES.includes(type)) {
+    const numbers = values
+      .map(parseNumericValue)
+      .filter((value): value is number => value !== null);
+    if (numbers.length > 0) {
+      profile.numeric = describeNumbers(numbers);
+    }
+  } else {
+    profile.length = describeLengths(values);
+  }
+
+  if (type === 'date') {
+    const dates = values
+      .map(parseDateValue)
+      .filter((value): value is string => value !== null)
+      .sort();
+    if (dates.length > 0) {
+      const min = dates[0];
+      const max = dates[dates.length - 1];
+      profile.dates = {
+        count: dates.length,
+        min,
+        max,
+        spanDays: Math.round((Date.parse(max) - Date.parse(min)) / 86400000),
+      };
+    }
+  }
+
+  return profile;
+}
+
+function describeNumbers(numbers: number[]): NumericProfile {
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const count = sorted.length;
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / count;
+  // Sample standard deviation; zero for a single value
+  const variance =
+    count > 1
+      ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+        (count - 1)
+      : 0;
+
+  return {
+    count,
+    min: sorted[0],
+    max: sorted[count - 1],
+    mean: round(mean),
+    median: round(percentile(sorted, 0.5)),
+    stddev: round(Math.sqrt(variance)),
+    percentiles: {
+      p5: round(percentile(sorted, 0.05)),
+      p25: round(percentile(sorted, 0.25)),
+      p75: round(percentile(sorted, 0.75)),
+      p95: round(percentile(sorted, 0.95)),
+    },
+  };
+}
+
+// Linear interpolation between the closest ranks
+function percentile(sorted: number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function describeLengths(
+  values: string[],
+): { min: number; max: number; mean: number } | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  let min = Infinity;
+  let max = 0;
+  let total = 0;
+  for (const value of values) {
+    min = Math.min(min, value.length);
+    max = Math.max(max, value.length);
+    total += value.length;
+  }
+  return { min, max, mean: round(total / values.length) };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// Numbers as written in the data, with currency symbols or codes and thousands separators
+export function parseNumericValue(value: string): number | null {
+  const stripped = value.trim().replace(/[$€£¥,\s]|[A-Z]{3}$/gi, '');
+  return isNumericValue(stripped) ? parseFloat(stripped) : null;
+}
+
+/**
+ * ISO date (YYYY-MM-DD) of a date cell. Follows the transform tool: slashes are month first,
+ * dashes and dots day first, and the other order is tried when the first cannot be a date.
+ */
+export function parseDateValue(value: string): string | null {
+  let match = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ].*)?$/);
+  if (match) {
+    return isoDate(+match[1], +match[2], +match[3]);
+  }
+
+  match = value.match(/^(\d{1,2})([/.-])(\d{1,2})\2(\d{4})$/);
+  if (match) {
+    const [, first, separator, second, year] = match;
+    const [month, day] =
+      separator === '/' ? [+first, +second] : [+second, +first];
+    return isoDate(+year, month, day) ?? isoDate(+year, day, month);
+  }
+  return null;
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
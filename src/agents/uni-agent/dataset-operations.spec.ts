@@ -0,0 +1,160 @@
+import {
+  DatasetOperationError,
+  appendParamsSchema,
+  appendTables,
+  joinTables,
+  projectTable,
+} from './dataset-operations';
+
+const january = {
+  headers: ['Name', 'Email', 'Team'],
+  rows: [
+    ['Ana', 'ana@example.com', 'HR'],
+    ['Bruno', 'bruno@example.com', 'IT'],
+  ],
+};
+const february = {
+  headers: ['email', 'name', 'phone'],
+  rows: [['carla@example.com', 'Carla', '555-0100']],
+};
+
+describe('appendTables', () => {
+  it('aligns columns by name and reports the ones each table lacked', () => {
+    const { table, missingColumns } = appendTables(
+      [
+        { name: 'january.csv', table: january },
+        { name: 'february.csv', table: february },
+      ],
+      { columns: 'union', sourceColumn: 'Source' },
+    );
+
+    expect(table).toEqual({
+      headers: ['name', 'email', 'team', 'phone', 'source'],
+      rows: [
+        ['Ana', 'ana@example.com', 'HR', '', 'january.csv'],
+        ['Bruno', 'bruno@example.com', 'IT', '', 'january.csv'],
+        ['Carla', 'carla@example.com', '', '555-0100', 'february.csv'],
+      ],
+    });
+    expect(missingColumns).toEqual([['phone'], ['team']]);
+  });
+
+  it('keeps only the shared columns of an intersection', () => {
+    const { table } = appendTables(
+      [
+        { name: 'january.csv', table: january },
+        { name: 'february.csv', table: february },
+      ],
+      { columns: 'intersection' },
+    );
+
+    expect(table.headers).toEqual(['name', 'email']);
+    expect(() =>
+      appendTables(
+        [
+          { name: 'a.csv', table: { headers: ['x'], rows: [] } },
+          { name: 'b.csv', table: { headers: ['y'], rows: [] } },
+        ],
+        { columns: 'intersection' },
+      ),
+    ).toThrow(
+      new DatasetOperationError(['the records have no columns in common']),
+    );
+    expect(() =>
+      appendTables([{ name: 'january.csv', table: january }], {
+        columns: 'union',
+        sourceColumn: 'team',
+      }),
+    ).toThrow('source column "team" is already a column of the data');
+  });
+
+  it('needs at least two records', () => {
+    expect(appendParamsSchema.safeParse({ filenames: ['a.csv'] }).success).toBe(
+      false,
+    );
+  });
+});
+
+describe('joinTables', () => {
+  const people = {
+    headers: ['id', 'name', 'dept_id'],
+    rows: [
+      ['1', 'Ana', 'd1'],
+      ['2', 'Bruno', 'd2'],
+      ['3', 'Carla', 'N/A'],
+    ],
+  };
+  const departments = {
+    headers: ['id', 'name'],
+    rows: [
+      ['d1 ', 'Sales'],
+      ['d3', 'Legal'],
+    ],
+  };
+  const on = [{ left: 'dept_id', right: 'id' }];
+
+  it('matches trimmed keys and suffixes the right columns whose name is taken', () => {
+    expect(
+      joinTables(people, departments, { on, type: 'inner', suffix: '_dept' }),
+    ).toEqual({
+      headers: ['id', 'name', 'dept_id', 'name_dept'],
+      rows: [['1', 'Ana', 'd1', 'Sales']],
+    });
+  });
+
+  it('keeps unmatched rows of a full join, missing keys never matching', () => {
+    const { rows } = joinTables(people, departments, {
+      on,
+      type: 'full',
+      suffix: '_right',
+    });
+
+    expect(rows).toEqual([
+      ['1', 'Ana', 'd1', 'Sales'],
+      ['2', 'Bruno', 'd2', ''],
+      ['3', 'Carla', 'N/A', ''],
+      ['', '', 'd3', 'Legal'],
+    ]);
+  });
+
+  it('names unknown key columns', () => {
+    expect(() =>
+      joinTables(people, departments, {
+        on: ['team'],
+        type: 'inner',
+        suffix: '_right',
+      }),
+    ).toThrow(
+      new DatasetOperationError([
+        'unknown left key column "team"; columns are: id, name, dept_id',
+        'unknown right key column "team"; columns are: id, name',
+      ]),
+    );
+  });
+});
+
+describe('projectTable', () => {
+  it('keeps, orders and renames columns', () => {
+    expect(
+      projectTable(january, {
+        columns: ['team', 'name'],
+        rename: { Team: 'Department' },
+      }),
+    ).toEqual({
+      headers: ['department', 'Name'],
+      rows: [
+        ['HR', 'Ana'],
+        ['IT', 'Bruno'],
+      ],
+    });
+  });
+
+  it('refuses renames of dropped columns and duplicate names', () => {
+    expect(() =>
+      projectTable(january, { columns: ['name'], rename: { team: 'dept' } }),
+    ).toThrow('column "team" is renamed but not kept');
+    expect(() => projectTable(january, { rename: { team: 'name' } })).toThrow(
+      'column "name" would appear twice',
+    );
+  });
+});
@@ -0,0 +1,313 @@
+import { z } from 'zod';
+import type { CsvTable } from './csv';
+import { isMissingValue } from './schema-inference';
+import { MAX_JOIN_ROWS } from './sql-query';
+
+export const DATASET_OPERATIONS = ['append', 'join', 'project'] as const;
+export type DatasetOperation = (typeof DATASET_OPERATIONS)[number];
+
+export const JOIN_TYPES = ['inner', 'left', 'full'] as const;
+export type JoinType = (typeof JOIN_TYPES)[number];
+
+// File name of the derived record; a name built from the parents' by default
+const outputFilename = z.string().min(1).max(50).optional();
+
+export const appendParamsSchema = z
+  .object({
+    // Records to append, ids first, then filenames, each in the order given
+    recordIds: z.array(z.string().min(1)).optional(),
+    filenames: z.array(z.string().min(1)).optional(),
+    // `union` keeps every column, filling the gaps with empty cells; `intersection` keeps the shared ones
+    columns: z.enum(['union', 'intersection']).default('union'),
+    // Adds a column with the file each row came from
+    sourceColumn: z.string().min(1).optional(),
+    outputFilename,
+  })
+  .refine(
+    (params) =>
+      (params.recordIds?.length ?? 0) + (params.filenames?.length ?? 0) >= 2,
+    { message: 'At least two records are required (recordIds, filenames)' },
+  );
+
+// A key column both records share, or its name on each side
+const joinKeySchema = z.union([
+  z.string().min(1),
+  z.object({ left: z.string().min(1), right: z.string().min(1) }),
+]);
+
+export const joinParamsSchema = z
+  .object({
+    leftRecordId: z.string().optional(),
+    leftFilename: z.string().optional(),
+    rightRecordId: z.string().optional(),
+    rightFilename: z.string().optional(),
+    on: z.union([joinKeySchema, z.array(joinKeySchema).min(1)]),
+    type: z.enum(JOIN_TYPES).default('inner'),
+    // Added to right-hand columns whose name the left record already uses
+    suffix: z.string().min(1).default('_right'),
+    outputFilename,
+  })
+  .refine((params) => !!(params.leftRecordId || params.leftFilename), {
+    message: 'leftRecordId or leftFilename is required',
+  })
+  .refine((params) => !!(params.rightRecordId || params.rightFilename), {
+    message: 'rightRecordId or rightFilename is required',
+  });
+
+export const projectParamsSchema = z
+  .object({
+    recordId: z.string().optional(),
+    filename: z.string().optional(),
+    // Columns to keep, in this order; all of them by default
+    columns: z.array(z.string().min(1)).min(1).optional(),
+    // Old name -> new name
+    rename: z.record(z.string().min(1)).optional(),
+    outputFilename,
+  })
+  .refine((params) => !!(params.recordId || params.filename), {
+    message: 'recordId or filename is required',
+  })
+  .refine((params) => !!(params.columns || params.rename), {
+    message: 'columns or rename is required',
+  });
+
+export type AppendParams = z.infer<typeof appendParamsSchema>;
+export type JoinParams = z.infer<typeof joinParamsSchema>;
+export type ProjectParams = z.infer<typeof projectParamsSchema>;
+
+export class DatasetOperationError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid dataset operation: ${issues.join('; ')}`);
+  }
+}
+
+/**
+ * Stacks tables on top of each other, aligning columns by name rather than position, so
+ * exports whose columns were reordered, added or dropped still line up. Returns the columns
+ * each table lacked alongside the result.
+ */
+export function appendTables(
+  tables: { name: string; table: CsvTable }[],
+  options: { columns: 'union' | 'intersection'; sourceColumn?: string },
+): { table: CsvTable; missingColumns: string[][] } {
+  const columnSets = tables.map(
+    ({ table }) => new Set(table.headers.map(normalizeName)),
+  );
+  let headers = [...new Set(columnSets.flatMap((columns) => [...columns]))];
+  if (options.columns === 'intersection') {
+    headers = headers.filter((header) =>
+      columnSets.every((columns) => columns.has(header)),
+    );
+    if (headers.length === 0) {
+      throw new DatasetOperationError([
+        'the records have no columns in common',
+      ]);
+    }
+  }
+
+  const sourceColumn =
+    options.sourceColumn && normalizeName(options.sourceColumn);
+  if (sourceColumn && headers.includes(sourceColumn)) {
+    throw new DatasetOperationError([
+      `source column "${sourceColumn}" is already a column of the data`,
+    ]);
+  }
+
+  const rows = tables.flatMap(({ name, table }) => {
+    const positions = headers.map((header) =>
+      table.headers.findIndex((column) => normalizeName(column) === header),
+    );
+    return table.rows.map((row) => [
+      ...positions.map((position) =>
+        position === -1 ? '' : (row[position] ?? ''),
+      ),
+      ...(sourceColumn ? [name] : []),
+    ]);
+  });
+
+  return {
+    table: {
+      headers: sourceColumn ? [...headers, sourceColumn] : headers,
+      rows,
+    },
+    missingColumns: columnSets.map((columns) =>
+      headers.filter((header) => !columns.has(header)),
+    ),
+  };
+}
+
+/**
+ * Joins two tables on key columns. Key cells are compared trimmed and case-sensitively, and
+ * missing values never match. The key columns appear once, under the left table's names; for
+ * full joins the rows only the right table has take their keys from it.
+ */
+export function joinTables(
+  left: CsvTable,
+  right: CsvTable,
+  options: {
+    on: (string | { left: string; right: string })[];
+    type: JoinType;
+    suffix: string;
+  },
+): CsvTable {
+  const issues: string[] = [];
+  const position = (table: CsvTable, name: string, side: string) => {
+    const index = table.headers.findIndex(
+      (column) => normalizeName(column) === normalizeName(name),
+    );
+    if (index === -1) {
+      issues.push(
+        `unknown ${side} key column "${name}"; columns are: ${table.headers.join(', ')}`,
+      );
+    }
+    return index;
+  };
+  const keys = options.on.map((key) => {
+    const [leftName, rightName] =
+      typeof key === 'string' ? [key, key] : [key.left, key.right];
+    return {
+      left: position(left, leftName, 'left'),
+      right: position(right, rightName, 'right'),
+    };
+  });
+  if (issues.length > 0) {
+    throw new DatasetOperationError(issues);
+  }
+
+  const rightKeys = new Set(keys.map((key) => key.right));
+  const rightColumns = right.headers
+    .map((_, index) => index)
+    .filter((index) => !rightKeys.has(index));
+  const headers = [...left.headers];
+  for (const index of rightColumns) {
+    let name = right.headers[index];
+    if (headers.includes(name)) {
+      name = `${name}${normalizeName(options.suffix)}`;
+    }
+    if (headers.includes(name)) {
+      throw new DatasetOperationError([
+        `column "${name}" would appear twice; choose another suffix`,
+      ]);
+    }
+    headers.push(name);
+  }
+
+  const keyOf = (row: string[], side: 'left' | 'right') => {
+    const values = keys.map((key) => (row[key[side]] ?? '').trim());
+    return values.some(isMissingValue) ? null : JSON.stringify(values);
+  };
+
+  const index = new Map<string, number[]>();
+  right.rows.forEach((row, rowIndex) => {
+    const key = keyOf(row, 'right');
+    if (key === null) return;
+    const matches = index.get(key);
+    if (matches) {
+      matches.push(rowIndex);
+    } else {
+      index.set(key, [rowIndex]);
+    }
+  });
+
+  const rows: string[][] = [];
+  const push = (row: string[]) => {
+    if (rows.length >= MAX_JOIN_ROWS) {
+      throw new DatasetOperationError([
+        `the join produces more than ${MAX_JOIN_ROWS} rows; check the key columns`,
+      ]);
+    }
+    rows.push(row);
+  };
+  const rightCells = (row: string[] | null) =>
+    rightColumns.map((column) => (row ? (row[column] ?? '') : ''));
+
+  const matched = new Set<number>();
+  for (const row of left.rows) {
+    const padded = left.headers.map((_, column) => row[column] ?? '');
+    const key = keyOf(row, 'left');
+    const matches = key === null ? undefined : index.get(key);
+    if (matches) {
+      for (const match of matches) {
+        matched.add(match);
+        push([...padded, ...rightCells(right.rows[match])]);
+      }
+    } else if (options.type !== 'inner') {
+      push([...padded, ...rightCells(null)]);
+    }
+  }
+
+  if (options.type === 'full') {
+    right.rows.forEach((row, rowIndex) => {
+      if (matched.has(rowIndex)) return;
+      const leftPart = left.headers.map(() => '');
+      for (const key of keys) {
+        leftPart[key.left] = row[key.right] ?? '';
+      }
+      push([...leftPart, ...rightCells(row)]);
+    });
+  }
+
+  return { headers, rows };
+}
+
+// Keeps and orders the given columns, then renames
+export function projectTable(
+  table: CsvTable,
+  options: { columns?: string[]; rename?: Record<string, string> },
+): CsvTable {
+  const find = (name: string) =>
+    table.headers.findIndex(
+      (column) => normalizeName(column) === normalizeName(name),
+    );
+  const issues: string[] = [];
+
+  const positions = options.columns
+    ? options.columns.map((name) => {
+        const index = find(name);
+        if (index === -1) issues.push(`unknown column "${name}"`);
+        return index;
+      })
+    : table.headers.map((_, index) => index);
+  const renames = new Map<number, string>();
+  for (const [from, to] of Object.entries(options.rename ?? {})) {
+    const index = find(from);
+    if (index === -1) {
+      issues.push(`unknown column "${from}" in rename`);
+    } else if (!positions.includes(index)) {
+      issues.push(`column "${from}" is renamed but not kept`);
+    } else {
+      renames.set(index, normalizeName(to));
+    }
+  }
+  if (issues.length > 0) {
+    throw new DatasetOperationError([
+      ...issues,
+      `columns are: ${table.headers.join(', ')}`,
+    ]);
+  }
+
+  const headers = positions.map(
+    (index) => renames.get(index) ?? table.headers[index],
+  );
+  // Names are matched case-insensitively everywhere, so "Name" and "name" are the same column
+  const names = headers.map(normalizeName);
+  const duplicates = names.filter(
+    (name, index) => names.indexOf(name) !== index,
+  );
+  if (duplicates.length > 0) {
+    throw new DatasetOperationError(
+      [...new Set(duplicates)].map(
+        (header) => `column "${header}" would appear twice`,
+      ),
+    );
+  }
+
+  return {
+    headers,
+    rows: table.rows.map((row) => positions.map((index) => row[index] ?? '')),
+  };
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
@@ -0,0 +1,90 @@
+import {
+  BadRequestException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import ExcelJS from 'exceljs';
+import { detectFormat, extractFile } from './file-extractor';
+
+function upload(originalname: string, content: string | Buffer, mimetype = '') {
+  return {
+    originalname,
+    mimetype,
+    buffer: typeof content === 'string' ? Buffer.from(content) : content,
+  };
+}
+
+describe('detectFormat', () => {
+  it('goes by the extension, then by the MIME type of a name without one', () => {
+    expect(detectFormat(upload('export.JSONL', ''))).toBe('ndjson');
+    expect(detectFormat(upload('data.tab', ''))).toBe('tsv');
+    expect(detectFormat(upload('blob', '', 'text/csv; charset=utf-8'))).toBe(
+      'csv',
+    );
+    expect(detectFormat(upload('report.docx', '', 'text/csv'))).toBeNull();
+  });
+});
+
+describe('extractFile', () => {
+  it('flattens JSON records into CSV columns in first-seen order', async () => {
+    const json = JSON.stringify({
+      data: [
+        { id: 1, address: { city: 'Porto' }, tags: ['a', 'b'] },
+        { id: 2, manager: null, address: { city: 'Braga', zip: '4700' } },
+      ],
+    });
+
+    await expect(extractFile(upload('people.json', json))).resolves.toEqual({
+      text: [
+        'id,address.city,tags,manager,address.zip',
+        '1,Porto,"[""a"",""b""]",,',
+        '2,Braga,,,4700',
+      ].join('\n'),
+      format: 'json',
+      tabular: true,
+    });
+  });
+
+  it('names the NDJSON line that does not parse', async () => {
+    await expect(
+      extractFile(upload('events.ndjson', '{"id":1}\n\n{"id":\n')),
+    ).rejects.toThrow(/^Invalid JSON on line 3/);
+    await expect(
+      extractFile(upload('events.ndjson', '{"id":1}\n[2]')),
+    ).rejects.toThrow('Expected an object at line 2');
+  });
+
+  it('reads the chosen worksheet of a workbook', async () => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet('Summary').addRow(['total', 2]);
+    const staff = workbook.addWorksheet('Staff');
+    staff.addRow(['name', 'hired', '']);
+    staff.addRow(['Ana', new Date('2021-03-01T00:00:00Z'), 'remote']);
+    staff.addRow([]);
+    staff.addRow(['Bruno', new Date('2020-07-15T00:00:00Z')]);
+    const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    await expect(
+      extractFile(upload('staff.xlsx', buffer), { sheet: 'staff' }),
+    ).resolves.toEqual({
+      text: 'name,hired,Column 3\nAna,2021-03-01,remote\nBruno,2020-07-15,',
+      format: 'xlsx',
+      tabular: true,
+      sheet: 'Staff',
+      sheets: ['Summary', 'Staff'],
+    });
+    await expect(
+      extractFile(upload('staff.xlsx', buffer), { sheet: 3 }),
+    ).rejects.toThrow(
+      'Worksheet "3" not found. Available sheets: Summary, Staff',
+    );
+  });
+
+  it('rejects unknown types with a 415 and empty files with a 400', async () => {
+    await expect(extractFile(upload('slides.pptx', 'x'))).rejects.toThrow(
+      UnsupportedMediaTypeException,
+    );
+    await expect(extractFile(upload('notes.txt', '  \n'))).rejects.toThrow(
+      new BadRequestException('File appears to be empty or could not be read'),
+    );
+  });
+});
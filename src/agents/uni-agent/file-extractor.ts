@@ -0,0 +1,333 @@
+import {
+  BadRequestException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import ExcelJS from 'exceljs';
+import { CsvDialect, decodeText, readCsv, toCsv } from './csv';
+
+export const FILE_FORMATS = [
+  'csv',
+  'tsv',
+  'xlsx',
+  'json',
+  'ndjson',
+  'pdf',
+  'text',
+] as const;
+export type FileFormat = (typeof FILE_FORMATS)[number];
+
+const EXTENSION_FORMATS: Record<string, FileFormat> = {
+  csv: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  xlsx: 'xlsx',
+  xlsm: 'xlsx',
+  json: 'json',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  pdf: 'pdf',
+  txt: 'text',
+};
+
+// Used when the file name has no extension
+const MIME_FORMATS: Record<string, FileFormat> = {
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'tsv',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/json': 'json',
+  'application/x-ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+  'application/pdf': 'pdf',
+  'text/plain': 'text',
+};
+
+export interface ExtractedFile {
+  // CSV for every tabular format, the plain text for pdf and txt
+  text: string;
+  format: FileFormat;
+  tabular: boolean;
+  // Workbooks only: the sheet that was read and all sheets in the file
+  sheet?: string;
+  sheets?: string[];
+  // Delimited files only: how the file was written, null when it is not delimited
+  dialect?: CsvDialect | null;
+}
+
+export interface ExtractOptions {
+  // Worksheet name or 1-based index; the first worksheet by default
+  sheet?: string | number;
+}
+
+type UploadedFile = Pick<
+  Express.Multer.File,
+  'originalname' | 'mimetype' | 'buffer'
+>;
+
+export function detectFormat(
+  file: Pick<UploadedFile, 'originalname' | 'mimetype'>,
+): FileFormat | null {
+  const name = file.originalname || '';
+  const ext = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  if (ext) {
+    return EXTENSION_FORMATS[ext] ?? null;
+  }
+  const mimetype = (file.mimetype || '').split(';')[0].trim().toLowerCase();
+  return MIME_FORMATS[mimetype] ?? null;
+}
+
+/**
+ * Reads an uploaded file into text the agents can work with. Spreadsheets, TSV, JSON and NDJSON
+ * are converted to CSV with a header row, so every tabular upload reaches the pipeline in the
+ * same shape. Anything else is rejected with a 415 instead of being decoded as UTF-8.
+ */
+export async function extractFile(
+  file: UploadedFile,
+  options: ExtractOptions = {},
+): Promise<ExtractedFile> {
+  const format = detectFormat(file);
+  if (!format) {
+    throw new UnsupportedMediaTypeException(
+      `Unsupported file type "${file.originalname}". Supported extensions: ${Object.keys(EXTENSION_FORMATS).join(', ')}`,
+    );
+  }
+
+  let extracted: ExtractedFile;
+  try {
+    switch (format) {
+      case 'csv':
+        extracted = { ...readCsv(file.buffer), format, tabular: true };
+        break;
+      case 'tsv':
+        extracted = {
+          ...readCsv(file.buffer, { delimiter: '\t' }),
+          format,
+          tabular: true,
+        };
+        break;
+      case 'text':
+        extracted = {
+          text: decodeText(file.buffer).text,
+          format,
+          tabular: false,
+        };
+        break;
+      case 'json':
+        extracted = {
+          text: jsonToCsv(decodeText(file.buffer).text),
+          format,
+          tabular: true,
+        };
+        break;
+      case 'ndjson':
+        extracted = {
+          text: ndjsonToCsv(decodeText(file.buffer).text),
+          format,
+          tabular: true,
+        };
+        break;
+      case 'xlsx':
+        extracted = {
+          ...(await workbookToCsv(file.buffer, options.sheet)),
+          format,
+          tabular: true,
+        };
+        break;
+      case 'pdf': {
+        const pdfExtractText = require('pdf-parse');
+        const pdfData = await pdfExtractText(file.buffer);
+        extracted = { text: pdfData.text, format, tabular: false };
+        break;
+      }
+    }
+  } catch (error) {
+    if (error instanceof BadRequestException) {
+      throw error;
+    }
+    throw new BadRequestException(
+      `Failed to extract text from file: ${error.message}`,
+    );
+  }
+
+  if (!extracted.text || extracted.text.trim().length === 0) {
+    throw new BadRequestException(
+      'File appears to be empty or could not be read',
+    );
+  }
+  return extracted;
+}
+
+// ===== CONVERSIONS =====
+
+function jsonToCsv(text: string): string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new BadRequestException(`Invalid JSON: ${error.message}`);
+  }
+
+  // Also accept a single wrapper object such as { "data": [...] }
+  if (parsed && !Array.isArray(parsed) && typeof parsed === 'object') {
+    const arrays = Object.values(parsed).filter(Array.isArray);
+    if (arrays.length === 1) {
+      parsed = arrays[0];
+    }
+  }
+  if (!Array.isArray(parsed)) {
+    throw new BadRequestException('JSON file must contain an array of objects');
+  }
+  return recordsToCsv(parsed, (index) => `item ${index}`);
+}
+
+function ndjsonToCsv(text: string): string {
+  const records: unknown[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim().length === 0) return;
+    try {
+      records.push(JSON.parse(line));
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid JSON on line ${index + 1}: ${error.message}`,
+      );
+    }
+  });
+  return recordsToCsv(records, (index) => `line ${index}`);
+}
+
+// Columns are the union of the records' keys in first-seen order; nested objects are
+// flattened to dotted keys and arrays kept as JSON
+function recordsToCsv(
+  records: unknown[],
+  describe: (index: number) => string,
+): string {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  const flattened = records.map((record, index) => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      throw new BadRequestException(
+        `Expected an object at ${describe(index + 1)}`,
+      );
+    }
+    const flat = flatten(record as Record<string, unknown>);
+    for (const key of Object.keys(flat)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    }
+    return flat;
+  });
+
+  return toCsv(
+    headers,
+    flattened.map((flat) => headers.map((header) => flat[header] ?? '')),
+  );
+}
+
+function flatten(
+  record: Record<string, unknown>,
+  prefix = '',
+  into: Record<string, string> = {},
+): Record<string, string> {
+  for (const [key, value] of Object.entries(record)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      flatten(value as Record<string, unknown>, name, into);
+    } else if (Array.isArray(value)) {
+      into[name] = JSON.stringify(value);
+    } else {
+      into[name] =
+        value === null || value === undefined
+          ? ''
+          : String(value as string | number | boolean);
+    }
+  }
+  return into;
+}
+
+async function workbookToCsv(
+  buffer: Buffer,
+  sheet?: string | number,
+): Promise<{ text: string; sheet: string; sheets: string[] }> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+
+  const sheets = workbook.worksheets.map((worksheet) => worksheet.name);
+  if (sheets.length === 0) {
+    throw new BadRequestException('Workbook has no worksheets');
+  }
+
+  const worksheet = selectWorksheet(workbook, sheet);
+  if (!worksheet) {
+    throw new BadRequestException(
+      `Worksheet "${sheet}" not found. Available sheets: ${sheets.join(', ')}`,
+    );
+  }
+
+  const lines: string[][] = [];
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    const values: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      values[column - 1] = cellText(cell.value);
+    });
+    if (values.some((value) => value && value.trim().length > 0)) {
+      lines.push(Array.from(values, (value) => value ?? ''));
+    }
+  });
+
+  if (lines.length === 0) {
+    return { text: '', sheet: worksheet.name, sheets };
+  }
+
+  const width = lines.reduce((max, line) => Math.max(max, line.length), 0);
+  const [headers, ...rows] = lines;
+  const header = Array.from(
+    { length: width },
+    (_, index) => headers[index]?.trim() || `Column ${index + 1}`,
+  );
+  return { text: toCsv(header, rows), sheet: worksheet.name, sheets };
+}
+
+function selectWorksheet(
+  workbook: ExcelJS.Workbook,
+  sheet?: string | number,
+): ExcelJS.Worksheet | undefined {
+  if (sheet === undefined || sheet === '') {
+    return workbook.worksheets[0];
+  }
+  const byName = workbook.worksheets.find(
+    (worksheet) => worksheet.name.toLowerCase() === String(sheet).toLowerCase(),
+  );
+  if (byName) {
+    return byName;
+  }
+  const index = Number(sheet);
+  return Number.isInteger(index) ? workbook.worksheets[index - 1] : undefined;
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    // Date-only cells are stored at midnight UTC
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value === 'object') {
+    if ('result' in value) {
+      return cellText(value.result as ExcelJS.CellValue);
+    }
+    if ('richText' in value) {
+      return value.richText.map((part) => part.text).join('');
+    }
+    if ('text' in value) {
+      return String(value.text);
+    }
+    if ('error' in value) {
+      return String(value.error);
+    }
+    return '';
+  }
+  return String(value);
+}
@@ -0,0 +1,104 @@
+import { PiiMasker, resolvePiiPolicy, revealPlaceholders } from './pii-masking';
+
+const config = {
+  default: { reveal: [] },
+  departments: { HR: { reveal: ['name' as const, 'email' as const] } },
+  roles: { viewer: { actions: { phone: 'redact' as const } } },
+};
+
+describe('resolvePiiPolicy', () => {
+  it('applies the defaults, then the department, then the role', () => {
+    const policy = resolvePiiPolicy(config, {
+      role: 'viewer',
+      department: 'hr',
+    });
+    expect(policy.actions.phone).toBe('redact');
+    expect(policy.actions.email).toBe('pseudonymize');
+    expect(policy.actions.salary).toBe('redact');
+    expect(policy.reveal).toEqual(['name', 'email']);
+  });
+
+  it('reveals nothing the default policy hides to users outside HR', () => {
+    expect(resolvePiiPolicy(config, { department: 'Sales' }).reveal).toEqual(
+      [],
+    );
+  });
+});
+
+describe('PiiMasker', () => {
+  const csv = [
+    'name,email,salary,notes',
+    'Jane Doe,jane@example.com,5000,escalated by John Smith',
+    'John Smith,john@example.com,6000,"call Jane Doe on +44 20 7946 0958"',
+  ].join('\n');
+
+  it('masks typed columns whole and gives a value the same placeholder everywhere', () => {
+    const masker = new PiiMasker(resolvePiiPolicy({}));
+    const masked = masker.maskData(csv);
+
+    expect(masked).not.toMatch(/Jane Doe|John Smith|example\.com|5000|6000/);
+    expect(masked).toContain('[NAME_1],[EMAIL_1],[REDACTED_SALARY]');
+    expect(masked).toContain('[NAME_2],[EMAIL_2],[REDACTED_SALARY]');
+    expect(masker.maskText('Where is Jane Doe?', 'question')).toBe(
+      'Where is [NAME_1]?',
+    );
+  });
+
+  it('masks known values and patterns inside free-text cells', () => {
+    const masker = new PiiMasker(resolvePiiPolicy({}));
+    const masked = masker.maskData(csv);
+
+    expect(masked).toContain('escalated by [NAME_2]');
+    expect(masked).toMatch(/call \[NAME_1\] on \[PHONE_1\]/);
+    expect(masker.takeFields()).toEqual(
+      expect.arrayContaining([
+        { field: 'notes', type: 'name', action: 'pseudonymize', count: 2 },
+        { field: 'notes', type: 'phone', action: 'pseudonymize', count: 1 },
+      ]),
+    );
+  });
+
+  it('masks a large table in one pass over each cell', () => {
+    const rows = Array.from({ length: 4000 }, (_, index) => [
+      `Employee ${index} Lee`,
+      `employee${index}@example.com`,
+      `Employee ${(index + 1) % 4000} Lee`,
+      `reports to Employee ${(index + 1) % 4000} Lee`,
+    ]);
+    const masker = new PiiMasker(resolvePiiPolicy({}));
+
+    const started = Date.now();
+    const masked = masker.maskTable({
+      headers: ['name', 'email', 'manager', 'notes'],
+      rows,
+    });
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(masked.rows[0]).toEqual([
+      '[NAME_1]',
+      '[EMAIL_1]',
+      '[NAME_2]',
+      'reports to [NAME_2]',
+    ]);
+    expect(masked.rows[3999][3]).toBe('reports to [NAME_1]');
+  });
+
+  it('leaves allowed types alone', () => {
+    const masker = new PiiMasker(
+      resolvePiiPolicy({ default: { actions: { email: 'allow' } } }),
+    );
+    expect(masker.maskText('Mail jane@example.com', 'question')).toBe(
+      'Mail jane@example.com',
+    );
+  });
+
+  it('reveals only the types of the policy', () => {
+    const masker = new PiiMasker(resolvePiiPolicy({}));
+    const masked = masker.maskData(csv);
+    const pseudonyms = masker.pseudonyms();
+
+    const revealed = revealPlaceholders({ text: masked }, pseudonyms, ['name']);
+    expect(revealed.text).toContain('Jane Doe,[EMAIL_1]');
+    expect(revealed.text).toContain('escalated by John Smith');
+  });
+});
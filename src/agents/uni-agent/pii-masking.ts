@@ -0,0 +1,527 @@
+import * as fs from 'fs';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { CsvTable, toCsv, tryParseCSV } from './csv';
+import {
+  DataSchema,
+  isMissingValue,
+  isPhoneValue,
+  resolveColumnTypes,
+} from './schema-inference';
+
+export const PII_TYPES = [
+  'email',
+  'phone',
+  'national_id',
+  'iban',
+  'name',
+  'salary',
+] as const;
+export type PiiType = (typeof PII_TYPES)[number];
+
+// `pseudonymize` replaces each value with a numbered placeholder that can be re-identified,
+// `redact` with a placeholder that cannot, and `allow` sends the value as it is
+export const PII_ACTIONS = ['pseudonymize', 'redact', 'allow'] as const;
+export type PiiAction = (typeof PII_ACTIONS)[number];
+
+const piiPolicySchema = z
+  .object({
+    actions: z.record(z.enum(PII_TYPES), z.enum(PII_ACTIONS)).optional(),
+    // Types whose placeholders are put back in the results the viewer gets
+    reveal: z.array(z.enum(PII_TYPES)).optional(),
+    // Extra header words that mark a column as holding a type, e.g. { "name": ["manager"] }
+    columns: z.record(z.enum(PII_TYPES), z.array(z.string().min(1))).optional(),
+  })
+  .strict();
+
+// The policy file: defaults, then overrides per department and per role (the role wins)
+export const piiConfigSchema = z
+  .object({
+    default: piiPolicySchema.optional(),
+    departments: z.record(piiPolicySchema).optional(),
+    roles: z.record(piiPolicySchema).optional(),
+  })
+  .strict();
+
+export type PiiConfig = z.infer<typeof piiConfigSchema>;
+
+export interface PiiPolicy {
+  actions: Record<PiiType, PiiAction>;
+  reveal: PiiType[];
+  columns: Record<PiiType, string[]>;
+}
+
+// What was masked in one prompt: a column (or a free-text input), the type found and how often
+export interface MaskedField {
+  field: string;
+  type: PiiType;
+  action: Exclude<PiiAction, 'allow'>;
+  count: number;
+}
+
+export class PiiPolicyError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid PII policy: ${issues.join('; ')}`);
+  }
+}
+
+const DEFAULT_ACTIONS: Record<PiiType, PiiAction> = {
+  email: 'pseudonymize',
+  phone: 'pseudonymize',
+  national_id: 'pseudonymize',
+  iban: 'pseudonymize',
+  name: 'pseudonymize',
+  // Individual pay is never needed by the model; the statistics still give it the aggregates
+  salary: 'redact',
+};
+
+// Header words (or phrases) that make a column hold a type, whatever its values look like
+const COLUMN_WORDS: Record<PiiType, string[]> = {
+  email: ['email', 'e mail'],
+  phone: ['phone', 'mobile', 'telephone', 'tel', 'cell', 'fax'],
+  national_id: [
+    'ssn',
+    'social security',
+    'national id',
+    'nin',
+    'nino',
+    'passport',
+    'tax id',
+    'tin',
+  ],
+  iban: ['iban', 'bank account', 'account number'],
+  name: [
+    'name',
+    'first name',
+    'last name',
+    'full name',
+    'firstname',
+    'lastname',
+    'surname',
+    'employee',
+    'customer',
+    'contact',
+  ],
+  salary: [
+    'salary',
+    'wage',
+    'wages',
+    'compensation',
+    'bonus',
+    'income',
+    'payroll',
+  ],
+};
+// "product name" or "department name" name things rather than people
+const NON_PERSON_WORDS = [
+  'product',
+  'company',
+  'item',
+  'file',
+  'category',
+  'department',
+  'dept',
+  'project',
+  'brand',
+  'city',
+  'country',
+  'state',
+  'street',
+  'team',
+  'group',
+  'store',
+  'branch',
+  'organization',
+  'business',
+  'model',
+  'plan',
+  'course',
+  'event',
+];
+
+// Values found in free text, in the order they are replaced
+const VALUE_PATTERNS: {
+  type: PiiType;
+  pattern: RegExp;
+  accept?: (value: string) => boolean;
+}[] = [
+  { type: 'email', pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  {
+    type: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    accept: isValidIban,
+  },
+  // US social security and UK national insurance numbers
+  {
+    type: 'national_id',
+    pattern:
+      /\b\d{3}-\d{2}-\d{4}\b|\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+  },
+  {
+    type: 'phone',
+    pattern: /(?<![\w+])\+?\(?\d[\d\s().-]{5,}\d(?![\w])/g,
+    // Dates followed by a time read like numbers with separators
+    accept: (value) =>
+      isPhoneValue(value.trim()) &&
+      !/^\s*(?:\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{4})(?!\d)/.test(
+        value,
+      ),
+  },
+];
+
+const PLACEHOLDER = /\[(EMAIL|PHONE|NATIONAL_ID|IBAN|NAME|SALARY)_(\d+)\]/g;
+// Known values shorter than this are only masked where their column is, not in free text
+const MIN_KNOWN_VALUE_LENGTH = 3;
+
+/**
+ * Reads the policy file named by PII_POLICY_PATH (JSON or YAML). Without one, every type
+ * follows the defaults and is revealed to every viewer.
+ */
+export function loadPiiConfig(env: NodeJS.ProcessEnv = process.env): PiiConfig {
+  if (!env.PII_POLICY_PATH) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = parseYaml(fs.readFileSync(env.PII_POLICY_PATH, 'utf8'));
+  } catch (error) {
+    throw new PiiPolicyError([
+      `cannot read ${env.PII_POLICY_PATH}: ${error.message}`,
+    ]);
+  }
+
+  const parsed = piiConfigSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    throw new PiiPolicyError(
+      parsed.error.issues.map((issue) =>
+        issue.path.length > 0
+          ? `${issue.path.join('.')}: ${issue.message}`
+          : issue.message,
+      ),
+    );
+  }
+  return parsed.data;
+}
+
+// The policy for a viewer: the defaults, then their department's overrides, then their role's
+export function resolvePiiPolicy(
+  config: PiiConfig,
+  viewer: { role?: string | null; department?: string | null } = {},
+): PiiPolicy {
+  const policy: PiiPolicy = {
+    actions: { ...DEFAULT_ACTIONS },
+    reveal: [...PII_TYPES],
+    columns: Object.fromEntries(
+      PII_TYPES.map((type) => [type, [] as string[]]),
+    ) as Record<PiiType, string[]>,
+  };
+
+  const overrides = [
+    config.default,
+    findByKey(config.departments, viewer.department),
+    findByKey(config.roles, viewer.role),
+  ];
+  for (const override of overrides) {
+    if (!override) continue;
+    Object.assign(policy.actions, override.actions);
+    if (override.reveal) {
+      policy.reveal = [...override.reveal];
+    }
+    for (const [type, words] of Object.entries(override.columns ?? {})) {
+      policy.columns[type as PiiType].push(...words);
+    }
+  }
+  return policy;
+}
+
+function findByKey<T>(
+  entries: Record<string, T> | undefined,
+  key?: string | null,
+): T | undefined {
+  if (!entries || !key) return undefined;
+  const wanted = key.trim().toLowerCase();
+  return Object.entries(entries).find(
+    ([name]) => name.trim().toLowerCase() === wanted,
+  )?.[1];
+}
+
+/**
+ * Masks personal data before it is sent to the model. One masker is used for everything one
+ * request sends, so a value gets the same placeholder in every prompt and in the data, the
+ * statistics and the question alike. Columns are recognised by their header or schema type
+ * and masked whole; other cells and free text are searched for emails, IBANs, national ids
+ * and phone numbers, and for values already masked elsewhere (such as names).
+ */
+export class PiiMasker {
+  // Placeholder -> original value
+  private readonly originals = new Map<string, string>();
+  // Type and original value -> placeholder or redaction tag
+  private readonly replacements = new Map<string, string>();
+  private readonly counters = new Map<PiiType, number>();
+  // Masked since the last takeFields(), keyed by field, type and action
+  private fields = new Map<string, MaskedField>();
+  // Original value -> its type and replacement, searched for in free text
+  private readonly knownValues = new Map<
+    string,
+    { type: PiiType; replacement: string }
+  >();
+  // All known values in one pattern, rebuilt when a value is added
+  private knownValuesPattern: RegExp | null = null;
+
+  constructor(readonly policy: PiiPolicy) {}
+
+  // Data sent as a table is masked column by column; anything else as free text
+  maskData(data: string, schema?: DataSchema | null, source = 'data'): string {
+    const table = tryParseCSV(data);
+    if (!table || table.headers.length < 2) {
+      return this.maskText(data, source);
+    }
+    const masked = this.maskTable(table, schema);
+    return toCsv(masked.headers, masked.rows);
+  }
+
+  maskTable(table: CsvTable, schema?: DataSchema | null): CsvTable {
+    const types = this.columnTypes(table, schema);
+    const rows = table.rows.map((row) => [...row]);
+
+    // Typed columns first, so their values are known when the other cells are searched
+    types.forEach((type, column) => {
+      if (!type) return;
+      for (const row of rows) {
+        const value = (row[column] ?? '').trim();
+        if (value && !isMissingValue(value)) {
+          row[column] = this.replace(type, value, table.headers[column], true);
+        }
+      }
+    });
+    types.forEach((type, column) => {
+      if (type) return;
+      for (const row of rows) {
+        const cell = row[column];
+        if (!cell) continue;
+        // Values known from another column anywhere in the cell, e.g. a manager's name or
+        // "escalated by Jane Doe" in a notes column, then the patterns
+        row[column] = this.maskText(cell, table.headers[column]);
+      }
+    });
+
+    return { headers: table.headers, rows };
+  }
+
+  maskText(text: string, source: string): string {
+    // A cell holding just a known value, the common case in tables
+    const exact = this.knownValues.get(text);
+    if (exact) {
+      this.count(source, exact.type);
+      return exact.replacement;
+    }
+
+    // Known values first, so a phone number from a phone column keeps the text around it
+    let masked = text;
+    const pattern = this.knownValuesRegExp();
+    if (pattern) {
+      masked = masked.replace(pattern, (value) => {
+        const { type, replacement } = this.knownValues.get(value)!;
+        this.count(source, type);
+        return replacement;
+      });
+    }
+    return this.maskPatterns(masked, source);
+  }
+
+  // Everything masked since the last call, for the audit of the prompt it went into
+  takeFields(): MaskedField[] {
+    const fields = [...this.fields.values()];
+    this.fields = new Map();
+    return fields;
+  }
+
+  // Placeholder -> original value, for re-identifying stored results later
+  pseudonyms(): Record<string, string> {
+    return Object.fromEntries(this.originals);
+  }
+
+  // Re-identifies the placeholders of the given types (the policy's by default) in any value
+  reveal<T>(value: T, types: readonly PiiType[] = this.policy.reveal): T {
+    return revealPlaceholders(value, this.pseudonyms(), types);
+  }
+
+  private maskPatterns(text: string, source: string): string {
+    let masked = text;
+    for (const { type, pattern, accept } of VALUE_PATTERNS) {
+      if (this.policy.actions[type] === 'allow') continue;
+      masked = masked.replace(pattern, (match) =>
+        accept && !accept(match) ? match : this.replace(type, match, source),
+      );
+    }
+    return masked;
+  }
+
+  private columnTypes(
+    table: CsvTable,
+    schema?: DataSchema | null,
+  ): (PiiType | null)[] {
+    const inferred = resolveColumnTypes(table.headers, table.rows, schema);
+    return table.headers.map((header, index) => {
+      let type = headerType(header, this.policy.columns);
+      if (!type && inferred[index] === 'email') type = 'email';
+      if (!type && inferred[index] === 'phone') type = 'phone';
+      return type && this.policy.actions[type] !== 'allow' ? type : null;
+    });
+  }
+
+  // `remember` marks values from PII columns, which are then also looked for in free text
+  private replace(
+    type: PiiType,
+    value: string,
+    field: string,
+    remember = false,
+  ): string {
+    const action = this.policy.actions[type] as MaskedField['action'];
+    const key = `${type}\u0000${type === 'email' ? value.toLowerCase() : value}`;
+    let replacement = this.replacements.get(key);
+    if (!replacement) {
+      if (action === 'redact') {
+        replacement = `[REDACTED_${type.toUpperCase()}]`;
+      } else {
+        const number = (this.counters.get(type) ?? 0) + 1;
+        this.counters.set(type, number);
+        replacement = `[${type.toUpperCase()}_${number}]`;
+        this.originals.set(replacement, value);
+      }
+      this.replacements.set(key, replacement);
+    }
+    // Pay figures would match unrelated numbers in the statistics
+    if (
+      remember &&
+      type !== 'salary' &&
+      value.length >= MIN_KNOWN_VALUE_LENGTH &&
+      !this.knownValues.has(value)
+    ) {
+      this.knownValues.set(value, { type, replacement });
+      this.knownValuesPattern = null;
+    }
+    this.count(field, type);
+    return replacement;
+  }
+
+  private count(field: string, type: PiiType) {
+    const action = this.policy.actions[type] as MaskedField['action'];
+    const key = `${field}\u0000${type}\u0000${action}`;
+    const entry = this.fields.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      this.fields.set(key, { field, type, action, count: 1 });
+    }
+  }
+
+  // Longest first, so "Ann Lee" is replaced before "Ann"; one pass over the text however many
+  // values are known
+  private knownValuesRegExp(): RegExp | null {
+    if (!this.knownValuesPattern && this.knownValues.size > 0) {
+      this.knownValuesPattern = wholeWords(
+        [...this.knownValues.keys()].sort((a, b) => b.length - a.length),
+      );
+    }
+    return this.knownValuesPattern;
+  }
+}
+
+/**
+ * Puts the original values back for the placeholders of the given types, in strings at any
+ * depth. Placeholders of other types, and ones without a stored original, stay as they are.
+ */
+export function revealPlaceholders<T>(
+  value: T,
+  pseudonyms: Record<string, string> | null | undefined,
+  types: readonly PiiType[],
+): T {
+  if (!pseudonyms || types.length === 0) {
+    return value;
+  }
+  const visit = (item: any): any => {
+    if (typeof item === 'string') {
+      return item.replace(PLACEHOLDER, (placeholder, type: string) =>
+        types.includes(type.toLowerCase() as PiiType) &&
+        pseudonyms[placeholder] !== undefined
+          ? pseudonyms[placeholder]
+          : placeholder,
+      );
+    }
+    if (Array.isArray(item)) {
+      return item.map(visit);
+    }
+    if (item && typeof item === 'object' && !(item instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(item).map(([key, entry]) => [key, visit(entry)]),
+      );
+    }
+    return item;
+  };
+  return visit(value);
+}
+
+function headerType(
+  header: string,
+  extraWords: Record<PiiType, string[]>,
+): PiiType | null {
+  const words = tokens(header);
+  for (const type of PII_TYPES) {
+    const phrases = [...COLUMN_WORDS[type], ...extraWords[type]];
+    if (!phrases.some((phrase) => containsPhrase(words, tokens(phrase)))) {
+      continue;
+    }
+    if (
+      type === 'name' &&
+      words.some((word) => NON_PERSON_WORDS.includes(word))
+    ) {
+      continue;
+    }
+    return type;
+  }
+  return null;
+}
+
+// Matches any of the values where it is not part of a longer word or number
+function wholeWords(values: string[]): RegExp {
+  const escaped = values.map((value) =>
+    value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+  );
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})(?![\\p{L}\\p{N}])`,
+    'gu',
+  );
+}
+
+function tokens(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function containsPhrase(words: string[], phrase: string[]): boolean {
+  for (let start = 0; start + phrase.length <= words.length; start++) {
+    if (phrase.every((word, index) => words[start + index] === word)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// ISO 13616 check digits: the rearranged number read as digits is 1 modulo 97
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/ /g, '');
+  if (iban.length < 15 || iban.length > 34) return false;
+  const digits = (iban.slice(4) + iban.slice(0, 4)).replace(
+    /[A-Z]/g,
+    (letter) => String(letter.charCodeAt(0) - 55),
+  );
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
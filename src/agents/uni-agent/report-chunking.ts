@@ -0,0 +1,195 @@
+export interface ColumnStatistics {
+  name: string;
+  filled: number;
+  // Empty cells and cells cleaned to "Unknown"
+  missing: number;
+  invalid: number;
+  distinct: number;
+  // Only set when every filled cell is numeric
+  numeric?: { min: number; max: number; mean: number };
+  // Most frequent values, only for columns with repeated values
+  topValues?: { value: string; count: number }[];
+}
+
+export interface DatasetStatistics {
+  rowCount: number;
+  columnCount: number;
+  columns: ColumnStatistics[];
+}
+
+// Partial result of the summary and insights chains, for one chunk or a merged group of chunks
+export interface ChunkAnalysis {
+  summary: string;
+  key_points: string[];
+  data_quality: string;
+  insights: string[];
+  trends: string[];
+  anomalies: string[];
+  recommendations: string[];
+}
+
+export const DEFAULT_REPORT_CHUNK_SIZE = 8000;
+export const DEFAULT_REPORT_CHUNK_CONCURRENCY = 3;
+// Number of partial analyses merged by one reduce call; larger inputs are reduced in rounds
+export const REDUCE_FAN_IN = 8;
+
+const TOP_VALUES = 5;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) || value < 1 ? fallback : value;
+}
+
+// Maximum characters of data sent to the LLM in one summary/insights call
+export function getReportChunkSize(): number {
+  return envInt('REPORT_CHUNK_SIZE', DEFAULT_REPORT_CHUNK_SIZE);
+}
+
+export function getReportChunkConcurrency(): number {
+  return envInt('REPORT_CHUNK_CONCURRENCY', DEFAULT_REPORT_CHUNK_CONCURRENCY);
+}
+
+/**
+ * Splits data into chunks of at most `maxChars` characters without breaking rows. When
+ * `hasHeader` is set, the first line is repeated at the top of every chunk so each one
+ * can be analysed on its own. A single row longer than the limit becomes its own chunk.
+ */
+export function splitIntoChunks(
+  data: string,
+  maxChars: number,
+  hasHeader: boolean,
+): string[] {
+  if (data.length <= maxChars) {
+    return [data];
+  }
+
+  const lines = data.split('\n').filter((line) => line.trim().length > 0);
+  const header = hasHeader ? lines.shift() : undefined;
+  const budget = Math.max(1, maxChars - (header ? header.length + 1 : 0));
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let size = 0;
+
+  for (const line of lines) {
+    if (current.length > 0 && size + line.length + 1 > budget) {
+      chunks.push(withHeader(header, current));
+      current = [];
+      size = 0;
+    }
+    current.push(line);
+    size += line.length + 1;
+  }
+  if (current.length > 0) {
+    chunks.push(withHeader(header, current));
+  }
+
+  return chunks;
+}
+
+function withHeader(header: string | undefined, lines: string[]): string {
+  return (header !== undefined ? [header, ...lines] : lines).join('\n');
+}
+
+// Exact per-column counts over every row, so the LLM never has to estimate them from a sample
+export function computeDatasetStatistics(
+  headers: string[],
+  rows: string[][],
+): DatasetStatistics {
+  const columns = headers.map((name, index): ColumnStatistics => {
+    const counts = new Map<string, number>();
+    let missing = 0;
+    let invalid = 0;
+    let numericCount = 0;
+    let sum = 0;
+    let min = Infinity;
+    let max = -Infinity;
+
+    for (const row of rows) {
+      const cell = (row[index] ?? '').trim();
+      if (!cell || cell.toLowerCase() === 'unknown') {
+        missing++;
+        continue;
+      }
+      if (cell.startsWith('[INVALID')) {
+        invalid++;
+        continue;
+      }
+
+      counts.set(cell, (counts.get(cell) || 0) + 1);
+      if (NUMBER_PATTERN.test(cell)) {
+        const value = parseFloat(cell);
+        numericCount++;
+        sum += value;
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+    }
+
+    const filled = rows.length - missing - invalid;
+    const stats: ColumnStatistics = {
+      name,
+      filled,
+      missing,
+      invalid,
+      distinct: counts.size,
+    };
+
+    if (numericCount > 0 && numericCount === filled) {
+      stats.numeric = {
+        min,
+        max,
+        mean: Math.round((sum / numericCount) * 100) / 100,
+      };
+    } else if (counts.size > 0 && counts.size < filled) {
+      stats.topValues = [...counts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, TOP_VALUES)
+        .map(([value, count]) => ({ value, count }));
+    }
+
+    return stats;
+  });
+
+  return { rowCount: rows.length, columnCount: headers.length, columns };
+}
+
+export function formatStatisticsForPrompt(
+  statistics: DatasetStatistics | null,
+): string {
+  if (!statistics) {
+    return 'Not available (the data is not tabular).';
+  }
+
+  const lines = [
+    `Total records: ${statistics.rowCount}`,
+    `Columns: ${statistics.columnCount}`,
+  ];
+  for (const column of statistics.columns) {
+    lines.push(`- ${describeColumn(column)}`);
+  }
+  return lines.join('\n');
+}
+
+export function describeColumn(column: ColumnStatistics): string {
+  const parts = [
+    `${column.filled} filled`,
+    `${column.missing} missing`,
+    `${column.invalid} invalid`,
+    `${column.distinct} distinct`,
+  ];
+  if (column.numeric) {
+    parts.push(
+      `min ${column.numeric.min}, max ${column.numeric.max}, mean ${column.numeric.mean}`,
+    );
+  }
+  if (column.topValues) {
+    parts.push(
+      `most frequent: ${column.topValues
+        .map(({ value, count }) => `${value} (${count})`)
+        .join(', ')}`,
+    );
+  }
+  return `${column.name}: ${parts.join('; ')}`;
+}
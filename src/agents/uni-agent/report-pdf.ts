@@ -0,0 +1,296 @@
+import PDFDocument from 'pdfkit';
+import type { ChartSeries, GeneratedReport } from './uni-agent.service';
+
+const MARGIN = 56;
+const FOOTER_OFFSET = 32;
+const CHART_HEIGHT = 220;
+
+const COLORS = {
+  title: '#2c3e50',
+  heading: '#34495e',
+  text: '#333333',
+  muted: '#7f8c8d',
+  accent: '#3498db',
+  rule: '#ecf0f1',
+  grid: '#e5e7eb',
+};
+
+/**
+ * Renders a generated report as a PDF: a cover page with the report metadata, the sections
+ * with their insights, the recommendations and, when given, the charts drawn as vector graphics.
+ * Every page after the cover is numbered.
+ */
+export function renderReportPdf(
+  report: GeneratedReport,
+  charts: ChartSeries[] = [],
+): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    bufferPages: true,
+    info: {
+      Title: report.metadata.title,
+      Subject: `${report.metadata.reportType} report`,
+      CreationDate: new Date(report.metadata.generatedAt),
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  renderCover(doc, report);
+
+  doc.addPage();
+  for (const section of report.sections) {
+    renderSection(doc, section.title, section.content, section.insights);
+  }
+  if (report.recommendations && report.recommendations.length > 0) {
+    renderSection(doc, 'Recommendations', '', report.recommendations);
+  }
+
+  if (charts.length > 0) {
+    doc.addPage();
+    renderHeading(doc, 'Charts');
+    for (const chart of charts) {
+      ensureSpace(doc, CHART_HEIGHT + 20);
+      drawChart(doc, chart, MARGIN, doc.y, contentWidth(doc), CHART_HEIGHT);
+      doc.y += CHART_HEIGHT + 20;
+    }
+  }
+
+  renderPageNumbers(doc);
+  doc.end();
+
+  return done;
+}
+
+function renderCover(doc: PDFKit.PDFDocument, report: GeneratedReport) {
+  const width = contentWidth(doc);
+  const { metadata } = report;
+
+  doc
+    .rect(MARGIN, 200, width, 4)
+    .fill(COLORS.accent)
+    .fillColor(COLORS.title)
+    .font('Helvetica-Bold')
+    .fontSize(28)
+    .text(metadata.title, MARGIN, 230, { width });
+
+  doc
+    .moveDown(0.5)
+    .font('Helvetica')
+    .fontSize(14)
+    .fillColor(COLORS.muted)
+    .text(`${capitalize(metadata.reportType)} report`, { width });
+
+  doc.moveDown(3);
+  const rows: [string, string][] = [
+    ['Generated', new Date(metadata.generatedAt).toLocaleString()],
+    ['Data Source', metadata.dataSource],
+    ['Record Count', String(metadata.recordCount)],
+    ['Report Type', metadata.reportType],
+  ];
+  for (const [label, value] of rows) {
+    const y = doc.y;
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(11)
+      .fillColor(COLORS.heading)
+      .text(label, MARGIN, y, { width: 120 });
+    doc
+      .font('Helvetica')
+      .fillColor(COLORS.text)
+      .text(value || '-', MARGIN + 130, y, { width: width - 130 });
+    doc.moveDown(0.6);
+  }
+}
+
+function renderSection(
+  doc: PDFKit.PDFDocument,
+  title: string,
+  content: string,
+  items?: string[],
+) {
+  ensureSpace(doc, 80);
+  renderHeading(doc, title);
+
+  if (content) {
+    doc
+      .font('Helvetica')
+      .fontSize(11)
+      .fillColor(COLORS.text)
+      .text(content, MARGIN, doc.y, {
+        width: contentWidth(doc),
+        lineGap: 3,
+      });
+    doc.moveDown(0.5);
+  }
+
+  if (items && items.length > 0) {
+    doc
+      .font('Helvetica')
+      .fontSize(11)
+      .fillColor(COLORS.text)
+      .list(items, MARGIN + 8, doc.y, {
+        width: contentWidth(doc) - 8,
+        bulletRadius: 2,
+        textIndent: 12,
+        lineGap: 3,
+      });
+  }
+
+  doc.moveDown(1.5);
+}
+
+function renderHeading(doc: PDFKit.PDFDocument, title: string) {
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(16)
+    .fillColor(COLORS.heading)
+    .text(title, MARGIN, doc.y, { width: contentWidth(doc) });
+
+  const y = doc.y + 4;
+  doc
+    .moveTo(MARGIN, y)
+    .lineTo(MARGIN + contentWidth(doc), y)
+    .lineWidth(1)
+    .strokeColor(COLORS.rule)
+    .stroke();
+  doc.y = y + 10;
+}
+
+// Bar and line charts drawn with PDF primitives, so they stay sharp at any zoom level
+function drawChart(
+  doc: PDFKit.PDFDocument,
+  chart: ChartSeries,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+) {
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(12)
+    .fillColor(COLORS.heading)
+    .text(chart.title, x, y, { width });
+
+  const plotLeft = x + 36;
+  const plotTop = y + 24;
+  const plotWidth = width - 40;
+  const plotHeight = height - 60;
+  const plotBottom = plotTop + plotHeight;
+  const max = Math.max(1, ...chart.values);
+  const color = `rgb(${chart.color.join(',')})`;
+
+  // Horizontal grid lines with their values
+  const steps = 4;
+  doc.font('Helvetica').fontSize(7).fillColor(COLORS.muted);
+  for (let step = 0; step <= steps; step++) {
+    const value = (max * step) / steps;
+    const lineY = plotBottom - (plotHeight * step) / steps;
+    doc
+      .moveTo(plotLeft, lineY)
+      .lineTo(plotLeft + plotWidth, lineY)
+      .lineWidth(0.5)
+      .strokeColor(COLORS.grid)
+      .stroke();
+    doc.text(formatTick(value), x, lineY - 3, {
+      width: 30,
+      align: 'right',
+    });
+  }
+
+  const slot = plotWidth / chart.values.length;
+  const pointAt = (index: number) => ({
+    x: plotLeft + slot * index + slot / 2,
+    y: plotBottom - (chart.values[index] / max) * plotHeight,
+  });
+
+  if (chart.type === 'line') {
+    chart.values.forEach((_, index) => {
+      const point = pointAt(index);
+      if (index === 0) doc.moveTo(point.x, point.y);
+      else doc.lineTo(point.x, point.y);
+    });
+    doc.lineWidth(1.5).strokeColor(color).stroke();
+    chart.values.forEach((_, index) => {
+      const point = pointAt(index);
+      doc.circle(point.x, point.y, 2).fill(color);
+    });
+  } else {
+    const barWidth = slot * 0.6;
+    chart.values.forEach((value, index) => {
+      const barHeight = (value / max) * plotHeight;
+      doc
+        .rect(
+          plotLeft + slot * index + (slot - barWidth) / 2,
+          plotBottom - barHeight,
+          barWidth,
+          barHeight,
+        )
+        .fillOpacity(0.6)
+        .fill(color)
+        .fillOpacity(1);
+    });
+  }
+
+  doc.font('Helvetica').fontSize(7).fillColor(COLORS.text);
+  chart.labels.forEach((label, index) => {
+    doc.text(label, plotLeft + slot * index, plotBottom + 4, {
+      width: slot,
+      align: 'center',
+      height: 18,
+      ellipsis: true,
+    });
+  });
+}
+
+// The cover page stays unnumbered; content pages are numbered from 1
+function renderPageNumbers(doc: PDFKit.PDFDocument) {
+  const range = doc.bufferedPageRange();
+  const total = range.count - 1;
+
+  for (
+    let index = range.start + 1;
+    index < range.start + range.count;
+    index++
+  ) {
+    doc.switchToPage(index);
+    const bottomMargin = doc.page.margins.bottom;
+    // Writing inside the bottom margin would otherwise start a new page
+    doc.page.margins.bottom = 0;
+    doc
+      .font('Helvetica')
+      .fontSize(9)
+      .fillColor(COLORS.muted)
+      .text(
+        `Page ${index - range.start} of ${total}`,
+        MARGIN,
+        doc.page.height - FOOTER_OFFSET,
+        { width: contentWidth(doc), align: 'center' },
+      );
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+function ensureSpace(doc: PDFKit.PDFDocument, needed: number) {
+  if (doc.y + needed > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+  }
+}
+
+function contentWidth(doc: PDFKit.PDFDocument): number {
+  return doc.page.width - MARGIN * 2;
+}
+
+function formatTick(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function capitalize(value: string): string {
+  return value ? value.charAt(0).toUpperCase() + value.slice(1) : '';
+}
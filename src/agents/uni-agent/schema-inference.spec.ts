@@ -0,0 +1,150 @@
+import {
+  SchemaError,
+  applySchemaCorrections,
+  inferSchema,
+  resolveColumnTypes,
+  withCorrectionsFrom,
+} from './schema-inference';
+
+const headers = [
+  'employee_id',
+  'email',
+  'hired',
+  'salary',
+  'phone',
+  'dept',
+  'score',
+  'notes',
+];
+const rows = [
+  [
+    'E-101',
+    'ana@example.com',
+    '2021-03-01',
+    '3500',
+    '+351 912 345 678',
+    'HR',
+    '4.5',
+    'Joined from Porto',
+  ],
+  [
+    'E-102',
+    'bruno@example.com',
+    '2020-07-15',
+    '4200',
+    '+351 913 000 111',
+    'IT',
+    '3.25',
+    'Team lead since spring',
+  ],
+  [
+    'E-103',
+    'carla@example.com',
+    '2019-11-30',
+    '3900',
+    '+351 914 222 333',
+    'hr',
+    '4',
+    'Part time',
+  ],
+  [
+    'E-104',
+    'not an email',
+    '2022-01-10',
+    'N/A',
+    '+351 915 444 555',
+    'IT',
+    '2.75',
+    'On leave until May',
+  ],
+  [
+    'E-105',
+    'dario@example.com',
+    '2018-05-05',
+    '5100',
+    '+351 916 666 777',
+    'Sales',
+    '3.5',
+    'Remote, visits quarterly',
+  ],
+];
+
+describe('inferSchema', () => {
+  it('types every column from its values, tolerating a few bad cells', () => {
+    const schema = inferSchema(headers, rows);
+
+    expect(schema.rowCount).toBe(5);
+    expect(
+      Object.fromEntries(
+        schema.columns.map((column) => [column.name, column.type]),
+      ),
+    ).toEqual({
+      employee_id: 'identifier',
+      email: 'email',
+      hired: 'date',
+      salary: 'currency',
+      phone: 'phone',
+      dept: 'category',
+      score: 'decimal',
+      notes: 'text',
+    });
+    expect(schema.columns[1]).toMatchObject({ confidence: 0.8, nonEmpty: 5 });
+    // The missing salary is not counted against the column
+    expect(schema.columns[3]).toMatchObject({ confidence: 1, nonEmpty: 4 });
+  });
+
+  it('lists the other types the values support', () => {
+    const [score] = inferSchema(
+      ['score'],
+      rows.map((row) => [row[6]]),
+    ).columns;
+
+    expect(score.candidates[0]).toEqual({ type: 'integer', confidence: 0.2 });
+  });
+});
+
+describe('resolveColumnTypes', () => {
+  it('prefers the stored schema and infers the columns it lacks', () => {
+    const schema = inferSchema(
+      ['salary'],
+      rows.map((row) => [row[3]]),
+    );
+    schema.columns[0].type = 'integer';
+
+    expect(
+      resolveColumnTypes(
+        ['Salary', 'email'],
+        rows.map((row) => [row[3], row[1]]),
+        schema,
+      ),
+    ).toEqual(['integer', 'email']);
+  });
+});
+
+describe('schema corrections', () => {
+  it('sets chosen types and keeps them for the next version of the file', () => {
+    const corrected = applySchemaCorrections(inferSchema(headers, rows), {
+      Score: 'text',
+    });
+    expect(corrected.columns[6]).toMatchObject({
+      type: 'text',
+      confidence: 1,
+      corrected: true,
+    });
+
+    const next = withCorrectionsFrom(
+      inferSchema(headers, rows.slice(0, 3)),
+      corrected,
+    );
+    expect(next.columns[6]).toMatchObject({ type: 'text', corrected: true });
+    expect(next.columns[1].corrected).toBeUndefined();
+  });
+
+  it('rejects unknown columns', () => {
+    expect(() =>
+      applySchemaCorrections(inferSchema(['id'], [['1']]), {
+        zip: 'identifier',
+      }),
+    ).toThrow(new SchemaError(['unknown column "zip"; columns are: id']));
+  });
+});
@@ -0,0 +1,300 @@
+import { z } from 'zod';
+import { DEFAULT_NULL_TOKENS } from './cleaning-pipeline';
+
+export const SEMANTIC_TYPES = [
+  'integer',
+  'decimal',
+  'currency',
+  'date',
+  'email',
+  'phone',
+  'category',
+  'text',
+  'identifier',
+] as const;
+export type SemanticType = (typeof SEMANTIC_TYPES)[number];
+
+export interface ColumnSchema {
+  // Lower-cased header, as the tools see it
+  name: string;
+  type: SemanticType;
+  // 0-1; for pattern types, the share of non-empty values that match
+  confidence: number;
+  // The other types the values support, best first
+  candidates: { type: SemanticType; confidence: number }[];
+  nonEmpty: number;
+  distinct: number;
+  // Set when the type was chosen by a user rather than inferred
+  corrected?: boolean;
+}
+
+export interface DataSchema {
+  columns: ColumnSchema[];
+  rowCount: number;
+}
+
+// Body of a schema correction: column name -> type
+export const schemaCorrectionSchema = z.object({
+  columns: z.record(z.enum(SEMANTIC_TYPES)),
+});
+
+export class SchemaError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid schema correction: ${issues.join('; ')}`);
+  }
+}
+
+// Share of matching values a pattern type needs
+const MATCH_THRESHOLD = 0.8;
+const MAX_CATEGORIES = 50;
+
+const NULL_VALUES = new Set([
+  ...DEFAULT_NULL_TOKENS.map((token) => token.toLowerCase()),
+  'unknown',
+]);
+const INVALID_TAG = /^\[INVALID_[A-Z_]+\]$/;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+const INTEGER = /^[-+]?(?:\d+|\d{1,3}(?:,\d{3})+)$/;
+const DECIMAL = /^[-+]?(?:\d+|\d{1,3}(?:,\d{3})+)?\.\d+$/;
+const CURRENCY =
+  /^[-+]?(?:[$€£¥]\s?[\d,]*\d(?:\.\d+)?|[\d,]*\d(?:\.\d+)?\s?(?:[$€£¥]|USD|EUR|GBP|JPY|CAD|AUD|CHF))$/i;
+const PHONE = /^\+?\(?\d[\d\s().-]*\d$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CODE = /^(?=.*\d)(?=.*[a-z])[a-z0-9_-]+$/i;
+
+// Header words that make a numeric column money, or a unique column a key. Values decide
+// the type; these only settle what the values cannot tell apart.
+const CURRENCY_WORDS = [
+  'salary',
+  'price',
+  'amount',
+  'cost',
+  'revenue',
+  'fee',
+  'balance',
+  'income',
+];
+const IDENTIFIER_WORDS = ['id', 'uuid', 'code', 'key', 'sku', 'ref'];
+
+export function isMissingValue(value: string): boolean {
+  const trimmed = value.trim();
+  return NULL_VALUES.has(trimmed.toLowerCase()) || INVALID_TAG.test(trimmed);
+}
+
+export function isDateValue(value: string): boolean {
+  let match = value.match(
+    /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ][\d:.]+Z?)?$/,
+  );
+  if (match) {
+    return validDay(+match[2], +match[3]);
+  }
+  match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) {
+    // Either month or day first
+    return validDay(+match[1], +match[2]) || validDay(+match[2], +match[1]);
+  }
+  return false;
+}
+
+function validDay(month: number, day: number): boolean {
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+}
+
+export function isPhoneValue(value: string): boolean {
+  if (!PHONE.test(value) || isDateValue(value) || DECIMAL.test(value)) {
+    return false;
+  }
+  const digits = value.replace(/\D/g, '').length;
+  // Bare digit strings are numbers; a phone number is written with separators or a prefix
+  return digits >= 7 && digits <= 15 && /[\s().+-]/.test(value);
+}
+
+export function isNumericValue(value: string): boolean {
+  return INTEGER.test(value) || DECIMAL.test(value);
+}
+
+/**
+ * Infers the semantic type of every column from its values. Email, date, currency, phone and
+ * number columns need MATCH_THRESHOLD of their non-empty values to match, so a few bad cells do
+ * not change the type; those cells are what validation flags. Unique codes are identifiers,
+ * repeating strings categories, and everything else free text.
+ */
+export function inferSchema(headers: string[], rows: string[][]): DataSchema {
+  return {
+    columns: headers.map((header, index) =>
+      inferColumn(
+        header,
+        rows.map((row) => row[index] ?? ''),
+      ),
+    ),
+    rowCount: rows.length,
+  };
+}
+
+function inferColumn(name: string, cells: string[]): ColumnSchema {
+  const values = cells
+    .map((cell) => cell.trim())
+    .filter((cell) => !isMissingValue(cell));
+  const distinct = new Set(values).size;
+  const column = { name, nonEmpty: values.length, distinct };
+
+  if (values.length === 0) {
+    return { ...column, type: 'text', confidence: 0, candidates: [] };
+  }
+
+  const share = (test: (value: string) => boolean) =>
+    round(values.filter(test).length / values.length);
+  const numeric = share(isNumericValue);
+  const unique = distinct === values.length;
+  const words = name.toLowerCase().split(/[^a-z0-9]+/);
+  const named = (list: string[]) => list.some((word) => words.includes(word));
+
+  const scores: Partial<Record<SemanticType, number>> = {
+    email: share((value) => EMAIL.test(value)),
+    date: share(isDateValue),
+    currency: named(CURRENCY_WORDS)
+      ? share((value) => CURRENCY.test(value) || isNumericValue(value))
+      : share((value) => CURRENCY.test(value)),
+    phone: share(isPhoneValue),
+    integer: share((value) => INTEGER.test(value)),
+    decimal: numeric,
+  };
+  if (unique && values.length > 1) {
+    const codes = share(
+      (value) => UUID.test(value) || CODE.test(value) || INTEGER.test(value),
+    );
+    scores.identifier =
+      share((value) => UUID.test(value)) >= MATCH_THRESHOLD ||
+      named(IDENTIFIER_WORDS) ||
+      (scores.integer! < MATCH_THRESHOLD && codes >= MATCH_THRESHOLD)
+        ? codes
+        : 0;
+  }
+
+  // In order of precedence: the more specific type wins when several match
+  const precedence: SemanticType[] = [
+    'identifier',
+    'email',
+    'date',
+    'currency',
+    'phone',
+    'integer',
+    'decimal',
+  ];
+  let type = precedence.find(
+    (candidate) => (scores[candidate] ?? 0) >= MATCH_THRESHOLD,
+  );
+  let confidence = type ? scores[type]! : 0;
+
+  if (!type) {
+    // Spellings that differ only in case are one category
+    const ratio =
+      new Set(values.map((value) => value.toLowerCase())).size / values.length;
+    // Small datasets cannot repeat values often, so less repetition counts there
+    if (
+      ratio * values.length <= MAX_CATEGORIES &&
+      ratio <= (values.length < 20 ? 0.75 : 0.5)
+    ) {
+      type = 'category';
+      confidence = round(Math.max(0.5, 1 - ratio));
+    } else {
+      type = 'text';
+      confidence = round(1 - Math.max(...Object.values(scores)));
+    }
+  }
+
+  const candidates = (Object.entries(scores) as [SemanticType, number][])
+    .filter(([candidate, score]) => candidate !== type && score > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([candidate, score]) => ({ type: candidate, confidence: score }));
+
+  return { ...column, type, confidence, candidates };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Types of the given columns, from the schema where it covers them and inferred from the
+ * data otherwise, e.g. for data that was never stored or columns added since.
+ */
+export function resolveColumnTypes(
+  headers: string[],
+  rows: string[][],
+  schema?: DataSchema | null,
+): SemanticType[] {
+  const known = new Map(
+    (schema?.columns ?? []).map((column) => [
+      column.name.toLowerCase(),
+      column.type,
+    ]),
+  );
+  const inferred = headers.some((header) => !known.has(header.toLowerCase()))
+    ? inferSchema(headers, rows)
+    : null;
+
+  return headers.map(
+    (header, index) =>
+      known.get(header.toLowerCase()) ?? inferred!.columns[index].type,
+  );
+}
+
+// Sets user-chosen types; unknown columns are rejected
+export function applySchemaCorrections(
+  schema: DataSchema,
+  corrections: Record<string, SemanticType>,
+): DataSchema {
+  const names = new Set(schema.columns.map((column) => column.name));
+  const unknown = Object.keys(corrections).filter(
+    (name) => !names.has(name.toLowerCase()),
+  );
+  if (unknown.length > 0) {
+    throw new SchemaError(
+      unknown.map(
+        (name) =>
+          `unknown column "${name}"; columns are: ${[...names].join(', ')}`,
+      ),
+    );
+  }
+
+  const byName = new Map(
+    Object.entries(corrections).map(([name, type]) => [
+      name.toLowerCase(),
+      type,
+    ]),
+  );
+  return {
+    ...schema,
+    columns: schema.columns.map((column) =>
+      byName.has(column.name)
+        ? {
+            ...column,
+            type: byName.get(column.name)!,
+            confidence: 1,
+            corrected: true,
+          }
+        : column,
+    ),
+  };
+}
+
+// Carries the corrections of a previous schema over to one inferred for a new file version
+export function withCorrectionsFrom(
+  schema: DataSchema,
+  previous?: DataSchema | null,
+): DataSchema {
+  const corrections = Object.fromEntries(
+    (previous?.columns ?? [])
+      .filter(
+        (column) =>
+          column.corrected &&
+          schema.columns.some((current) => current.name === column.name),
+      )
+      .map((column) => [column.name, column.type]),
+  );
+  return Object.keys(corrections).length > 0
+    ? applySchemaCorrections(schema, corrections)
+    : schema;
+}
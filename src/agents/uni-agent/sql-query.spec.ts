@@ -0,0 +1,203 @@
+import {
+  MAX_JOIN_COMPARISONS,
+  QueryError,
+  likeMatches,
+  runQuery,
+} from './sql-query';
+import type { QueryTable } from './sql-query';
+import { inferSchema } from './schema-inference';
+
+const headers = ['name', 'department', 'salary'];
+const rows = [
+  ['Ana', 'Sales', '3000'],
+  ['Bruno', 'Sales', '4500'],
+  ['Carla', 'IT', '5200'],
+  ['Diego', 'IT', 'Unknown'],
+];
+const employees: QueryTable = {
+  name: 'employees',
+  headers,
+  rows,
+  schema: inferSchema(headers, rows),
+};
+
+describe('likeMatches', () => {
+  it('matches % and _ wildcards case-insensitively', () => {
+    expect(likeMatches('Sales team', 'sales%')).toBe(true);
+    expect(likeMatches('Sales', '_ales')).toBe(true);
+    expect(likeMatches('Sales', '%LES')).toBe(true);
+    expect(likeMatches('Sales', 'S%x')).toBe(false);
+    expect(likeMatches('Sales', '____')).toBe(false);
+    expect(likeMatches('', '%')).toBe(true);
+    expect(likeMatches('a.b', 'a.b')).toBe(true);
+    expect(likeMatches('axb', 'a.b')).toBe(false);
+  });
+
+  it('backtracks to the last % when an early match leads nowhere', () => {
+    expect(likeMatches('abcabd', '%ab_')).toBe(true);
+    expect(likeMatches('mississippi', 'm%iss%pi')).toBe(true);
+    expect(likeMatches('mississippi', 'm%iss%pix')).toBe(false);
+  });
+
+  it('stays fast on patterns that make a regex backtrack exponentially', () => {
+    const started = Date.now();
+    expect(likeMatches('a'.repeat(10000), '%a%a%a%a%a%a%a%a%b')).toBe(false);
+    expect(likeMatches('a'.repeat(10000), '%%%%%%%%%%%%%%%%%b')).toBe(false);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe('runQuery', () => {
+  it('filters, orders and casts numeric columns', () => {
+    const result = runQuery(
+      'SELECT name, salary FROM employees WHERE salary > 4000 ORDER BY salary DESC',
+      [employees],
+    );
+    expect(result.columns).toEqual(['name', 'salary']);
+    expect(result.rows).toEqual([
+      ['Carla', 5200],
+      ['Bruno', 4500],
+    ]);
+  });
+
+  it('treats "Unknown" cells as NULL', () => {
+    const result = runQuery('SELECT name FROM employees WHERE salary IS NULL', [
+      employees,
+    ]);
+    expect(result.rows).toEqual([['Diego']]);
+  });
+
+  it('groups and aggregates', () => {
+    const result = runQuery(
+      'SELECT department, COUNT(*) AS people FROM employees GROUP BY department ORDER BY department',
+      [employees],
+    );
+    expect(result.rows).toEqual([
+      ['IT', 2],
+      ['Sales', 2],
+    ]);
+  });
+
+  it('refuses columns that are neither grouped nor aggregated', () => {
+    expect(() =>
+      runQuery(
+        'SELECT department, name, COUNT(*) FROM employees GROUP BY department',
+        [employees],
+      ),
+    ).toThrow(
+      'Column "name" must be in GROUP BY or used in an aggregate function',
+    );
+    expect(() =>
+      runQuery('SELECT name, MAX(salary) FROM employees', [employees]),
+    ).toThrow(QueryError);
+    expect(() =>
+      runQuery(
+        'SELECT department FROM employees GROUP BY department ORDER BY salary',
+        [employees],
+      ),
+    ).toThrow(/Column "salary"/);
+
+    // Grouped expressions may be used however the query spells them
+    const result = runQuery(
+      'SELECT LOWER(e.Department) AS dept, ROUND(AVG(salary)) FROM employees e GROUP BY lower(department) HAVING COUNT(*) > 1 ORDER BY dept',
+      [employees],
+    );
+    expect(result.rows).toEqual([
+      ['it', 5200],
+      ['sales', 3750],
+    ]);
+  });
+
+  it('joins on equality and on other conditions', () => {
+    const departments: QueryTable = {
+      name: 'departments',
+      headers: ['name', 'floor', 'budget'],
+      rows: [
+        ['Sales', '1', '7000'],
+        ['IT', '2', '4000'],
+        ['HR', '3', '1000'],
+      ],
+    };
+    const tables = [employees, departments];
+
+    expect(
+      runQuery(
+        'SELECT e.name, d.floor FROM employees e JOIN departments d ON e.department = d.name ORDER BY e.name',
+        tables,
+      ).rows,
+    ).toEqual([
+      ['Ana', 1],
+      ['Bruno', 1],
+      ['Carla', 2],
+      ['Diego', 2],
+    ]);
+    expect(
+      runQuery(
+        'SELECT d.name, COUNT(e.name) AS people FROM departments d LEFT JOIN employees e ON d.name = e.department GROUP BY d.name ORDER BY d.name',
+        tables,
+      ).rows,
+    ).toEqual([
+      ['HR', 0],
+      ['IT', 2],
+      ['Sales', 2],
+    ]);
+    expect(
+      runQuery(
+        'SELECT e.name, d.name FROM employees e JOIN departments d ON e.salary > d.budget ORDER BY e.name, d.name',
+        tables,
+      ).rows,
+    ).toEqual([
+      ['Ana', 'HR'],
+      ['Bruno', 'HR'],
+      ['Bruno', 'IT'],
+      ['Carla', 'HR'],
+      ['Carla', 'IT'],
+    ]);
+  });
+
+  it('limits the row pairs a join without an equality condition compares', () => {
+    const side = Math.ceil(Math.sqrt(MAX_JOIN_COMPARISONS)) + 1;
+    const numbers = (name: string): QueryTable => ({
+      name,
+      headers: ['n'],
+      rows: Array.from({ length: side }, (_, index) => [String(index)]),
+    });
+
+    expect(() =>
+      runQuery('SELECT * FROM a JOIN b ON a.n < b.n', [
+        numbers('a'),
+        numbers('b'),
+      ]),
+    ).toThrow(/at most 250000 are allowed/);
+    expect(
+      runQuery('SELECT COUNT(*) FROM a JOIN b ON a.n = b.n', [
+        numbers('a'),
+        numbers('b'),
+      ]).rows,
+    ).toEqual([[side]]);
+  });
+
+  it('applies LIKE through the wildcard matcher', () => {
+    const result = runQuery(
+      "SELECT name FROM employees WHERE name LIKE '%r%' ORDER BY name",
+      [employees],
+    );
+    expect(result.rows).toEqual([['Bruno'], ['Carla']]);
+  });
+
+  it('caps the rows returned and reports the truncation', () => {
+    const result = runQuery('SELECT name FROM employees', [employees], 2);
+    expect(result.rows).toHaveLength(2);
+    expect(result.rowCount).toBe(4);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('refuses statements other than SELECT and unknown tables', () => {
+    expect(() => runQuery('DELETE FROM employees', [employees])).toThrow(
+      QueryError,
+    );
+    expect(() => runQuery('SELECT * FROM salaries', [employees])).toThrow(
+      /Unknown table "salaries"/,
+    );
+  });
+});
@@ -0,0 +1,1464 @@
+import { parseDateValue, parseNumericValue } from './data-profiler';
+import {
+  DataSchema,
+  SemanticType,
+  isMissingValue,
+  resolveColumnTypes,
+} from './schema-inference';
+
+export const MAX_QUERY_LENGTH = 10000;
+export const MAX_RESULT_ROWS = 1000;
+// Rows a join may produce before the query is refused
+export const MAX_JOIN_ROWS = 1000000;
+// Row pairs a join without an equality ON condition may compare, since it checks every pair
+export const MAX_JOIN_COMPARISONS = 250000;
+
+export type SqlValue = string | number | boolean | null;
+
+export interface QueryTable {
+  // Name queries use for the table, e.g. "employees"
+  name: string;
+  headers: string[];
+  rows: string[][];
+  // Column types; numeric columns are compared and aggregated as numbers
+  schema?: DataSchema | null;
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: SqlValue[][];
+  // Rows the query returned before the MAX_RESULT_ROWS cap
+  rowCount: number;
+  truncated: boolean;
+}
+
+export class QueryError extends Error {}
+
+const NUMERIC_TYPES: SemanticType[] = ['integer', 'decimal', 'currency'];
+
+const KEYWORDS = new Set([
+  'SELECT',
+  'DISTINCT',
+  'FROM',
+  'AS',
+  'JOIN',
+  'INNER',
+  'LEFT',
+  'OUTER',
+  'ON',
+  'WHERE',
+  'GROUP',
+  'BY',
+  'HAVING',
+  'ORDER',
+  'ASC',
+  'DESC',
+  'LIMIT',
+  'OFFSET',
+  'AND',
+  'OR',
+  'NOT',
+  'IN',
+  'IS',
+  'NULL',
+  'LIKE',
+  'BETWEEN',
+  'TRUE',
+  'FALSE',
+  'CASE',
+  'WHEN',
+  'THEN',
+  'ELSE',
+  'END',
+]);
+
+// Argument counts; Infinity for variadic functions
+const FUNCTIONS: Record<
+  string,
+  { min: number; max: number; aggregate?: boolean }
+> = {
+  COUNT: { min: 1, max: 1, aggregate: true },
+  SUM: { min: 1, max: 1, aggregate: true },
+  AVG: { min: 1, max: 1, aggregate: true },
+  MIN: { min: 1, max: 1, aggregate: true },
+  MAX: { min: 1, max: 1, aggregate: true },
+  LOWER: { min: 1, max: 1 },
+  UPPER: { min: 1, max: 1 },
+  TRIM: { min: 1, max: 1 },
+  LENGTH: { min: 1, max: 1 },
+  SUBSTR: { min: 2, max: 3 },
+  ROUND: { min: 1, max: 2 },
+  ABS: { min: 1, max: 1 },
+  COALESCE: { min: 1, max: Infinity },
+  YEAR: { min: 1, max: 1 },
+  MONTH: { min: 1, max: 1 },
+  DAY: { min: 1, max: 1 },
+};
+
+// ===== SYNTAX =====
+
+type Expr =
+  | { kind: 'literal'; value: SqlValue }
+  | { kind: 'column'; table?: string; name: string; index?: number }
+  | { kind: 'unary'; op: '-' | 'NOT'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr }
+  | { kind: 'is_null'; operand: Expr; negated: boolean }
+  | { kind: 'in'; operand: Expr; list: Expr[]; negated: boolean }
+  | { kind: 'between'; operand: Expr; low: Expr; high: Expr; negated: boolean }
+  | { kind: 'like'; operand: Expr; pattern: Expr; negated: boolean }
+  | {
+      kind: 'call';
+      name: string;
+      args: Expr[];
+      distinct: boolean;
+      star: boolean;
+    }
+  | { kind: 'case'; branches: { when: Expr; then: Expr }[]; otherwise?: Expr };
+
+type SelectItem =
+  | { kind: 'star'; table?: string }
+  | { kind: 'expr'; expr: Expr; alias?: string; text: string };
+
+interface TableRef {
+  name: string;
+  alias: string;
+}
+
+interface SelectQuery {
+  distinct: boolean;
+  items: SelectItem[];
+  from: TableRef;
+  joins: { type: 'inner' | 'left'; table: TableRef; on: Expr }[];
+  where?: Expr;
+  groupBy: Expr[];
+  having?: Expr;
+  orderBy: { expr: Expr; descending: boolean }[];
+  limit?: number;
+  offset?: number;
+}
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'keyword' | 'symbol' | 'end';
+  value: string;
+  position: number;
+  end: number;
+}
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const start = i;
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (sql.startsWith('--', i)) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      continue;
+    }
+
+    const number = /^(?:\d+(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?/i.exec(sql.slice(i));
+    if (number) {
+      i += number[0].length;
+      tokens.push({
+        type: 'number',
+        value: number[0],
+        position: start,
+        end: i,
+      });
+      continue;
+    }
+
+    // 'string', "identifier" or `identifier`, with the quote doubled to escape it
+    if (char === "'" || char === '"' || char === '`') {
+      let value = '';
+      i++;
+      for (;;) {
+        if (i >= sql.length) {
+          throw new QueryError(
+            `Unterminated ${char === "'" ? 'string' : 'quoted name'} at position ${start + 1}`,
+          );
+        }
+        if (sql[i] === char) {
+          if (sql[i + 1] !== char) break;
+          i++;
+        }
+        value += sql[i++];
+      }
+      i++;
+      tokens.push({
+        type: char === "'" ? 'string' : 'identifier',
+        value,
+        position: start,
+        end: i,
+      });
+      continue;
+    }
+
+    const word = /^[a-z_][a-z0-9_]*/i.exec(sql.slice(i));
+    if (word) {
+      i += word[0].length;
+      const upper = word[0].toUpperCase();
+      tokens.push(
+        KEYWORDS.has(upper)
+          ? { type: 'keyword', value: upper, position: start, end: i }
+          : { type: 'identifier', value: word[0], position: start, end: i },
+      );
+      continue;
+    }
+
+    const symbol =
+      ['<=', '>=', '<>', '!=', '||'].find((candidate) =>
+        sql.startsWith(candidate, i),
+      ) ?? ('=<>(),.*+-/%;'.includes(char) ? char : null);
+    if (!symbol) {
+      throw new QueryError(
+        `Unexpected character "${char}" at position ${start + 1}`,
+      );
+    }
+    i += symbol.length;
+    tokens.push({ type: 'symbol', value: symbol, position: start, end: i });
+  }
+
+  tokens.push({
+    type: 'end',
+    value: '',
+    position: sql.length,
+    end: sql.length,
+  });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly sql: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parseQuery(): SelectQuery {
+    if (!this.isKeyword('SELECT')) {
+      throw new QueryError('Only SELECT queries are supported');
+    }
+    this.index++;
+
+    const distinct = this.acceptKeyword('DISTINCT');
+    const items = [this.parseSelectItem()];
+    while (this.acceptSymbol(',')) {
+      items.push(this.parseSelectItem());
+    }
+
+    this.expectKeyword('FROM');
+    const query: SelectQuery = {
+      distinct,
+      items,
+      from: this.parseTableRef(),
+      joins: [],
+      groupBy: [],
+      orderBy: [],
+    };
+
+    while (this.isKeyword('JOIN', 'INNER', 'LEFT')) {
+      const type = this.acceptKeyword('LEFT') ? 'left' : 'inner';
+      if (type === 'left') {
+        this.acceptKeyword('OUTER');
+      } else {
+        this.acceptKeyword('INNER');
+      }
+      this.expectKeyword('JOIN');
+      const table = this.parseTableRef();
+      this.expectKeyword('ON');
+      query.joins.push({ type, table, on: this.parseExpression() });
+    }
+
+    if (this.acceptKeyword('WHERE')) {
+      query.where = this.parseExpression();
+    }
+    if (this.acceptKeyword('GROUP')) {
+      this.expectKeyword('BY');
+      query.groupBy = this.parseList(() => this.parseExpression());
+    }
+    if (this.acceptKeyword('HAVING')) {
+      query.having = this.parseExpression();
+    }
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      query.orderBy = this.parseList(() => {
+        const expr = this.parseExpression();
+        const descending = this.acceptKeyword('DESC');
+        if (!descending) this.acceptKeyword('ASC');
+        return { expr, descending };
+      });
+    }
+    if (this.acceptKeyword('LIMIT')) {
+      query.limit = this.parseCount('LIMIT');
+      if (this.acceptKeyword('OFFSET')) {
+        query.offset = this.parseCount('OFFSET');
+      }
+    }
+
+    if (this.acceptSymbol(';') && this.current.type !== 'end') {
+      throw new QueryError('Only one statement is allowed');
+    }
+    if (this.current.type !== 'end') {
+      this.fail('end of query');
+    }
+    return query;
+  }
+
+  private parseSelectItem(): SelectItem {
+    if (this.acceptSymbol('*')) {
+      return { kind: 'star' };
+    }
+    if (
+      this.current.type === 'identifier' &&
+      this.peek(1).value === '.' &&
+      this.peek(2).value === '*'
+    ) {
+      const table = this.next().value;
+      this.index += 2;
+      return { kind: 'star', table };
+    }
+
+    const start = this.current.position;
+    const expr = this.parseExpression();
+    const text = this.sql.slice(start, this.tokens[this.index - 1].end).trim();
+    let alias: string | undefined;
+    if (this.acceptKeyword('AS')) {
+      alias = this.expectIdentifier();
+    } else if (this.current.type === 'identifier') {
+      alias = this.next().value;
+    }
+    return { kind: 'expr', expr, alias, text };
+  }
+
+  private parseTableRef(): TableRef {
+    const name = this.expectIdentifier();
+    let alias = name;
+    if (this.acceptKeyword('AS')) {
+      alias = this.expectIdentifier();
+    } else if (this.current.type === 'identifier') {
+      alias = this.next().value;
+    }
+    return { name, alias };
+  }
+
+  private parseCount(clause: string): number {
+    const token = this.current;
+    if (token.type !== 'number' || !/^\d+$/.test(token.value)) {
+      this.fail(`a whole number after ${clause}`);
+    }
+    this.index++;
+    return Number(token.value);
+  }
+
+  private parseList<T>(parse: () => T): T[] {
+    const items = [parse()];
+    while (this.acceptSymbol(',')) {
+      items.push(parse());
+    }
+    return items;
+  }
+
+  // Lowest to highest precedence: OR, AND, NOT, comparisons, + - ||, * / %, unary minus
+  private parseExpression(): Expr {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'binary', op: 'OR', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'binary', op: 'AND', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'unary', op: 'NOT', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expr {
+    const left = this.parseAdditive();
+
+    const operator = ['=', '<>', '!=', '<', '<=', '>', '>='].find((symbol) =>
+      this.isSymbol(symbol),
+    );
+    if (operator) {
+      this.index++;
+      return {
+        kind: 'binary',
+        op: operator === '!=' ? '<>' : operator,
+        left,
+        right: this.parseAdditive(),
+      };
+    }
+
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT');
+      this.expectKeyword('NULL');
+      return { kind: 'is_null', operand: left, negated };
+    }
+
+    const negated = this.acceptKeyword('NOT');
+    if (this.acceptKeyword('IN')) {
+      this.expectSymbol('(');
+      if (this.isKeyword('SELECT')) {
+        throw new QueryError('Subqueries are not supported');
+      }
+      const list = this.parseList(() => this.parseExpression());
+      this.expectSymbol(')');
+      return { kind: 'in', operand: left, list, negated };
+    }
+    if (this.acceptKeyword('BETWEEN')) {
+      const low = this.parseAdditive();
+      this.expectKeyword('AND');
+      const high = this.parseAdditive();
+      return { kind: 'between', operand: left, low, high, negated };
+    }
+    if (this.acceptKeyword('LIKE')) {
+      return {
+        kind: 'like',
+        operand: left,
+        pattern: this.parseAdditive(),
+        negated,
+      };
+    }
+    if (negated) {
+      this.fail('IN, BETWEEN or LIKE after NOT');
+    }
+    return left;
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      const op = ['+', '-', '||'].find((symbol) => this.isSymbol(symbol));
+      if (!op) return left;
+      this.index++;
+      left = { kind: 'binary', op, left, right: this.parseMultiplicative() };
+    }
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parseUnary();
+    for (;;) {
+      const op = ['*', '/', '%'].find((symbol) => this.isSymbol(symbol));
+      if (!op) return left;
+      this.index++;
+      left = { kind: 'binary', op, left, right: this.parseUnary() };
+    }
+  }
+
+  private parseUnary(): Expr {
+    if (this.acceptSymbol('-')) {
+      return { kind: 'unary', op: '-', operand: this.parseUnary() };
+    }
+    if (this.acceptSymbol('+')) {
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.current;
+
+    if (token.type === 'number') {
+      this.index++;
+      return { kind: 'literal', value: Number(token.value) };
+    }
+    if (token.type === 'string') {
+      this.index++;
+      return { kind: 'literal', value: token.value };
+    }
+    if (this.acceptKeyword('NULL')) {
+      return { kind: 'literal', value: null };
+    }
+    if (this.isKeyword('TRUE', 'FALSE')) {
+      this.index++;
+      return { kind: 'literal', value: token.value === 'TRUE' };
+    }
+    if (this.acceptKeyword('CASE')) {
+      return this.parseCase();
+    }
+    if (this.acceptSymbol('(')) {
+      if (this.isKeyword('SELECT')) {
+        throw new QueryError('Subqueries are not supported');
+      }
+      const expr = this.parseExpression();
+      this.expectSymbol(')');
+      return expr;
+    }
+
+    if (token.type === 'identifier') {
+      this.index++;
+      if (this.acceptSymbol('(')) {
+        return this.parseCall(token);
+      }
+      if (this.acceptSymbol('.')) {
+        return {
+          kind: 'column',
+          table: token.value,
+          name: this.expectIdentifier(),
+        };
+      }
+      return { kind: 'column', name: token.value };
+    }
+
+    this.fail('an expression');
+  }
+
+  private parseCall(token: Token): Expr {
+    const name = token.value.toUpperCase();
+    const definition = FUNCTIONS[name];
+    if (!definition) {
+      throw new QueryError(
+        `Unknown function ${token.value} at position ${token.position + 1}; functions are: ${Object.keys(FUNCTIONS).join(', ')}`,
+      );
+    }
+
+    if (name === 'COUNT' && this.acceptSymbol('*')) {
+      this.expectSymbol(')');
+      return { kind: 'call', name, args: [], distinct: false, star: true };
+    }
+    const distinct = !!definition.aggregate && this.acceptKeyword('DISTINCT');
+    const args = this.isSymbol(')')
+      ? []
+      : this.parseList(() => this.parseExpression());
+    this.expectSymbol(')');
+
+    if (args.length < definition.min || args.length > definition.max) {
+      throw new QueryError(
+        `${name} takes ${definition.min === definition.max ? definition.min : `${definition.min} to ${definition.max}`} argument(s), got ${args.length}`,
+      );
+    }
+    return { kind: 'call', name, args, distinct, star: false };
+  }
+
+  private parseCase(): Expr {
+    const branches: { when: Expr; then: Expr }[] = [];
+    while (this.acceptKeyword('WHEN')) {
+      const when = this.parseExpression();
+      this.expectKeyword('THEN');
+      branches.push({ when, then: this.parseExpression() });
+    }
+    if (branches.length === 0) {
+      this.fail('WHEN');
+    }
+    const otherwise = this.acceptKeyword('ELSE')
+      ? this.parseExpression()
+      : undefined;
+    this.expectKeyword('END');
+    return { kind: 'case', branches, otherwise };
+  }
+
+  private get current(): Token {
+    return this.tokens[this.index];
+  }
+
+  private peek(offset: number): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(...words: string[]): boolean {
+    return (
+      this.current.type === 'keyword' && words.includes(this.current.value)
+    );
+  }
+
+  private isSymbol(symbol: string): boolean {
+    return this.current.type === 'symbol' && this.current.value === symbol;
+  }
+
+  private acceptKeyword(word: string): boolean {
+    if (!this.isKeyword(word)) return false;
+    this.index++;
+    return true;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (!this.isSymbol(symbol)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectKeyword(word: string) {
+    if (!this.acceptKeyword(word)) this.fail(word);
+  }
+
+  private expectSymbol(symbol: string) {
+    if (!this.acceptSymbol(symbol)) this.fail(`"${symbol}"`);
+  }
+
+  private expectIdentifier(): string {
+    if (this.current.type !== 'identifier') this.fail('a name');
+    return this.next().value;
+  }
+
+  private fail(expected: string): never {
+    const token = this.current;
+    const found = token.type === 'end' ? 'end of query' : `"${token.value}"`;
+    throw new QueryError(
+      `Expected ${expected} at position ${token.position + 1}, found ${found}`,
+    );
+  }
+}
+
+// ===== EXECUTION =====
+
+interface Source {
+  alias: string;
+  columns: string[];
+  // Position of the source's first column in a joined row
+  offset: number;
+}
+
+interface BindContext {
+  sources: Source[];
+  // Select-list aliases ORDER BY, GROUP BY and HAVING may refer to
+  aliases?: Map<string, Expr>;
+  aggregates: boolean;
+}
+
+/**
+ * Runs one read-only SELECT over the given tables, in memory. Column and table names are
+ * case-insensitive; cells that are missing, "Unknown" or tagged invalid are NULL, and numeric
+ * columns hold numbers. Throws QueryError for anything outside the dialect.
+ */
+export function runQuery(
+  sql: string,
+  tables: QueryTable[],
+  maxRows = MAX_RESULT_ROWS,
+): QueryResult {
+  if (sql.length > MAX_QUERY_LENGTH) {
+    throw new QueryError(`Query is longer than ${MAX_QUERY_LENGTH} characters`);
+  }
+  const query = new Parser(sql, tokenize(sql)).parseQuery();
+
+  const findTable = (ref: TableRef) => {
+    const table = tables.find(
+      (candidate) => candidate.name.toLowerCase() === ref.name.toLowerCase(),
+    );
+    if (!table) {
+      throw new QueryError(
+        `Unknown table "${ref.name}"; tables are: ${tables.map((candidate) => candidate.name).join(', ')}`,
+      );
+    }
+    return table;
+  };
+
+  const first = findTable(query.from);
+  const sources: Source[] = [
+    { alias: query.from.alias, columns: first.headers, offset: 0 },
+  ];
+  let rows = loadTable(first);
+
+  for (const join of query.joins) {
+    const table = findTable(join.table);
+    if (
+      sources.some(
+        (source) =>
+          source.alias.toLowerCase() === join.table.alias.toLowerCase(),
+      )
+    ) {
+      throw new QueryError(
+        `Table "${join.table.alias}" is used twice; give it an alias`,
+      );
+    }
+    const offset = sources.reduce(
+      (width, source) => width + source.columns.length,
+      0,
+    );
+    sources.push({ alias: join.table.alias, columns: table.headers, offset });
+    const on = bind(join.on, { sources, aggregates: false });
+    rows = joinRows(
+      rows,
+      loadTable(table),
+      on,
+      join.type,
+      offset,
+      table.headers.length,
+    );
+  }
+
+  const width = sources.reduce(
+    (total, source) => total + source.columns.length,
+    0,
+  );
+  if (query.where) {
+    const where = bind(query.where, { sources, aggregates: false });
+    rows = rows.filter((row) => isTrue(evaluate(where, row, null)));
+  }
+
+  // Select list, with * expanded to the columns of every table
+  const columns: string[] = [];
+  const outputs: Expr[] = [];
+  const aliases = new Map<string, Expr>();
+  for (const item of query.items) {
+    if (item.kind === 'star') {
+      const starred = item.table ? [findSource(sources, item.table)] : sources;
+      for (const source of starred) {
+        source.columns.forEach((column, index) => {
+          columns.push(column);
+          outputs.push({
+            kind: 'column',
+            name: column,
+            index: source.offset + index,
+          });
+        });
+      }
+      continue;
+    }
+    const expr = bind(item.expr, { sources, aggregates: true });
+    columns.push(
+      item.alias ?? (item.expr.kind === 'column' ? item.expr.name : item.text),
+    );
+    outputs.push(expr);
+    if (item.alias) {
+      aliases.set(item.alias.toLowerCase(), expr);
+    }
+  }
+
+  const groupBy = query.groupBy.map((expr) => {
+    const bound = bindOutput(expr, outputs, {
+      sources,
+      aliases,
+      aggregates: false,
+    });
+    if (containsAggregate(bound)) {
+      throw new QueryError('GROUP BY cannot contain aggregate functions');
+    }
+    return bound;
+  });
+  const having = query.having
+    ? bind(query.having, { sources, aliases, aggregates: true })
+    : undefined;
+  const orderBy = query.orderBy.map((item) => ({
+    expr: bindOutput(item.expr, outputs, {
+      sources,
+      aliases,
+      aggregates: true,
+    }),
+    descending: item.descending,
+  }));
+
+  const aggregated =
+    groupBy.length > 0 ||
+    !!having ||
+    outputs.some(containsAggregate) ||
+    orderBy.some((item) => containsAggregate(item.expr));
+  if (aggregated) {
+    const grouped = new Set(groupBy.map(exprKey));
+    for (const expr of [
+      ...outputs,
+      ...(having ? [having] : []),
+      ...orderBy.map((item) => item.expr),
+    ]) {
+      assertGrouped(expr, grouped);
+    }
+  }
+
+  // Each result row with the source row (or group) its values come from
+  let entries: { row: SqlValue[]; group: SqlValue[][] | null }[];
+  if (aggregated) {
+    const groups = new Map<string, SqlValue[][]>();
+    for (const row of rows) {
+      const key = JSON.stringify(
+        groupBy.map((expr) => evaluate(expr, row, null)),
+      );
+      const group = groups.get(key);
+      if (group) {
+        group.push(row);
+      } else {
+        groups.set(key, [row]);
+      }
+    }
+    // Without GROUP BY, aggregates cover all rows, even none
+    if (groupBy.length === 0 && groups.size === 0) {
+      groups.set('', []);
+    }
+    const empty = Array<SqlValue>(width).fill(null);
+    entries = [...groups.values()].map((group) => ({
+      row: group[0] ?? empty,
+      group,
+    }));
+    if (having) {
+      entries = entries.filter((entry) =>
+        isTrue(evaluate(having, entry.row, entry.group)),
+      );
+    }
+  } else {
+    entries = rows.map((row) => ({ row, group: null }));
+  }
+
+  let results = entries.map((entry) => ({
+    entry,
+    values: outputs.map((expr) => evaluate(expr, entry.row, entry.group)),
+  }));
+
+  if (query.distinct) {
+    const seen = new Set<string>();
+    results = results.filter((result) => {
+      const key = JSON.stringify(result.values);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  if (orderBy.length > 0) {
+    const keyed = results.map((result) => ({
+      result,
+      keys: orderBy.map((item) =>
+        evaluate(item.expr, result.entry.row, result.entry.group),
+      ),
+    }));
+    keyed.sort((a, b) => {
+      for (let index = 0; index < orderBy.length; index++) {
+        const order = sortOrder(a.keys[index], b.keys[index]);
+        if (order !== 0) {
+          return orderBy[index].descending ? -order : order;
+        }
+      }
+      return 0;
+    });
+    results = keyed.map((item) => item.result);
+  }
+
+  const offset = query.offset ?? 0;
+  const limited = results
+    .slice(offset, query.limit === undefined ? undefined : offset + query.limit)
+    .map((result) => result.values);
+
+  return {
+    columns,
+    rows: limited.slice(0, maxRows),
+    rowCount: limited.length,
+    truncated: limited.length > maxRows,
+  };
+}
+
+function loadTable(table: QueryTable): SqlValue[][] {
+  const types = resolveColumnTypes(table.headers, table.rows, table.schema);
+  return table.rows.map((row) =>
+    table.headers.map((_, index) => {
+      const cell = (row[index] ?? '').trim();
+      if (isMissingValue(cell)) {
+        return null;
+      }
+      return NUMERIC_TYPES.includes(types[index])
+        ? (parseNumericValue(cell) ?? cell)
+        : cell;
+    }),
+  );
+}
+
+// Equality joins on a column of each side are hashed; other conditions compare every pair
+function joinRows(
+  left: SqlValue[][],
+  right: SqlValue[][],
+  on: Expr,
+  type: 'inner' | 'left',
+  leftWidth: number,
+  rightWidth: number,
+): SqlValue[][] {
+  const joined: SqlValue[][] = [];
+  const push = (row: SqlValue[]) => {
+    if (joined.length >= MAX_JOIN_ROWS) {
+      throw new QueryError(
+        `Join produces more than ${MAX_JOIN_ROWS} rows; add a more selective ON condition`,
+      );
+    }
+    joined.push(row);
+  };
+  const unmatched = Array<SqlValue>(rightWidth).fill(null);
+
+  const equality =
+    on.kind === 'binary' &&
+    on.op === '=' &&
+    on.left.kind === 'column' &&
+    on.right.kind === 'column'
+      ? [on.left.index!, on.right.index!]
+      : null;
+  const [leftIndex, rightIndex] =
+    equality && equality[0] < leftWidth !== equality[1] < leftWidth
+      ? equality[0] < leftWidth
+        ? equality
+        : [equality[1], equality[0]]
+      : [-1, -1];
+
+  if (leftIndex !== -1) {
+    const buckets = new Map<string, SqlValue[][]>();
+    for (const row of right) {
+      const key = joinKey(row[rightIndex - leftWidth]);
+      if (key === null) continue;
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(row);
+      } else {
+        buckets.set(key, [row]);
+      }
+    }
+    for (const row of left) {
+      const key = joinKey(row[leftIndex]);
+      const matches = key === null ? undefined : buckets.get(key);
+      if (matches) {
+        matches.forEach((match) => push([...row, ...match]));
+      } else if (type === 'left') {
+        push([...row, ...unmatched]);
+      }
+    }
+    return joined;
+  }
+
+  if (left.length * right.length > MAX_JOIN_COMPARISONS) {
+    throw new QueryError(
+      `Join compares ${left.length * right.length} row pairs; without an equality ON condition (a.column = b.column) at most ${MAX_JOIN_COMPARISONS} are allowed`,
+    );
+  }
+  for (const row of left) {
+    let matched = false;
+    for (const other of right) {
+      const combined = [...row, ...other];
+      if (isTrue(evaluate(on, combined, null))) {
+        matched = true;
+        push(combined);
+      }
+    }
+    if (!matched && type === 'left') {
+      push([...row, ...unmatched]);
+    }
+  }
+  return joined;
+}
+
+// Values that compare equal share a key, e.g. 7 and "7"
+function joinKey(value: SqlValue): string | null {
+  if (value === null) return null;
+  const number = toNumber(value);
+  return number !== null ? `n:${number}` : `s:${String(value)}`;
+}
+
+function findSource(sources: Source[], alias: string): Source {
+  const source = sources.find(
+    (candidate) => candidate.alias.toLowerCase() === alias.toLowerCase(),
+  );
+  if (!source) {
+    throw new QueryError(
+      `Unknown table "${alias}"; tables in the query are: ${sources.map((candidate) => candidate.alias).join(', ')}`,
+    );
+  }
+  return source;
+}
+
+// GROUP BY and ORDER BY items may also be a 1-based select-list position
+function bindOutput(expr: Expr, outputs: Expr[], context: BindContext): Expr {
+  if (expr.kind === 'literal' && typeof expr.value === 'number') {
+    const output = outputs[expr.value - 1];
+    if (!Number.isInteger(expr.value) || !output) {
+      throw new QueryError(
+        `Position ${expr.value} is not in the select list (1-${outputs.length})`,
+      );
+    }
+    return output;
+  }
+  return bind(expr, context);
+}
+
+// Resolves column names to their position in a joined row and checks where aggregates appear
+function bind(expr: Expr, context: BindContext, inAggregate = false): Expr {
+  const recurse = (child: Expr) => bind(child, context, inAggregate);
+
+  switch (expr.kind) {
+    case 'literal':
+      return expr;
+
+    case 'column': {
+      if (!expr.table) {
+        const alias = context.aliases?.get(expr.name.toLowerCase());
+        if (alias) return alias;
+      }
+      const name = expr.name.toLowerCase();
+      const candidates = (
+        expr.table ? [findSource(context.sources, expr.table)] : context.sources
+      ).filter((source) =>
+        source.columns.some((column) => column.toLowerCase() === name),
+      );
+      if (candidates.length === 0) {
+        const columns = (
+          expr.table
+            ? [findSource(context.sources, expr.table)]
+            : context.sources
+        ).flatMap((source) => source.columns);
+        throw new QueryError(
+          `Unknown column "${expr.name}"; columns are: ${columns.join(', ')}`,
+        );
+      }
+      if (candidates.length > 1) {
+        throw new QueryError(
+          `Column "${expr.name}" is in more than one table; write it as ${candidates[0].alias}.${expr.name}`,
+        );
+      }
+      const [source] = candidates;
+      const index = source.columns.findIndex(
+        (column) => column.toLowerCase() === name,
+      );
+      return { ...expr, index: source.offset + index };
+    }
+
+    case 'call': {
+      if (FUNCTIONS[expr.name].aggregate) {
+        if (!context.aggregates) {
+          throw new QueryError(
+            `${expr.name} is an aggregate and cannot be used in WHERE, ON or GROUP BY`,
+          );
+        }
+        if (inAggregate) {
+          throw new QueryError('Aggregate functions cannot be nested');
+        }
+        return {
+          ...expr,
+          args: expr.args.map((arg) => bind(arg, context, true)),
+        };
+      }
+      return { ...expr, args: expr.args.map(recurse) };
+    }
+
+    case 'unary':
+    case 'is_null':
+      return { ...expr, operand: recurse(expr.operand) };
+
+    case 'binary':
+      return { ...expr, left: recurse(expr.left), right: recurse(expr.right) };
+
+    case 'in':
+      return {
+        ...expr,
+        operand: recurse(expr.operand),
+        list: expr.list.map(recurse),
+      };
+
+    case 'between':
+      return {
+        ...expr,
+        operand: recurse(expr.operand),
+        low: recurse(expr.low),
+        high: recurse(expr.high),
+      };
+
+    case 'like':
+      return {
+        ...expr,
+        operand: recurse(expr.operand),
+        pattern: recurse(expr.pattern),
+      };
+
+    case 'case':
+      return {
+        ...expr,
+        branches: expr.branches.map((branch) => ({
+          when: recurse(branch.when),
+          then: recurse(branch.then),
+        })),
+        otherwise: expr.otherwise && recurse(expr.otherwise),
+      };
+  }
+}
+
+function containsAggregate(expr: Expr): boolean {
+  switch (expr.kind) {
+    case 'call':
+      return (
+        !!FUNCTIONS[expr.name].aggregate || expr.args.some(containsAggregate)
+      );
+    case 'unary':
+    case 'is_null':
+      return containsAggregate(expr.operand);
+    case 'binary':
+      return containsAggregate(expr.left) || containsAggregate(expr.right);
+    case 'in':
+      return (
+        containsAggregate(expr.operand) || expr.list.some(containsAggregate)
+      );
+    case 'between':
+      return [expr.operand, expr.low, expr.high].some(containsAggregate);
+    case 'like':
+      return containsAggregate(expr.operand) || containsAggregate(expr.pattern);
+    case 'case':
+      return (
+        expr.branches.some(
+          (branch) =>
+            containsAggregate(branch.when) || containsAggregate(branch.then),
+        ) ||
+        (!!expr.otherwise && containsAggregate(expr.otherwise))
+      );
+    default:
+      return false;
+  }
+}
+
+// In aggregate queries a column outside an aggregate must be grouped, as in standard SQL, or
+// its value would come from an arbitrary row of the group
+function assertGrouped(expr: Expr, grouped: Set<string>) {
+  if (grouped.has(exprKey(expr))) {
+    return;
+  }
+  if (expr.kind === 'column') {
+    throw new QueryError(
+      `Column "${expr.name}" must be in GROUP BY or used in an aggregate function`,
+    );
+  }
+  if (expr.kind === 'call' && FUNCTIONS[expr.name].aggregate) {
+    return;
+  }
+  children(expr).forEach((child) => assertGrouped(child, grouped));
+}
+
+// Identifies a bound expression; columns by position, however the query spelled them
+function exprKey(expr: Expr): string {
+  return JSON.stringify(expr, (_, value: unknown) =>
+    value && (value as Expr).kind === 'column'
+      ? `column ${(value as { index?: number }).index}`
+      : value,
+  );
+}
+
+function children(expr: Expr): Expr[] {
+  switch (expr.kind) {
+    case 'call':
+      return expr.args;
+    case 'unary':
+    case 'is_null':
+      return [expr.operand];
+    case 'binary':
+      return [expr.left, expr.right];
+    case 'in':
+      return [expr.operand, ...expr.list];
+    case 'between':
+      return [expr.operand, expr.low, expr.high];
+    case 'like':
+      return [expr.operand, expr.pattern];
+    case 'case':
+      return [
+        ...expr.branches.flatMap((branch) => [branch.when, branch.then]),
+        ...(expr.otherwise ? [expr.otherwise] : []),
+      ];
+    default:
+      return [];
+  }
+}
+
+// `group` is set for aggregate queries: the rows of the group `row` belongs to
+function evaluate(
+  expr: Expr,
+  row: SqlValue[],
+  group: SqlValue[][] | null,
+): SqlValue {
+  const value = (child: Expr) => evaluate(child, row, group);
+
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+
+    case 'column':
+      return row[expr.index!];
+
+    case 'unary': {
+      const operand = value(expr.operand);
+      if (operand === null) return null;
+      if (expr.op === 'NOT') return !isTrue(operand);
+      const number = toNumber(operand);
+      return number === null ? null : -number;
+    }
+
+    case 'binary':
+      return evaluateBinary(expr.op, value(expr.left), () => value(expr.right));
+
+    case 'is_null':
+      return (value(expr.operand) === null) !== expr.negated;
+
+    case 'in': {
+      const operand = value(expr.operand);
+      if (operand === null) return null;
+      let sawNull = false;
+      for (const item of expr.list) {
+        const candidate = value(item);
+        if (candidate === null) {
+          sawNull = true;
+        } else if (compareValues(operand, candidate) === 0) {
+          return !expr.negated;
+        }
+      }
+      return sawNull ? null : expr.negated;
+    }
+
+    case 'between': {
+      const operand = value(expr.operand);
+      const low = compareValues(operand, value(expr.low));
+      const high = compareValues(operand, value(expr.high));
+      if (low === null || high === null) return null;
+      return (low >= 0 && high <= 0) !== expr.negated;
+    }
+
+    case 'like': {
+      const operand = value(expr.operand);
+      const pattern = value(expr.pattern);
+      if (operand === null || pattern === null) return null;
+      return likeMatches(String(operand), String(pattern)) !== expr.negated;
+    }
+
+    case 'case': {
+      for (const branch of expr.branches) {
+        if (isTrue(value(branch.when))) {
+          return value(branch.then);
+        }
+      }
+      return expr.otherwise ? value(expr.otherwise) : null;
+    }
+
+    case 'call':
+      if (FUNCTIONS[expr.name].aggregate) {
+        return evaluateAggregate(expr, group ?? [row]);
+      }
+      return evaluateFunction(expr.name, expr.args.map(value));
+  }
+}
+
+function evaluateBinary(
+  op: string,
+  left: SqlValue,
+  right: () => SqlValue,
+): SqlValue {
+  // Three-valued logic: NULL is unknown, so FALSE AND NULL is FALSE and TRUE OR NULL is TRUE
+  if (op === 'AND' || op === 'OR') {
+    const decisive = op === 'OR';
+    if (left !== null && isTrue(left) === decisive) return decisive;
+    const other = right();
+    if (other !== null && isTrue(other) === decisive) return decisive;
+    return left === null || other === null ? null : !decisive;
+  }
+
+  const other = right();
+  if (left === null || other === null) return null;
+
+  switch (op) {
+    case '||':
+      return String(left) + String(other);
+    case '=':
+    case '<>':
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const order = compareValues(left, other)!;
+      return {
+        '=': order === 0,
+        '<>': order !== 0,
+        '<': order < 0,
+        '<=': order <= 0,
+        '>': order > 0,
+        '>=': order >= 0,
+      }[op];
+    }
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(other);
+  if (a === null || b === null) return null;
+  switch (op) {
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      return b === 0 ? null : a / b;
+    case '%':
+      return b === 0 ? null : a % b;
+  }
+  return null;
+}
+
+function evaluateAggregate(
+  expr: Extract<Expr, { kind: 'call' }>,
+  group: SqlValue[][],
+): SqlValue {
+  if (expr.star) {
+    return group.length;
+  }
+
+  let values = group
+    .map((row) => evaluate(expr.args[0], row, null))
+    .filter((value): value is Exclude<SqlValue, null> => value !== null);
+  if (expr.distinct) {
+    const seen = new Set<string>();
+    values = values.filter((value) => {
+      const key = joinKey(value)!;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  switch (expr.name) {
+    case 'COUNT':
+      return values.length;
+    case 'MIN':
+    case 'MAX': {
+      const sign = expr.name === 'MIN' ? -1 : 1;
+      return values.reduce<SqlValue>(
+        (best, value) =>
+          best === null || compareValues(value, best)! * sign > 0
+            ? value
+            : best,
+        null,
+      );
+    }
+    default: {
+      const numbers = values
+        .map(toNumber)
+        .filter((value): value is number => value !== null);
+      if (numbers.length === 0) return null;
+      const sum = numbers.reduce((total, value) => total + value, 0);
+      return expr.name === 'SUM' ? sum : sum / numbers.length;
+    }
+  }
+}
+
+function evaluateFunction(name: string, args: SqlValue[]): SqlValue {
+  if (name === 'COALESCE') {
+    return args.find((arg) => arg !== null) ?? null;
+  }
+
+  const [first] = args;
+  if (first === null) return null;
+  const text = String(first);
+
+  switch (name) {
+    case 'LOWER':
+      return text.toLowerCase();
+    case 'UPPER':
+      return text.toUpperCase();
+    case 'TRIM':
+      return text.trim();
+    case 'LENGTH':
+      return text.length;
+    case 'SUBSTR': {
+      const start = toNumber(args[1]);
+      const length = args.length > 2 ? toNumber(args[2]) : null;
+      if (start === null || (args.length > 2 && length === null)) return null;
+      // 1-based, as in SQL
+      const from = Math.max(0, start - 1);
+      return length === null
+        ? text.slice(from)
+        : text.slice(from, from + length);
+    }
+    case 'ROUND':
+    case 'ABS': {
+      const number = toNumber(first);
+      if (number === null) return null;
+      if (name === 'ABS') return Math.abs(number);
+      const digits = args.length > 1 ? (toNumber(args[1]) ?? 0) : 0;
+      const factor = Math.pow(10, digits);
+      return Math.round(number * factor) / factor;
+    }
+    case 'YEAR':
+    case 'MONTH':
+    case 'DAY': {
+      const date = parseDateValue(text);
+      if (!date) return null;
+      const [year, month, day] = date.split('-').map(Number);
+      return name === 'YEAR' ? year : name === 'MONTH' ? month : day;
+    }
+  }
+  return null;
+}
+
+function isTrue(value: SqlValue): boolean {
+  return value === true || (typeof value === 'number' && value !== 0);
+}
+
+function toNumber(value: SqlValue): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value === null ? null : parseNumericValue(value);
+}
+
+// Numbers compare numerically, also against numeric text; everything else as text
+function compareValues(a: SqlValue, b: SqlValue): number | null {
+  if (a === null || b === null) return null;
+  if (typeof a !== 'string' || typeof b !== 'string') {
+    const x = toNumber(a);
+    const y = toNumber(b);
+    if (x !== null && y !== null) {
+      return x === y ? 0 : x < y ? -1 : 1;
+    }
+  }
+  const x = String(a);
+  const y = String(b);
+  return x === y ? 0 : x < y ? -1 : 1;
+}
+
+// NULLs sort first, as the smallest value
+function sortOrder(a: SqlValue, b: SqlValue): number {
+  if (a === null || b === null) {
+    return a === b ? 0 : a === null ? -1 : 1;
+  }
+  return compareValues(a, b)!;
+}
+
+/**
+ * % matches any run of characters and _ any one character; case-insensitive. Walks the value
+ * once, going back only to just after the last % (O(value × pattern), never exponential like a
+ * regex of `.*`s would be on patterns such as '%a%a%a%b').
+ */
+export function likeMatches(value: string, pattern: string): boolean {
+  const text = Array.from(value.toLowerCase());
+  const wildcards = Array.from(pattern.toLowerCase()).filter(
+    (char, index, chars) => char !== '%' || chars[index - 1] !== '%',
+  );
+
+  let t = 0;
+  let p = 0;
+  // Position after the last % seen, and the value position it was matched from
+  let star = -1;
+  let starText = 0;
+  while (t < text.length) {
+    if (p < wildcards.length && wildcards[p] === '%') {
+      star = ++p;
+      starText = t;
+    } else if (
+      p < wildcards.length &&
+      (wildcards[p] === '_' || wildcards[p] === text[t])
+    ) {
+      p++;
+      t++;
+    } else if (star >= 0) {
+      // Let the last % take one more character and retry from there
+      p = star;
+      t = ++starText;
+    } else {
+      return false;
+    }
+  }
+  while (p < wildcards.length && wildcards[p] === '%') {
+    p++;
+  }
+  return p === wildcards.length;
+}
@@ -0,0 +1,209 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { JobContext, JobsService } from '../../modules/jobs/jobs.service';
+import { UniAgentService } from './uni-agent.service';
+import { AgentEventListener } from './agent-events';
+
+export type ReportParams = {
+  // Exports only: render this stored report instead of generating a new one
+  reportId?: string;
+  recordId?: string;
+  filename?: string;
+  data?: string;
+  reportType?: string;
+  // Requesting user; always taken from the authenticated request
+  userId: string;
+};
+
+export type PdfExportParams = ReportParams & { includeCharts?: boolean };
+
+export type ExportFormat = 'pdf' | 'markdown' | 'json';
+
+// Job types the uni-agent endpoints enqueue when called with ?async=true
+export const AGENT_JOB_TYPES = {
+  PROCESS: 'agent.process',
+  UPLOAD_AND_PROCESS: 'agent.upload_and_process',
+  PROCESS_AND_REPORT: 'agent.process_and_report',
+  GENERATE_REPORT: 'agent.generate_report',
+  EXPORT: 'agent.export',
+} as const;
+
+// Every agent job can store records or reports, so a retry could store them twice
+const RUN_ONCE = { maxAttempts: 1 };
+
+@Injectable()
+export class UniAgentJobsService implements OnModuleInit {
+  constructor(
+    private readonly jobsService: JobsService,
+    private readonly uniAgentService: UniAgentService,
+  ) {}
+
+  onModuleInit() {
+    this.jobsService.registerHandler(
+      AGENT_JOB_TYPES.PROCESS,
+      (payload: { request: string; context?: any }, job) =>
+        this.uniAgentService.processRequest(
+          payload.request,
+          payload.context,
+          trackProgress(job),
+          job.signal,
+        ),
+      RUN_ONCE,
+    );
+
+    // Uploads are stored base64-encoded in the payload, the file never touches the disk
+    this.jobsService.registerHandler(
+      AGENT_JOB_TYPES.UPLOAD_AND_PROCESS,
+      (
+        payload: {
+          file: { originalname: string; mimetype: string; base64: string };
+          request: string;
+          userContext?: any;
+        },
+        job,
+      ) => {
+        const buffer = Buffer.from(payload.file.base64, 'base64');
+        const file = {
+          originalname: payload.file.originalname,
+          mimetype: payload.file.mimetype,
+          size: buffer.length,
+          buffer,
+        } as Express.Multer.File;
+
+        return this.uniAgentService.processFileUpload(
+          file,
+          payload.request,
+          payload.userContext,
+          trackProgress(job),
+          job.signal,
+        );
+      },
+      RUN_ONCE,
+    );
+
+    this.jobsService.registerHandler(
+      AGENT_JOB_TYPES.PROCESS_AND_REPORT,
+      (
+        payload: { filename: string; recipientEmail: string; userId: string },
+        job,
+      ) =>
+        this.uniAgentService.processAndReport(
+          payload.filename,
+          payload.recipientEmail,
+          payload.userId,
+          trackProgress(job),
+          job.signal,
+        ),
+      RUN_ONCE,
+    );
+
+    this.jobsService.registerHandler(
+      AGENT_JOB_TYPES.GENERATE_REPORT,
+      (payload: ReportParams, job) =>
+        this.uniAgentService.generateReport(
+          payload,
+          trackProgress(job),
+          job.signal,
+        ),
+      RUN_ONCE,
+    );
+
+    this.jobsService.registerHandler(
+      AGENT_JOB_TYPES.EXPORT,
+      (payload: { format: ExportFormat; params: PdfExportParams }, job) =>
+        this.exportReport(
+          payload.format,
+          payload.params,
+          trackProgress(job),
+          job.signal,
+        ),
+      RUN_ONCE,
+    );
+  }
+
+  enqueue(userId: string, type: string, payload: any) {
+    return this.jobsService.enqueue(userId, type, payload);
+  }
+
+  private async exportReport(
+    format: ExportFormat,
+    params: PdfExportParams,
+    emit: AgentEventListener,
+    signal: AbortSignal,
+  ) {
+    const report = await this.uniAgentService.loadOrGenerateReport(
+      params,
+      emit,
+      signal,
+    );
+    signal.throwIfAborted();
+
+    switch (format) {
+      case 'pdf': {
+        const pdf = await this.uniAgentService.exportPdf(
+          report,
+          params.includeCharts
+            ? await this.uniAgentService.resolveReportData(params)
+            : undefined,
+        );
+        // Job results are stored as JSON, so the PDF is kept base64-encoded
+        return {
+          filename: `${report.metadata.title}.pdf`,
+          contentType: 'application/pdf',
+          encoding: 'base64',
+          content: pdf.toString('base64'),
+        };
+      }
+      case 'markdown':
+        return {
+          filename: `${report.metadata.title}.md`,
+          content: await this.uniAgentService.formatReportAsMarkdown(report),
+        };
+      case 'json':
+        return this.uniAgentService.formatReportAsJson(report);
+      default:
+        throw new Error(`Unsupported export format: ${String(format)}`);
+    }
+  }
+}
+
+// Folds agent events into the job's progress: per-task status plus generated report sections
+function trackProgress(job: JobContext): AgentEventListener {
+  const progress = {
+    tasks: [] as {
+      index: number;
+      agent: string;
+      action: string;
+      status: string;
+      error?: string;
+    }[],
+    reportSections: [] as string[],
+  };
+
+  return (event) => {
+    switch (event.type) {
+      case 'plan_created':
+        progress.tasks = event.plan.tasks.map((task, index) => ({
+          index,
+          agent: task.agent,
+          action: task.action,
+          status: task.status,
+        }));
+        break;
+      case 'task_status': {
+        const { index, agent, action, status, error } = event;
+        progress.tasks[index] = { index, agent, action, status, error };
+        break;
+      }
+      case 'report_section':
+        progress.reportSections.push(event.section.title);
+        break;
+      default:
+        return;
+    }
+
+    job.reportProgress({
+      tasks: [...progress.tasks],
+      reportSections: [...progress.reportSections],
+    });
+  };
+}
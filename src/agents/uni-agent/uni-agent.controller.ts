@@ -11,27 +11,68 @@ import {
   Headers,
   Res,
   UseGuards,
-  Request
+  Request,
+  ParseUUIDPipe,
+  Patch,
+  ForbiddenException,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import type { Response } from 'express';
 import { UniAgentService } from './uni-agent.service';
-import { JwtAuthGuard } from '../../guards/jwt-auth.guard';
+import { streamAgentEvents } from './agent-events';
+import {
+  PlanTaskDecision,
+  WorkflowPlansService,
+} from './workflow-plans.service';
+import { AGENT_JOB_TYPES, UniAgentJobsService } from './uni-agent-jobs.service';
+import type {
+  ExportFormat,
+  PdfExportParams,
+  ReportParams,
+} from './uni-agent-jobs.service';
+import { JwtOrApiKeyAuthGuard } from '../../guards/jwt-or-api-key-auth.guard';
+import { RolesGuard } from '../../guards/roles.guard';
+import { RequirePermission } from '../../guards/roles.decorator';
+import { PERMISSIONS, hasPermission } from '../../modules/auth/roles';
+import type { Permission } from '../../modules/auth/roles';
+import { scopesGrant } from '../../modules/api-keys/api-key-scopes';
+import { PipelineError, parsePipeline } from './cleaning-pipeline';
+import type { PipelineStep } from './cleaning-pipeline';
+import { CHANGE_TYPES } from './change-log';
+import type { ChangeType } from './change-log';
+import { extractFile } from './file-extractor';
+import { schemaCorrectionSchema } from './schema-inference';
+import {
+  appendParamsSchema,
+  joinParamsSchema,
+  projectParamsSchema,
+} from './dataset-operations';
+import type { ZodType } from 'zod';
 
 @Controller('uni-agent')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtOrApiKeyAuthGuard, RolesGuard)
 export class UniAgentController {
-  constructor(private readonly uniAgentService: UniAgentService) {}
+  constructor(
+    private readonly uniAgentService: UniAgentService,
+    private readonly workflowPlansService: WorkflowPlansService,
+    private readonly uniAgentJobsService: UniAgentJobsService,
+  ) {}
 
   // ===== ORCHESTRATOR ENDPOINTS =====
-  
+
   @Post('process')
+  @RequirePermission('workflows:run')
   async processRequest(
-    @Body() body: {
+    @Body()
+    body: {
       request: string;
       context?: any;
+      // 'preview' only plans the request and stores the plan for approval
+      mode?: 'execute' | 'preview';
     },
-    @Request() req
+    @Query('async') async: string,
+    @Request() req,
+    @Res({ passthrough: true }) res: Response,
   ) {
     if (!body.request) {
       throw new BadRequestException('Request is required');
@@ -41,59 +82,180 @@ export class UniAgentController {
     const contextWithUser = {
       ...body.context,
       userId: req.user.userId,
-      userEmail: req.user.email
+      userEmail: req.user.email,
     };
 
+    if (body.mode === 'preview') {
+      return this.workflowPlansService.createPreview(
+        req.user.userId,
+        body.request,
+        contextWithUser,
+      );
+    }
+
+    if (async === 'true') {
+      return this.enqueueJob(req, res, AGENT_JOB_TYPES.PROCESS, {
+        request: body.request,
+        context: contextWithUser,
+      });
+    }
+
     return this.uniAgentService.processRequest(body.request, contextWithUser);
   }
 
+  // Same as /process, but streams plan, task and report progress as Server-Sent Events
+  @Post('process/stream')
+  @RequirePermission('workflows:run')
+  async processRequestStream(
+    @Body()
+    body: {
+      request: string;
+      context?: any;
+    },
+    @Request() req,
+    @Res() res: Response,
+  ) {
+    if (!body.request) {
+      throw new BadRequestException('Request is required');
+    }
+
+    const contextWithUser = {
+      ...body.context,
+      userId: req.user.userId,
+      userEmail: req.user.email,
+    };
+
+    await streamAgentEvents(res, (emit) =>
+      this.uniAgentService.processRequest(body.request, contextWithUser, emit),
+    );
+  }
+
+  // ===== PLAN REVIEW ENDPOINTS =====
+
+  @Get('plans/:id')
+  @RequirePermission('workflows:run')
+  async getPlan(@Param('id') id: string, @Request() req) {
+    return this.workflowPlansService.getPlan(req.user.userId, id);
+  }
+
+  @Post('plans/:id/approve')
+  @RequirePermission('workflows:run')
+  async approvePlan(
+    @Param('id') id: string,
+    @Body() body: { tasks?: PlanTaskDecision[] },
+    @Request() req,
+  ) {
+    return this.workflowPlansService.approve(req.user.userId, id, body?.tasks);
+  }
+
+  @Post('plans/:id/reject')
+  @RequirePermission('workflows:run')
+  async rejectPlan(@Param('id') id: string, @Request() req) {
+    return this.workflowPlansService.reject(req.user.userId, id);
+  }
+
   @Post('upload-and-process')
+  @RequirePermission('workflows:run')
   @UseInterceptors(FileInterceptor('file'))
   async uploadAndProcess(
     @UploadedFile() file: Express.Multer.File,
-    @Body() body: { request?: string },
-    @Request() req
+    @Body()
+    body: {
+      request?: string;
+      // Validation rules for the upload: a stored rule set name, or an inline JSON/YAML definition
+      ruleSet?: string;
+      rules?: string;
+      // Cleaning pipeline as a JSON array of steps; chosen by the data analysis when omitted
+      pipeline?: string;
+      // Worksheet name or 1-based index for workbooks
+      sheet?: string;
+    },
+    @Query('async') async: string,
+    @Request() req,
+    @Res({ passthrough: true }) res: Response,
   ) {
     if (!file) {
       throw new BadRequestException('No file uploaded');
     }
 
     // Default request if not provided
-    const request = body.request || 'Process and analyze this file, then generate a comprehensive report';
+    const request =
+      body.request ||
+      'Process and analyze this file, then generate a comprehensive report';
+    const pipeline = body.pipeline
+      ? this.parsePipeline(body.pipeline)
+      : undefined;
 
     // Add user context to the request
     const contextWithUser = {
       userId: req.user.userId,
-      userEmail: req.user.email
+      userEmail: req.user.email,
+      ...(body.ruleSet ? { ruleSet: body.ruleSet } : {}),
+      ...(body.rules ? { rules: body.rules } : {}),
+      ...(pipeline ? { pipeline } : {}),
+      ...(body.sheet ? { sheet: body.sheet } : {}),
     };
 
-    return this.uniAgentService.processFileUpload(file, request, contextWithUser);
+    if (async === 'true') {
+      return this.enqueueJob(req, res, AGENT_JOB_TYPES.UPLOAD_AND_PROCESS, {
+        file: {
+          originalname: file.originalname,
+          mimetype: file.mimetype,
+          base64: file.buffer.toString('base64'),
+        },
+        request,
+        userContext: contextWithUser,
+      });
+    }
+
+    return this.uniAgentService.processFileUpload(
+      file,
+      request,
+      contextWithUser,
+    );
   }
 
   @Post('process-and-report')
+  @RequirePermission('workflows:run')
   async processAndReport(
-    @Body() body: {
+    @Body()
+    body: {
       filename: string;
       recipientEmail?: string;
-    }
+    },
+    @Query('async') async: string,
+    @Request() req,
+    @Res({ passthrough: true }) res: Response,
   ) {
     if (!body.filename) {
       throw new BadRequestException('Filename is required');
     }
 
+    if (async === 'true') {
+      return this.enqueueJob(req, res, AGENT_JOB_TYPES.PROCESS_AND_REPORT, {
+        filename: body.filename,
+        recipientEmail: body.recipientEmail || 'default@example.com',
+        userId: req.user.userId,
+      });
+    }
+
     return this.uniAgentService.processAndReport(
       body.filename,
-      body.recipientEmail || 'default@example.com'
+      body.recipientEmail || 'default@example.com',
+      req.user.userId,
     );
   }
 
   @Post('quick-workflow')
+  @RequirePermission('workflows:run')
   async quickWorkflow(
-    @Body() body: {
+    @Body()
+    body: {
       workflowType: 'analyze' | 'report' | 'full';
       recordId?: string;
       filename?: string;
-    }
+    },
+    @Request() req,
   ) {
     let request: string;
 
@@ -102,10 +264,12 @@ export class UniAgentController {
         request = 'Analyze the data and provide insights';
         break;
       case 'report':
-        request = 'Generate a comprehensive report with statistics and insights';
+        request =
+          'Generate a comprehensive report with statistics and insights';
         break;
       case 'full':
-        request = 'Process the data, generate a report, and provide actionable recommendations';
+        request =
+          'Process the data, generate a report, and provide actionable recommendations';
         break;
       default:
         throw new BadRequestException('Invalid workflow type');
@@ -114,6 +278,8 @@ export class UniAgentController {
     const context = {
       recordId: body.recordId,
       filename: body.filename,
+      userId: req.user.userId,
+      userEmail: req.user.email,
     };
 
     return this.uniAgentService.processRequest(request, context);
@@ -122,23 +288,223 @@ export class UniAgentController {
   // ===== DATA AGENT ENDPOINTS =====
 
   @Get('by-id/:id')
-  async getById(@Param('id') id: string) {
-    return this.uniAgentService.getRecordById(id);
+  @RequirePermission('knowledge-base:read')
+  async getById(@Param('id') id: string, @Request() req) {
+    return this.uniAgentService.getRecordById(id, req.user.userId);
   }
 
   @Get('by-name/:filename')
-  async getByName(@Param('filename') filename: string) {
-    return this.uniAgentService.findRecordByFilename(filename);
+  @RequirePermission('knowledge-base:read')
+  async getByName(@Param('filename') filename: string, @Request() req) {
+    return this.uniAgentService.findRecordByFilename(filename, req.user.userId);
+  }
+
+  @Post('analyze')
+  @RequirePermission('reports:generate')
+  async analyze(@Body() body: { data: string }, @Request() req) {
+    return await this.uniAgentService.analyzeData(body.data, {
+      userId: req.user.userId,
+    });
+  }
+
+  // Checks data against a validation rule set and returns the violations report and the tagged data
+  @Post('validate')
+  @RequirePermission('knowledge-base:read')
+  async validate(
+    @Body()
+    body: {
+      recordId?: string;
+      filename?: string;
+      data?: string;
+      ruleSet?: string;
+      rules?: string | object;
+    },
+    @Request() req,
+  ) {
+    if (!body.recordId && !body.filename && !body.data) {
+      throw new BadRequestException(
+        'Must provide either recordId, filename, or data',
+      );
+    }
+    if (!body.ruleSet && !body.rules) {
+      throw new BadRequestException('Must provide either ruleSet or rules');
+    }
+
+    return this.uniAgentService.validateData({
+      ...body,
+      userId: req.user.userId,
+    });
+  }
+
+  // ===== DATASET OPERATIONS =====
+  // Each saves its result as a new record that references its parents in `derived_from`
+
+  @Post('records/append')
+  @RequirePermission('knowledge-base:write')
+  async appendRecords(@Body() body: unknown, @Request() req) {
+    return this.uniAgentService.appendRecords(
+      this.parseDatasetParams(appendParamsSchema, body),
+      req.user.userId,
+    );
+  }
+
+  @Post('records/join')
+  @RequirePermission('knowledge-base:write')
+  async joinRecords(@Body() body: unknown, @Request() req) {
+    return this.uniAgentService.joinRecords(
+      this.parseDatasetParams(joinParamsSchema, body),
+      req.user.userId,
+    );
+  }
+
+  @Post('records/project')
+  @RequirePermission('knowledge-base:write')
+  async projectRecord(@Body() body: unknown, @Request() req) {
+    return this.uniAgentService.projectRecord(
+      this.parseDatasetParams(projectParamsSchema, body),
+      req.user.userId,
+    );
+  }
+
+  // Answers a question about stored records with a read-only SQL query, or runs the given SQL
+  @Post('query')
+  @RequirePermission('knowledge-base:read')
+  async query(
+    @Body()
+    body: {
+      question?: string;
+      sql?: string;
+      recordId?: string;
+      recordIds?: string[];
+      filename?: string;
+      filenames?: string[];
+    },
+    @Request() req,
+  ) {
+    if (!body.question && !body.sql) {
+      throw new BadRequestException('Must provide either question or sql');
+    }
+    // Turning a question into SQL calls the LLM
+    if (body.question) {
+      this.assertPermission(req, 'reports:generate');
+    }
+
+    return this.uniAgentService.queryData({ ...body, userId: req.user.userId });
+  }
+
+  // What was sent to the LLM on the user's behalf, with the personal data masked out of each prompt
+  @Get('prompt-audits')
+  async listPromptAudits(
+    @Request() req,
+    @Query('page') page: string,
+    @Query('limit') limit: string,
+    @Query('chain') chain: string,
+  ) {
+    return this.uniAgentService.listPromptAudits(req.user.userId, {
+      page: page ? parseInt(page, 10) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      chain: chain || undefined,
+    });
+  }
+
+  // Runs the record's stored pipeline, or the given one, on a new version of its file
+  @Post('records/:id/reprocess')
+  @RequirePermission('knowledge-base:write')
+  @UseInterceptors(FileInterceptor('file'))
+  async reprocessRecord(
+    @Param('id', ParseUUIDPipe) id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: { data?: string; pipeline?: string | any[]; sheet?: string },
+    @Request() req,
+  ) {
+    const extracted = file
+      ? await extractFile(file, { sheet: body.sheet })
+      : null;
+    const data = extracted ? extracted.text : body.data;
+    if (!data || data.trim().length === 0) {
+      throw new BadRequestException('Upload the new file or provide data');
+    }
+
+    return this.uniAgentService.reprocessRecord(id, data, {
+      userId: req.user.userId,
+      dialect: extracted?.dialect,
+      pipeline: body.pipeline ? this.parsePipeline(body.pipeline) : undefined,
+    });
+  }
+
+  // What the pipeline changed in a record version, cell by cell, traced to rows of the uploaded file
+  @Get('records/:id/diff')
+  @RequirePermission('knowledge-base:read')
+  async getRecordDiff(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('version') version: string,
+    @Query('type') type: string,
+    @Query('column') column: string,
+    @Query('row') row: string,
+    @Query('page') page: string,
+    @Query('limit') limit: string,
+    @Request() req,
+  ) {
+    if (type && !CHANGE_TYPES.includes(type as ChangeType)) {
+      throw new BadRequestException(
+        `type must be one of: ${CHANGE_TYPES.join(', ')}`,
+      );
+    }
+
+    return this.uniAgentService.getRecordDiff(id, {
+      version: version ? parseInt(version, 10) : undefined,
+      type: (type as ChangeType) || undefined,
+      column: column || undefined,
+      row: row ? parseInt(row, 10) : undefined,
+      page: page ? parseInt(page, 10) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      userId: req.user.userId,
+    });
   }
 
-  @Post("analyze")
-  async analyze(@Body() body: { data: string }) {
-    return await this.uniAgentService.analyzeData(body.data);
+  // Inferred semantic type of each column of a record, with confidence scores
+  @Get('records/:id/schema')
+  @RequirePermission('knowledge-base:read')
+  async getRecordSchema(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req,
+  ) {
+    return this.uniAgentService.getRecordSchema(id, req.user.userId);
+  }
+
+  // Corrects column types, e.g. { "columns": { "zip": "identifier" } }; kept when the record is reprocessed
+  @Patch('records/:id/schema')
+  @RequirePermission('knowledge-base:write')
+  async correctRecordSchema(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: { columns?: Record<string, string> },
+    @Request() req,
+  ) {
+    const parsed = schemaCorrectionSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException({
+        message: 'Invalid schema correction',
+        errors: parsed.error.issues.map(
+          (issue) => `${issue.path.join('.')}: ${issue.message}`,
+        ),
+      });
+    }
+
+    return this.uniAgentService.correctRecordSchema(
+      id,
+      parsed.data.columns,
+      req.user.userId,
+    );
   }
 
   @Post('upload')
+  @RequirePermission('knowledge-base:write')
   @UseInterceptors(FileInterceptor('file'))
-  async uploadFile(@UploadedFile() file: Express.Multer.File) {
+  async uploadFile(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: { sheet?: string },
+    @Request() req,
+  ) {
     if (!file) {
       throw new BadRequestException('No file uploaded');
     }
@@ -148,36 +514,7 @@ export class UniAgentController {
     // console.log('File size:', file.size, 'bytes');
     // console.log('Buffer length:', file.buffer.length);
 
-    // Extract extension and prepare text
-    const ext = file.originalname.split('.').pop()?.toLowerCase() || 'unknown';
-    let text = '';
-
-    try {
-      if (ext === 'csv' || ext === 'txt') {
-        // Use utf8 encoding explicitly
-        text = file.buffer.toString('utf8');
-        // console.log('Text extracted (CSV/TXT), length:', text.length);
-        // console.log('Number of lines:', text.split('\n').length);
-        // console.log('First 300 chars:', text.substring(0, 300));
-        // console.log('Last 300 chars:', text.substring(Math.max(0, text.length - 300)));
-      } else if (ext === 'pdf') {
-        const pdfExtractText = require('pdf-parse');
-        const pdfData = await pdfExtractText(file.buffer);
-        text = pdfData.text;
-        // console.log('Text extracted (PDF), length:', text.length);
-      } else {
-        // Fallback for unknown extensions
-        text = file.buffer.toString('utf8');
-        // console.log('Text extracted (unknown type), length:', text.length);
-      }
-    } catch (error) {
-      console.error('Error extracting text from file:', error);
-      throw new BadRequestException(`Failed to extract text from file: ${error.message}`);
-    }
-
-    if (!text || text.trim().length === 0) {
-      throw new BadRequestException('File appears to be empty or could not be read');
-    }
+    const { text, dialect } = await extractFile(file, { sheet: body?.sheet });
 
     // console.log('=== SENDING TO SERVICE ===');
     // console.log('Text length being sent:', text.length);
@@ -187,127 +524,167 @@ export class UniAgentController {
     const result = await this.uniAgentService.analyzeAndProcess(
       text,
       file.originalname,
-      undefined  // tags should be undefined or a string, not 'No summary yet'
+      undefined, // tags should be undefined or a string, not 'No summary yet'
+      { dialect, userId: req.user.userId },
     );
 
     return {
       message: 'File processed and saved',
       recordId: result.recordId,
       analysis: result.analysis,
+      dialect: result.dialect,
       processedDataPreview: result.processedData.substring(0, 500) + '...',
     };
   }
 
   @Post('upload-test')
+  @RequirePermission('knowledge-base:write')
   @UseInterceptors(FileInterceptor('file'))
-  async uploadTestFile(@UploadedFile() file: Express.Multer.File) {
+  async uploadTestFile(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: { sheet?: string },
+  ) {
     if (!file) {
       throw new BadRequestException('No file uploaded');
     }
 
-    const ext = file.originalname.split('.').pop()?.toLowerCase() || 'unknown';
-    let text = '';
-
-    if (ext === 'csv' || ext === 'txt') {
-      text = file.buffer.toString('utf8');
-    } else if (ext === 'pdf') {
-      const pdfExtractText = require('pdf-parse');
-      const pdfData = await pdfExtractText(file.buffer);
-      text = pdfData.text;
-    } else {
-      text = file.buffer.toString('utf8');
-    }
+    const { text, format, sheet, sheets, dialect } = await extractFile(file, {
+      sheet: body?.sheet,
+    });
 
     // Return raw data without processing for debugging
     return {
       filename: file.originalname,
       fileSize: file.size,
-      extension: ext,
+      format,
+      ...(sheet ? { sheet, sheets } : {}),
+      ...(dialect ? { dialect } : {}),
       textLength: text.length,
       lineCount: text.split('\n').length,
       firstLines: text.split('\n').slice(0, 10).join('\n'),
       lastLines: text.split('\n').slice(-5).join('\n'),
-      fullText: text,  // Be careful with large files!
+      fullText: text, // Be careful with large files!
     };
   }
 
   // ===== REPORT AGENT ENDPOINTS =====
 
   @Post('generate')
+  @RequirePermission('reports:generate')
   async generateReport(
-    @Body() body: {
-      recordId?: string;
-      filename?: string;
-      data?: string;
-      reportType?: string;
-    }
+    @Body() body: ReportParams,
+    @Query('async') async: string,
+    @Request() req,
+    @Res({ passthrough: true }) res: Response,
   ) {
     if (!body.recordId && !body.filename && !body.data) {
       throw new BadRequestException(
-        'Must provide either recordId, filename, or data'
+        'Must provide either recordId, filename, or data',
       );
     }
 
-    const report = await this.uniAgentService.generateReport(body);
+    // The report is stored on behalf of the authenticated user
+    const params = { ...body, userId: req.user.userId };
+
+    if (async === 'true') {
+      return this.enqueueJob(req, res, AGENT_JOB_TYPES.GENERATE_REPORT, params);
+    }
+
+    const report = await this.uniAgentService.generateReport(params);
     return report;
   }
 
   @Post('summary')
+  @RequirePermission('reports:generate')
   async createSummary(
-    @Body() body: {
+    @Body()
+    body: {
       recordId?: string;
       filename?: string;
       data?: string;
-    }
+    },
+    @Request() req,
   ) {
     if (!body.recordId && !body.filename && !body.data) {
       throw new BadRequestException(
-        'Must provide either recordId, filename, or data'
+        'Must provide either recordId, filename, or data',
       );
     }
 
-    const summary = await this.uniAgentService.createSummary(body);
+    const summary = await this.uniAgentService.createSummary({
+      ...body,
+      userId: req.user.userId,
+    });
     return summary;
   }
 
   @Post('export/pdf')
+  @RequirePermission('reports:export')
   async exportPdf(
-    @Body() body: {
-      recordId?: string;
-      filename?: string;
-      data?: string;
-      reportType?: string;
-    },
-    @Res() res: Response
+    @Body() body: PdfExportParams,
+    @Query('async') async: string,
+    @Request() req,
+    @Res() res: Response,
   ) {
-    // First generate the report
-    const report = await this.uniAgentService.generateReport(body);
-    
-    // Then export it as PDF (HTML for now)
-    const html = await this.uniAgentService.exportPdf(report);
-    
-    // Set headers for HTML response (would be PDF in production)
-    res.setHeader('Content-Type', 'text/html');
+    // Without a stored reportId a new report is generated first
+    if (!body.reportId) {
+      this.assertPermission(req, 'reports:generate');
+    }
+
+    if (async === 'true') {
+      const job = await this.enqueueExport(req, 'pdf', body);
+      return res.status(202).json(job);
+    }
+
+    // First generate the report, or load it when a stored reportId is given
+    const report = await this.uniAgentService.loadOrGenerateReport({
+      ...body,
+      userId: req.user.userId,
+    });
+
+    // Then render it, with the charts of the underlying data when asked for
+    const chartData = body.includeCharts
+      ? await this.uniAgentService.resolveReportData({
+          ...body,
+          userId: req.user.userId,
+        })
+      : undefined;
+    const pdf = await this.uniAgentService.exportPdf(report, chartData);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Length', pdf.length);
     res.setHeader(
       'Content-Disposition',
-      `inline; filename="${report.metadata.title}.html"`
+      `inline; filename="${report.metadata.title}.pdf"`,
     );
-    
-    return res.send(html);
+
+    return res.send(pdf);
   }
 
   @Post('export/markdown')
+  @RequirePermission('reports:export')
   async exportMarkdown(
-    @Body() body: {
-      recordId?: string;
-      filename?: string;
-      data?: string;
-      reportType?: string;
-    }
+    @Body() body: ReportParams,
+    @Query('async') async: string,
+    @Request() req,
+    @Res({ passthrough: true }) res: Response,
   ) {
-    const report = await this.uniAgentService.generateReport(body);
+    // Without a stored reportId a new report is generated first
+    if (!body.reportId) {
+      this.assertPermission(req, 'reports:generate');
+    }
+
+    if (async === 'true') {
+      res.status(202);
+      return this.enqueueExport(req, 'markdown', body);
+    }
+
+    const report = await this.uniAgentService.loadOrGenerateReport({
+      ...body,
+      userId: req.user.userId,
+    });
     const markdown = await this.uniAgentService.formatReportAsMarkdown(report);
-    
+
     return {
       filename: `${report.metadata.title}.md`,
       content: markdown,
@@ -315,28 +692,37 @@ export class UniAgentController {
   }
 
   @Post('export/json')
+  @RequirePermission('reports:export')
   async exportJson(
-    @Body() body: {
-      recordId?: string;
-      filename?: string;
-      data?: string;
-      reportType?: string;
-    }
+    @Body() body: ReportParams,
+    @Query('async') async: string,
+    @Request() req,
+    @Res({ passthrough: true }) res: Response,
   ) {
-    const report = await this.uniAgentService.generateReport(body);
+    // Without a stored reportId a new report is generated first
+    if (!body.reportId) {
+      this.assertPermission(req, 'reports:generate');
+    }
+
+    if (async === 'true') {
+      res.status(202);
+      return this.enqueueExport(req, 'json', body);
+    }
+
+    const report = await this.uniAgentService.loadOrGenerateReport({
+      ...body,
+      userId: req.user.userId,
+    });
     const json = await this.uniAgentService.formatReportAsJson(report);
-    
+
     return json;
   }
 
+  // Per-column profile of a stored record, cached per version
   @Get('statistics/:id')
-  async getStatistics(@Param('id') id: string) {
-    // This would need to fetch the record first
-    // For now, it's a placeholder
-    return {
-      message: 'Statistics endpoint',
-      id,
-    };
+  @RequirePermission('knowledge-base:read')
+  async getStatistics(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    return this.uniAgentService.getRecordProfile(id, req.user.userId);
   }
 
   @Post('statistics')
@@ -348,4 +734,77 @@ export class UniAgentController {
     const stats = await this.uniAgentService.getDataStatistics(body.data);
     return stats;
   }
+
+  private parseDatasetParams<T>(
+    schema: ZodType<T, any, any>,
+    body: unknown,
+  ): T {
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+      throw new BadRequestException({
+        message: 'Invalid dataset operation',
+        errors: parsed.error.issues.map((issue) =>
+          issue.path.length > 0
+            ? `${issue.path.join('.')}: ${issue.message}`
+            : issue.message,
+        ),
+      });
+    }
+    return parsed.data;
+  }
+
+  private parsePipeline(pipeline: string | any[]): PipelineStep[] {
+    try {
+      return parsePipeline(pipeline);
+    } catch (error) {
+      if (error instanceof PipelineError) {
+        throw new BadRequestException({
+          message: 'Invalid pipeline',
+          errors: error.issues,
+        });
+      }
+      throw error;
+    }
+  }
+
+  // For routes whose required permission depends on the request body; the same checks as RolesGuard
+  private assertPermission(req, permission: Permission) {
+    if (!hasPermission(req.user.role, permission)) {
+      throw new ForbiddenException(
+        `This action requires one of the roles: ${PERMISSIONS[permission].join(', ')}`,
+      );
+    }
+    if (
+      req.user.apiKeyScopes &&
+      !scopesGrant(req.user.apiKeyScopes, permission)
+    ) {
+      throw new ForbiddenException(
+        `This API key has no scope for ${permission}`,
+      );
+    }
+  }
+
+  // ===== ASYNC JOBS =====
+
+  // With ?async=true the work is queued as a job; the 202 response carries the job id to poll at GET /jobs/:id
+  private async enqueueJob(req, res: Response, type: string, payload: any) {
+    const job = await this.uniAgentJobsService.enqueue(
+      req.user.userId,
+      type,
+      payload,
+    );
+    res.status(202);
+    return job;
+  }
+
+  private enqueueExport(req, format: ExportFormat, params: PdfExportParams) {
+    return this.uniAgentJobsService.enqueue(
+      req.user.userId,
+      AGENT_JOB_TYPES.EXPORT,
+      {
+        format,
+        params: { ...params, userId: req.user.userId },
+      },
+    );
+  }
 }
@@ -2,12 +2,36 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { UniAgentService } from './uni-agent.service';
 import { UniAgentController } from './uni-agent.controller';
+import { WorkflowPlansService } from './workflow-plans.service';
+import { UniAgentJobsService } from './uni-agent-jobs.service';
 import { KnowledgeBase } from '../../entities/knowledge_base.entity';
+import { PlannedWorkflow } from '../../entities/planned_workflow.entity';
+import { Report } from '../../entities/report.entity';
+import { ProcessingRun } from '../../entities/processing_run.entity';
+import { PromptAudit } from '../../entities/prompt_audit.entity';
+import { User } from '../../entities/users.entity';
+import { LlmModule } from '../llm/llm.module';
+import { JobsModule } from '../../modules/jobs/jobs.module';
+import { ValidationRulesModule } from '../../modules/validation-rules/validation-rules.module';
+import { KnowledgeBaseModule } from '../../modules/knowledge-base/knowledge-base.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([KnowledgeBase])],
+  imports: [
+    TypeOrmModule.forFeature([
+      KnowledgeBase,
+      PlannedWorkflow,
+      Report,
+      ProcessingRun,
+      PromptAudit,
+      User,
+    ]),
+    LlmModule,
+    JobsModule,
+    ValidationRulesModule,
+    KnowledgeBaseModule,
+  ],
   controllers: [UniAgentController],
-  providers: [UniAgentService],
-  exports: [UniAgentService],
+  providers: [UniAgentService, WorkflowPlansService, UniAgentJobsService],
+  exports: [UniAgentService, WorkflowPlansService],
 })
 export class UniAgentModule {}
@@ -0,0 +1,189 @@
+import { NotFoundException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { KnowledgeBase } from '../../entities/knowledge_base.entity';
+import { ProcessingRun } from '../../entities/processing_run.entity';
+import { PromptAudit } from '../../entities/prompt_audit.entity';
+import { Report } from '../../entities/report.entity';
+import { User } from '../../entities/users.entity';
+import { KnowledgeBaseService } from '../../modules/knowledge-base/knowledge-base.service';
+import { ValidationRulesService } from '../../modules/validation-rules/validation-rules.service';
+import type { LlmConfig } from '../llm/llm.config';
+import {
+  ScriptedChatModel,
+  ScriptedResponses,
+} from '../llm/scripted-chat.model';
+import { UniAgentService } from './uni-agent.service';
+
+const record = { id: 'rec-1', title: 'employees', content: 'name\nAna' };
+
+// The orchestration with the scripted model; only records, reports and prompt audits are touched
+function createAgent(
+  responses: ScriptedResponses = {},
+  reports: Report[] = [],
+) {
+  const model = new ScriptedChatModel({ responses });
+  const audits: Partial<PromptAudit>[] = [];
+  const promptAuditRepository = {
+    create: (values: Partial<PromptAudit>) => values,
+    save: (audit: Partial<PromptAudit>) => {
+      audits.push(audit);
+      return Promise.resolve(audit);
+    },
+  };
+  const userRepository = {
+    findOne: () => Promise.resolve({ id: 'user-1', role: 'analyst' }),
+  };
+  const reportRepository = {
+    findOne: ({ where }: { where: { id: string; user?: { id: string } } }) =>
+      Promise.resolve(
+        reports.find(
+          (report) =>
+            report.id === where.id &&
+            (!where.user || report.user?.id === where.user.id),
+        ) ?? null,
+      ),
+  };
+  const findRecord = jest.fn().mockResolvedValue(record);
+  const config: LlmConfig = {
+    provider: 'fake',
+    model: 'scripted-fake',
+    temperature: 0,
+  };
+
+  const agent = new UniAgentService(
+    {} as Repository<KnowledgeBase>,
+    reportRepository as unknown as Repository<Report>,
+    {} as Repository<ProcessingRun>,
+    promptAuditRepository as unknown as Repository<PromptAudit>,
+    userRepository as unknown as Repository<User>,
+    config,
+    model,
+    {} as ValidationRulesService,
+    { findRecord } as unknown as KnowledgeBaseService,
+  );
+  return { agent, model, audits, findRecord };
+}
+
+describe('UniAgentService orchestration', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('plans from the request context and audits the masked prompt', async () => {
+    const { agent, model, audits } = createAgent();
+
+    const plan = await agent.planRequest(
+      'Report on the data of ana@example.com',
+      {
+        userId: 'user-1',
+        recordId: 'rec-1',
+      },
+    );
+
+    expect(plan.tasks.map((task) => task.action)).toEqual([
+      'get_by_id',
+      'generate_report',
+    ]);
+    expect(plan.tasks[0].params).toEqual({ id: 'rec-1' });
+    expect(model.calls[0].prompt).not.toContain('ana@example.com');
+    expect(audits).toEqual([
+      expect.objectContaining({
+        user: { id: 'user-1' },
+        chain: 'planner',
+        recordIds: ['rec-1'],
+        modelProvider: 'fake',
+      }),
+    ]);
+  });
+
+  it('re-plans with the validation errors and runs the accepted plan for the user', async () => {
+    const { agent, model, findRecord } = createAgent({
+      planner: [
+        {
+          tasks: [{ agent: 'data', action: 'fetch_everything', params: {} }],
+          reasoning: 'wrong',
+        },
+        {
+          tasks: [
+            { agent: 'data', action: 'get_by_id', params: { id: 'rec-1' } },
+          ],
+          reasoning: 'fetch it',
+        },
+      ],
+    });
+    const events: string[] = [];
+
+    const result = (await agent.processRequest(
+      'Show me rec-1',
+      { userId: 'user-1' },
+      (event) => events.push(event.type),
+    )) as { results: unknown[]; summary: string };
+
+    expect(model.calls).toHaveLength(2);
+    expect(model.calls[1].prompt).toContain('YOUR PREVIOUS PLAN WAS REJECTED');
+    expect(model.calls[1].prompt).toContain(
+      'unknown action "fetch_everything"',
+    );
+    expect(findRecord).toHaveBeenCalledWith('rec-1', 'user-1', 'view');
+    expect(result.results).toEqual([record]);
+    expect(result.summary).toBe(
+      'Workflow completed: 1 tasks successful, 0 tasks failed, 0 tasks skipped',
+    );
+    expect(events[0]).toBe('plan_created');
+    expect(events[events.length - 1]).toBe('summary');
+  });
+
+  it('gives up once the planner keeps producing invalid plans', async () => {
+    const { agent, model } = createAgent({
+      planner: {
+        tasks: [{ agent: 'report', action: 'get_by_id', params: {} }],
+        reasoning: 'wrong agent',
+      },
+    });
+
+    await expect(agent.planRequest('Show me rec-1')).rejects.toThrow(
+      /plan was still invalid after \d+ attempts: .*belongs to agent "data"/,
+    );
+    expect(model.calls.length).toBeGreaterThan(1);
+  });
+});
+
+describe('UniAgentService report data', () => {
+  const report = {
+    id: 'report-1',
+    user: { id: 'user-1' },
+    record: { id: 'rec-1', content: 'stale copy' },
+  } as Report;
+
+  it('reads the data of a stored report through the access check of its record', async () => {
+    const { agent, findRecord } = createAgent({}, [report]);
+
+    await expect(
+      agent.resolveReportData({ reportId: 'report-1', userId: 'user-1' }),
+    ).resolves.toBe(record.content);
+    expect(findRecord).toHaveBeenCalledWith('rec-1', 'user-1', 'view');
+
+    findRecord.mockRejectedValue(
+      new NotFoundException('Record with id rec-1 not found'),
+    );
+    await expect(
+      agent.resolveReportData({ reportId: 'report-1', userId: 'user-1' }),
+    ).rejects.toThrow('Record with id rec-1 not found');
+  });
+
+  it("does not serve another user's report", async () => {
+    const { agent } = createAgent({}, [report]);
+
+    await expect(
+      agent.resolveReportData({ reportId: 'report-1', userId: 'user-2' }),
+    ).rejects.toThrow(NotFoundException);
+    await expect(agent.getStoredReport('report-1', 'user-2')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
@@ -1,34 +1,153 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { z } from 'zod';
 import { StructuredOutputParser } from '@langchain/core/output_parsers';
 import { RunnableSequence } from '@langchain/core/runnables';
 import { KnowledgeBase } from '../../entities/knowledge_base.entity';
+import { Report } from '../../entities/report.entity';
+import { ProcessingRun } from '../../entities/processing_run.entity';
+import { PromptAudit } from '../../entities/prompt_audit.entity';
+import { User } from '../../entities/users.entity';
 import { AIMessage } from '@langchain/core/messages';
+import { AgentEventListener } from './agent-events';
+import { LLM_CONFIG, LLM_MODEL } from '../llm/llm.provider';
+import type { LlmConfig } from '../llm/llm.config';
+import { describeActions, validateWorkflowPlan } from './action-registry';
+import { renderReportPdf } from './report-pdf';
+import {
+  ChunkAnalysis,
+  DatasetStatistics,
+  REDUCE_FAN_IN,
+  computeDatasetStatistics,
+  describeColumn,
+  formatStatisticsForPrompt,
+  getReportChunkConcurrency,
+  getReportChunkSize,
+  splitIntoChunks,
+} from './report-chunking';
+import {
+  RuleSet,
+  ValidationReport,
+  validateWithRules,
+} from './validation-rules';
+import {
+  DEFAULT_NULL_TOKENS,
+  DEFAULT_REPLACEMENT,
+  PipelineStep,
+  parsePipeline,
+  pipelineFromAnalysis,
+  withValidationRules,
+} from './cleaning-pipeline';
+import { ChangeLog, ChangeLogBuilder, ChangeType } from './change-log';
+import { extractFile } from './file-extractor';
+import {
+  CsvDialect,
+  CsvTable,
+  parseCSV,
+  sniffDialect,
+  toCsv,
+  tryParseCSV,
+} from './csv';
+import {
+  AppendParams,
+  DatasetOperation,
+  DatasetOperationError,
+  JoinParams,
+  ProjectParams,
+  appendParamsSchema,
+  appendTables,
+  joinParamsSchema,
+  joinTables,
+  projectParamsSchema,
+  projectTable,
+} from './dataset-operations';
+import { DataProfile, profileData } from './data-profiler';
+import { QueryError, QueryResult, QueryTable, runQuery } from './sql-query';
+import {
+  PII_TYPES,
+  PiiMasker,
+  PiiPolicy,
+  loadPiiConfig,
+  resolvePiiPolicy,
+  revealPlaceholders,
+} from './pii-masking';
+import {
+  DataSchema,
+  SchemaError,
+  SemanticType,
+  applySchemaCorrections,
+  inferSchema,
+  isMissingValue,
+  isNumericValue,
+  resolveColumnTypes,
+  withCorrectionsFrom,
+} from './schema-inference';
+import { ValidationRulesService } from '../../modules/validation-rules/validation-rules.service';
+import { KnowledgeBaseService } from '../../modules/knowledge-base/knowledge-base.service';
+import type { RecordAccess } from '../../modules/knowledge-base/record-access';
+import {
+  collectTaskReferences,
+  getWorkflowConcurrency,
+  runTaskGraph,
+  validateTaskGraph,
+} from './workflow-scheduler';
 
 interface Tool {
   name: string;
   description: string;
-  call: (data: string) => string;
+  // Options come from the pipeline step that runs the tool
+  call: (data: string, options?: any) => string;
 }
 
-interface AgentTask {
+export interface AgentTask {
   agent: string;
   action: string;
   params: any;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  dependencies?: number[];
+  // Set during plan review; false means the user rejected the task
+  approved?: boolean;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
   result?: any;
   error?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+  durationMs?: number;
 }
 
-interface WorkflowPlan {
+export interface WorkflowPlan {
   tasks: AgentTask[];
   reasoning: string;
 }
 
+type PromptChain =
+  | 'planner'
+  | 'data_analysis'
+  | 'summary'
+  | 'insights'
+  | 'reduce'
+  | 'query';
+
+// What one request sends to the model shares a masker, so a value keeps its placeholder across prompts
+interface PromptContext {
+  masker: PiiMasker;
+  userId?: string;
+  viewer: { role: string | null; department: string | null };
+  // Records whose data goes into the prompts
+  recordIds: string[];
+  // Column types of the data, so its personal data columns are recognised by type too
+  schema?: DataSchema | null;
+}
+
 export interface ReportMetadata {
   title: string;
   generatedAt: Date;
@@ -44,104 +163,194 @@ export interface ReportSection {
 }
 
 export interface GeneratedReport {
+  // Set once the report has been stored; pass it as reportId to export the same report again
+  id?: string;
   metadata: ReportMetadata;
   sections: ReportSection[];
   summary: string;
   recommendations?: string[];
 }
 
-function parseCSV(data: string): { headers: string[], rows: string[][] } {
-  // Handle both actual newlines and literal \n strings
-  const normalizedData = data.replace(/\\n/g, '\n');
-  const lines = normalizedData.trim().split('\n').filter(line => line.trim().length > 0);
-  
-  if (lines.length < 2) {
-    throw new Error('Invalid CSV: needs at least header and one row');
-  }
-  
-  // Parse a single CSV line handling quotes
-  function parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      const nextChar = line[i + 1];
-      
-      if (char === '"') {
-        if (inQuotes && nextChar === '"') {
-          // Escaped quote
-          current += '"';
-          i++; // Skip next quote
-        } else {
-          // Toggle quote mode
-          inQuotes = !inQuotes;
-        }
-      } else if (char === ',' && !inQuotes) {
-        // End of field
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    
-    // Add last field
-    result.push(current.trim());
-    return result;
+export interface ChartSeries {
+  id: string;
+  title: string;
+  type: 'bar' | 'line';
+  label: string;
+  labels: string[];
+  values: number[];
+  // RGB, used at full strength for borders and lines and translucent for fills
+  color: [number, number, number];
+}
+
+const US_STATE_CODES = [
+  'AL',
+  'AK',
+  'AZ',
+  'AR',
+  'CA',
+  'CO',
+  'CT',
+  'DE',
+  'FL',
+  'GA',
+  'HI',
+  'ID',
+  'IL',
+  'IN',
+  'IA',
+  'KS',
+  'KY',
+  'LA',
+  'ME',
+  'MD',
+  'MA',
+  'MI',
+  'MN',
+  'MS',
+  'MO',
+  'MT',
+  'NE',
+  'NV',
+  'NH',
+  'NJ',
+  'NM',
+  'NY',
+  'NC',
+  'ND',
+  'OH',
+  'OK',
+  'OR',
+  'PA',
+  'RI',
+  'SC',
+  'SD',
+  'TN',
+  'TX',
+  'UT',
+  'VT',
+  'VA',
+  'WA',
+  'WV',
+  'WI',
+  'WY',
+];
+
+// Most frequent spelling of each value of a column, keyed by its lower-case form; ties go to the first seen
+function dominantSpellings(
+  rows: string[][],
+  column: number,
+): Map<string, string> {
+  const counts = new Map<string, Map<string, number>>();
+  for (const row of rows) {
+    const value = (row[column] || '').trim();
+    const variants =
+      counts.get(value.toLowerCase()) ?? new Map<string, number>();
+    variants.set(value, (variants.get(value) || 0) + 1);
+    counts.set(value.toLowerCase(), variants);
   }
-  
-  const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase());
-  const headerCount = headers.length;
-  
-  const rows = lines.slice(1).map((line, idx) => {
-    const cells = parseCSVLine(line);
-    
-    // Pad row if it has fewer cells than headers
-    while (cells.length < headerCount) {
-      console.warn(`Row ${idx + 2} has ${cells.length} cells but expected ${headerCount}. Padding with empty string.`);
-      cells.push('');
-    }
-    
-    // Truncate row if it has more cells than headers
-    if (cells.length > headerCount) {
-      console.warn(`Row ${idx + 2} has ${cells.length} cells but expected ${headerCount}. Truncating from ${cells.length} to ${headerCount}.`);
-      console.warn(`Extra values: ${cells.slice(headerCount).join(', ')}`);
-      return cells.slice(0, headerCount);
-    }
-    
-    return cells;
-  });
-  
-  return { headers, rows };
+  return new Map(
+    [...counts.entries()].map(([key, variants]) => [
+      key,
+      [...variants.entries()].reduce((best, entry) =>
+        entry[1] > best[1] ? entry : best,
+      )[0],
+    ]),
+  );
+}
+
+// One to four words of letters, like "john smith" or "O'Brien"
+function isNameLike(value: string): boolean {
+  return /^[\p{L}'.-]+(?: [\p{L}'.-]+){0,3}$/u.test(value);
+}
+
+// Planner invocations allowed before an invalid plan is reported as a failure
+const MAX_PLANNING_ATTEMPTS = 3;
+// SQL generations allowed before a question is reported as unanswerable
+const MAX_QUERY_ATTEMPTS = 2;
+// Rows of each table shown to the model when it writes a query
+const QUERY_SAMPLE_ROWS = 3;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Bump a version whenever its prompt changes, so stored reports can be traced to the prompt that produced them
+const REPORT_PROMPT_VERSIONS = {
+  summary: 'summary-v2',
+  insights: 'insights-v2',
+  reduce: 'reduce-v1',
+};
+
+function toChunkAnalysis(result: any): ChunkAnalysis {
+  const list = (value: any): string[] =>
+    Array.isArray(value) ? value.map(String) : [];
+  return {
+    summary: typeof result?.summary === 'string' ? result.summary : '',
+    key_points: list(result?.key_points),
+    data_quality:
+      typeof result?.data_quality === 'string' ? result.data_quality : '',
+    insights: list(result?.insights),
+    trends: list(result?.trends),
+    anomalies: list(result?.anomalies),
+    recommendations: list(result?.recommendations),
+  };
+}
+
+// Table name a query uses for a record: its file name without the extension, as a plain SQL name
+function queryTableName(filename: string): string {
+  const name = filename
+    .replace(/\.[^/.]+$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return /^[a-z_]/.test(name) ? name : `t_${name}`;
 }
 
-function reconstructCSV(headers: string[], rows: string[][]): string {
-  return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+// Default file name of a derived record; record titles are limited to 50 characters
+function derivedFilename(base: string): string {
+  return `${base.slice(0, 50)}.csv`;
+}
+
+function escapeHtml(value: string): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
 }
 
 @Injectable()
 export class UniAgentService {
-  private readonly model: ChatGoogleGenerativeAI;
   private plannerChain: RunnableSequence;
   private dataAnalysisChain: RunnableSequence;
   private summaryChain: RunnableSequence;
   private insightsChain: RunnableSequence;
+  private reduceChain: RunnableSequence;
+  private queryChain: RunnableSequence;
   private tools: Tool[];
+  // PII_POLICY_PATH, read once; an invalid policy file stops the application from starting
+  private readonly piiConfig = loadPiiConfig();
+  private readonly logger = new Logger(UniAgentService.name);
 
   constructor(
     @InjectRepository(KnowledgeBase)
     private readonly knowledgeBaseRepository: Repository<KnowledgeBase>,
+    @InjectRepository(Report)
+    private readonly reportRepository: Repository<Report>,
+    @InjectRepository(ProcessingRun)
+    private readonly processingRunRepository: Repository<ProcessingRun>,
+    @InjectRepository(PromptAudit)
+    private readonly promptAuditRepository: Repository<PromptAudit>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @Inject(LLM_CONFIG)
+    private readonly llmConfig: LlmConfig,
+    // Chat model chosen by LLM_PROVIDER (gemini, openai-compatible or the scripted fake)
+    @Inject(LLM_MODEL)
+    private readonly model: BaseChatModel,
+    private readonly validationRulesService: ValidationRulesService,
+    // Record lookups go through it, so they only find records the requesting user may see
+    private readonly knowledgeBaseService: KnowledgeBaseService,
   ) {
-    // Initialize Google Gemini model
-    this.model = new ChatGoogleGenerativeAI({
-      model: 'gemini-2.5-flash',
-      temperature: 0.3,
-      apiKey: process.env.GOOGLE_API_KEY || 'your-api-key-here',
-    });
-    
-
     this.setupChains();
     this.setupTools();
   }
@@ -155,7 +364,7 @@ export class UniAgentService {
           action: z.string(),
           params: z.record(z.any()),
           dependencies: z.array(z.number()).optional(),
-        })
+        }),
       ),
       reasoning: z.string(),
     });
@@ -170,40 +379,30 @@ export class UniAgentService {
 You are a unified agent that can handle data processing, analysis, and report generation.
 
 AVAILABLE CAPABILITIES:
-1. DATA PROCESSING: Clean, transform, validate, and store data
-   - Actions: 
-     * get_by_id: Retrieve a processed record by its ID
-     * get_by_filename: Retrieve a processed record by its filename
-     * process_data: Process raw data (clean, transform, validate) and save to database
-   
-2. REPORT GENERATION: Create comprehensive reports from processed data
-   - Actions: 
-     * generate_report: Generate a comprehensive report with insights and recommendations
-     * create_summary: Create a quick summary of the data
-     * export_pdf: Export report as PDF (HTML)
-     * export_markdown: Export report as Markdown
-     * export_json: Export report as JSON
-     * get_statistics: Get basic statistics about the data
-     * export_charts: Generate an HTML page with Chart.js charts from the data
+${describeActions()}
 
 TASK PLANNING RULES:
 - If user mentions an EXISTING file/record in the database, use get_by_filename or get_by_id to RETRIEVE it
 - Only use process_data when user is uploading NEW data or explicitly asks to process/re-process data
 - Reports can be generated directly from existing records using recordId or filename
 - Use dependencies array to specify task order (by index, 0-based)
+- Tasks that do not depend on each other run in parallel, so list EVERY task whose result a task needs in its dependencies
 - When a task depends on another task's result, use placeholder syntax: {{task.INDEX.FIELD}}
 - Example: If task 0 retrieves data, task 1 can use {{task.0.id}} to reference the record ID
+- To combine datasets into a new record, use append_data (stack rows, e.g. monthly exports), join_data (match rows on key columns) or project_data (keep or rename columns)
+- Placeholders also work inside arrays, e.g. recordIds=["{{task.0.recordId}}", "{{task.1.recordId}}"]
+- For questions about the data (averages, counts, top N, filters), use query_data with the question as asked and the record(s) as recordId/filename (recordIds/filenames to combine several datasets)
 
 PARAMETER PLACEHOLDER SYNTAX:
 - Use {{task.0.id}} to reference the "id" field from task 0's result
 - Use {{task.0.filename}} to reference the "filename" field from task 0's result
 - Use {{task.1.recordId}} to reference the "recordId" field from task 1's result
-- For export tasks that depend on generate_report, use the SAME parameters as the generate_report task
+- For export tasks that depend on generate_report, use {{task.X.id}} as their reportId
 
 CRITICAL RULES FOR EXPORT TASKS:
-- export_pdf, export_markdown, export_json, export_charts should use the SAME parameters as the generate_report task they depend on
+- export_pdf, export_markdown, export_json, export_charts that depend on a generate_report task should pass reportId="{{task.X.id}}" (X = the generate_report task) so they export that exact report
 - Do NOT use {{task.X.reportId}} - this field does not exist
-- Use the same recordId, filename, or data parameters that were used in the generate_report task
+- Without a generate_report task, use the same recordId, filename, or data parameters a report would use
 
 EXAMPLES:
 - "Create report from employees.csv" → 
@@ -218,35 +417,53 @@ EXAMPLES:
   Task 0: process_data (data will be auto-injected from context)
   Task 1: generate_report with recordId="{{task.0.recordId}}"
 
+- "Average salary by department in employees.csv for hires after 2020" →
+  Task 0: query_data with filename="employees.csv", question="Average salary by department for hires after 2020"
+
+- "Combine january.csv and february.csv and report on them" →
+  Task 0: append_data with filenames=["january.csv", "february.csv"]
+  Task 1: generate_report with recordId="{{task.0.recordId}}"
+
 - "Generate report from employees.csv and export to PDF" →
   Task 0: get_by_filename with filename="employees.csv"
   Task 1: generate_report with recordId="{{task.0.id}}"
-  Task 2: export_pdf with recordId="{{task.0.id}}" (SAME as task 1)
+  Task 2: export_pdf with reportId="{{task.1.id}}"
 
 USER REQUEST:
 {request}
 
 CONTEXT (if available):
 {context}
-
+{feedback}
 Plan the workflow as a sequence of tasks. Use this exact JSON format:
 ${plannerFormatInstructions}
 
 Provide your workflow plan:`;
 
-    const plannerPrompt = ChatPromptTemplate.fromTemplate(plannerPromptTemplate);
-    this.plannerChain = RunnableSequence.from([plannerPrompt, this.model, plannerParser]);
+    const plannerPrompt = ChatPromptTemplate.fromTemplate(
+      plannerPromptTemplate,
+    );
+    this.plannerChain = RunnableSequence.from([
+      plannerPrompt,
+      this.model,
+      plannerParser,
+    ]);
 
     // Data analysis chain
     const dataAnalysisSchema = z.object({
       needs_cleaning: z.boolean(),
       needs_transformation: z.boolean(),
+      needs_normalization: z.boolean().optional(),
+      needs_deduplication: z.boolean().optional(),
       needs_validation: z.boolean(),
       raw_text_allowed: z.boolean().optional(),
+      null_tokens: z.array(z.string()).optional(),
+      duplicate_key_columns: z.array(z.string()).optional(),
       explanation: z.string(),
     });
 
-    const dataAnalysisParser = StructuredOutputParser.fromZodSchema(dataAnalysisSchema);
+    const dataAnalysisParser =
+      StructuredOutputParser.fromZodSchema(dataAnalysisSchema);
     const dataAnalysisFormatInstructions = dataAnalysisParser
       .getFormatInstructions()
       .replace(/{/g, '{{')
@@ -258,6 +475,10 @@ You are a data quality analyst. Analyze the provided data and determine what pro
 DEFINITIONS:
 - needs_cleaning: true if data contains NULL, N/A, empty values, or needs whitespace normalization
 - needs_transformation: true if dates need standardization (to YYYY-MM-DD), emails need lowercase, phone numbers need formatting, or currency has commas
+- needs_normalization: true if names have inconsistent casing or US state codes are written in mixed case
+- needs_deduplication: true if the same record appears more than once
+- null_tokens: placeholders used for missing values other than the usual NULL, N/A, TBD, none, -- (e.g. "?" or "missing"), if any
+- duplicate_key_columns: the column(s) that identify a record (e.g. an id or email column), if duplicates should be matched on them rather than on whole rows
 - needs_validation: true if you need to check for invalid emails (missing @), ages outside 0-120, invalid dates, or amounts outside reasonable ranges
 
 RULES:
@@ -274,8 +495,14 @@ Data to analyze:
 
 Provide your analysis:`;
 
-    const dataAnalysisPrompt = ChatPromptTemplate.fromTemplate(dataAnalysisPromptTemplate);
-    this.dataAnalysisChain = RunnableSequence.from([dataAnalysisPrompt, this.model, dataAnalysisParser]);
+    const dataAnalysisPrompt = ChatPromptTemplate.fromTemplate(
+      dataAnalysisPromptTemplate,
+    );
+    this.dataAnalysisChain = RunnableSequence.from([
+      dataAnalysisPrompt,
+      this.model,
+      dataAnalysisParser,
+    ]);
 
     // Summary chain
     const summarySchema = z.object({
@@ -300,6 +527,9 @@ Analyze the following data and provide:
 3. Assessment of data quality (good/fair/poor with brief explanation)
 4. Count of valid records
 
+DATASET STATISTICS (exact, computed over ALL rows - use these numbers for any counts instead of estimating):
+{statistics}
+
 DATA:
 {data}
 
@@ -316,7 +546,9 @@ ${summaryFormatInstructions}
 
 Respond with only the JSON object:`;
 
-    const summaryPrompt = ChatPromptTemplate.fromTemplate(summaryPromptTemplate);
+    const summaryPrompt = ChatPromptTemplate.fromTemplate(
+      summaryPromptTemplate,
+    );
     this.summaryChain = RunnableSequence.from([
       summaryPrompt,
       this.model,
@@ -346,6 +578,9 @@ Analyze the data and identify:
 3. Anomalies or outliers (if any, 0-3)
 4. Actionable recommendations (2-4 suggestions)
 
+DATASET STATISTICS (exact, computed over ALL rows - use these numbers for any counts instead of estimating):
+{statistics}
+
 DATA:
 {data}
 
@@ -365,180 +600,369 @@ ${insightsFormatInstructions}
 
 Respond with only the JSON object:`;
 
-    const insightsPrompt = ChatPromptTemplate.fromTemplate(insightsPromptTemplate);
+    const insightsPrompt = ChatPromptTemplate.fromTemplate(
+      insightsPromptTemplate,
+    );
     this.insightsChain = RunnableSequence.from([
       insightsPrompt,
       this.model,
       (output: AIMessage | string) => this.parseJSON(output, insightsParser),
     ]);
+
+    // Reduce chain, merging the analyses of the chunks of a large dataset into one
+    const reduceSchema = z.object({
+      summary: z.string(),
+      key_points: z.array(z.string()),
+      data_quality: z.string(),
+      insights: z.array(z.string()),
+      trends: z.array(z.string()),
+      anomalies: z.array(z.string()),
+      recommendations: z.array(z.string()),
+    });
+
+    const reduceParser = StructuredOutputParser.fromZodSchema(reduceSchema);
+    const reduceFormatInstructions = reduceParser
+      .getFormatInstructions()
+      .replace(/{/g, '{{')
+      .replace(/}/g, '}}');
+
+    const reducePromptTemplate = `
+You are a data analyst merging partial analyses of one dataset into a single analysis.
+
+The dataset was too large to analyze at once, so it was split into consecutive chunks of rows.
+Each partial analysis below describes one chunk (or an already merged group of chunks).
+
+Combine them into ONE analysis of the whole dataset:
+1. A brief summary (2-3 sentences) of the whole dataset
+2. Key points (3-5), merging duplicates across chunks
+3. Overall data quality assessment (good/fair/poor with brief explanation)
+4. Key insights (3-5), trends (2-4), anomalies (0-3) and recommendations (2-4) that hold for the whole dataset
+- Prefer findings that appear in several chunks; keep chunk-specific anomalies only if they matter overall
+- Never add up or estimate counts from the partial analyses; use the exact statistics instead
+
+DATASET STATISTICS (exact, computed over ALL rows):
+{statistics}
+
+PARTIAL ANALYSES:
+{partials}
+
+CRITICAL JSON FORMATTING RULES:
+- Respond with ONLY valid JSON - no markdown, no code blocks, no explanatory text
+- ALL strings in arrays MUST be wrapped in double quotes: ["item1", "item2"]
+- Every array element must be a complete quoted string on one line
+- Do not wrap response in \`\`\`json or any other markers
+
+Use this exact JSON format:
+${reduceFormatInstructions}
+
+Respond with only the JSON object:`;
+
+    const reducePrompt = ChatPromptTemplate.fromTemplate(reducePromptTemplate);
+    this.reduceChain = RunnableSequence.from([
+      reducePrompt,
+      this.model,
+      (output: AIMessage | string) => this.parseJSON(output, reduceParser),
+    ]);
+
+    // Query chain: turns a question into the read-only SQL dialect of runQuery
+    const querySchema = z.object({
+      sql: z.string(),
+      explanation: z.string(),
+    });
+
+    const queryParser = StructuredOutputParser.fromZodSchema(querySchema);
+    const queryFormatInstructions = queryParser
+      .getFormatInstructions()
+      .replace(/{/g, '{{')
+      .replace(/}/g, '}}');
+
+    const queryPromptTemplate = `
+You translate questions about tabular data into SQL.
+
+SQL DIALECT (read-only, one statement):
+- SELECT [DISTINCT] ... FROM table [alias] [[LEFT] JOIN table [alias] ON ...] [WHERE ...] [GROUP BY ...] [HAVING ...] [ORDER BY ... [ASC|DESC]] [LIMIT n [OFFSET m]]
+- Aggregates: COUNT(*), COUNT([DISTINCT] column), SUM, AVG, MIN, MAX; with aggregates, every selected column outside one must be in GROUP BY
+- Functions: LOWER, UPPER, TRIM, LENGTH, SUBSTR, ROUND(x, digits), ABS, COALESCE, YEAR, MONTH, DAY
+- Operators: = <> < <= > >= AND OR NOT, IN (...), BETWEEN ... AND ..., LIKE (% and _, case-insensitive), IS [NOT] NULL, + - * / %, || (concatenation), CASE WHEN ... THEN ... ELSE ... END
+- No subqueries, no UNION, no window functions
+- Dates are text in YYYY-MM-DD form: compare them with literals like '2020-12-31' and use YEAR(column) for the year
+- Missing, "Unknown" and invalid values are NULL
+- Wrap column names that are not plain words in double quotes, e.g. "first name"
+- Give computed columns a short alias, e.g. AVG(salary) AS avg_salary, and ROUND averages to 2 digits
+
+TABLES:
+{tables}
+
+QUESTION:
+{question}
+{feedback}
+Use this exact JSON format:
+${queryFormatInstructions}
+
+Provide your query:`;
+
+    const queryPrompt = ChatPromptTemplate.fromTemplate(queryPromptTemplate);
+    this.queryChain = RunnableSequence.from([
+      queryPrompt,
+      this.model,
+      queryParser,
+    ]);
   }
 
   private setupTools() {
     this.tools = [
       {
-        name: "clean",
-        description: "Removes null values, duplicates, and corrects formatting errors. Handles multiple data separators and replaces empty fields with 'Unknown'.",
-        call: (data: string): string => {
+        name: 'clean',
+        description:
+          "Replaces null tokens (NULL, N/A, empty fields, ...) with a placeholder, 'Unknown' by default, and normalizes whitespace.",
+        call: (
+          data: string,
+          options: {
+            nullTokens?: string[];
+            replacement?: string;
+            collapseWhitespace?: boolean;
+          } = {},
+        ): string => {
           if (!data || typeof data !== 'string') return '';
-          
+
+          const nullTokens = options.nullTokens ?? DEFAULT_NULL_TOKENS;
+          const replacement = options.replacement ?? DEFAULT_REPLACEMENT;
+          const collapseWhitespace = options.collapseWhitespace ?? true;
+
           try {
             const { headers, rows } = parseCSV(data);
-            
-            const cleanedRows = rows.map(row => {
-              return row.map(cell => {
+            const nulls = new Set(
+              nullTokens.map((token) => token.toLowerCase()),
+            );
+
+            const cleanedRows = rows.map((row) => {
+              return row.map((cell) => {
                 // Replace null/empty patterns
-                const nullPatterns = /^(NULL|N\/A|null|na|n\/a|PENDING|TBD|undefined|nil|none|--|)$/gi;
-                if (nullPatterns.test(cell)) {
-                  return 'Unknown';
+                if (nulls.has(cell.trim().toLowerCase())) {
+                  return replacement;
                 }
                 // Normalize whitespace
-                return cell.replace(/\s+/g, ' ').trim();
+                return collapseWhitespace
+                  ? cell.replace(/\s+/g, ' ').trim()
+                  : cell;
               });
             });
-            
-            return reconstructCSV(headers, cleanedRows);
+
+            return toCsv(headers, cleanedRows);
           } catch (e) {
             console.error('Clean tool CSV parsing failed:', e.message);
             // Fallback to simple cleaning if CSV parsing fails
             let cleaned = data;
-            cleaned = cleaned.replace(/\b(NULL|N\/A|null|na|n\/a|PENDING|TBD|undefined|nil|none|--)\b/gi, 'Unknown');
-            cleaned = cleaned.replace(/\s+/g, ' ').trim();
+            const tokens = nullTokens
+              .filter((token) => token.length > 0)
+              .map((token) => token.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'));
+            if (tokens.length > 0) {
+              cleaned = cleaned.replace(
+                new RegExp(`(?<![\\w/])(${tokens.join('|')})(?![\\w/])`, 'gi'),
+                replacement,
+              );
+            }
+            if (collapseWhitespace) {
+              cleaned = cleaned.replace(/\s+/g, ' ').trim();
+            }
             return cleaned;
           }
         },
       },
       {
-        name: "transform",
-        description: "Standardizes date formats (to ISO 8601), phone numbers, emails, currency values, and common data types.",
-        call: (data: string): string => {
+        name: 'transform',
+        description:
+          'Standardizes date formats (to ISO 8601), phone numbers, emails and currency values in the columns of those types.',
+        call: (
+          data: string,
+          options: {
+            dates?: boolean;
+            emails?: boolean;
+            phones?: boolean;
+            currency?: boolean;
+            schema?: DataSchema | null;
+          } = {},
+        ): string => {
           if (!data || typeof data !== 'string') return '';
-          
+
+          // Every kind of value is standardized unless its option is false
+          const {
+            dates = true,
+            emails = true,
+            phones = true,
+            currency = true,
+          } = options;
+
           try {
             const { headers, rows } = parseCSV(data);
-            
-            const transformedRows = rows.map(row => {
+            const types = resolveColumnTypes(headers, rows, options.schema);
+
+            const transformedRows = rows.map((row) => {
               return row.map((cell, idx) => {
                 // Safety check: ensure header exists for this index
                 if (idx >= headers.length) {
-                  console.warn(`Column index ${idx} exceeds header count ${headers.length}`);
+                  console.warn(
+                    `Column index ${idx} exceeds header count ${headers.length}`,
+                  );
                   return cell;
                 }
-                
-                const header = headers[idx] || '';
-                
+
+                const type = types[idx];
+
                 // Transform dates
-                if (header.includes('date') || /^\d{1,2}\/\d{1,2}\/\d{4}$/.test(cell)) {
+                if (dates && type === 'date') {
                   // MM/DD/YYYY to YYYY-MM-DD
-                  cell = cell.replace(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, (match, m, d, y) => {
-                    const month = m.padStart(2, '0');
-                    const day = d.padStart(2, '0');
-                    if (parseInt(month) > 12 || parseInt(day) > 31) return match;
-                    return `${y}-${month}-${day}`;
-                  });
-                  
+                  cell = cell.replace(
+                    /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/,
+                    (match, m, d, y) => {
+                      const month = m.padStart(2, '0');
+                      const day = d.padStart(2, '0');
+                      if (parseInt(month) > 12 || parseInt(day) > 31)
+                        return match;
+                      return `${y}-${month}-${day}`;
+                    },
+                  );
+
                   // DD-MM-YYYY to YYYY-MM-DD
-                  cell = cell.replace(/^(\d{1,2})-(\d{1,2})-(\d{4})$/, (match, d, m, y) => {
-                    const month = m.padStart(2, '0');
-                    const day = d.padStart(2, '0');
-                    if (parseInt(month) > 12 || parseInt(day) > 31) return match;
-                    return `${y}-${month}-${day}`;
-                  });
-                  
+                  cell = cell.replace(
+                    /^(\d{1,2})-(\d{1,2})-(\d{4})$/,
+                    (match, d, m, y) => {
+                      const month = m.padStart(2, '0');
+                      const day = d.padStart(2, '0');
+                      if (parseInt(month) > 12 || parseInt(day) > 31)
+                        return match;
+                      return `${y}-${month}-${day}`;
+                    },
+                  );
+
                   // YYYY/MM/DD to YYYY-MM-DD
-                  cell = cell.replace(/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/, (match, y, m, d) => {
-                    const month = m.padStart(2, '0');
-                    const day = d.padStart(2, '0');
-                    if (parseInt(month) > 12 || parseInt(day) > 31) return match;
-                    return `${y}-${month}-${day}`;
-                  });
+                  cell = cell.replace(
+                    /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/,
+                    (match, y, m, d) => {
+                      const month = m.padStart(2, '0');
+                      const day = d.padStart(2, '0');
+                      if (parseInt(month) > 12 || parseInt(day) > 31)
+                        return match;
+                      return `${y}-${month}-${day}`;
+                    },
+                  );
                 }
-                
+
                 // Transform emails to lowercase
-                if (header.includes('email') || cell.includes('@')) {
-                  const validEmailPattern = /^[a-zA-Z0-9._-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+                if (emails && type === 'email') {
+                  const validEmailPattern =
+                    /^[a-zA-Z0-9._-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
                   if (validEmailPattern.test(cell)) {
                     cell = cell.toLowerCase();
                   }
                 }
-                
+
                 // Transform phone numbers
-                if (header.includes('phone') || /\d{3}[-.\s]?\d{3}[-.\s]?\d{4}/.test(cell)) {
-                  cell = cell.replace(/\+?1?[-.\s]?\(?(\d{3})\)?[-.\s]?(\d{3})[-.\s]?(\d{4})/, '$1-$2-$3');
+                if (phones && type === 'phone') {
+                  cell = cell.replace(
+                    /\+?1?[-.\s]?\(?(\d{3})\)?[-.\s]?(\d{3})[-.\s]?(\d{4})/,
+                    '$1-$2-$3',
+                  );
                 }
-                
+
                 // Transform currency - be more specific to avoid breaking CSV structure
-                if (header.includes('salary') || header.includes('price') || header.includes('amount')) {
+                if (currency && type === 'currency') {
                   // Remove commas from currency values (e.g., 75,000 → 75000)
                   cell = cell.replace(/^(\d{1,3}(?:,\d{3})+)$/, (match) => {
                     return match.replace(/,/g, '');
                   });
-                  // Also handle with dollar sign: $75,000 → 75000
-                  cell = cell.replace(/^\$(\d{1,3}(?:,\d{3})+(?:\.\d{2})?)$/, (match, num) => {
-                    return num.replace(/,/g, '');
-                  });
+                  // Also handle currency symbols and codes: $75,000 → 75000, 1,200.50 EUR → 1200.50
+                  cell = cell.replace(
+                    /^([-+]?)(?:[$€£¥]\s?)?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?:\s?(?:[$€£¥]|USD|EUR|GBP|JPY|CAD|AUD|CHF))?$/i,
+                    (match, sign, num, fraction = '') =>
+                      `${sign}${num.replace(/,/g, '')}${fraction}`,
+                  );
                 }
-                
+
                 return cell;
               });
             });
-            
-            return reconstructCSV(headers, transformedRows);
+
+            return toCsv(headers, transformedRows);
           } catch (e) {
             console.error('Transform tool CSV parsing failed:', e.message);
             // Fallback to regex-based transformation
             let transformed = data;
-            transformed = transformed.replace(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g, (match, m, d, y) => {
-              return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
-            });
-            transformed = transformed.replace(/([a-zA-Z0-9._-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/gi, (m) => m.toLowerCase());
+            if (dates) {
+              transformed = transformed.replace(
+                /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g,
+                (match, m, d, y) => {
+                  return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+                },
+              );
+            }
+            if (emails) {
+              transformed = transformed.replace(
+                /([a-zA-Z0-9._-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/gi,
+                (m) => m.toLowerCase(),
+              );
+            }
             return transformed;
           }
         },
       },
       {
-        name: "validate",
-        description: "Validates emails, dates, ages, and numeric ranges based on column context. Marks invalid entries with [INVALID_*] tags.",
-        call: (data: string): string => {
+        name: 'validate',
+        description:
+          'Validates emails, dates, phone numbers, numbers and amounts based on the column types. Marks invalid entries with [INVALID_*] tags. Used when no validation rule set is attached.',
+        call: (
+          data: string,
+          options: { schema?: DataSchema | null } = {},
+        ): string => {
           if (!data || typeof data !== 'string') return '';
-          
+
           try {
             const { headers, rows } = parseCSV(data);
-            
-            const validatedRows = rows.map(row => {
+            const types = resolveColumnTypes(headers, rows, options.schema);
+
+            const validatedRows = rows.map((row) => {
               return row.map((cell, idx) => {
                 // Safety check: ensure header exists for this index
                 if (idx >= headers.length) {
-                  console.warn(`Column index ${idx} exceeds header count ${headers.length}`);
+                  console.warn(
+                    `Column index ${idx} exceeds header count ${headers.length}`,
+                  );
                   return cell;
                 }
-                
-                const header = headers[idx] || '';
-                
+
+                const type = types[idx];
+
                 // Validate email columns - ONLY in email columns
-                if (header === 'email' || header.includes('email')) {
-                  const validEmailPattern = /^[a-zA-Z0-9._-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
-                  if (!validEmailPattern.test(cell) && cell.toLowerCase() !== 'unknown') {
+                if (type === 'email') {
+                  const validEmailPattern =
+                    /^[a-zA-Z0-9._-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+                  if (
+                    !validEmailPattern.test(cell) &&
+                    cell.toLowerCase() !== 'unknown'
+                  ) {
                     return '[INVALID_EMAIL]';
                   }
                 }
-                
-                // Validate age columns - ONLY in age columns
-                if (header === 'age' || header.includes('age')) {
-                  // Check if it's not a valid number and not 'Unknown'
-                  if (!/^\d+$/.test(cell) && cell.toLowerCase() !== 'unknown') {
-                    return '[INVALID_AGE]';
-                  }
-                  // Check if numeric age is out of range
-                  if (/^\d+$/.test(cell)) {
-                    const age = parseInt(cell);
-                    if (age < 0 || age > 120) {
-                      return '[INVALID_AGE]';
-                    }
+
+                // Validate integer and decimal columns; empty cells are left to the clean step
+                if (type === 'integer' || type === 'decimal') {
+                  const valid =
+                    type === 'integer'
+                      ? /^[-+]?(?:\d+|\d{1,3}(?:,\d{3})+)$/.test(cell)
+                      : isNumericValue(cell);
+                  if (
+                    cell.trim() !== '' &&
+                    !valid &&
+                    cell.toLowerCase() !== 'unknown'
+                  ) {
+                    return type === 'integer'
+                      ? '[INVALID_INTEGER]'
+                      : '[INVALID_NUMBER]';
                   }
                 }
-                
+
                 // Validate date columns - ONLY in date columns
-                if (header === 'date' || header.includes('date')) {
+                if (type === 'date') {
                   const datePattern = /^(\d{4})-(\d{2})-(\d{2})$/;
                   const match = cell.match(datePattern);
                   if (match && cell.toLowerCase() !== 'unknown') {
@@ -546,20 +970,32 @@ Respond with only the JSON object:`;
                     const year = parseInt(y);
                     const month = parseInt(m);
                     const day = parseInt(d);
-                    
-                    if (month < 1 || month > 12 || day < 1 || day > 31 || year < 1900 || year > 2100) {
+
+                    if (
+                      month < 1 ||
+                      month > 12 ||
+                      day < 1 ||
+                      day > 31 ||
+                      year < 1900 ||
+                      year > 2100
+                    ) {
                       return '[INVALID_DATE]';
                     }
                     if (month === 2 && day > 29) return '[INVALID_DATE]';
-                    if ([4, 6, 9, 11].includes(month) && day > 30) return '[INVALID_DATE]';
-                  } else if (!match && cell.toLowerCase() !== 'unknown' && /\d/.test(cell)) {
+                    if ([4, 6, 9, 11].includes(month) && day > 30)
+                      return '[INVALID_DATE]';
+                  } else if (
+                    !match &&
+                    cell.toLowerCase() !== 'unknown' &&
+                    /\d/.test(cell)
+                  ) {
                     // Date column has data but not in correct format
                     return '[INVALID_DATE]';
                   }
                 }
-                
+
                 // Validate phone columns - ONLY in phone columns
-                if (header === 'phone' || header.includes('phone')) {
+                if (type === 'phone') {
                   const phonePattern = /^(\d{3})-(\d{3})-(\d{4})$/;
                   const match = cell.match(phonePattern);
                   if (match) {
@@ -567,20 +1003,16 @@ Respond with only the JSON object:`;
                     if (area[0] === '0' || area[0] === '1') {
                       return '[INVALID_PHONE]';
                     }
-                  } else if (cell.toLowerCase() !== 'unknown' && /\d/.test(cell)) {
+                  } else if (
+                    cell.toLowerCase() !== 'unknown' &&
+                    /\d/.test(cell)
+                  ) {
                     return '[INVALID_PHONE]';
                   }
                 }
-                
-                // Validate salary/amount columns - ONLY in these columns
-                if (
-                  header === 'salary' ||
-                  header === 'amount' ||
-                  header === 'price' ||
-                  header.includes('salary') ||
-                  header.includes('amount') ||
-                  header.includes('price')
-                ) {
+
+                // Validate currency columns - ONLY in these columns
+                if (type === 'currency') {
                   // Accept integer and up to two decimal places (commas not allowed), must be positive and not empty
                   // Disallow non-numeric, negative numbers, excessive decimals, leading zeros (except "0" or "0.xx")
                   // Allow only values like: "100", "100.5", "0.99", "12000.00"
@@ -595,8 +1027,8 @@ Respond with only the JSON object:`;
                 return cell;
               });
             });
-            
-            return reconstructCSV(headers, validatedRows);
+
+            return toCsv(headers, validatedRows);
           } catch (e) {
             console.error('Validate tool CSV parsing failed:', e.message);
             // If CSV parsing fails, return original data
@@ -605,71 +1037,167 @@ Respond with only the JSON object:`;
         },
       },
       {
-        name: "deduplicate",
-        description: "Removes duplicate rows from the dataset while preserving the header.",
-        call: (data: string): string => {
+        name: 'deduplicate',
+        description:
+          'Removes duplicate rows from the dataset while preserving the header. Rows can be compared on key columns only.',
+        call: (
+          data: string,
+          options: { keyColumns?: string[]; keep?: 'first' | 'last' } = {},
+        ): string => {
           if (!data || typeof data !== 'string') return '';
-          
+
+          let parsed: { headers: string[]; rows: string[][] };
           try {
-            const { headers, rows } = parseCSV(data);
-            
-            const uniqueRows: string[][] = [];
-            const seen = new Set<string>();
-            
-            for (const row of rows) {
-              const rowKey = row.join('|');
-              if (!seen.has(rowKey)) {
-                seen.add(rowKey);
-                uniqueRows.push(row);
-              }
-            }
-            
-            return reconstructCSV(headers, uniqueRows);
+            parsed = parseCSV(data);
           } catch (e) {
             console.error('Deduplicate tool CSV parsing failed:', e.message);
             const lines = data.split('\n');
-            const uniqueLines = [...new Set(lines.map(line => line.trim()))].filter(line => line.length > 0);
+            const uniqueLines = [
+              ...new Set(lines.map((line) => line.trim())),
+            ].filter((line) => line.length > 0);
             return uniqueLines.join('\n');
           }
+
+          const { headers, rows } = parsed;
+          const keyIndexes = (options.keyColumns || []).map((column) => {
+            const index = headers.indexOf(column.toLowerCase());
+            if (index === -1) {
+              throw new Error(
+                `Deduplicate key column "${column}" is not in the data`,
+              );
+            }
+            return index;
+          });
+          const rowKey = (row: string[]) =>
+            JSON.stringify(
+              keyIndexes.length > 0
+                ? keyIndexes.map((index) => row[index])
+                : row,
+            );
+
+          // With keep="last", the last occurrence survives but rows keep their original order
+          const ordered = options.keep === 'last' ? [...rows].reverse() : rows;
+          const uniqueRows: string[][] = [];
+          const seen = new Set<string>();
+
+          for (const row of ordered) {
+            const key = rowKey(row);
+            if (!seen.has(key)) {
+              seen.add(key);
+              uniqueRows.push(row);
+            }
+          }
+
+          return toCsv(
+            headers,
+            options.keep === 'last' ? uniqueRows.reverse() : uniqueRows,
+          );
         },
       },
       {
-        name: "normalize",
-        description: "Normalizes text casing, state codes, and whitespace consistently across all fields.",
-        call: (data: string): string => {
+        name: 'normalize',
+        description:
+          'Normalizes text casing, category spellings, state codes, and whitespace consistently across all fields.',
+        call: (
+          data: string,
+          options: {
+            casing?: Record<string, 'title' | 'upper' | 'lower' | 'none'>;
+            stateCodes?: boolean;
+            schema?: DataSchema | null;
+          } = {},
+        ): string => {
           if (!data || typeof data !== 'string') return '';
-          
+
+          const casing = options.casing
+            ? Object.fromEntries(
+                Object.entries(options.casing).map(([column, rule]) => [
+                  column.toLowerCase(),
+                  rule,
+                ]),
+              )
+            : undefined;
+          const stateCodes = options.stateCodes ?? true;
+
           try {
             const { headers, rows } = parseCSV(data);
-            
-            const normalizedRows = rows.map(row => {
+            const types = resolveColumnTypes(headers, rows, options.schema);
+
+            // Category columns take their most frequent spelling, e.g. "sales" and "SALES" become "Sales"
+            const spellings = types.map((type, idx) =>
+              type === 'category' ? dominantSpellings(rows, idx) : null,
+            );
+            // Text columns mostly made of names, or of state codes, are recognised by their values
+            const share = (idx: number, test: (value: string) => boolean) => {
+              const values = rows
+                .map((row) => row[idx].trim())
+                .filter((value) => !isMissingValue(value));
+              return (
+                values.length > 0 &&
+                values.filter(test).length >= values.length * 0.8
+              );
+            };
+            const nameColumns = types.map(
+              (type, idx) => type === 'text' && share(idx, isNameLike),
+            );
+            const stateColumns = types.map(
+              (type, idx) =>
+                (type === 'category' || type === 'text') &&
+                share(idx, (value) =>
+                  US_STATE_CODES.includes(value.toUpperCase()),
+                ),
+            );
+
+            const normalizedRows = rows.map((row) => {
               return row.map((cell, idx) => {
                 // Safety check: ensure header exists for this index
                 if (idx >= headers.length) {
-                  console.warn(`Column index ${idx} exceeds header count ${headers.length}`);
+                  console.warn(
+                    `Column index ${idx} exceeds header count ${headers.length}`,
+                  );
                   return cell;
                 }
-                
+
                 const header = headers[idx] || '';
-                
-                // Normalize name fields to Title Case
-                if (header.includes('name')) {
-                  cell = cell.toLowerCase().replace(/\b\w/g, c => c.toUpperCase());
+
+                // Casing rules from the step options; otherwise category spellings are unified and
+                // names written in all lower or upper case are title-cased
+                const rule = casing
+                  ? casing[header]
+                  : nameColumns[idx] &&
+                      !stateColumns[idx] &&
+                      (cell === cell.toLowerCase() ||
+                        cell === cell.toUpperCase())
+                    ? 'title'
+                    : undefined;
+                if (!casing && spellings[idx]) {
+                  cell = spellings[idx]!.get(cell.trim().toLowerCase()) ?? cell;
+                }
+                if (rule === 'title') {
+                  cell = cell
+                    .toLowerCase()
+                    .replace(
+                      /(^|[\s'-])(\p{L})/gu,
+                      (match, separator, letter) =>
+                        separator + letter.toUpperCase(),
+                    );
+                } else if (rule === 'upper') {
+                  cell = cell.toUpperCase();
+                } else if (rule === 'lower') {
+                  cell = cell.toLowerCase();
                 }
-                
+
                 // Normalize state codes
-                if (header.includes('state')) {
-                  const states = ['AL','AK','AZ','AR','CA','CO','CT','DE','FL','GA','HI','ID','IL','IN','IA','KS','KY','LA','ME','MD','MA','MI','MN','MS','MO','MT','NE','NV','NH','NJ','NM','NY','NC','ND','OH','OK','OR','PA','RI','SC','SD','TN','TX','UT','VT','VA','WA','WV','WI','WY'];
-                  if (states.includes(cell.toUpperCase())) {
+                if (stateCodes && stateColumns[idx]) {
+                  if (US_STATE_CODES.includes(cell.toUpperCase())) {
                     cell = cell.toUpperCase();
                   }
                 }
-                
+
                 return cell.trim();
               });
             });
-            
-            return reconstructCSV(headers, normalizedRows);
+
+            return toCsv(headers, normalizedRows);
           } catch (e) {
             console.error('Normalize tool CSV parsing failed:', e.message);
             return data.trim();
@@ -677,88 +1205,61 @@ Respond with only the JSON object:`;
         },
       },
       {
-        name: "chart",
-        description: "Generates a standalone HTML page with Chart.js charts inferred from CSV data (e.g., department distribution, age distribution, invalid counts, hires per year). Returns an HTML string you can render or save.",
-        call: (data: string): string => {
-          if (!data || typeof data !== 'string') return '<!DOCTYPE html><html><body><p>No data provided.</p></body></html>';
+        name: 'chart',
+        description:
+          "Generates a standalone HTML page with Chart.js charts of the data's column types (records per category, distribution of a numeric column, records per year of a date column, invalid counts). Returns an HTML string you can render or save.",
+        call: (
+          data: string,
+          options: { schema?: DataSchema | null } = {},
+        ): string => {
+          if (!data || typeof data !== 'string')
+            return '<!DOCTYPE html><html><body><p>No data provided.</p></body></html>';
           try {
-            return this.generateChartsHtml(data);
+            return this.generateChartsHtml(data, options.schema);
           } catch (e) {
             return `<!DOCTYPE html><html><body><p>Failed to generate charts: ${String((e as any)?.message || e)}</p></body></html>`;
           }
         },
-      }
+      },
     ];
   }
 
-  private generateChartsHtml(data: string): string {
+  private generateChartsHtml(data: string, schema?: DataSchema | null): string {
     try {
-      const { headers, rows } = parseCSV(data);
-
-      const headerIndex = (name: string) => headers.findIndex(h => h === name || h.includes(name));
-      const departmentIdx = headerIndex('department');
-      const ageIdx = headerIndex('age');
-      const dateIdx = headers.findIndex(h => h === 'hire_date' || h.includes('date'));
-
-      const departmentCounts: Record<string, number> = {};
-      if (departmentIdx !== -1) {
-        for (const row of rows) {
-          const value = (row[departmentIdx] || '').trim();
-          if (!value || value.toLowerCase() === 'unknown' || value.startsWith('[INVALID')) continue;
-          departmentCounts[value] = (departmentCounts[value] || 0) + 1;
-        }
-      }
-
-      const ageBuckets: Record<string, number> = {};
-      if (ageIdx !== -1) {
-        for (const row of rows) {
-          const cell = (row[ageIdx] || '').trim();
-          if (!/^\d+$/.test(cell)) continue;
-          const age = parseInt(cell, 10);
-          if (Number.isNaN(age) || age < 0 || age > 120) continue;
-          const start = Math.floor(age / 5) * 5;
-          const end = start + 4;
-          const label = `${start}-${end}`;
-          ageBuckets[label] = (ageBuckets[label] || 0) + 1;
-        }
-      }
-
-      const yearCounts: Record<string, number> = {};
-      if (dateIdx !== -1) {
-        for (const row of rows) {
-          const cell = (row[dateIdx] || '').trim();
-          const m = cell.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-          if (!m) continue;
-          const year = m[1];
-          yearCounts[year] = (yearCounts[year] || 0) + 1;
-        }
+      const charts = this.extractChartSeries(data, schema);
+      if (charts.length === 0) {
+        return `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>Charts</title></head><body><p>No chartable fields detected. Charts need a category, numeric or date column.</p></body></html>`;
       }
 
-      const invalidTypes = ['EMAIL', 'DATE', 'AGE', 'PHONE', 'AMOUNT'];
-      const invalidCounts: Record<string, number> = {};
-      for (const t of invalidTypes) {
-        const re = new RegExp(`\\[INVALID_${t}\\]`, 'g');
-        const matches = data.match(re);
-        if (matches && matches.length > 0) invalidCounts[t] = matches.length;
-      }
-
-      const deptLabels = Object.keys(departmentCounts);
-      const deptData = deptLabels.map(l => departmentCounts[l]);
-
-      const ageLabels = Object.keys(ageBuckets)
-        .sort((a, b) => parseInt(a.split('-')[0], 10) - parseInt(b.split('-')[0], 10));
-      const ageData = ageLabels.map(l => ageBuckets[l]);
-
-      const yearLabels = Object.keys(yearCounts).sort();
-      const yearData = yearLabels.map(l => yearCounts[l]);
-
-      const invLabels = Object.keys(invalidCounts);
-      const invData = invLabels.map(l => invalidCounts[l]);
-
-      const chartsPresent = [deptLabels.length, ageLabels.length, yearLabels.length, invLabels.length].some(len => len > 0);
-      if (!chartsPresent) {
-        return `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>Charts</title></head><body><p>No chartable fields detected. Expected fields similar to example: name, age, email, salary, hire_date, department.</p></body></html>`;
-      }
+      const cardsHtml = charts
+        .map(
+          (chart) => `
+    <div class="card">
+      <h2>${chart.title}</h2>
+      <canvas id="${chart.id}"></canvas>
+    </div>`,
+        )
+        .join('');
+
+      const scriptsHtml = charts
+        .map((chart) => {
+          const rgb = chart.color.join(', ');
+          const dataset =
+            chart.type === 'line'
+              ? `{ label: '${chart.label}', data: ${JSON.stringify(chart.values)}, fill: false, borderColor: 'rgba(${rgb}, 1)', backgroundColor: 'rgba(${rgb}, 0.2)', tension: 0.2 }`
+              : `{ label: '${chart.label}', data: ${JSON.stringify(chart.values)}, backgroundColor: 'rgba(${rgb}, 0.5)', borderColor: 'rgba(${rgb}, 1)', borderWidth: 1 }`;
+
+          return `
+    (function(){
+      const ctx = document.getElementById('${chart.id}').getContext('2d');
+      new Chart(ctx, {
+        type: '${chart.type}',
+        data: { labels: ${JSON.stringify(chart.labels)}, datasets: [${dataset}] },
+        options: { plugins: { legend: { display: false } }, scales: { y: { beginAtZero: true } } }
+      });
+    })();`;
+        })
+        .join('\n');
 
       const html = `
 <!DOCTYPE html>
@@ -778,70 +1279,11 @@ Respond with only the JSON object:`;
   </head>
 <body>
   <h1>Generated Charts</h1>
-  <div class="grid">
-    ${deptLabels.length > 0 ? `
-    <div class="card">
-      <h2>Employees by Department</h2>
-      <canvas id="deptChart"></canvas>
-    </div>` : ''}
-    ${ageLabels.length > 0 ? `
-    <div class="card">
-      <h2>Age Distribution (5-year buckets)</h2>
-      <canvas id="ageChart"></canvas>
-    </div>` : ''}
-    ${yearLabels.length > 0 ? `
-    <div class="card">
-      <h2>Hires per Year</h2>
-      <canvas id="yearChart"></canvas>
-    </div>` : ''}
-    ${invLabels.length > 0 ? `
-    <div class="card">
-      <h2>Invalid Data Counts</h2>
-      <canvas id="invalidChart"></canvas>
-    </div>` : ''}
+  <div class="grid">${cardsHtml}
   </div>
 
   <script>
-  document.addEventListener('DOMContentLoaded', function() {
-    ${deptLabels.length > 0 ? `
-    (function(){
-      const ctx = document.getElementById('deptChart').getContext('2d');
-      new Chart(ctx, {
-        type: 'bar',
-        data: { labels: ${JSON.stringify(deptLabels)}, datasets: [{ label: 'Count', data: ${JSON.stringify(deptData)}, backgroundColor: 'rgba(52, 152, 219, 0.5)', borderColor: 'rgba(52, 152, 219, 1)', borderWidth: 1 }] },
-        options: { plugins: { legend: { display: false } }, scales: { y: { beginAtZero: true } } }
-      });
-    })();` : ''}
-
-    ${ageLabels.length > 0 ? `
-    (function(){
-      const ctx = document.getElementById('ageChart').getContext('2d');
-      new Chart(ctx, {
-        type: 'bar',
-        data: { labels: ${JSON.stringify(ageLabels)}, datasets: [{ label: 'Employees', data: ${JSON.stringify(ageData)}, backgroundColor: 'rgba(46, 204, 113, 0.5)', borderColor: 'rgba(46, 204, 113, 1)', borderWidth: 1 }] },
-        options: { plugins: { legend: { display: false } }, scales: { y: { beginAtZero: true } } }
-      });
-    })();` : ''}
-
-    ${yearLabels.length > 0 ? `
-    (function(){
-      const ctx = document.getElementById('yearChart').getContext('2d');
-      new Chart(ctx, {
-        type: 'line',
-        data: { labels: ${JSON.stringify(yearLabels)}, datasets: [{ label: 'Hires', data: ${JSON.stringify(yearData)}, fill: false, borderColor: 'rgba(231, 76, 60, 1)', backgroundColor: 'rgba(231, 76, 60, 0.2)', tension: 0.2 }] },
-        options: { plugins: { legend: { display: false } }, scales: { y: { beginAtZero: true } } }
-      });
-    })();` : ''}
-
-    ${invLabels.length > 0 ? `
-    (function(){
-      const ctx = document.getElementById('invalidChart').getContext('2d');
-      new Chart(ctx, {
-        type: 'bar',
-        data: { labels: ${JSON.stringify(invLabels)}, datasets: [{ label: 'Invalids', data: ${JSON.stringify(invData)}, backgroundColor: 'rgba(241, 196, 15, 0.5)', borderColor: 'rgba(241, 196, 15, 1)', borderWidth: 1 }] },
-        options: { plugins: { legend: { display: false } }, scales: { y: { beginAtZero: true } } }
-      });
-    })();` : ''}
+  document.addEventListener('DOMContentLoaded', function() {${scriptsHtml}
   });
   </script>
  </body>
@@ -854,13 +1296,144 @@ Respond with only the JSON object:`;
     }
   }
 
-  private parseJSON(output: AIMessage | string, parser: StructuredOutputParser<any>): any {
+  // Chart data from the column types (first category, numeric and date column, invalid markers); shared by the HTML and PDF exports
+  private extractChartSeries(
+    data: string,
+    schema?: DataSchema | null,
+  ): ChartSeries[] {
+    const { headers, rows } = parseCSV(data);
+    const types = resolveColumnTypes(headers, rows, schema);
+
+    // The category column with the fewest distinct values charts best
+    const distinctValues = (idx: number) =>
+      new Set(rows.map((row) => (row[idx] || '').trim().toLowerCase())).size;
+    const categoryIdx =
+      headers
+        .map((_, idx) => idx)
+        .filter((idx) => types[idx] === 'category')
+        .sort((a, b) => distinctValues(a) - distinctValues(b))[0] ?? -1;
+    const numericIdx = types.findIndex(
+      (type) => type === 'integer' || type === 'decimal' || type === 'currency',
+    );
+    const dateIdx = types.indexOf('date');
+
+    const categoryCounts: Record<string, number> = {};
+    if (categoryIdx !== -1) {
+      for (const row of rows) {
+        const value = (row[categoryIdx] || '').trim();
+        if (isMissingValue(value)) continue;
+        categoryCounts[value] = (categoryCounts[value] || 0) + 1;
+      }
+    }
+
+    // Ten or so buckets of a round width (1, 2 or 5 times a power of ten)
+    const buckets = new Map<number, number>();
+    let bucketLabel = (start: number) => String(start);
+    if (numericIdx !== -1) {
+      const values = rows
+        .map((row) =>
+          (row[numericIdx] || '').trim().replace(/[$€£¥,\s]|[A-Z]{3}$/gi, ''),
+        )
+        .filter((cell) => isNumericValue(cell))
+        .map((cell) => parseFloat(cell));
+      if (values.length > 0) {
+        const min = values.reduce((a, b) => Math.min(a, b));
+        const max = values.reduce((a, b) => Math.max(a, b));
+        const magnitude = Math.pow(
+          10,
+          Math.floor(Math.log10(Math.max((max - min) / 10, 1))),
+        );
+        const width = [1, 2, 5, 10]
+          .map((step) => step * magnitude)
+          .find((step) => (max - min) / step <= 10)!;
+        for (const value of values) {
+          const start = Math.floor(value / width) * width;
+          buckets.set(start, (buckets.get(start) || 0) + 1);
+        }
+        const last = types[numericIdx] === 'integer' ? width - 1 : width;
+        bucketLabel = (start) =>
+          width === 1 ? String(start) : `${start}-${start + last}`;
+      }
+    }
+
+    const yearCounts: Record<string, number> = {};
+    if (dateIdx !== -1) {
+      for (const row of rows) {
+        const cell = (row[dateIdx] || '').trim();
+        const m =
+          cell.match(/^(\d{4})-(\d{2})-(\d{2})/) ||
+          cell.match(/^\d{1,2}[/.-]\d{1,2}[/.-](\d{4})$/);
+        if (!m) continue;
+        const year = m[1];
+        yearCounts[year] = (yearCounts[year] || 0) + 1;
+      }
+    }
+
+    const invalidCounts: Record<string, number> = {};
+    for (const match of data.matchAll(/\[INVALID_([A-Z_]+)\]/g)) {
+      invalidCounts[match[1]] = (invalidCounts[match[1]] || 0) + 1;
+    }
+
+    const categoryLabels = Object.keys(categoryCounts);
+    const bucketStarts = [...buckets.keys()].sort((a, b) => a - b);
+    const yearLabels = Object.keys(yearCounts).sort();
+    const invLabels = Object.keys(invalidCounts);
+
+    const charts: ChartSeries[] = [
+      {
+        id: 'categoryChart',
+        title: `Records by ${headers[categoryIdx]}`,
+        type: 'bar',
+        label: 'Count',
+        labels: categoryLabels,
+        values: categoryLabels.map((l) => categoryCounts[l]),
+        color: [52, 152, 219],
+      },
+      {
+        id: 'distributionChart',
+        title: `${headers[numericIdx]} Distribution`,
+        type: 'bar',
+        label: 'Records',
+        labels: bucketStarts.map(bucketLabel),
+        values: bucketStarts.map((start) => buckets.get(start)!),
+        color: [46, 204, 113],
+      },
+      {
+        id: 'yearChart',
+        title: `Records per Year (${headers[dateIdx]})`,
+        type: 'line',
+        label: 'Records',
+        labels: yearLabels,
+        values: yearLabels.map((l) => yearCounts[l]),
+        color: [231, 76, 60],
+      },
+      {
+        id: 'invalidChart',
+        title: 'Invalid Data Counts',
+        type: 'bar',
+        label: 'Invalids',
+        labels: invLabels,
+        values: invLabels.map((l) => invalidCounts[l]),
+        color: [241, 196, 15],
+      },
+    ];
+
+    return charts.filter((chart) => chart.labels.length > 0);
+  }
+
+  private parseJSON(
+    output: AIMessage | string,
+    parser: StructuredOutputParser<any>,
+  ): any {
     try {
       // Extract text content from AIMessage if that's what we received
       let text: string;
       if (typeof output === 'string') {
         text = output;
-      } else if (output instanceof AIMessage || (output && typeof output === 'object' && 'content' in output)) {
+      } else if (
+        output instanceof AIMessage ||
+        (output && typeof output === 'object' && 'content' in output)
+      ) {
         text = output.content as string;
       } else {
         console.error('Unexpected output type:', typeof output, output);
@@ -869,33 +1442,36 @@ Respond with only the JSON object:`;
 
       // Clean the response - remove markdown code blocks if present
       let cleaned = text.trim();
-      
+
       // Remove markdown code blocks
       cleaned = cleaned.replace(/```json\s*/g, '');
       cleaned = cleaned.replace(/```\s*/g, '');
-      
+
       // Remove any leading text before the JSON object
       const jsonStart = cleaned.indexOf('{');
       const jsonEnd = cleaned.lastIndexOf('}');
-      
+
       if (jsonStart !== -1 && jsonEnd !== -1) {
         cleaned = cleaned.substring(jsonStart, jsonEnd + 1);
       }
 
       // Fix common LLM JSON formatting issues
       cleaned = this.fixMalformedJSON(cleaned);
-      
+
       // Try to parse the cleaned JSON
       const parsed = JSON.parse(cleaned);
       return parsed;
     } catch (error) {
       console.error('Failed to parse LLM response:', output);
       console.error('Parse error:', error.message);
-      
+
       // Try the original parser as fallback
       try {
         // Extract content if it's an AIMessage
-        const text = typeof output === 'string' ? output : (output as AIMessage).content as string;
+        const text =
+          typeof output === 'string'
+            ? output
+            : ((output as AIMessage).content as string);
         return parser.parse(text);
       } catch (fallbackError) {
         // Return a default structure if all parsing fails
@@ -910,19 +1486,22 @@ Respond with only the JSON object:`;
       // First pass: Fix missing commas between array closing and next property
       // Pattern: ]<newline>"propertyName": should be ],<newline>"propertyName":
       jsonStr = jsonStr.replace(/\]\s*\n\s*"/g, '],\n"');
-      
+
       // Also fix: }<newline>"propertyName": should be },<newline>"propertyName":
       jsonStr = jsonStr.replace(/\}\s*\n\s*"/g, '},\n"');
 
       // Fix missing quotes in array elements
       // Match array elements that start without quotes after [ or ,
-      jsonStr = jsonStr.replace(/(\[|\,)\s*\n\s*([A-Z][^"\[\]\{\},]*?)\s*(?=,|\])/g, (match, prefix, content) => {
-        // Only fix if it doesn't already start with a quote
-        if (!content.startsWith('"')) {
-          return `${prefix}\n"${content.trim()}"`;
-        }
-        return match;
-      });
+      jsonStr = jsonStr.replace(
+        /(\[|\,)\s*\n\s*([A-Z][^"\[\]\{\},]*?)\s*(?=,|\])/g,
+        (match, prefix, content) => {
+          // Only fix if it doesn't already start with a quote
+          if (!content.startsWith('"')) {
+            return `${prefix}\n"${content.trim()}"`;
+          }
+          return match;
+        },
+      );
 
       // Fix lines in arrays that don't start or end with quotes
       // This handles multi-line array elements
@@ -946,19 +1525,23 @@ Respond with only the JSON object:`;
         }
 
         // If we're in an array and the line doesn't start with " or end properly
-        if (inArray && trimmed.length > 0 && 
-            !trimmed.startsWith('"') && 
-            !trimmed.startsWith('[') && 
-            !trimmed.startsWith(']') &&
-            !trimmed.startsWith('{') &&
-            !trimmed.startsWith('}') &&
-            trimmed !== ',' &&
-            !/^\s*"[^"]*"\s*:/.test(trimmed)) { // Not a key-value pair
-          
+        if (
+          inArray &&
+          trimmed.length > 0 &&
+          !trimmed.startsWith('"') &&
+          !trimmed.startsWith('[') &&
+          !trimmed.startsWith(']') &&
+          !trimmed.startsWith('{') &&
+          !trimmed.startsWith('}') &&
+          trimmed !== ',' &&
+          !/^\s*"[^"]*"\s*:/.test(trimmed)
+        ) {
+          // Not a key-value pair
+
           // Check if line ends with comma or array bracket
           const hasComma = trimmed.endsWith(',');
           const hasClosingBracket = trimmed.endsWith(']');
-          
+
           // Remove trailing comma or bracket temporarily
           let content = trimmed;
           if (hasComma) {
@@ -998,7 +1581,7 @@ Respond with only the JSON object:`;
   private getDefaultResponse(output: any): any {
     // Extract whatever we can from the output
     console.warn('Using fallback default response due to parsing failure');
-    
+
     return {
       insights: ['Unable to parse full insights from LLM response'],
       trends: ['Data analysis in progress'],
@@ -1013,108 +1596,243 @@ Respond with only the JSON object:`;
 
   // ===== ORCHESTRATOR FUNCTIONALITY =====
 
-  async processRequest(request: string, context?: any): Promise<any> {
+  // `signal` (from a background job) stops the workflow before its next task once aborted
+  async processRequest(
+    request: string,
+    context?: any,
+    emit?: AgentEventListener,
+    signal?: AbortSignal,
+  ): Promise<any> {
     console.log('=== UNI-AGENT: Processing Request ===');
     // console.log('Request:', request);
     // console.log('Context:', JSON.stringify(context, null, 2));
 
     const plan = await this.planWorkflow(request, context);
     // console.log('Workflow plan:', JSON.stringify(plan, null, 2));
+    emit?.({ type: 'plan_created', plan });
+
+    return this.executePlan(plan, context, emit, signal);
+  }
+
+  // Plans a request without executing anything, for preview and approval
+  async planRequest(request: string, context?: any): Promise<WorkflowPlan> {
+    return this.planWorkflow(request, context);
+  }
 
-    const results = await this.executeWorkflow(plan, context);
+  // Runs an already planned (and possibly user-edited) workflow.
+  // Tasks marked `approved: false` are skipped together with everything depending on them.
+  async executePlan(
+    plan: WorkflowPlan,
+    context?: any,
+    emit?: AgentEventListener,
+    signal?: AbortSignal,
+  ): Promise<any> {
+    const results = await this.executeWorkflow(plan, context, emit, signal);
+    signal?.throwIfAborted();
+    const summary = this.summarizeResults(results);
+    emit?.({ type: 'summary', summary });
 
     return {
       plan,
       results,
-      summary: this.summarizeResults(results),
+      summary,
+      timings: plan.tasks.map((task, index) => ({
+        index,
+        action: task.action,
+        status: task.status,
+        startedAt: task.startedAt,
+        finishedAt: task.finishedAt,
+        durationMs: task.durationMs,
+      })),
     };
   }
 
   private async planWorkflow(
     request: string,
-    context?: any
+    context?: any,
   ): Promise<WorkflowPlan> {
-    try {
-      const contextStr = context ? JSON.stringify(context) : 'None';
-      const result = await this.plannerChain.invoke({
-        request,
-        context: contextStr,
-      });
-
-      const tasks: AgentTask[] = result.tasks.map((task: any) => ({
+    const prompt = await this.createPromptContext(
+      context?.userId,
+      context?.recordId ? [context.recordId] : [],
+    );
+    let feedback = '';
+    let errors: string[] = [];
+
+    // Re-prompt the planner with the validation errors until it produces a valid plan
+    for (let attempt = 1; attempt <= MAX_PLANNING_ATTEMPTS; attempt++) {
+      let result: any;
+      try {
+        result = await this.invokeChain(
+          'planner',
+          {
+            request,
+            context: context ?? 'None',
+            feedback,
+          },
+          prompt,
+        );
+      } catch (error) {
+        console.error('Planning error:', error);
+        throw new Error(`Failed to plan workflow: ${error.message}`);
+      }
+
+      const tasks: AgentTask[] = result.tasks.map((task: any) => ({
         agent: task.agent,
         action: task.action,
-        params: task.params,
+        // Params run here rather than going back to the model, so every placeholder is re-identified
+        params: prompt.masker.reveal(task.params || {}, PII_TYPES),
         status: 'pending' as const,
         dependencies: task.dependencies || [],
       }));
 
-      return {
-        tasks,
-        reasoning: result.reasoning,
-      };
-    } catch (error) {
-      console.error('Planning error:', error);
-      throw new Error(`Failed to plan workflow: ${error.message}`);
+      errors = validateWorkflowPlan(tasks, context);
+      if (errors.length === 0) {
+        return {
+          tasks,
+          reasoning: prompt.masker.reveal(result.reasoning),
+        };
+      }
+
+      console.warn(
+        `Planner attempt ${attempt} produced an invalid plan:`,
+        errors,
+      );
+      feedback = `
+YOUR PREVIOUS PLAN WAS REJECTED. Fix these problems and return a complete new plan:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Rejected plan:
+${JSON.stringify({ tasks: result.tasks, reasoning: result.reasoning })}
+`;
     }
+
+    throw new Error(
+      `Failed to plan workflow: plan was still invalid after ${MAX_PLANNING_ATTEMPTS} attempts: ${errors.join('; ')}`,
+    );
   }
 
-  private async executeWorkflow(plan: WorkflowPlan, context?: any): Promise<any[]> {
+  private async executeWorkflow(
+    plan: WorkflowPlan,
+    context?: any,
+    emit?: AgentEventListener,
+    signal?: AbortSignal,
+  ): Promise<any[]> {
     // console.log('=== UNI-AGENT: Executing Workflow ===');
-    const results: any[] = [];
-
-    for (let i = 0; i < plan.tasks.length; i++) {
-      const task = plan.tasks[i];
-      // console.log(`\nExecuting task ${i + 1}/${plan.tasks.length}:`, task.action);
-
-      const deps = (task as any).dependencies || [];
-      for (const depIdx of deps) {
-        if (results[depIdx]?.error) {
-          task.status = 'failed';
-          task.error = `Dependency task ${depIdx} failed`;
-          results.push({ error: task.error });
-          continue;
-        }
-      }
+    const results: any[] = new Array(plan.tasks.length).fill(undefined);
+
+    // Placeholder references ({{task.N.field}}) are dependencies too, even if the planner forgot to list them
+    const dependencies = plan.tasks.map((task) => [
+      ...new Set([
+        ...(task.dependencies || []),
+        ...collectTaskReferences(task.params),
+      ]),
+    ]);
 
-      task.status = 'running';
+    const graphErrors = validateTaskGraph(dependencies);
+    if (graphErrors.length > 0) {
+      throw new Error(`Invalid workflow plan: ${graphErrors.join('; ')}`);
+    }
 
-      try {
-        const result = await this.executeTask(task, results, context);
-        task.status = 'completed';
-        task.result = result;
-        results.push(result);
-        // console.log(`Task ${i + 1} completed successfully`);
-      } catch (error) {
-        task.status = 'failed';
-        task.error = error.message;
-        results.push({ error: error.message });
-        // console.error(`Task ${i + 1} failed:`, error.message);
-        
-        if (task.agent === 'data') {
-          throw new Error(`Critical task failed: ${error.message}`);
+    const setStatus = (
+      index: number,
+      task: AgentTask,
+      status: AgentTask['status'],
+    ) => {
+      task.status = status;
+      emit?.({
+        type: 'task_status',
+        index,
+        agent: task.agent,
+        action: task.action,
+        status,
+        error: task.error,
+      });
+    };
+
+    plan.tasks.forEach((task, index) => setStatus(index, task, 'pending'));
+
+    await runTaskGraph(
+      dependencies,
+      async (index) => {
+        const task = plan.tasks[index];
+        // console.log(`\nExecuting task ${index + 1}/${plan.tasks.length}:`, task.action);
+        // Tasks already running finish, but nothing new starts (and writes) once the job is aborted;
+        // the task fails and its dependents are skipped
+        signal?.throwIfAborted();
+
+        task.startedAt = new Date();
+        setStatus(index, task, 'running');
+
+        try {
+          const result = await this.executeTask(task, results, context, emit);
+          task.result = result;
+          results[index] = result;
+          this.finishTaskTiming(task);
+          setStatus(index, task, 'completed');
+          // console.log(`Task ${index + 1} completed successfully`);
+        } catch (error) {
+          task.error = error.message;
+          results[index] = { error: error.message };
+          this.finishTaskTiming(task);
+          setStatus(index, task, 'failed');
+          // console.error(`Task ${index + 1} failed:`, error.message);
+          throw error;
         }
-      }
-    }
+      },
+      {
+        concurrency: getWorkflowConcurrency(),
+        excluded: plan.tasks.flatMap((task, index) =>
+          task.approved === false ? [index] : [],
+        ),
+        onExclude: (index) => {
+          const task = plan.tasks[index];
+          task.error = 'Rejected during plan review';
+          results[index] = { error: task.error, skipped: true };
+          setStatus(index, task, 'skipped');
+        },
+        onSkip: (index, failedDependency) => {
+          const task = plan.tasks[index];
+          task.error = `Skipped because dependency task ${failedDependency} did not complete`;
+          results[index] = { error: task.error, skipped: true };
+          setStatus(index, task, 'skipped');
+        },
+      },
+    );
 
     return results;
   }
 
-  private async executeTask(task: AgentTask, previousResults: any[], context?: any): Promise<any> {
+  private finishTaskTiming(task: AgentTask) {
+    task.finishedAt = new Date();
+    task.durationMs =
+      task.finishedAt.getTime() -
+      (task.startedAt?.getTime() ?? task.finishedAt.getTime());
+  }
+
+  private async executeTask(
+    task: AgentTask,
+    previousResults: any[],
+    context?: any,
+    emit?: AgentEventListener,
+  ): Promise<any> {
     // console.log('\n--- Executing Task ---');
     // console.log('Original params:', JSON.stringify(task.params, null, 2));
     // console.log('Context available:', !!context);
-    
+
     // First resolve task dependencies
     let params = this.enrichParams(task.params, previousResults);
     // console.log('After task dependency resolution:', JSON.stringify(params, null, 2));
-    
+
     // Handle export tasks that need to inherit parameters from generate_report tasks
     if (this.isExportTask(task.action) && this.hasUnresolvedParams(params)) {
-      params = this.inheritParamsFromGenerateReport(task, previousResults, params);
+      params = this.inheritParamsFromGenerateReport(
+        task,
+        previousResults,
+        params,
+      );
       // console.log('After parameter inheritance:', JSON.stringify(params, null, 2));
     }
-    
+
     // Then inject context values
     if (context) {
       params = this.injectContextIntoParams(params, context);
@@ -1123,21 +1841,35 @@ Respond with only the JSON object:`;
 
     switch (task.agent) {
       case 'data':
-        return this.executeDataTask(task.action, params);
-      
+        // Stored validation rule sets are looked up for the requesting user
+        return this.executeDataTask(task.action, {
+          ...params,
+          userId: context?.userId,
+        });
+
       case 'report':
-        return this.executeReportTask(task.action, params);
-      
+        // Reports are stored on behalf of the requesting user
+        return this.executeReportTask(
+          task.action,
+          { ...params, userId: context?.userId },
+          emit,
+        );
+
       case 'automation':
         return this.executeAutomationTask(task.action, params);
-      
+
       default:
         throw new Error(`Unknown agent: ${task.agent}`);
     }
   }
 
   private isExportTask(action: string): boolean {
-    return ['export_pdf', 'export_markdown', 'export_json', 'export_charts'].includes(action);
+    return [
+      'export_pdf',
+      'export_markdown',
+      'export_json',
+      'export_charts',
+    ].includes(action);
   }
 
   private hasUnresolvedParams(params: any): boolean {
@@ -1149,12 +1881,19 @@ Respond with only the JSON object:`;
     return false;
   }
 
-  private inheritParamsFromGenerateReport(task: AgentTask, previousResults: any[], currentParams: any): any {
+  private inheritParamsFromGenerateReport(
+    task: AgentTask,
+    previousResults: any[],
+    currentParams: any,
+  ): any {
     // console.log('Attempting parameter inheritance for export task...');
-    
+
     // Find the most recent generate_report task in the dependency chain
-    const generateReportResult = this.findGenerateReportResult(task, previousResults);
-    
+    const generateReportResult = this.findGenerateReportResult(
+      task,
+      previousResults,
+    );
+
     if (generateReportResult) {
       // console.log('✓ Found generate_report result, inheriting parameters...');
       // The generate_report task should have the same parameters we need for export
@@ -1162,21 +1901,27 @@ Respond with only the JSON object:`;
       return {
         ...currentParams,
         // Remove any unresolved task references and use the same parameters as the generate_report task
+        reportId: generateReportResult.id || currentParams.reportId,
         recordId: generateReportResult.recordId || currentParams.recordId,
         filename: generateReportResult.filename || currentParams.filename,
         data: generateReportResult.data || currentParams.data,
         reportType: generateReportResult.reportType || currentParams.reportType,
       };
     }
-    
-    console.warn('⚠️ No generate_report result found for parameter inheritance');
+
+    console.warn(
+      '⚠️ No generate_report result found for parameter inheritance',
+    );
     return currentParams;
   }
 
-  private findGenerateReportResult(task: AgentTask, previousResults: any[]): any {
+  private findGenerateReportResult(
+    task: AgentTask,
+    previousResults: any[],
+  ): any {
     // Look for generate_report results in the dependency chain
-    const dependencies = (task as any).dependencies || [];
-    
+    const dependencies = task.dependencies || [];
+
     for (const depIdx of dependencies) {
       const depResult = previousResults[depIdx];
       if (depResult && (depResult.metadata || depResult.sections)) {
@@ -1184,7 +1929,7 @@ Respond with only the JSON object:`;
         return depResult;
       }
     }
-    
+
     // If no direct dependency, look for any generate_report result
     for (let i = previousResults.length - 1; i >= 0; i--) {
       const result = previousResults[i];
@@ -1192,45 +1937,62 @@ Respond with only the JSON object:`;
         return result;
       }
     }
-    
+
     return null;
   }
 
   private enrichParams(params: any, previousResults: any[]): any {
     const enriched = { ...params };
-    
-    for (const [key, value] of Object.entries(enriched)) {
-      if (typeof value === 'string') {
-        // Match single braces {task.0.field}, double braces {{task.0.field}}, or ${task.0.field}
-        const match = value.match(/\{?\{?task\.(\d+)\.(\w+)\}?\}?/);
-        if (match && match[0].includes('task.')) {
-          const [fullMatch, taskIdx, field] = match;
-          const taskResult = previousResults[parseInt(taskIdx)];
-          if (taskResult && taskResult[field] !== undefined) {
-            // console.log(`✓ Replacing ${fullMatch} with result from task ${taskIdx}.${field} = ${taskResult[field]}`);
-            enriched[key] = taskResult[field];
-          } else {
-            console.warn(`✗ Could not resolve ${fullMatch}: task result not found or field missing`);
-            console.warn(`  Available fields in task ${taskIdx} result:`, taskResult ? Object.keys(taskResult) : 'no result');
-            
-            // Special handling for export tasks that might need to inherit parameters from generate_report tasks
-            if (field === 'reportId' || field === 'report') {
-              console.warn(`  Note: ${field} field does not exist. Export tasks should use the same parameters as the generate_report task.`);
-            }
+
+    const resolve = (value: string): any => {
+      // Match single braces {task.0.field}, double braces {{task.0.field}}, or ${task.0.field}
+      const match = value.match(/\{?\{?task\.(\d+)\.(\w+)\}?\}?/);
+      if (match && match[0].includes('task.')) {
+        const [fullMatch, taskIdx, field] = match;
+        const taskResult = previousResults[parseInt(taskIdx)];
+        if (taskResult && taskResult[field] !== undefined) {
+          // console.log(`✓ Replacing ${fullMatch} with result from task ${taskIdx}.${field} = ${taskResult[field]}`);
+          return taskResult[field];
+        } else {
+          console.warn(
+            `✗ Could not resolve ${fullMatch}: task result not found or field missing`,
+          );
+          console.warn(
+            `  Available fields in task ${taskIdx} result:`,
+            taskResult ? Object.keys(taskResult) : 'no result',
+          );
+
+          // Special handling for export tasks that might need to inherit parameters from generate_report tasks
+          if (field === 'reportId' || field === 'report') {
+            console.warn(
+              `  Note: ${field} field does not exist. Export tasks should use the same parameters as the generate_report task.`,
+            );
           }
         }
       }
+      return value;
+    };
+
+    for (const [key, value] of Object.entries(enriched)) {
+      if (typeof value === 'string') {
+        enriched[key] = resolve(value);
+      } else if (Array.isArray(value)) {
+        // e.g. recordIds: ["{{task.0.recordId}}", "{{task.1.recordId}}"]
+        enriched[key] = value.map((item) =>
+          typeof item === 'string' ? resolve(item) : item,
+        );
+      }
     }
-    
+
     return enriched;
   }
 
   private injectContextIntoParams(params: any, context: any): any {
     const enriched = { ...params };
-    
+
     // console.log('Injecting context into params...');
     // console.log('Available context keys:', Object.keys(context));
-    
+
     // Resolve context placeholders in param values
     for (const [key, value] of Object.entries(enriched)) {
       if (typeof value === 'string') {
@@ -1247,163 +2009,250 @@ Respond with only the JSON object:`;
         }
       }
     }
-    
+
     // Auto-inject common context fields if not already present
     if (context.fileData && !enriched.fileData && !enriched.data) {
       // console.log('✓ Auto-injecting fileData from context');
       enriched.fileData = context.fileData;
     }
-    
+
     if (context.filename && !enriched.filename) {
       // console.log('✓ Auto-injecting filename from context');
       enriched.filename = context.filename;
     }
-    
+
     if (context.recordId && !enriched.recordId) {
       // console.log('✓ Auto-injecting recordId from context');
       enriched.recordId = context.recordId;
     }
-    
+
+    // Validation rules and processing pipeline attached to the upload
+    if (
+      (context.ruleSet || context.rules) &&
+      !enriched.ruleSet &&
+      !enriched.rules
+    ) {
+      enriched.ruleSet = context.ruleSet;
+      enriched.rules = context.rules;
+    }
+
+    if (context.pipeline && !enriched.pipeline) {
+      enriched.pipeline = context.pipeline;
+    }
+
+    if (context.dialect && !enriched.dialect) {
+      enriched.dialect = context.dialect;
+    }
+
     return enriched;
   }
 
   private async executeDataTask(action: string, params: any): Promise<any> {
     // console.log('Executing DATA task:', action);
     // console.log('Final params:', JSON.stringify(params, null, 2));
-    
+
     switch (action) {
       case 'analyze_data':
-        return this.analyzeData(params.data);
-      
+        return this.analyzeData(params.data, { userId: params.userId });
+
       case 'get_by_id':
         if (!params.id) {
           throw new Error('Missing required parameter: id');
         }
-        return this.getRecordById(params.id);
-      
+        return this.getRecordById(params.id, params.userId);
+
       case 'get_by_filename':
         if (!params.filename) {
           throw new Error('Missing required parameter: filename');
         }
-        return this.findRecordByFilename(params.filename);
-      
+        return this.findRecordByFilename(params.filename, params.userId);
+
       case 'process_data':
       case 'upload_and_process':
         const data = params.fileData || params.data;
         const filename = params.filename || 'uploaded_file.csv';
         const tags = params.tags;
-        
+
         if (!data) {
-          throw new Error('No data provided for processing. Ensure fileData or data is in params.');
+          throw new Error(
+            'No data provided for processing. Ensure fileData or data is in params.',
+          );
         }
-        
+
         // console.log('Processing data:');
         // console.log('  - filename:', filename);
         // console.log('  - data length:', data.length);
         // console.log('  - tags:', tags);
-        
-        return this.analyzeAndProcess(data, filename, tags);
-      
+
+        return this.analyzeAndProcess(data, filename, tags, {
+          userId: params.userId,
+          pipeline: params.pipeline
+            ? parsePipeline(params.pipeline)
+            : undefined,
+          ruleSet: params.ruleSet,
+          rules: params.rules,
+          dialect: params.dialect,
+        });
+
+      case 'validate_data':
+        if (!params.ruleSet && !params.rules) {
+          throw new Error('Missing required parameter: ruleSet or rules');
+        }
+        return this.validateData({
+          recordId: params.recordId,
+          filename: params.filename,
+          data: params.data || params.fileData,
+          ruleSet: params.ruleSet,
+          rules: params.rules,
+          userId: params.userId,
+        });
+
+      case 'append_data':
+        return this.appendRecords(
+          appendParamsSchema.parse(params),
+          params.userId,
+        );
+
+      case 'join_data':
+        return this.joinRecords(joinParamsSchema.parse(params), params.userId);
+
+      case 'project_data':
+        return this.projectRecord(
+          projectParamsSchema.parse(params),
+          params.userId,
+        );
+
+      case 'query_data':
+        if (!params.question && !params.sql) {
+          throw new Error('Missing required parameter: question or sql');
+        }
+        // Only an explicit data param is queried; the uploaded file is reached through its record
+        return this.queryData({
+          question: params.question,
+          sql: params.sql,
+          recordId: params.recordId,
+          recordIds: params.recordIds,
+          filename: params.filename,
+          filenames: params.filenames,
+          data: params.data,
+          userId: params.userId,
+        });
+
       default:
         throw new Error(`Unknown data task: ${action}`);
     }
   }
 
-  private async executeReportTask(action: string, params: any): Promise<any> {
+  private async executeReportTask(
+    action: string,
+    params: any,
+    emit?: AgentEventListener,
+  ): Promise<any> {
     // console.log('Executing REPORT task:', action);
     // console.log('Final params:', JSON.stringify(params, null, 2));
-    
+
     switch (action) {
       case 'generate_report':
         if (!params.recordId && !params.filename && !params.data) {
-          throw new Error('Missing required parameter: recordId, filename, or data');
+          throw new Error(
+            'Missing required parameter: recordId, filename, or data',
+          );
         }
-        return this.generateReport({
-          recordId: params.recordId,
-          filename: params.filename,
-          data: params.data,
-          reportType: params.reportType || 'standard',
-        });
-      
+        return this.generateReport(
+          {
+            recordId: params.recordId,
+            filename: params.filename,
+            data: params.data,
+            reportType: params.reportType || 'standard',
+            userId: params.userId,
+          },
+          emit,
+        );
+
       case 'create_summary':
         if (!params.recordId && !params.filename && !params.data) {
-          throw new Error('Missing required parameter: recordId, filename, or data');
+          throw new Error(
+            'Missing required parameter: recordId, filename, or data',
+          );
         }
         return this.createSummary({
           recordId: params.recordId,
           filename: params.filename,
           data: params.data,
+          userId: params.userId,
         });
-      
+
       case 'export_pdf':
-        const pdfReport = await this.generateReport({
+        const pdfReport = await this.loadOrGenerateReport({
+          reportId: params.reportId,
           recordId: params.recordId,
           filename: params.filename,
           data: params.data,
           reportType: params.reportType,
+          userId: params.userId,
         });
-        return this.exportPdf(pdfReport);
-      
+        const pdf = await this.exportPdf(
+          pdfReport,
+          params.includeCharts
+            ? await this.resolveReportData(params)
+            : undefined,
+        );
+        // Task results are serialized as JSON, so the PDF travels base64-encoded
+        return {
+          filename: `${pdfReport.metadata.title}.pdf`,
+          contentType: 'application/pdf',
+          encoding: 'base64',
+          content: pdf.toString('base64'),
+        };
+
       case 'export_markdown':
-        const mdReport = await this.generateReport({
+        const mdReport = await this.loadOrGenerateReport({
+          reportId: params.reportId,
           recordId: params.recordId,
           filename: params.filename,
           data: params.data,
           reportType: params.reportType,
+          userId: params.userId,
         });
         return this.formatReportAsMarkdown(mdReport);
-      
+
       case 'export_json':
-        const jsonReport = await this.generateReport({
+        const jsonReport = await this.loadOrGenerateReport({
+          reportId: params.reportId,
           recordId: params.recordId,
           filename: params.filename,
           data: params.data,
           reportType: params.reportType,
+          userId: params.userId,
         });
         return this.formatReportAsJson(jsonReport);
-      
-      case 'export_charts':
-        {
-          // Resolve data similar to generateReport
-          let dataStr: string | undefined;
-          if (params.data) {
-            dataStr = params.data;
-          } else if (params.recordId) {
-            const record = await this.knowledgeBaseRepository.findOne({ where: { id: params.recordId } });
-            if (!record) {
-              throw new NotFoundException(`Record with ID ${params.recordId} not found`);
-            }
-            dataStr = record.content;
-          } else if (params.filename) {
-            const record = await this.knowledgeBaseRepository.findOne({ where: { title: params.filename } });
-            if (!record) {
-              throw new NotFoundException(`Record with filename ${params.filename} not found`);
-            }
-            dataStr = record.content;
-          } else {
-            throw new Error('Missing required parameter: recordId, filename, or data');
-          }
 
-          if (!dataStr) {
-            throw new Error('No data available for chart generation');
-          }
-          return this.generateChartsHtml(dataStr);
-        }
-      
+      case 'export_charts': {
+        const dataStr = await this.resolveReportData(params);
+        // Stored records chart by their schema, including the user's corrections
+        const record = params.recordId
+          ? await this.getRecordById(params.recordId, params.userId)
+          : null;
+        return this.generateChartsHtml(dataStr, record?.schema);
+      }
+
       case 'get_statistics':
         if (!params.data) {
           throw new Error('Missing required parameter: data');
         }
         return this.getDataStatistics(params.data);
-      
+
       default:
         throw new Error(`Unknown report task: ${action}`);
     }
   }
 
-  private async executeAutomationTask(action: string, params: any): Promise<any> {
+  private async executeAutomationTask(
+    action: string,
+    params: any,
+  ): Promise<any> {
     // console.log('Executing AUTOMATION task:', action, params);
-    
+
     // Placeholder - implement when AutomationAgentService is ready
     return {
       message: `Automation task '${action}' executed (placeholder)`,
@@ -1412,23 +2261,41 @@ Respond with only the JSON object:`;
   }
 
   private summarizeResults(results: any[]): string {
-    const successful = results.filter(r => !r.error).length;
-    const failed = results.filter(r => r.error).length;
-    
-    return `Workflow completed: ${successful} tasks successful, ${failed} tasks failed`;
+    const successful = results.filter((r) => !r?.error).length;
+    const skipped = results.filter((r) => r?.skipped).length;
+    const failed = results.filter((r) => r?.error && !r.skipped).length;
+
+    return `Workflow completed: ${successful} tasks successful, ${failed} tasks failed, ${skipped} tasks skipped`;
   }
 
-  async processAndReport(filename: string, recipientEmail: string): Promise<any> {
+  async processAndReport(
+    filename: string,
+    recipientEmail: string,
+    userId: string,
+    emit?: AgentEventListener,
+    signal?: AbortSignal,
+  ): Promise<any> {
     const request = `
       1. Get the processed data file named "${filename}"
       2. Generate a comprehensive report from this data with insights and recommendations
       3. Send the report to ${recipientEmail}
     `;
-    
-    return this.processRequest(request, { filename, recipientEmail });
+
+    return this.processRequest(
+      request,
+      { filename, recipientEmail, userId },
+      emit,
+      signal,
+    );
   }
 
-  async processFileUpload(file: Express.Multer.File, request: string, userContext?: any): Promise<any> {
+  async processFileUpload(
+    file: Express.Multer.File,
+    request: string,
+    userContext?: any,
+    emit?: AgentEventListener,
+    signal?: AbortSignal,
+  ): Promise<any> {
     // console.log('=== UNI-AGENT: Processing File Upload ===');
     // console.log('Filename:', file.originalname);
     // console.log('File size:', file.size);
@@ -1437,35 +2304,23 @@ Respond with only the JSON object:`;
       // console.log('User Context:', JSON.stringify(userContext, null, 2));
     }
 
-    const ext = file.originalname.split('.').pop()?.toLowerCase() || 'unknown';
-    let text = '';
-
-    try {
-      if (ext === 'csv' || ext === 'txt') {
-        text = file.buffer.toString('utf8');
-      } else if (ext === 'pdf') {
-        const pdfExtractText = require('pdf-parse');
-        const pdfData = await pdfExtractText(file.buffer);
-        text = pdfData.text;
-      } else {
-        text = file.buffer.toString('utf8');
-      }
-    } catch (error) {
-      throw new Error(`Failed to extract text from file: ${error.message}`);
-    }
-
-    if (!text || text.trim().length === 0) {
-      throw new Error('File appears to be empty or could not be read');
-    }
+    // Sheet selection for workbooks comes with the upload options
+    const extracted = await extractFile(file, { sheet: userContext?.sheet });
+    const text = extracted.text;
 
     // console.log('Extracted text length:', text.length);
     // console.log('First 100 chars:', text.substring(0, 100));
 
     const context = {
+      ...userContext,
       filename: file.originalname,
       fileSize: file.size,
-      fileType: ext,
+      fileType: extracted.format,
       fileData: text,
+      ...(extracted.sheet
+        ? { sheet: extracted.sheet, sheets: extracted.sheets }
+        : {}),
+      ...(extracted.dialect ? { dialect: extracted.dialect } : {}),
     };
 
     const enhancedRequest = `
@@ -1475,114 +2330,991 @@ Respond with only the JSON object:`;
       The file data is available in the context and ready to be processed and saved to the database.
     `;
 
-    return this.processRequest(enhancedRequest, context);
+    const result = await this.processRequest(
+      enhancedRequest,
+      context,
+      emit,
+      signal,
+    );
+    // Reported so the caller can check how a delimited file was read
+    return extracted.dialect
+      ? { ...result, dialect: extracted.dialect }
+      : result;
   }
 
-  // ===== DATA AGENT FUNCTIONALITY =====
+  // ===== PII MASKING =====
 
-  async findRecordByFilename(filename: string) {
-    filename = filename.replace(/\.[^/.]+$/, ""); // Remove extension if present
-    const record = await this.knowledgeBaseRepository.findOne({
-      where: { title: filename },
-    });
+  // The PII policy of a user's department and role; the default policy without a user
+  async resolveViewerPolicy(userId?: string): Promise<PiiPolicy> {
+    return resolvePiiPolicy(this.piiConfig, await this.findViewer(userId));
+  }
 
-    if (!record) {
-      throw new NotFoundException(`Record with filename "${filename}" not found`);
-    }
+  private async findViewer(userId?: string): Promise<PromptContext['viewer']> {
+    const user = userId
+      ? await this.userRepository.findOne({
+          where: { id: userId },
+          select: ['id', 'role', 'department'],
+        })
+      : null;
+    return { role: user?.role ?? null, department: user?.department ?? null };
+  }
 
-    return record;
+  private async createPromptContext(
+    userId?: string,
+    recordIds: string[] = [],
+    schema?: DataSchema | null,
+  ): Promise<PromptContext> {
+    const viewer = await this.findViewer(userId);
+    return {
+      masker: new PiiMasker(resolvePiiPolicy(this.piiConfig, viewer)),
+      userId,
+      viewer,
+      recordIds,
+      schema,
+    };
   }
 
-  async getRecordById(id: string) {
-    const record = await this.knowledgeBaseRepository.findOne({
-      where: { id },
-    });
+  /**
+   * Every chain is invoked through here. String inputs are masked as free text, except `data`
+   * (and `data`/`fileData` inside object inputs, which are sent as JSON) which is masked as a
+   * table. The prompt is audited before it is sent; one that cannot be audited is not sent.
+   */
+  private async invokeChain(
+    chain: PromptChain,
+    input: Record<string, any>,
+    prompt: PromptContext,
+  ): Promise<any> {
+    const { masker } = prompt;
+    const mask = (value: any, field: string): any => {
+      if (typeof value === 'string') {
+        return /(^|\.)(data|fileData)$/.test(field)
+          ? masker.maskData(value, prompt.schema, field)
+          : masker.maskText(value, field);
+      }
+      if (Array.isArray(value)) {
+        return value.map((item) => mask(item, field));
+      }
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [
+            key,
+            mask(item, `${field}.${key}`),
+          ]),
+        );
+      }
+      return value;
+    };
 
-    if (!record) {
-      throw new NotFoundException(`Record with id ${id} not found`);
+    // Data and objects first, so the values masked in them are known when the free text is masked
+    const isData = (key: string) =>
+      key === 'data' || typeof input[key] === 'object';
+    const keys = [
+      ...Object.keys(input).filter(isData),
+      ...Object.keys(input).filter((key) => !isData(key)),
+    ];
+    const masked: Record<string, string> = {};
+    for (const key of keys) {
+      const value = mask(input[key], key);
+      masked[key] = typeof value === 'string' ? value : JSON.stringify(value);
     }
+    const fields = masker.takeFields();
+
+    await this.promptAuditRepository.save(
+      this.promptAuditRepository.create({
+        user: prompt.userId ? ({ id: prompt.userId } as any) : null,
+        chain,
+        recordIds: prompt.recordIds,
+        modelProvider: this.llmConfig.provider,
+        modelName: this.llmConfig.model,
+        policy: { ...prompt.viewer, actions: masker.policy.actions },
+        maskedFields: fields,
+        maskedValues: fields.reduce((total, field) => total + field.count, 0),
+        promptLength: Object.values(masked).reduce(
+          (total, value) => total + value.length,
+          0,
+        ),
+      }),
+    );
+
+    const chains: Record<PromptChain, RunnableSequence> = {
+      planner: this.plannerChain,
+      data_analysis: this.dataAnalysisChain,
+      summary: this.summaryChain,
+      insights: this.insightsChain,
+      reduce: this.reduceChain,
+      query: this.queryChain,
+    };
+    return chains[chain].invoke(masked);
+  }
 
-    return record;
+  // The user's own prompt audit entries, most recent first
+  async listPromptAudits(
+    userId: string,
+    options: { page?: number; limit?: number; chain?: string } = {},
+  ) {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, options.limit || DEFAULT_PAGE_SIZE),
+    );
+
+    const [items, total] = await this.promptAuditRepository.findAndCount({
+      where: {
+        user: { id: userId },
+        ...(options.chain ? { chain: options.chain } : {}),
+      },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return { items, total, page, limit };
+  }
+
+  // ===== DATA AGENT FUNCTIONALITY =====
+
+  // Records are always looked up for the requesting user, who must be able to see them
+  async findRecordByFilename(filename: string, userId: string) {
+    filename = filename.replace(/\.[^/.]+$/, ''); // Remove extension if present
+    return this.knowledgeBaseService.findRecordByTitle(filename, userId);
+  }
+
+  async getRecordById(
+    id: string,
+    userId: string,
+    access: RecordAccess = 'view',
+  ) {
+    return this.knowledgeBaseService.findRecord(id, userId, access);
   }
 
-  async analyzeData(data: string) {
+  async analyzeData(
+    data: string,
+    options: { userId?: string; schema?: DataSchema | null } = {},
+  ) {
     try {
-      const result = await this.dataAnalysisChain.invoke({ data });
+      const prompt = await this.createPromptContext(
+        options.userId,
+        [],
+        options.schema,
+      );
+      const result = await this.invokeChain('data_analysis', { data }, prompt);
       // console.log('Analysis result:', JSON.stringify(result, null, 2));
-      return result;
+      return prompt.masker.reveal(result);
     } catch (error) {
       console.error('Analysis error:', error);
-      return { error: "Failed to parse model output", details: error.message };
+      return { error: 'Failed to parse model output', details: error.message };
     }
   }
 
-  async executeActions(data: string, analysis: any) {
-    // console.log('Executing actions with analysis:', analysis);
+  // Runs the pipeline steps in order, passing each step's options to its tool. Validate steps
+  // with a rule set follow the rule set instead of the column-type checks. Every step's
+  // changes are recorded in the returned change log.
+  async executeActions(
+    data: string,
+    steps: PipelineStep[],
+    userId?: string,
+    schema?: DataSchema | null,
+  ) {
+    // console.log('Executing pipeline:', steps);
     let result = data;
-    
-    // Execute in proper order: clean → transform → validate
-    if (analysis.needs_cleaning) {
-      // console.log('Running clean tool...');
-      result = this.tools.find((t) => t.name === "clean")!.call(result);
-      // console.log('After cleaning:', result.substring(0, 200));
-    }
-    
-    if (analysis.needs_transformation) {
-      // console.log('Running transform tool...');
-      result = this.tools.find((t) => t.name === "transform")!.call(result);
-      // console.log('After transformation:', result.substring(0, 200));
-    }
-    
-    if (analysis.needs_validation) {
-      // console.log('Running validate tool...');
-      result = this.tools.find((t) => t.name === "validate")!.call(result);
-      // console.log('After validation:', result.substring(0, 200));
+    let validation: ValidationReport | undefined;
+    let table = tryParseCSV(data);
+    const changeLog = new ChangeLogBuilder(table ? table.rows.length : null);
+
+    for (const step of steps) {
+      const { tool, ...options } = step;
+
+      if (step.tool === 'validate' && (step.ruleSet || step.rules)) {
+        const ruleSet = await this.validationRulesService.resolve(userId, step);
+        ({ data: result, report: validation } = this.applyRuleSet(
+          result,
+          ruleSet!,
+        ));
+      } else {
+        // console.log(`Running ${tool} tool...`);
+        result = this.tools
+          .find((t) => t.name === tool)!
+          .call(result, { ...options, schema });
+      }
+
+      const next = tryParseCSV(result);
+      changeLog.recordStep(
+        tool,
+        table,
+        next,
+        step.tool === 'clean'
+          ? (step.replacement ?? DEFAULT_REPLACEMENT)
+          : undefined,
+      );
+      table = next;
     }
-    
-    return result;
+
+    return { data: result, validation, changeLog: changeLog.build() };
   }
 
   async analyzeAndProcess(
     data: string,
     fileName: string,
-    tags?: string
+    tags: string | undefined,
+    options: {
+      userId: string;
+      // Explicit pipeline; without one, the steps follow the LLM data analysis
+      pipeline?: PipelineStep[];
+      ruleSet?: string;
+      rules?: string | object;
+      // How the uploaded file was written; sniffed from the data when not given
+      dialect?: CsvDialect | null;
+    },
   ) {
     // console.log('Starting analyzeAndProcess with data length:', data.length);
     // console.log('First 200 chars:', data.substring(0, 200));
-    
-    const analysis = await this.analyzeData(data);
-    const processedData = await this.executeActions(data, analysis);
+
+    const attachedRules =
+      options.ruleSet || options.rules
+        ? { ruleSet: options.ruleSet, rules: options.rules }
+        : null;
+    // Resolved first, so an unknown or invalid rule set fails before any LLM call
+    if (attachedRules) {
+      await this.validationRulesService.resolve(options.userId, attachedRules);
+    }
+
+    // Column types are inferred from the upload before any step changes it
+    const table = tryParseCSV(data);
+    const schema = table ? inferSchema(table.headers, table.rows) : null;
+
+    const analysis = options.pipeline
+      ? null
+      : await this.analyzeData(data, { userId: options.userId, schema });
+    let pipeline = options.pipeline ?? pipelineFromAnalysis(analysis);
+    if (attachedRules) {
+      pipeline = withValidationRules(pipeline, attachedRules);
+    }
+
+    const {
+      data: processedData,
+      validation,
+      changeLog,
+    } = await this.executeActions(data, pipeline, options.userId, schema);
+    const dialect = options.dialect ?? sniffDialect(data);
 
     const saved = await this.saveProcessedFile({
       title: fileName,
       content: processedData,
+      rawContent: data,
       tags,
+      pipeline,
+      dialect,
+      schema,
+      userId: options.userId,
     });
+    await this.saveProcessingRun(saved, pipeline, changeLog);
 
     return {
       analysis,
+      pipeline,
+      processedData,
+      recordId: saved.id,
+      version: saved.version,
+      dialect,
+      schema,
+      changeSummary: changeLog.steps,
+      ...(validation ? { validation } : {}),
+    };
+  }
+
+  /**
+   * Runs a record's stored pipeline (or a replacement) on a new version of its file and
+   * saves the result as the record's next version.
+   */
+  async reprocessRecord(
+    recordId: string,
+    data: string,
+    options: {
+      userId: string;
+      pipeline?: PipelineStep[];
+      dialect?: CsvDialect | null;
+    },
+  ) {
+    const record = await this.getRecordById(recordId, options.userId);
+    const pipeline: PipelineStep[] | null = options.pipeline ?? record.pipeline;
+    if (!pipeline) {
+      throw new BadRequestException(
+        `Record ${recordId} has no stored pipeline; pass one to run`,
+      );
+    }
+
+    // Inferred again for the new version, keeping the types users corrected
+    const table = tryParseCSV(data);
+    const schema = table
+      ? withCorrectionsFrom(
+          inferSchema(table.headers, table.rows),
+          record.schema,
+        )
+      : null;
+
+    const {
+      data: processedData,
+      validation,
+      changeLog,
+    } = await this.executeActions(data, pipeline, options.userId, schema);
+
+    record.content = processedData;
+    record.schema = schema;
+    record.raw_content = data;
+    record.pipeline = pipeline;
+    record.dialect = options.dialect ?? sniffDialect(data);
+    record.version += 1;
+    const saved = await this.knowledgeBaseRepository.save(record);
+    await this.saveProcessingRun(saved, pipeline, changeLog);
+
+    return {
+      pipeline,
       processedData,
       recordId: saved.id,
+      version: saved.version,
+      dialect: saved.dialect,
+      schema,
+      changeSummary: changeLog.steps,
+      ...(validation ? { validation } : {}),
+    };
+  }
+
+  private async saveProcessingRun(
+    record: KnowledgeBase,
+    pipeline: PipelineStep[],
+    changeLog: ChangeLog,
+  ) {
+    await this.processingRunRepository.save(
+      this.processingRunRepository.create({
+        record: { id: record.id } as KnowledgeBase,
+        version: record.version,
+        pipeline,
+        steps: changeLog.steps,
+        changes: changeLog.changes,
+        truncated: changeLog.truncated,
+      }),
+    );
+  }
+
+  /**
+   * Diff view of a record version: the pipeline that ran, per-step summaries and the cell-level
+   * changes, each pointing at its row in the uploaded file. Defaults to the current version.
+   */
+  async getRecordDiff(
+    recordId: string,
+    options: {
+      version?: number;
+      type?: ChangeType;
+      column?: string;
+      row?: number;
+      page?: number;
+      limit?: number;
+      userId: string;
+    },
+  ) {
+    const record = await this.getRecordById(recordId, options.userId);
+    const version = options.version ?? record.version;
+
+    const run = await this.processingRunRepository.findOne({
+      where: { record: { id: recordId }, version },
+    });
+    if (!run) {
+      throw new NotFoundException(
+        `No processing history for version ${version} of record ${recordId}`,
+      );
+    }
+
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, options.limit || DEFAULT_PAGE_SIZE),
+    );
+    const column = options.column?.toLowerCase();
+    const changes = run.changes.filter(
+      (change) =>
+        (!options.type || change.type === options.type) &&
+        (!column || change.column === column) &&
+        (!options.row || change.row === options.row),
+    );
+
+    return {
+      recordId,
+      version,
+      currentVersion: record.version,
+      pipeline: run.pipeline,
+      steps: run.steps,
+      changes: {
+        items: changes.slice((page - 1) * limit, page * limit),
+        total: changes.length,
+        page,
+        limit,
+      },
+      truncated: run.truncated,
+      processedAt: run.createdAt,
+    };
+  }
+
+  // Column types of a record; records stored before schemas existed get one inferred from their upload
+  async getRecordSchema(recordId: string, userId: string) {
+    const record = await this.getRecordById(recordId, userId);
+    return {
+      recordId,
+      version: record.version,
+      schema: record.schema ?? this.inferRecordSchema(record),
+    };
+  }
+
+  // Sets the types of some columns; the tools use them from the next time the record is processed
+  async correctRecordSchema(
+    recordId: string,
+    corrections: Record<string, SemanticType>,
+    userId: string,
+  ) {
+    const record = await this.getRecordById(recordId, userId);
+    const schema = record.schema ?? this.inferRecordSchema(record);
+    if (!schema) {
+      throw new BadRequestException(
+        `Record ${recordId} is not tabular and has no schema`,
+      );
+    }
+
+    try {
+      record.schema = applySchemaCorrections(schema, corrections);
+    } catch (error) {
+      if (error instanceof SchemaError) {
+        throw new BadRequestException({
+          message: 'Invalid schema correction',
+          errors: error.issues,
+        });
+      }
+      throw error;
+    }
+    await this.knowledgeBaseRepository.save(record);
+
+    // The cached profile was computed with the old types
+    const run = await this.processingRunRepository.findOne({
+      where: { record: { id: recordId }, version: record.version },
+    });
+    if (run?.profile) {
+      await this.processingRunRepository.update(run.id, { profile: null });
+    }
+
+    return { recordId, version: record.version, schema: record.schema };
+  }
+
+  /**
+   * Per-column statistics of a record's current data, computed without the LLM. The profile is
+   * cached on the version's processing run, so it is only computed again for a new version or
+   * after a schema correction.
+   */
+  async getRecordProfile(recordId: string, userId: string) {
+    const record = await this.getRecordById(recordId, userId);
+    const run = await this.processingRunRepository.findOne({
+      where: { record: { id: recordId }, version: record.version },
+    });
+    if (run?.profile) {
+      return {
+        recordId,
+        version: record.version,
+        cached: true,
+        profile: run.profile as DataProfile,
+      };
+    }
+
+    const table = tryParseCSV(record.content);
+    if (!table) {
+      throw new BadRequestException(
+        `Record ${recordId} is not tabular and cannot be profiled`,
+      );
+    }
+    const profile = profileData(table.headers, table.rows, record.schema);
+    // Records processed before runs were kept have nothing to cache on
+    if (run) {
+      await this.processingRunRepository.update(run.id, {
+        profile: profile as Record<string, any>,
+      });
+    }
+
+    return { recordId, version: record.version, cached: false, profile };
+  }
+
+  private inferRecordSchema(record: KnowledgeBase): DataSchema | null {
+    const table = tryParseCSV(record.raw_content ?? record.content);
+    return table ? inferSchema(table.headers, table.rows) : null;
+  }
+
+  /**
+   * Answers a question about one or more datasets with a read-only SQL query over their parsed
+   * data. The question is translated to SQL by the model unless `sql` is given; the query that
+   * ran is returned with the result so it can be checked.
+   */
+  async queryData(params: {
+    question?: string;
+    sql?: string;
+    recordId?: string;
+    recordIds?: string[];
+    filename?: string;
+    filenames?: string[];
+    data?: string;
+    // Requesting user, whose PII policy decides what the model sees of the data
+    userId: string;
+  }) {
+    const sources = await this.resolveQueryTables(params);
+    const tables = sources.map((source) => source.table);
+
+    let sql = params.sql;
+    let explanation: string | undefined;
+    let result: QueryResult;
+    if (sql) {
+      try {
+        result = runQuery(sql, tables);
+      } catch (error) {
+        if (error instanceof QueryError) {
+          throw new BadRequestException({
+            message: 'Invalid query',
+            errors: [error.message],
+          });
+        }
+        throw error;
+      }
+    } else if (params.question) {
+      const prompt = await this.createPromptContext(
+        params.userId,
+        sources.flatMap((source) => (source.recordId ? [source.recordId] : [])),
+      );
+      ({ sql, explanation, result } = await this.answerQuestion(
+        params.question,
+        tables,
+        prompt,
+      ));
+    } else {
+      throw new BadRequestException('Must provide either question or sql');
+    }
+
+    return {
+      question: params.question,
+      sql,
+      explanation,
+      tables: sources.map(({ table, recordId }) => ({
+        name: table.name,
+        recordId,
+        columns: table.headers,
+      })),
+      ...result,
+      // The result table as CSV, so it can be reported on or exported like any other data
+      csv: toCsv(
+        result.columns,
+        result.rows.map((row) =>
+          row.map((value) => (value === null ? '' : String(value))),
+        ),
+      ),
+    };
+  }
+
+  // Re-prompts the model with the error until its SQL runs. The model only sees masked data, so
+  // values in its SQL are placeholders, re-identified before the query runs.
+  private async answerQuestion(
+    question: string,
+    tables: QueryTable[],
+    prompt: PromptContext,
+  ) {
+    // Every table is masked once up front, so names in the question get the placeholders the SQL needs
+    tables.forEach((table) => prompt.masker.maskTable(table, table.schema));
+    prompt.masker.takeFields();
+    let feedback = '';
+    let error = '';
+
+    for (let attempt = 1; attempt <= MAX_QUERY_ATTEMPTS; attempt++) {
+      const description = tables
+        .map((table) => this.describeQueryTable(table, prompt.masker))
+        .join('\n\n');
+      let generated: { sql: string; explanation: string };
+      try {
+        generated = await this.invokeChain(
+          'query',
+          { question, tables: description, feedback },
+          prompt,
+        );
+      } catch (err) {
+        console.error('Query generation error:', err);
+        throw new Error(`Failed to generate a query: ${err.message}`);
+      }
+
+      const sql = prompt.masker.reveal(generated.sql, PII_TYPES);
+      try {
+        return {
+          sql,
+          explanation: prompt.masker.reveal(generated.explanation),
+          result: runQuery(sql, tables),
+        };
+      } catch (err) {
+        if (!(err instanceof QueryError)) throw err;
+        error = err.message;
+        console.warn(`Query attempt ${attempt} was rejected:`, error);
+        feedback = `
+YOUR PREVIOUS QUERY WAS REJECTED: ${error}
+Rejected query:
+${generated.sql}
+`;
+      }
+    }
+
+    throw new BadRequestException(
+      `Could not answer the question: the query was still invalid after ${MAX_QUERY_ATTEMPTS} attempts: ${error}`,
+    );
+  }
+
+  private describeQueryTable(table: QueryTable, masker: PiiMasker): string {
+    const types = resolveColumnTypes(table.headers, table.rows, table.schema);
+    const columns = table.headers.map(
+      (header, index) => `${header} (${types[index]})`,
+    );
+    const sample = masker.maskTable(
+      { headers: table.headers, rows: table.rows.slice(0, QUERY_SAMPLE_ROWS) },
+      table.schema,
+    );
+    return [
+      `Table "${table.name}" (${table.rows.length} rows)`,
+      `Columns: ${columns.join(', ')}`,
+      'Sample rows:',
+      toCsv(sample.headers, sample.rows),
+    ].join('\n');
+  }
+
+  // Tables for a query: the given records, each named after its file, and inline data as "data"
+  private async resolveQueryTables(params: {
+    recordId?: string;
+    recordIds?: string[];
+    filename?: string;
+    filenames?: string[];
+    data?: string;
+    userId: string;
+  }): Promise<{ table: QueryTable; recordId?: string }[]> {
+    const records = await this.resolveRecords(
+      [
+        ...(params.recordId ? [params.recordId] : []),
+        ...(params.recordIds ?? []),
+      ],
+      [
+        ...(params.filename ? [params.filename] : []),
+        ...(params.filenames ?? []),
+      ],
+      params.userId,
+    );
+    const sources: { table: QueryTable; recordId?: string }[] = records.map(
+      (record) => ({
+        table: {
+          name: queryTableName(record.filename || record.title),
+          ...this.recordTable(record),
+          schema: record.schema,
+        },
+        recordId: record.id,
+      }),
+    );
+
+    if (params.data) {
+      const table = tryParseCSV(params.data);
+      if (!table) {
+        throw new BadRequestException(
+          'Data is not tabular and cannot be queried',
+        );
+      }
+      sources.push({ table: { name: 'data', ...table } });
+    }
+    if (sources.length === 0) {
+      throw new BadRequestException(
+        'Must provide recordId, recordIds, filename, filenames or data',
+      );
+    }
+
+    // Two files with the same name get numbered tables
+    const used = new Set<string>();
+    for (const { table } of sources) {
+      let name = table.name;
+      for (let suffix = 2; used.has(name); suffix++) {
+        name = `${table.name}_${suffix}`;
+      }
+      table.name = name;
+      used.add(name);
+    }
+    return sources;
+  }
+
+  // Records by id, then by filename, each once and in the order given
+  private async resolveRecords(
+    ids: string[] = [],
+    filenames: string[] = [],
+    userId: string,
+  ): Promise<KnowledgeBase[]> {
+    const records = [
+      ...(await Promise.all(ids.map((id) => this.getRecordById(id, userId)))),
+      ...(await Promise.all(
+        filenames.map((filename) =>
+          this.findRecordByFilename(filename, userId),
+        ),
+      )),
+    ];
+    return records.filter(
+      (record, index) =>
+        records.findIndex((other) => other.id === record.id) === index,
+    );
+  }
+
+  private async resolveRecord(
+    id: string | undefined,
+    filename: string | undefined,
+    userId: string,
+  ): Promise<KnowledgeBase> {
+    return id
+      ? this.getRecordById(id, userId)
+      : this.findRecordByFilename(filename!, userId);
+  }
+
+  private recordTable(record: KnowledgeBase): CsvTable {
+    const table = tryParseCSV(record.content);
+    if (!table) {
+      throw new BadRequestException(`Record ${record.id} is not tabular`);
+    }
+    return table;
+  }
+
+  // ===== DATASET OPERATIONS =====
+
+  // Stacks the rows of several records into a new record, aligning their columns by name
+  // The new records are owned by the requesting user
+  async appendRecords(params: AppendParams, userId: string) {
+    const records = await this.resolveRecords(
+      params.recordIds,
+      params.filenames,
+      userId,
+    );
+    if (records.length < 2) {
+      throw new BadRequestException(
+        'At least two different records are required',
+      );
+    }
+
+    const { table, missingColumns } = this.runDatasetOperation(() =>
+      appendTables(
+        records.map((record) => ({
+          name: record.filename || record.title,
+          table: this.recordTable(record),
+        })),
+        { columns: params.columns, sourceColumn: params.sourceColumn },
+      ),
+    );
+    const result = await this.saveDerivedRecord(
+      'append',
+      records,
+      table,
+      params.outputFilename ?? derivedFilename(`${records[0].title}_appended`),
+      { columns: params.columns, sourceColumn: params.sourceColumn },
+      userId,
+    );
+
+    return {
+      ...result,
+      // Columns each record lacked, left empty in its rows
+      parents: records.map((record, index) => ({
+        recordId: record.id,
+        filename: record.filename,
+        missingColumns: missingColumns[index],
+      })),
+    };
+  }
+
+  // Joins two records on key columns into a new record
+  async joinRecords(params: JoinParams, userId: string) {
+    const left = await this.resolveRecord(
+      params.leftRecordId,
+      params.leftFilename,
+      userId,
+    );
+    const right = await this.resolveRecord(
+      params.rightRecordId,
+      params.rightFilename,
+      userId,
+    );
+    const on = Array.isArray(params.on) ? params.on : [params.on];
+
+    const table = this.runDatasetOperation(() =>
+      joinTables(this.recordTable(left), this.recordTable(right), {
+        on,
+        type: params.type,
+        suffix: params.suffix,
+      }),
+    );
+    return this.saveDerivedRecord(
+      'join',
+      [left, right],
+      table,
+      params.outputFilename ?? derivedFilename(`${left.title}_${right.title}`),
+      { on, type: params.type, suffix: params.suffix },
+      userId,
+    );
+  }
+
+  // Keeps, reorders or renames the columns of a record in a new record
+  async projectRecord(params: ProjectParams, userId: string) {
+    const record = await this.resolveRecord(
+      params.recordId,
+      params.filename,
+      userId,
+    );
+
+    const table = this.runDatasetOperation(() =>
+      projectTable(this.recordTable(record), {
+        columns: params.columns,
+        rename: params.rename,
+      }),
+    );
+    return this.saveDerivedRecord(
+      'project',
+      [record],
+      table,
+      params.outputFilename ?? derivedFilename(`${record.title}_projected`),
+      { columns: params.columns, rename: params.rename },
+      userId,
+    );
+  }
+
+  private runDatasetOperation<T>(operation: () => T): T {
+    try {
+      return operation();
+    } catch (error) {
+      if (error instanceof DatasetOperationError) {
+        throw new BadRequestException({
+          message: 'Invalid dataset operation',
+          errors: error.issues,
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async saveDerivedRecord(
+    operation: DatasetOperation,
+    parents: KnowledgeBase[],
+    table: CsvTable,
+    filename: string,
+    options: Record<string, any>,
+    userId: string,
+  ) {
+    // Types users corrected on a parent carry over; the first parent wins when they disagree
+    const schema = [...parents]
+      .reverse()
+      .reduce(
+        (current, parent) => withCorrectionsFrom(current, parent.schema),
+        inferSchema(table.headers, table.rows),
+      );
+    const content = toCsv(table.headers, table.rows);
+    const derivedFrom = {
+      operation,
+      parents: parents.map((parent) => ({
+        id: parent.id,
+        version: parent.version,
+      })),
+      options,
+    };
+
+    const saved = await this.saveProcessedFile({
+      title: /\.[^/.]+$/.test(filename) ? filename : `${filename}.csv`,
+      content,
+      schema,
+      derivedFrom,
+      userId,
+    });
+
+    return {
+      recordId: saved.id,
+      filename: saved.filename,
+      version: saved.version,
+      columns: table.headers,
+      rowCount: table.rows.length,
+      derivedFrom,
+      schema,
+      processedData: content,
     };
   }
 
+  // Checks data against a stored or inline rule set without saving anything
+  async validateData(params: {
+    recordId?: string;
+    filename?: string;
+    data?: string;
+    ruleSet?: string;
+    rules?: string | object;
+    userId: string;
+  }) {
+    const ruleSet = await this.validationRulesService.resolve(
+      params.userId,
+      params,
+    );
+    if (!ruleSet) {
+      throw new Error('Missing required parameter: ruleSet or rules');
+    }
+
+    const data = await this.resolveReportData(params);
+    const { data: taggedData, report } = this.applyRuleSet(data, ruleSet);
+    return { ...report, data: taggedData };
+  }
+
+  private applyRuleSet(
+    data: string,
+    ruleSet: RuleSet,
+  ): { data: string; report: ValidationReport } {
+    const { headers, rows } = parseCSV(data);
+    const result = validateWithRules(headers, rows, ruleSet);
+    return { data: toCsv(headers, result.rows), report: result.report };
+  }
+
   async saveProcessedFile(params: {
     title: string;
     content: string;
+    // The upload as received; defaults to `content` when nothing was processed
+    rawContent?: string;
     tags?: string;
+    // Steps that produced the content, kept so the record can be re-processed
+    pipeline?: PipelineStep[];
+    dialect?: CsvDialect | null;
+    // Inferred column types of the upload
+    schema?: DataSchema | null;
+    // Parents of a record built by a dataset operation
+    derivedFrom?: KnowledgeBase['derived_from'];
+    // Owner of the new record, which is private to them until they share it
+    userId: string;
   }) {
     const parts = params.title.split('.');
     const extension = parts.length > 1 ? parts.pop()?.toLowerCase() : 'unknown';
     const titleWithoutExt = parts.join('.');
+    // Every record has an owner; one without would be visible to the whole organization
+    const owner = params.userId
+      ? await this.userRepository.findOne({
+          where: { id: params.userId },
+          select: ['id', 'department'],
+        })
+      : null;
+    if (!owner) {
+      throw new ForbiddenException(
+        'Records can only be saved for an existing user',
+      );
+    }
 
     const entity = this.knowledgeBaseRepository.create({
       title: titleWithoutExt,
       content: params.content,
-      raw_content: params.content,
+      raw_content: params.rawContent ?? params.content,
       analysis_summary: 'No summary yet',
       filename: params.title,
       file_type: extension,
       tags: params.tags,
+      pipeline: params.pipeline ?? null,
+      dialect: params.dialect ?? null,
+      schema: params.schema ?? null,
+      derived_from: params.derivedFrom ?? null,
+      owner_id: owner.id,
+      department: owner.department || null,
+      visibility: 'private',
     });
 
     const saved = await this.knowledgeBaseRepository.save(entity);
@@ -1591,12 +3323,19 @@ Respond with only the JSON object:`;
 
   // ===== REPORT AGENT FUNCTIONALITY =====
 
-  async generateReport(params: {
-    recordId?: string;
-    filename?: string;
-    data?: string;
-    reportType?: string;
-  }): Promise<GeneratedReport> {
+  // Generates a report with the summary and insights chains and stores it; the stored id is returned as `id`
+  async generateReport(
+    params: {
+      recordId?: string;
+      filename?: string;
+      data?: string;
+      reportType?: string;
+      // Requesting user, recorded on the stored report
+      userId: string;
+    },
+    emit?: AgentEventListener,
+    signal?: AbortSignal,
+  ): Promise<GeneratedReport> {
     // console.log('=== UNI-AGENT: Generating Report ===');
     // console.log('Params:', params);
 
@@ -1604,102 +3343,131 @@ Respond with only the JSON object:`;
     let data: string;
     let sourceInfo: string;
     let recordCount = 0;
+    let record: KnowledgeBase | null = null;
 
     if (params.data) {
       data = params.data;
       sourceInfo = 'Direct data input';
     } else if (params.recordId) {
-      const record = await this.knowledgeBaseRepository.findOne({
-        where: { id: params.recordId },
-      });
-      if (!record) {
-        throw new NotFoundException(`Record with ID ${params.recordId} not found`);
-      }
+      record = await this.getRecordById(params.recordId, params.userId);
       data = record.content;
       sourceInfo = record.filename || record.title;
     } else if (params.filename) {
-      const record = await this.knowledgeBaseRepository.findOne({
-        where: { title: params.filename },
-      });
-      if (!record) {
-        throw new NotFoundException(`Record with filename ${params.filename} not found`);
-      }
+      record = await this.findRecordByFilename(params.filename, params.userId);
       data = record.content;
       sourceInfo = record.filename || record.title;
     } else {
       throw new Error('Must provide either recordId, filename, or data');
     }
 
-    // Count records (assume CSV format)
-    const lines = data.split('\n').filter(line => line.trim().length > 0);
-    recordCount = Math.max(0, lines.length - 1); // Subtract header
-
-    // Truncate data if too large for LLM context
-    const maxDataLength = 8000;
-    let truncatedData = data;
-    let wasTruncated = false;
-    
-    if (data.length > maxDataLength) {
-      console.warn(`Data too large (${data.length} chars), truncating to ${maxDataLength} chars`);
-      truncatedData = data.substring(0, maxDataLength) + '\n...[data truncated]...';
-      wasTruncated = true;
-    }
+    // Exact statistics over every row; free text has none and falls back to a line count
+    const statistics = this.computeStatistics(data);
+    const lines = data.split('\n').filter((line) => line.trim().length > 0);
+    recordCount = statistics
+      ? statistics.rowCount
+      : Math.max(0, lines.length - 1); // Subtract header
+
+    // Large datasets are analyzed in row-aligned chunks and merged, instead of being truncated
+    const chunks = splitIntoChunks(
+      data,
+      getReportChunkSize(),
+      statistics !== null,
+    );
+    const statisticsText = formatStatisticsForPrompt(statistics);
+
+    // One masker for every prompt of the report. It sees all the data first, so a value keeps its
+    // placeholder across chunks and the statistics name it by the same placeholder.
+    const prompt = await this.createPromptContext(
+      params.userId,
+      record ? [record.id] : [],
+      record?.schema,
+    );
+    prompt.masker.maskData(data, prompt.schema);
+    prompt.masker.takeFields();
+    const reveal = <T>(value: T): T => prompt.masker.reveal(value);
 
     try {
-      // Generate summary
-      // console.log('Generating summary...');
-      const summaryResult = await this.summaryChain.invoke({ data: truncatedData });
-      // console.log('Summary generated:', JSON.stringify(summaryResult, null, 2));
-
-      // Generate insights
-      // console.log('Generating insights...');
-      const insightsResult = await this.insightsChain.invoke({
-        data: truncatedData,
-        summary: summaryResult.summary || '',
-      });
-      // console.log('Insights generated:', JSON.stringify(insightsResult, null, 2));
+      let analysis: ChunkAnalysis;
+      let failedChunks = 0;
+
+      if (chunks.length === 1) {
+        // The summary sections stream as soon as the summary chain is done
+        analysis = await this.analyzeChunk(
+          data,
+          statisticsText,
+          prompt,
+          (summaryResult) =>
+            this.buildSummarySections(summaryResult).forEach((section) =>
+              emit?.({ type: 'report_section', section: reveal(section) }),
+            ),
+        );
+      } else {
+        this.logger.log(
+          `Analyzing ${data.length} chars in ${chunks.length} chunks`,
+        );
+        ({ analysis, failedChunks } = await this.analyzeInChunks(
+          chunks,
+          statisticsText,
+          prompt,
+        ));
+        this.buildSummarySections(analysis).forEach((section) =>
+          emit?.({ type: 'report_section', section: reveal(section) }),
+        );
+      }
+
+      const summarySections = this.buildSummarySections(analysis);
 
       // Build report sections with defensive checks
       const sections: ReportSection[] = [
-        {
-          title: 'Executive Summary',
-          content: summaryResult.summary || 'Summary not available',
-          insights: Array.isArray(summaryResult.key_points) ? summaryResult.key_points : [],
-        },
-        {
-          title: 'Data Quality Assessment',
-          content: summaryResult.data_quality || 'Data quality assessment not available',
-        },
+        ...summarySections,
         {
           title: 'Key Insights',
           content: 'Analysis of the dataset reveals the following insights:',
-          insights: Array.isArray(insightsResult.insights) ? insightsResult.insights : [],
+          insights: analysis.insights,
         },
       ];
 
-      if (Array.isArray(insightsResult.trends) && insightsResult.trends.length > 0) {
+      if (analysis.trends.length > 0) {
         sections.push({
           title: 'Trends and Patterns',
           content: 'The following trends were identified in the data:',
-          insights: insightsResult.trends,
+          insights: analysis.trends,
         });
       }
 
-      if (Array.isArray(insightsResult.anomalies) && insightsResult.anomalies.length > 0) {
+      if (analysis.anomalies.length > 0) {
         sections.push({
           title: 'Anomalies and Outliers',
           content: 'The following anomalies were detected:',
-          insights: insightsResult.anomalies,
+          insights: analysis.anomalies,
+        });
+      }
+
+      if (statistics) {
+        sections.push({
+          title: 'Dataset Statistics',
+          content:
+            `${statistics.rowCount} records across ${statistics.columnCount} columns` +
+            (chunks.length > 1
+              ? `, analyzed in ${chunks.length} chunks.`
+              : '.'),
+          insights: statistics.columns.map(describeColumn),
         });
       }
 
-      if (wasTruncated) {
+      if (failedChunks > 0) {
         sections.push({
           title: 'Note',
-          content: 'This analysis was performed on a sample of the data due to size constraints. For complete analysis, consider processing smaller data segments.',
+          content: `${failedChunks} of ${chunks.length} data chunks could not be analyzed, so the insights do not cover every row. The dataset statistics cover all rows.`,
         });
       }
 
+      sections
+        .slice(summarySections.length)
+        .forEach((section) =>
+          emit?.({ type: 'report_section', section: reveal(section) }),
+        );
+
       // Build metadata
       const metadata: ReportMetadata = {
         title: `Data Analysis Report - ${sourceInfo}`,
@@ -1712,28 +3480,277 @@ Respond with only the JSON object:`;
       const report: GeneratedReport = {
         metadata,
         sections,
-        summary: summaryResult.summary || 'Summary not available',
-        recommendations: Array.isArray(insightsResult.recommendations) ? insightsResult.recommendations : [],
+        summary: analysis.summary || 'Summary not available',
+        recommendations: analysis.recommendations,
       };
 
       // console.log('Report generated successfully');
-      return report;
+      // An aborted job's report is not stored; a retry generates its own
+      signal?.throwIfAborted();
+      // Stored with the placeholders, and re-identified for each viewer as their policy allows
+      return reveal(
+        await this.storeReport(
+          report,
+          record,
+          params.userId,
+          prompt.masker.pseudonyms(),
+        ),
+      );
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       console.error('Error generating report:', error);
       console.error('Error stack:', error.stack);
-      
+
       // Return a basic report with error information
-      return this.generateFallbackReport(sourceInfo, recordCount, error.message);
+      const fallback = this.generateFallbackReport(
+        sourceInfo,
+        recordCount,
+        error.message,
+      );
+      return reveal(
+        await this.storeReport(
+          fallback,
+          record,
+          params.userId,
+          prompt.masker.pseudonyms(),
+        ),
+      );
     }
   }
 
+  // A failure to store the report is logged but does not fail the generation itself
+  private async storeReport(
+    report: GeneratedReport,
+    record: KnowledgeBase | null,
+    userId?: string,
+    pseudonyms: Record<string, string> | null = null,
+  ): Promise<GeneratedReport> {
+    try {
+      const saved = await this.reportRepository.save(
+        this.reportRepository.create({
+          user: userId ? ({ id: userId } as any) : null,
+          record,
+          title: report.metadata.title.substring(0, 255),
+          reportType: report.metadata.reportType,
+          content: report,
+          pseudonyms,
+          modelProvider: this.llmConfig.provider,
+          modelName: this.llmConfig.model,
+          promptVersions: REPORT_PROMPT_VERSIONS,
+        }),
+      );
+      return { ...report, id: saved.id };
+    } catch (error) {
+      console.error('Failed to store generated report:', error);
+      return report;
+    }
+  }
+
+  // Loads a stored report, reviving the dates that JSON storage turned into strings and
+  // re-identifying the personal data the viewer's PII policy reveals
+  async getStoredReport(
+    reportId: string,
+    userId?: string,
+  ): Promise<GeneratedReport> {
+    // Reports belong to the user who generated them
+    const stored = await this.reportRepository.findOne({
+      where: { id: reportId, ...(userId ? { user: { id: userId } } : {}) },
+    });
+    if (!stored) {
+      throw new NotFoundException(`Report with ID ${reportId} not found`);
+    }
+
+    const content = await this.revealStoredReport(stored, userId);
+    return {
+      ...content,
+      id: stored.id,
+      metadata: {
+        ...content.metadata,
+        generatedAt: new Date(content.metadata.generatedAt),
+      },
+    };
+  }
+
+  async revealStoredReport(stored: Report, userId?: string): Promise<any> {
+    const policy = await this.resolveViewerPolicy(userId);
+    return revealPlaceholders(stored.content, stored.pseudonyms, policy.reveal);
+  }
+
+  // Exports render the stored report when given its reportId, so every format shows the same report
+  async loadOrGenerateReport(
+    params: {
+      reportId?: string;
+      recordId?: string;
+      filename?: string;
+      data?: string;
+      reportType?: string;
+      userId: string;
+    },
+    emit?: AgentEventListener,
+    signal?: AbortSignal,
+  ): Promise<GeneratedReport> {
+    if (params.reportId) {
+      return this.getStoredReport(params.reportId, params.userId);
+    }
+    return this.generateReport(params, emit, signal);
+  }
+
+  private computeStatistics(data: string): DatasetStatistics | null {
+    try {
+      const { headers, rows } = parseCSV(data);
+      return headers.length > 1
+        ? computeDatasetStatistics(headers, rows)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private buildSummarySections(summaryResult: any): ReportSection[] {
+    return [
+      {
+        title: 'Executive Summary',
+        content: summaryResult.summary || 'Summary not available',
+        insights: Array.isArray(summaryResult.key_points)
+          ? summaryResult.key_points
+          : [],
+      },
+      {
+        title: 'Data Quality Assessment',
+        content:
+          summaryResult.data_quality || 'Data quality assessment not available',
+      },
+    ];
+  }
+
+  // Runs the summary and insights chains over one chunk of data
+  private async analyzeChunk(
+    data: string,
+    statistics: string,
+    prompt: PromptContext,
+    onSummary?: (summaryResult: any) => void,
+  ): Promise<ChunkAnalysis> {
+    const summaryResult = await this.invokeChain(
+      'summary',
+      { data, statistics },
+      prompt,
+    );
+    onSummary?.(summaryResult);
+
+    const insightsResult = await this.invokeChain(
+      'insights',
+      {
+        data,
+        statistics,
+        summary: summaryResult.summary || '',
+      },
+      prompt,
+    );
+
+    return toChunkAnalysis({ ...summaryResult, ...insightsResult });
+  }
+
+  // Map step over all chunks (REPORT_CHUNK_CONCURRENCY at a time), then reduce. Failed chunks are
+  // left out of the merge; only when every chunk fails does the report fail.
+  private async analyzeInChunks(
+    chunks: string[],
+    statistics: string,
+    prompt: PromptContext,
+  ): Promise<{ analysis: ChunkAnalysis; failedChunks: number }> {
+    const partials: ChunkAnalysis[] = new Array(chunks.length);
+    const outcomes = await runTaskGraph(
+      chunks.map(() => []),
+      async (index) => {
+        try {
+          partials[index] = await this.analyzeChunk(
+            chunks[index],
+            statistics,
+            prompt,
+          );
+        } catch (error) {
+          console.error(
+            `Analysis of chunk ${index + 1}/${chunks.length} failed:`,
+            error.message,
+          );
+          throw error;
+        }
+      },
+      { concurrency: getReportChunkConcurrency() },
+    );
+
+    const analyzed = partials.filter(
+      (partial, index) => outcomes[index] === 'completed',
+    );
+    if (analyzed.length === 0) {
+      throw new Error(`All ${chunks.length} data chunks failed to analyze`);
+    }
+
+    return {
+      analysis: await this.reduceAnalyses(analyzed, statistics, prompt),
+      failedChunks: chunks.length - analyzed.length,
+    };
+  }
+
+  // Merges partial analyses REDUCE_FAN_IN at a time, in rounds, until one analysis is left
+  private async reduceAnalyses(
+    partials: ChunkAnalysis[],
+    statistics: string,
+    prompt: PromptContext,
+  ): Promise<ChunkAnalysis> {
+    let level = partials;
+
+    while (level.length > 1) {
+      const groups: ChunkAnalysis[][] = [];
+      for (let index = 0; index < level.length; index += REDUCE_FAN_IN) {
+        groups.push(level.slice(index, index + REDUCE_FAN_IN));
+      }
+
+      const merged: ChunkAnalysis[] = new Array(groups.length);
+      const outcomes = await runTaskGraph(
+        groups.map(() => []),
+        async (index) => {
+          const group = groups[index];
+          if (group.length === 1) {
+            merged[index] = group[0];
+            return;
+          }
+          const result = await this.invokeChain(
+            'reduce',
+            {
+              statistics,
+              partials: JSON.stringify(
+                group.map((partial, part) => ({ part: part + 1, ...partial })),
+                null,
+                2,
+              ),
+            },
+            prompt,
+          );
+          merged[index] = toChunkAnalysis(result);
+        },
+        { concurrency: getReportChunkConcurrency() },
+      );
+
+      if (outcomes.some((outcome) => outcome !== 'completed')) {
+        throw new Error(
+          'Failed to merge the partial analyses of the data chunks',
+        );
+      }
+      level = merged;
+    }
+
+    return level[0];
+  }
+
   private generateFallbackReport(
     sourceInfo: string,
     recordCount: number,
-    errorMessage: string
+    errorMessage: string,
   ): GeneratedReport {
     console.warn('Generating fallback report due to error');
-    
+
     return {
       metadata: {
         title: `Data Analysis Report - ${sourceInfo}`,
@@ -1745,7 +3762,8 @@ Respond with only the JSON object:`;
       sections: [
         {
           title: 'Report Generation Error',
-          content: 'An error occurred while generating the detailed analysis. Please review the data and try again.',
+          content:
+            'An error occurred while generating the detailed analysis. Please review the data and try again.',
         },
         {
           title: 'Basic Information',
@@ -1755,7 +3773,7 @@ Respond with only the JSON object:`;
       summary: `Basic report for ${sourceInfo} with ${recordCount} records. Detailed analysis could not be completed.`,
       recommendations: [
         'Check data format and quality',
-        'Ensure Google Gemini API key is configured',
+        'Ensure the LLM provider (LLM_PROVIDER and its API key) is configured',
         'Try with a smaller dataset',
         'Review error logs for details',
       ],
@@ -1766,64 +3784,121 @@ Respond with only the JSON object:`;
     recordId?: string;
     filename?: string;
     data?: string;
+    // Requesting user, whose PII policy decides what the model sees and what is re-identified
+    userId: string;
   }): Promise<any> {
     // console.log('=== UNI-AGENT: Creating Summary ===');
 
     // Get data
     let data: string;
+    let record: KnowledgeBase | null = null;
 
     if (params.data) {
       data = params.data;
     } else if (params.recordId) {
-      const record = await this.knowledgeBaseRepository.findOne({
-        where: { id: params.recordId },
-      });
-      if (!record) {
-        throw new NotFoundException(`Record with ID ${params.recordId} not found`);
-      }
+      record = await this.getRecordById(params.recordId, params.userId);
       data = record.content;
     } else if (params.filename) {
-      const record = await this.knowledgeBaseRepository.findOne({
-        where: { title: params.filename },
-      });
-      if (!record) {
-        throw new NotFoundException(`Record with filename ${params.filename} not found`);
-      }
+      record = await this.findRecordByFilename(params.filename, params.userId);
       data = record.content;
     } else {
       throw new Error('Must provide either recordId, filename, or data');
     }
 
     // Generate summary
-    const summaryResult = await this.summaryChain.invoke({ data });
-    return summaryResult;
+    const prompt = await this.createPromptContext(
+      params.userId,
+      record ? [record.id] : [],
+      record?.schema,
+    );
+    const summaryResult = await this.invokeChain(
+      'summary',
+      {
+        data,
+        statistics: formatStatisticsForPrompt(this.computeStatistics(data)),
+      },
+      prompt,
+    );
+    return prompt.masker.reveal(summaryResult);
   }
 
-  async exportPdf(report: GeneratedReport): Promise<string> {
+  // Renders the report as a PDF; pass the report's source data to include the charts
+  async exportPdf(
+    report: GeneratedReport,
+    chartData?: string,
+  ): Promise<Buffer> {
     // console.log('=== UNI-AGENT: Exporting PDF ===');
+    let charts: ChartSeries[] = [];
+    if (chartData) {
+      try {
+        charts = this.extractChartSeries(chartData);
+      } catch (error) {
+        // Not tabular data; the PDF is still useful without charts
+        console.warn('Skipping PDF charts:', error.message);
+      }
+    }
 
-    // Generate HTML content for PDF
-    const html = this.generateReportHtml(report);
+    return renderReportPdf(report, charts);
+  }
 
-    // In a real implementation, you would use a library like puppeteer or pdfkit
-    // For now, we'll return the HTML as a placeholder
-    // console.log('PDF export would be generated here');
-    // console.log('Report title:', report.metadata.title);
+  // Loads the raw data behind a recordId/filename/data parameter set, as generateReport does
+  async resolveReportData(params: {
+    reportId?: string;
+    recordId?: string;
+    filename?: string;
+    data?: string;
+    userId: string;
+  }): Promise<string> {
+    let dataStr: string | undefined;
+    if (params.data) {
+      dataStr = params.data;
+    } else if (params.reportId) {
+      const report = await this.reportRepository.findOne({
+        where: { id: params.reportId, user: { id: params.userId } },
+        relations: ['record'],
+      });
+      if (!report) {
+        throw new NotFoundException(
+          `Report with ID ${params.reportId} not found`,
+        );
+      }
+      if (!report.record) {
+        throw new Error('The source data of this report is not stored');
+      }
+      // The record may have been made private or unshared since the report was generated
+      dataStr = (await this.getRecordById(report.record.id, params.userId))
+        .content;
+    } else if (params.recordId) {
+      dataStr = (await this.getRecordById(params.recordId, params.userId))
+        .content;
+    } else if (params.filename) {
+      dataStr = (
+        await this.findRecordByFilename(params.filename, params.userId)
+      ).content;
+    } else {
+      throw new Error(
+        'Missing required parameter: recordId, filename, or data',
+      );
+    }
 
-    return html;
+    if (!dataStr) {
+      throw new Error('No data available for chart generation');
+    }
+    return dataStr;
   }
 
-  private generateReportHtml(report: GeneratedReport): string {
+  // Standalone HTML page of the report; all report text is escaped since it comes from the LLM
+  async formatReportAsHtml(report: GeneratedReport): Promise<string> {
     const sectionsHtml = report.sections
-      .map(section => {
+      .map((section) => {
         const insightsHtml = section.insights
-          ? `<ul>${section.insights.map(insight => `<li>${insight}</li>`).join('')}</ul>`
+          ? `<ul>${section.insights.map((insight) => `<li>${escapeHtml(insight)}</li>`).join('')}</ul>`
           : '';
 
         return `
         <div class="section">
-          <h2>${section.title}</h2>
-          <p>${section.content}</p>
+          <h2>${escapeHtml(section.title)}</h2>
+          <p>${escapeHtml(section.content)}</p>
           ${insightsHtml}
         </div>
       `;
@@ -1834,7 +3909,7 @@ Respond with only the JSON object:`;
       ? `
       <div class="section">
         <h2>Recommendations</h2>
-        <ul>${report.recommendations.map(rec => `<li>${rec}</li>`).join('')}</ul>
+        <ul>${report.recommendations.map((rec) => `<li>${escapeHtml(rec)}</li>`).join('')}</ul>
       </div>
     `
       : '';
@@ -1844,7 +3919,7 @@ Respond with only the JSON object:`;
 <html>
 <head>
   <meta charset="UTF-8">
-  <title>${report.metadata.title}</title>
+  <title>${escapeHtml(report.metadata.title)}</title>
   <style>
     body {
       font-family: Arial, sans-serif;
@@ -1886,13 +3961,13 @@ Respond with only the JSON object:`;
   </style>
 </head>
 <body>
-  <h1>${report.metadata.title}</h1>
+  <h1>${escapeHtml(report.metadata.title)}</h1>
   
   <div class="metadata">
     <p><strong>Generated:</strong> ${report.metadata.generatedAt.toLocaleString()}</p>
-    <p><strong>Data Source:</strong> ${report.metadata.dataSource}</p>
+    <p><strong>Data Source:</strong> ${escapeHtml(report.metadata.dataSource)}</p>
     <p><strong>Record Count:</strong> ${report.metadata.recordCount}</p>
-    <p><strong>Report Type:</strong> ${report.metadata.reportType}</p>
+    <p><strong>Report Type:</strong> ${escapeHtml(report.metadata.reportType)}</p>
   </div>
 
   ${sectionsHtml}
@@ -1915,7 +3990,7 @@ Respond with only the JSON object:`;
       markdown += `${section.content}\n\n`;
 
       if (section.insights && section.insights.length > 0) {
-        section.insights.forEach(insight => {
+        section.insights.forEach((insight) => {
           markdown += `- ${insight}\n`;
         });
         markdown += '\n';
@@ -1924,7 +3999,7 @@ Respond with only the JSON object:`;
 
     if (report.recommendations && report.recommendations.length > 0) {
       markdown += `## Recommendations\n\n`;
-      report.recommendations.forEach(rec => {
+      report.recommendations.forEach((rec) => {
         markdown += `- ${rec}\n`;
       });
       markdown += '\n';
@@ -1944,33 +4019,54 @@ Respond with only the JSON object:`;
 
   // Convenience method for quick statistics
   async getDataStatistics(data: string): Promise<any> {
-    const lines = data.split('\n').filter(line => line.trim().length > 0);
-    const headers = lines[0]?.split(',') || [];
-    const recordCount = lines.length - 1;
+    const table = tryParseCSV(data);
+    const lines = data.split('\n').filter((line) => line.trim().length > 0);
+    const headers = table ? table.headers : lines[0]?.split(',') || [];
+    const recordCount = table ? table.rows.length : lines.length - 1;
 
-    // Count invalid entries
+    // Count rows with invalid entries, by the tag the validate tool or a rule set wrote
     const invalidCounts = {
       emails: 0,
       dates: 0,
       ages: 0,
       phones: 0,
       amounts: 0,
+      integers: 0,
+      numbers: 0,
+    };
+    const tags: Record<string, keyof typeof invalidCounts> = {
+      EMAIL: 'emails',
+      DATE: 'dates',
+      AGE: 'ages',
+      PHONE: 'phones',
+      AMOUNT: 'amounts',
+      INTEGER: 'integers',
+      NUMBER: 'numbers',
     };
 
-    lines.slice(1).forEach(line => {
-      if (line.includes('[INVALID_EMAIL]')) invalidCounts.emails++;
-      if (line.includes('[INVALID_DATE]')) invalidCounts.dates++;
-      if (line.includes('[INVALID_AGE]')) invalidCounts.ages++;
-      if (line.includes('[INVALID_PHONE]')) invalidCounts.phones++;
-      if (line.includes('[INVALID_AMOUNT]')) invalidCounts.amounts++;
+    const rows = table
+      ? table.rows.map((row) => row.join(','))
+      : lines.slice(1);
+    rows.forEach((line) => {
+      for (const [tag, key] of Object.entries(tags)) {
+        if (line.includes(`[INVALID_${tag}]`)) invalidCounts[key]++;
+      }
     });
 
     return {
       totalRecords: recordCount,
       columns: headers,
       columnCount: headers.length,
+      columnTypes: table
+        ? Object.fromEntries(
+            inferSchema(table.headers, table.rows).columns.map((column) => [
+              column.name,
+              column.type,
+            ]),
+          )
+        : {},
       invalidCounts,
-      hasInvalidData: Object.values(invalidCounts).some(count => count > 0),
+      hasInvalidData: Object.values(invalidCounts).some((count) => count > 0),
     };
   }
 }
@@ -0,0 +1,169 @@
+import {
+  MAX_REPORTED_VIOLATIONS,
+  RuleSetError,
+  parseRuleSet,
+  validateWithRules,
+} from './validation-rules';
+
+const headers = ['id', 'email', 'status', 'start', 'end', 'salary'];
+
+describe('parseRuleSet', () => {
+  it('reads YAML and fills in the defaults', () => {
+    const ruleSet = parseRuleSet(`
+columns:
+  id: { type: integer, unique: true }
+  email: { type: email, required: true }
+`);
+    expect(ruleSet.strict).toBe(false);
+    expect(ruleSet.rules).toEqual([]);
+    expect(ruleSet.columns.id).toEqual({ type: 'integer', unique: true });
+  });
+
+  it('lists every problem of an invalid rule set', () => {
+    expect(() =>
+      parseRuleSet({
+        columns: {
+          id: { type: 'integer', format: 'YYYY' },
+          code: { pattern: '([a-z' },
+        },
+      }),
+    ).toThrow(
+      new RuleSetError([
+        'columns.id.format: only applies to date columns',
+        'columns.code.pattern: not a valid regular expression',
+      ]),
+    );
+    expect(() => parseRuleSet({ columns: { id: { size: 3 } } })).toThrow(
+      /Unrecognized key\(s\) in object: 'size'/,
+    );
+    expect(() => parseRuleSet('columns: [')).toThrow(/not valid JSON or YAML/);
+  });
+});
+
+describe('validateWithRules', () => {
+  const ruleSet = parseRuleSet({
+    columns: {
+      id: { type: 'integer', unique: true },
+      email: { type: 'email', required: true },
+      status: { enum: ['active', 'left'] },
+      start: { type: 'date', format: 'DD/MM/YYYY', min: '01/01/2000' },
+      end: { type: 'date', format: 'DD/MM/YYYY' },
+      salary: { type: 'number', min: 0, max: 100000 },
+    },
+    rules: [
+      { type: 'compare', left: 'start', operator: '<=', right: 'end' },
+      {
+        type: 'required_if',
+        name: 'end_when_left',
+        column: 'end',
+        when: { column: 'status', equals: 'left' },
+      },
+    ],
+  });
+
+  it('accepts rows that follow every rule', () => {
+    const rows = [
+      ['1', 'ana@example.com', 'active', '01/02/2020', '', '3500.50'],
+      ['2', 'bruno@example.com', 'left', '15/06/2019', '31/12/2021', '4200'],
+    ];
+    const result = validateWithRules(headers, rows, ruleSet);
+
+    expect(result.report.valid).toBe(true);
+    expect(result.rows).toEqual(rows);
+  });
+
+  it('tags failing cells with the first rule they break', () => {
+    const { rows, report } = validateWithRules(
+      headers,
+      [
+        ['1', 'ana@example.com', 'active', '01/02/2020', '', '3500'],
+        ['1', 'not-an-email', 'retired', '31/02/2020', '', '-5'],
+        ['x', 'Unknown', 'active', '01/01/1999', '', 'lots'],
+      ],
+      ruleSet,
+    );
+
+    expect(rows[1]).toEqual([
+      '[INVALID_UNIQUE]',
+      '[INVALID_EMAIL]',
+      '[INVALID_ENUM]',
+      '[INVALID_DATE]',
+      '',
+      '[INVALID_RANGE]',
+    ]);
+    expect(rows[2]).toEqual([
+      '[INVALID_INTEGER]',
+      '[INVALID_REQUIRED]',
+      'active',
+      '[INVALID_RANGE]',
+      '',
+      '[INVALID_NUMBER]',
+    ]);
+    expect(report.valid).toBe(false);
+    expect(report.byColumn.start).toBe(2);
+    expect(report.violations).toContainEqual({
+      row: 2,
+      column: 'start',
+      rule: 'type',
+      value: '31/02/2020',
+      message: 'Not a valid date in format DD/MM/YYYY',
+    });
+  });
+
+  it('reports cross-field rules on the row without tagging cells', () => {
+    const rows = [
+      ['1', 'ana@example.com', 'left', '01/02/2020', '', '3500'],
+      ['2', 'bruno@example.com', 'active', '01/02/2020', '01/01/2020', '4200'],
+    ];
+    const result = validateWithRules(headers, rows, ruleSet);
+
+    expect(result.rows).toEqual(rows);
+    expect(result.report.byRule).toEqual({ end_when_left: 1, compare: 1 });
+    expect(result.report.violations.map((violation) => violation.row)).toEqual([
+      1, 2,
+    ]);
+    expect(result.report.violations[0].message).toBe(
+      'Required when status is "left"',
+    );
+  });
+
+  it('reports missing columns and, in strict mode, undeclared ones', () => {
+    const strict = parseRuleSet({
+      columns: { ID: { type: 'integer' }, phone: { type: 'phone' } },
+      strict: true,
+    });
+    const { report } = validateWithRules(
+      ['id', 'nickname'],
+      [['7', 'Ana']],
+      strict,
+    );
+
+    expect(report.violations).toEqual([
+      expect.objectContaining({
+        row: 0,
+        column: 'phone',
+        rule: 'missing_column',
+      }),
+      expect.objectContaining({
+        row: 0,
+        column: 'nickname',
+        rule: 'undeclared_column',
+      }),
+    ]);
+  });
+
+  it('caps the reported violations but counts all of them', () => {
+    const rows = Array.from({ length: MAX_REPORTED_VIOLATIONS + 5 }, () => [
+      'nope',
+    ]);
+    const { report } = validateWithRules(
+      ['id'],
+      rows,
+      parseRuleSet({ columns: { id: { type: 'integer' } } }),
+    );
+
+    expect(report.violationCount).toBe(MAX_REPORTED_VIOLATIONS + 5);
+    expect(report.violations).toHaveLength(MAX_REPORTED_VIOLATIONS);
+    expect(report.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,535 @@
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+
+export const COLUMN_TYPES = [
+  'string',
+  'integer',
+  'number',
+  'boolean',
+  'date',
+  'email',
+  'phone',
+] as const;
+
+const columnRuleSchema = z
+  .object({
+    type: z.enum(COLUMN_TYPES).default('string'),
+    required: z.boolean().optional(),
+    unique: z.boolean().optional(),
+    pattern: z.string().optional(),
+    // Numbers compare numerically, dates chronologically (written in the column's format)
+    min: z.union([z.number(), z.string()]).optional(),
+    max: z.union([z.number(), z.string()]).optional(),
+    minLength: z.number().int().nonnegative().optional(),
+    maxLength: z.number().int().nonnegative().optional(),
+    enum: z
+      .array(z.union([z.string(), z.number()]))
+      .nonempty()
+      .optional(),
+    // Date columns only, built from YYYY, MM, DD, HH, mm and ss
+    format: z.string().optional(),
+  })
+  .strict();
+
+const crossFieldRuleSchema = z.discriminatedUnion('type', [
+  z
+    .object({
+      type: z.literal('compare'),
+      name: z.string().optional(),
+      left: z.string(),
+      operator: z.enum(['<', '<=', '>', '>=', '==', '!=']),
+      right: z.string(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('required_if'),
+      name: z.string().optional(),
+      column: z.string(),
+      when: z
+        .object({
+          column: z.string(),
+          equals: z.union([z.string(), z.number()]).optional(),
+          in: z.array(z.union([z.string(), z.number()])).optional(),
+        })
+        .strict(),
+    })
+    .strict(),
+]);
+
+export const ruleSetSchema = z
+  .object({
+    columns: z.record(columnRuleSchema),
+    rules: z.array(crossFieldRuleSchema).default([]),
+    // Reject columns that are not declared under `columns`
+    strict: z.boolean().default(false),
+  })
+  .strict();
+
+export type ColumnRule = z.infer<typeof columnRuleSchema>;
+export type CrossFieldRule = z.infer<typeof crossFieldRuleSchema>;
+export type RuleSet = z.infer<typeof ruleSetSchema>;
+
+export interface Violation {
+  // 1-based data row, the header not counted
+  row: number;
+  column: string;
+  rule: string;
+  value: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  rowCount: number;
+  violationCount: number;
+  byRule: Record<string, number>;
+  byColumn: Record<string, number>;
+  // Capped at MAX_REPORTED_VIOLATIONS; the counts above always cover every violation
+  violations: Violation[];
+  truncated: boolean;
+}
+
+export class RuleSetError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid rule set: ${issues.join('; ')}`);
+  }
+}
+
+export const MAX_REPORTED_VIOLATIONS = 1000;
+
+const EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+// International numbers: an optional +, then 7-15 digits with common separators
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const INTEGER_PATTERN = /^-?\d+$/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+const BOOLEAN_VALUES = ['true', 'false', 'yes', 'no', '1', '0', 'y', 'n'];
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+const DATE_TOKENS: Record<string, string> = {
+  YYYY: '(?<year>\\d{4})',
+  MM: '(?<month>\\d{1,2})',
+  DD: '(?<day>\\d{1,2})',
+  HH: '(?<hour>\\d{1,2})',
+  mm: '(?<minute>\\d{2})',
+  ss: '(?<second>\\d{2})',
+};
+
+/**
+ * Parses a rule set written as JSON or YAML (YAML being a superset of JSON, one parser
+ * reads both) and checks it against the rule set schema. Throws RuleSetError listing
+ * every problem found.
+ */
+export function parseRuleSet(definition: string | object): RuleSet {
+  let raw: unknown = definition;
+  if (typeof definition === 'string') {
+    try {
+      raw = parseYaml(definition);
+    } catch (error) {
+      throw new RuleSetError([`not valid JSON or YAML: ${error.message}`]);
+    }
+  }
+
+  const parsed = ruleSetSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new RuleSetError(
+      parsed.error.issues.map((issue) =>
+        issue.path.length > 0
+          ? `${issue.path.join('.')}: ${issue.message}`
+          : issue.message,
+      ),
+    );
+  }
+
+  const issues: string[] = [];
+  for (const [column, rule] of Object.entries(parsed.data.columns)) {
+    if (rule.pattern !== undefined) {
+      try {
+        new RegExp(rule.pattern);
+      } catch {
+        issues.push(
+          `columns.${column}.pattern: not a valid regular expression`,
+        );
+      }
+    }
+    if (rule.format !== undefined && rule.type !== 'date') {
+      issues.push(`columns.${column}.format: only applies to date columns`);
+    }
+  }
+  if (issues.length > 0) {
+    throw new RuleSetError(issues);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Checks every row against the rule set. Returns the data with each failing cell replaced
+ * by an [INVALID_*] tag (the first failed rule wins) and a report with one entry per violation.
+ * Cross-field rules describe rows rather than cells, so they only appear in the report.
+ */
+export function validateWithRules(
+  headers: string[],
+  rows: string[][],
+  ruleSet: RuleSet,
+): { rows: string[][]; report: ValidationReport } {
+  const collector = new ViolationCollector(rows.length);
+  // Headers are matched case-insensitively, the CSV parser lower-cases them
+  const columnIndex = new Map(
+    headers.map((header, index) => [header.toLowerCase(), index]),
+  );
+  const declared = new Set(
+    Object.keys(ruleSet.columns).map((column) => column.toLowerCase()),
+  );
+
+  for (const column of Object.keys(ruleSet.columns)) {
+    if (!columnIndex.has(column.toLowerCase())) {
+      collector.add({
+        row: 0,
+        column,
+        rule: 'missing_column',
+        value: '',
+        message: `Column "${column}" is declared in the rule set but not present in the data`,
+      });
+    }
+  }
+  if (ruleSet.strict) {
+    for (const header of headers) {
+      if (!declared.has(header.toLowerCase())) {
+        collector.add({
+          row: 0,
+          column: header,
+          rule: 'undeclared_column',
+          value: '',
+          message: `Column "${header}" is not declared in the rule set`,
+        });
+      }
+    }
+  }
+
+  const patterns = new Map<string, RegExp>();
+  const seen = new Map<string, Set<string>>();
+  for (const [column, rule] of Object.entries(ruleSet.columns)) {
+    if (rule.pattern !== undefined) {
+      patterns.set(column, new RegExp(rule.pattern));
+    }
+    if (rule.unique) {
+      seen.set(column, new Set());
+    }
+  }
+
+  const tagged = rows.map((row, rowIndex) => {
+    const result = [...row];
+
+    for (const [column, rule] of Object.entries(ruleSet.columns)) {
+      const index = columnIndex.get(column.toLowerCase());
+      if (index === undefined) continue;
+
+      const value = (row[index] ?? '').trim();
+      const failures = checkCell(value, rule, patterns.get(column));
+
+      if (rule.unique && !isMissing(value)) {
+        const values = seen.get(column)!;
+        if (values.has(value)) {
+          failures.push({ rule: 'unique', message: 'Duplicate value' });
+        }
+        values.add(value);
+      }
+
+      for (const failure of failures) {
+        collector.add({ row: rowIndex + 1, column, value, ...failure });
+      }
+      if (failures.length > 0) {
+        result[index] = tagFor(failures[0].rule, rule);
+      }
+    }
+
+    for (const crossRule of ruleSet.rules) {
+      const failure = checkCrossField(row, columnIndex, crossRule, ruleSet);
+      if (failure) {
+        collector.add({ row: rowIndex + 1, ...failure });
+      }
+    }
+
+    return result;
+  });
+
+  return { rows: tagged, report: collector.report() };
+}
+
+class ViolationCollector {
+  private readonly violations: Violation[] = [];
+  private readonly byRule: Record<string, number> = {};
+  private readonly byColumn: Record<string, number> = {};
+  private count = 0;
+
+  constructor(private readonly rowCount: number) {}
+
+  add(violation: Violation) {
+    this.count++;
+    this.byRule[violation.rule] = (this.byRule[violation.rule] || 0) + 1;
+    this.byColumn[violation.column] =
+      (this.byColumn[violation.column] || 0) + 1;
+    if (this.violations.length < MAX_REPORTED_VIOLATIONS) {
+      this.violations.push(violation);
+    }
+  }
+
+  report(): ValidationReport {
+    return {
+      valid: this.count === 0,
+      rowCount: this.rowCount,
+      violationCount: this.count,
+      byRule: this.byRule,
+      byColumn: this.byColumn,
+      violations: this.violations,
+      truncated: this.count > this.violations.length,
+    };
+  }
+}
+
+// Empty cells and the "Unknown" placeholder written by the clean tool count as missing
+function isMissing(value: string): boolean {
+  return value === '' || value.toLowerCase() === 'unknown';
+}
+
+function checkCell(
+  value: string,
+  rule: ColumnRule,
+  pattern?: RegExp,
+): { rule: string; message: string }[] {
+  if (isMissing(value)) {
+    return rule.required
+      ? [{ rule: 'required', message: 'Value is required' }]
+      : [];
+  }
+
+  const typeError = checkType(value, rule);
+  if (typeError) {
+    return [{ rule: 'type', message: typeError }];
+  }
+
+  const failures: { rule: string; message: string }[] = [];
+
+  if (pattern && !pattern.test(value)) {
+    failures.push({
+      rule: 'pattern',
+      message: `Does not match ${pattern.source}`,
+    });
+  }
+  if (rule.minLength !== undefined && value.length < rule.minLength) {
+    failures.push({
+      rule: 'length',
+      message: `Shorter than ${rule.minLength} characters`,
+    });
+  }
+  if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+    failures.push({
+      rule: 'length',
+      message: `Longer than ${rule.maxLength} characters`,
+    });
+  }
+  if (rule.enum && !rule.enum.some((allowed) => String(allowed) === value)) {
+    failures.push({
+      rule: 'enum',
+      message: `Must be one of: ${rule.enum.join(', ')}`,
+    });
+  }
+
+  const rangeError = checkRange(value, rule);
+  if (rangeError) {
+    failures.push({ rule: 'range', message: rangeError });
+  }
+
+  return failures;
+}
+
+function checkType(value: string, rule: ColumnRule): string | null {
+  switch (rule.type) {
+    case 'integer':
+      return INTEGER_PATTERN.test(value) ? null : 'Not an integer';
+    case 'number':
+      return NUMBER_PATTERN.test(value) ? null : 'Not a number';
+    case 'boolean':
+      return BOOLEAN_VALUES.includes(value.toLowerCase())
+        ? null
+        : 'Not a boolean';
+    case 'email':
+      return EMAIL_PATTERN.test(value) ? null : 'Not a valid email address';
+    case 'phone': {
+      const digits = value.replace(/\D/g, '').length;
+      return PHONE_PATTERN.test(value) && digits >= 7 && digits <= 15
+        ? null
+        : 'Not a valid phone number';
+    }
+    case 'date':
+      return parseDate(value, rule.format) !== null
+        ? null
+        : `Not a valid date in format ${rule.format || DEFAULT_DATE_FORMAT}`;
+    default:
+      return null;
+  }
+}
+
+function checkRange(value: string, rule: ColumnRule): string | null {
+  if (rule.min === undefined && rule.max === undefined) {
+    return null;
+  }
+
+  const toComparable = (bound: number | string | undefined) => {
+    if (bound === undefined) return undefined;
+    return rule.type === 'date'
+      ? parseDate(String(bound), rule.format)
+      : Number(bound);
+  };
+
+  const current =
+    rule.type === 'date' ? parseDate(value, rule.format) : Number(value);
+  if (current === null || Number.isNaN(current)) {
+    return null;
+  }
+
+  const min = toComparable(rule.min);
+  const max = toComparable(rule.max);
+  if (min !== undefined && min !== null && current < min) {
+    return `Less than ${rule.min}`;
+  }
+  if (max !== undefined && max !== null && current > max) {
+    return `Greater than ${rule.max}`;
+  }
+  return null;
+}
+
+// Timestamp of the date, or null when it does not match the format or is not a real date
+function parseDate(value: string, format = DEFAULT_DATE_FORMAT): number | null {
+  const source = format
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => DATE_TOKENS[token]);
+  const match = new RegExp(`^${source}$`).exec(value);
+  if (!match?.groups?.year) {
+    return null;
+  }
+
+  const part = (name: string, fallback: number) =>
+    match.groups![name] !== undefined
+      ? parseInt(match.groups![name], 10)
+      : fallback;
+  const year = part('year', 0);
+  const month = part('month', 1);
+  const day = part('day', 1);
+  const hour = part('hour', 0);
+  const minute = part('minute', 0);
+  const second = part('second', 0);
+
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day ||
+    hour > 23 ||
+    minute > 59 ||
+    second > 59
+  ) {
+    return null;
+  }
+  return date.getTime();
+}
+
+function checkCrossField(
+  row: string[],
+  columnIndex: Map<string, number>,
+  rule: CrossFieldRule,
+  ruleSet: RuleSet,
+): Omit<Violation, 'row'> | null {
+  const cell = (column: string) => {
+    const index = columnIndex.get(column.toLowerCase());
+    return index === undefined ? undefined : (row[index] ?? '').trim();
+  };
+
+  if (rule.type === 'required_if') {
+    const trigger = cell(rule.when.column);
+    const value = cell(rule.column);
+    if (trigger === undefined || value === undefined || isMissing(trigger)) {
+      return null;
+    }
+
+    const triggered =
+      (rule.when.equals !== undefined &&
+        trigger === String(rule.when.equals)) ||
+      (rule.when.in?.some((candidate) => trigger === String(candidate)) ??
+        false);
+    if (!triggered || !isMissing(value)) {
+      return null;
+    }
+
+    return {
+      column: rule.column,
+      rule: rule.name || 'required_if',
+      value,
+      message: `Required when ${rule.when.column} is "${trigger}"`,
+    };
+  }
+
+  const left = cell(rule.left);
+  const right = cell(rule.right);
+  if (
+    left === undefined ||
+    right === undefined ||
+    isMissing(left) ||
+    isMissing(right)
+  ) {
+    return null;
+  }
+
+  // Both sides compare as the left column's type: chronologically for dates, numerically
+  // for numbers, as text otherwise. Cells that fail their own type check are skipped.
+  const leftRule = ruleSet.columns[rule.left];
+  const toComparable = (value: string, column: string) => {
+    if (leftRule?.type === 'date') {
+      return parseDate(value, ruleSet.columns[column]?.format);
+    }
+    if (leftRule?.type === 'integer' || leftRule?.type === 'number') {
+      return NUMBER_PATTERN.test(value) ? Number(value) : null;
+    }
+    return value;
+  };
+  const a = toComparable(left, rule.left);
+  const b = toComparable(right, rule.right);
+  if (a === null || b === null || compare(a, b, rule.operator)) {
+    return null;
+  }
+
+  return {
+    column: rule.left,
+    rule: rule.name || 'compare',
+    value: `${left} / ${right}`,
+    message: `Expected ${rule.left} ${rule.operator} ${rule.right}`,
+  };
+}
+
+function compare(
+  a: number | string,
+  b: number | string,
+  operator: '<' | '<=' | '>' | '>=' | '==' | '!=',
+): boolean {
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    case '==':
+      return a === b;
+    case '!=':
+      return a !== b;
+  }
+}
+
+// Type failures keep the tags the rest of the app already counts, e.g. [INVALID_EMAIL]
+function tagFor(failedRule: string, rule: ColumnRule): string {
+  const name = failedRule === 'type' ? rule.type : failedRule;
+  return `[INVALID_${name.toUpperCase()}]`;
+}
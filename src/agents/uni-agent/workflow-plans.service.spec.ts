@@ -0,0 +1,47 @@
+import { BadRequestException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import {
+  PlannedWorkflow,
+  PlannedWorkflowStatus,
+} from '../../entities/planned_workflow.entity';
+import {
+  PlanTaskDecision,
+  WorkflowPlansService,
+} from './workflow-plans.service';
+import { UniAgentService } from './uni-agent.service';
+
+describe('WorkflowPlansService.approve', () => {
+  const plannedWorkflowRepository = {
+    findOne: () =>
+      Promise.resolve({
+        id: 'plan-1',
+        status: PlannedWorkflowStatus.PENDING_APPROVAL,
+        context: {},
+        plan: { tasks: [{ agent: 'query', action: 'query_data', params: {} }] },
+      }),
+  };
+  const service = new WorkflowPlansService(
+    plannedWorkflowRepository as unknown as Repository<PlannedWorkflow>,
+    {} as UniAgentService,
+  );
+  const approve = (tasks: unknown) =>
+    service.approve('user-1', 'plan-1', tasks as PlanTaskDecision[]);
+
+  it('refuses task decisions that are not a list of indexed tasks', async () => {
+    await expect(approve({ index: 0 })).rejects.toThrow(
+      new BadRequestException('tasks must be an array'),
+    );
+    await expect(approve([{ index: 'length' }])).rejects.toThrow(
+      'Each task needs an integer index',
+    );
+    await expect(approve([null])).rejects.toThrow(
+      'Each task needs an integer index',
+    );
+    await expect(approve([{ index: 0, params: ['a'] }])).rejects.toThrow(
+      'params of task 0 must be an object',
+    );
+    await expect(approve([{ index: 3 }])).rejects.toThrow(
+      'Plan has no task with index 3',
+    );
+  });
+});
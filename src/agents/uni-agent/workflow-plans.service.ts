@@ -0,0 +1,183 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  PlannedWorkflow,
+  PlannedWorkflowStatus,
+} from '../../entities/planned_workflow.entity';
+import { UniAgentService, WorkflowPlan } from './uni-agent.service';
+import { validateWorkflowPlan } from './action-registry';
+import { AgentEventListener } from './agent-events';
+
+export interface PlanTaskDecision {
+  index: number;
+  // Defaults to true; false skips the task and everything depending on it
+  approved?: boolean;
+  // Replaces the given parameters of the task before it runs
+  params?: Record<string, any>;
+}
+
+@Injectable()
+export class WorkflowPlansService {
+  constructor(
+    @InjectRepository(PlannedWorkflow)
+    private readonly plannedWorkflowRepository: Repository<PlannedWorkflow>,
+    private readonly uniAgentService: UniAgentService,
+  ) {}
+
+  // Plans the request without running it and stores the plan for review
+  async createPreview(
+    userId: string,
+    request: string,
+    context?: any,
+    sessionId?: string,
+  ) {
+    // Planned as the user, so the planner prompt is masked with their policy and audited to them
+    const planContext = { ...context, userId };
+    const plan = await this.uniAgentService.planRequest(request, planContext);
+
+    const record = await this.plannedWorkflowRepository.save(
+      this.plannedWorkflowRepository.create({
+        user: { id: userId } as any,
+        session: sessionId ? ({ id: sessionId } as any) : null,
+        request,
+        context: planContext,
+        plan,
+        status: PlannedWorkflowStatus.PENDING_APPROVAL,
+      }),
+    );
+
+    return this.toResponse(record);
+  }
+
+  async getPlan(userId: string, planId: string) {
+    const record = await this.findUserPlan(userId, planId);
+    return this.toResponse(record);
+  }
+
+  async approve(
+    userId: string,
+    planId: string,
+    decisions: PlanTaskDecision[] = [],
+    emit?: AgentEventListener,
+  ) {
+    // The body is not validated by a pipe, so its shape is checked here
+    if (!Array.isArray(decisions)) {
+      throw new BadRequestException('tasks must be an array');
+    }
+    const record = await this.findUserPlan(userId, planId);
+    this.assertPending(record);
+
+    const plan: WorkflowPlan = record.plan;
+    for (const decision of decisions) {
+      if (!Number.isInteger(decision?.index)) {
+        throw new BadRequestException('Each task needs an integer index');
+      }
+      if (
+        decision.params !== undefined &&
+        (typeof decision.params !== 'object' || Array.isArray(decision.params))
+      ) {
+        throw new BadRequestException(
+          `params of task ${decision.index} must be an object`,
+        );
+      }
+      const task = plan.tasks[decision.index];
+      if (!task) {
+        throw new BadRequestException(
+          `Plan has no task with index ${decision.index}`,
+        );
+      }
+      if (decision.params) {
+        task.params = { ...task.params, ...decision.params };
+      }
+      task.approved = decision.approved !== false;
+    }
+
+    const errors = validateWorkflowPlan(plan.tasks, record.context);
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Edited plan is invalid',
+        errors,
+      });
+    }
+
+    // Claim the plan atomically so it cannot be approved (and executed) twice
+    const claimed = await this.plannedWorkflowRepository.update(
+      { id: record.id, status: PlannedWorkflowStatus.PENDING_APPROVAL },
+      { status: PlannedWorkflowStatus.RUNNING, plan: plan as any },
+    );
+    if (claimed.affected === 0) {
+      throw new ConflictException('Plan has already been reviewed');
+    }
+
+    try {
+      // Runs as the reviewer, who owns the plan, so it only reaches records they can see
+      const result = await this.uniAgentService.executePlan(
+        plan,
+        { ...record.context, userId },
+        emit,
+      );
+      record.status = PlannedWorkflowStatus.EXECUTED;
+      record.plan = result.plan;
+      record.result = result;
+    } catch (error) {
+      record.status = PlannedWorkflowStatus.FAILED;
+      record.result = { error: error.message };
+    }
+
+    const saved = await this.plannedWorkflowRepository.save(record);
+    return this.toResponse(saved);
+  }
+
+  async reject(userId: string, planId: string) {
+    const record = await this.findUserPlan(userId, planId);
+    this.assertPending(record);
+
+    record.status = PlannedWorkflowStatus.REJECTED;
+    const saved = await this.plannedWorkflowRepository.save(record);
+    return this.toResponse(saved);
+  }
+
+  private async findUserPlan(
+    userId: string,
+    planId: string,
+  ): Promise<PlannedWorkflow> {
+    const record = await this.plannedWorkflowRepository.findOne({
+      where: { id: planId, user: { id: userId } },
+      relations: ['session'],
+    });
+
+    if (!record) {
+      throw new NotFoundException(`Plan ${planId} not found`);
+    }
+
+    return record;
+  }
+
+  private assertPending(record: PlannedWorkflow) {
+    if (record.status !== PlannedWorkflowStatus.PENDING_APPROVAL) {
+      throw new ConflictException(
+        `Plan has already been reviewed (status: ${record.status})`,
+      );
+    }
+  }
+
+  // The stored context can hold whole uploaded files, so it is not echoed back
+  private toResponse(record: PlannedWorkflow) {
+    return {
+      planId: record.id,
+      status: record.status,
+      request: record.request,
+      sessionId: record.session?.id ?? null,
+      plan: record.plan,
+      result: record.result ?? null,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import {
+  DEFAULT_WORKFLOW_CONCURRENCY,
+  collectTaskReferences,
+  getWorkflowConcurrency,
+  runTaskGraph,
+  validateTaskGraph,
+} from './workflow-scheduler';
+
+const tick = () => new Promise((done) => setTimeout(done, 0));
+
+describe('runTaskGraph', () => {
+  it('starts a task only once all of its dependencies completed', async () => {
+    // 0 -> (1, 2) -> 3
+    const dependencies = [[], [0], [0], [1, 2]];
+    const log: string[] = [];
+
+    const outcomes = await runTaskGraph(
+      dependencies,
+      async (index) => {
+        log.push(`start ${index}`);
+        // Task 1 is the slow branch of the diamond
+        await tick();
+        if (index === 1) await tick();
+        log.push(`end ${index}`);
+      },
+      { concurrency: 3 },
+    );
+
+    expect(outcomes).toEqual([
+      'completed',
+      'completed',
+      'completed',
+      'completed',
+    ]);
+    expect(log.slice(0, 4)).toEqual(['start 0', 'end 0', 'start 1', 'start 2']);
+    expect(log.indexOf('start 3')).toBeGreaterThan(log.indexOf('end 1'));
+  });
+
+  it('never runs more tasks at once than the concurrency allows', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await runTaskGraph(
+      [[], [], [], [], []],
+      async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await tick();
+        running--;
+      },
+      { concurrency: 2 },
+    );
+
+    expect(peak).toBe(2);
+  });
+
+  it('skips everything downstream of a failure and keeps running the rest', async () => {
+    const ran: number[] = [];
+    const skipped: [number, number][] = [];
+
+    const outcomes = await runTaskGraph(
+      [[], [0], [1], []],
+      (index) => {
+        ran.push(index);
+        return index === 0
+          ? Promise.reject(new Error('boom'))
+          : Promise.resolve();
+      },
+      {
+        concurrency: 1,
+        onSkip: (index, failedDependency) =>
+          skipped.push([index, failedDependency]),
+      },
+    );
+
+    expect(outcomes).toEqual(['failed', 'skipped', 'skipped', 'completed']);
+    expect(ran).toEqual([0, 3]);
+    expect(skipped).toEqual([
+      [1, 0],
+      [2, 1],
+    ]);
+  });
+
+  it('does not run excluded tasks or their dependents', async () => {
+    const ran: number[] = [];
+    const excluded: number[] = [];
+
+    const outcomes = await runTaskGraph(
+      [[], [], [1]],
+      (index) => {
+        ran.push(index);
+        return Promise.resolve();
+      },
+      {
+        concurrency: 3,
+        excluded: [1],
+        onExclude: (index) => excluded.push(index),
+      },
+    );
+
+    expect(outcomes).toEqual(['completed', 'skipped', 'skipped']);
+    expect(ran).toEqual([0]);
+    expect(excluded).toEqual([1]);
+  });
+
+  it('resolves an empty graph', async () => {
+    await expect(
+      runTaskGraph([], () => Promise.resolve(), { concurrency: 1 }),
+    ).resolves.toEqual([]);
+  });
+});
+
+describe('validateTaskGraph', () => {
+  it('accepts a DAG', () => {
+    expect(validateTaskGraph([[], [0], [0, 1]])).toEqual([]);
+  });
+
+  it('reports missing and self references', () => {
+    expect(validateTaskGraph([[3], [1]])).toEqual([
+      'Task 0 depends on task 3, which does not exist',
+      'Task 1 depends on itself',
+    ]);
+  });
+
+  it('names the tasks of a cycle', () => {
+    expect(validateTaskGraph([[], [2], [3], [1]])).toEqual([
+      'Dependency cycle detected: 1 -> 2 -> 3 -> 1',
+    ]);
+  });
+});
+
+describe('collectTaskReferences', () => {
+  it('finds placeholders in nested strings, arrays and objects', () => {
+    expect(
+      collectTaskReferences({
+        recordIds: ['{{task.0.recordId}}', '{{task.2.recordId}}'],
+        options: { title: 'Report for {{task.0.filename}}' },
+        limit: 10,
+      }).sort(),
+    ).toEqual([0, 2]);
+    expect(collectTaskReferences({ filename: 'task.csv' })).toEqual([]);
+  });
+});
+
+describe('getWorkflowConcurrency', () => {
+  afterEach(() => {
+    delete process.env.WORKFLOW_CONCURRENCY;
+  });
+
+  it('reads WORKFLOW_CONCURRENCY and falls back on invalid values', () => {
+    process.env.WORKFLOW_CONCURRENCY = '5';
+    expect(getWorkflowConcurrency()).toBe(5);
+
+    process.env.WORKFLOW_CONCURRENCY = '0';
+    expect(getWorkflowConcurrency()).toBe(DEFAULT_WORKFLOW_CONCURRENCY);
+
+    process.env.WORKFLOW_CONCURRENCY = 'many';
+    expect(getWorkflowConcurrency()).toBe(DEFAULT_WORKFLOW_CONCURRENCY);
+  });
+});
@@ -0,0 +1,169 @@
+export type ScheduledTaskStatus = 'completed' | 'failed' | 'skipped';
+
+export interface ScheduleOptions {
+  // Maximum number of tasks running at the same time
+  concurrency: number;
+  // Called instead of running a task when one of its (transitive) dependencies failed
+  onSkip?: (index: number, failedDependency: number) => void;
+  // Tasks that must not run at all; their dependents are skipped as after a failure
+  excluded?: number[];
+  onExclude?: (index: number) => void;
+}
+
+const TASK_REFERENCE_PATTERN = /\{?\{?task\.(\d+)\.\w+\}?\}?/g;
+
+export const DEFAULT_WORKFLOW_CONCURRENCY = 3;
+
+export function getWorkflowConcurrency(): number {
+  const value = parseInt(process.env.WORKFLOW_CONCURRENCY || '', 10);
+  return Number.isNaN(value) || value < 1
+    ? DEFAULT_WORKFLOW_CONCURRENCY
+    : value;
+}
+
+// Task indices referenced through {{task.N.field}} placeholders anywhere in the params
+export function collectTaskReferences(params: any): number[] {
+  const references = new Set<number>();
+  const visit = (value: any) => {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(TASK_REFERENCE_PATTERN)) {
+        references.add(parseInt(match[1], 10));
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(params);
+  return [...references];
+}
+
+// Returns a list of problems with the graph: out-of-range or self references and cycles
+export function validateTaskGraph(dependencies: number[][]): string[] {
+  const errors: string[] = [];
+  const count = dependencies.length;
+
+  dependencies.forEach((deps, index) => {
+    for (const dep of deps) {
+      if (!Number.isInteger(dep) || dep < 0 || dep >= count) {
+        errors.push(
+          `Task ${index} depends on task ${dep}, which does not exist`,
+        );
+      } else if (dep === index) {
+        errors.push(`Task ${index} depends on itself`);
+      }
+    }
+  });
+
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  // Depth-first search; a back edge to a task still on the stack closes a cycle
+  const state: ('new' | 'visiting' | 'done')[] = new Array(count).fill('new');
+  const stack: number[] = [];
+
+  const visit = (index: number): boolean => {
+    state[index] = 'visiting';
+    stack.push(index);
+
+    for (const dep of dependencies[index]) {
+      if (state[dep] === 'visiting') {
+        const cycle = [...stack.slice(stack.indexOf(dep)), dep];
+        errors.push(`Dependency cycle detected: ${cycle.join(' -> ')}`);
+        return false;
+      }
+      if (state[dep] === 'new' && !visit(dep)) {
+        return false;
+      }
+    }
+
+    stack.pop();
+    state[index] = 'done';
+    return true;
+  };
+
+  for (let index = 0; index < count; index++) {
+    if (state[index] === 'new' && !visit(index)) {
+      break;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Runs a dependency graph of tasks, starting every task as soon as all of its dependencies
+ * completed, with at most `concurrency` tasks in flight. A task whose `run` rejects is failed,
+ * and every task depending on it (directly or transitively) is skipped, as are the dependents
+ * of `excluded` tasks.
+ * The graph must have been checked with validateTaskGraph first.
+ */
+export async function runTaskGraph(
+  dependencies: number[][],
+  run: (index: number) => Promise<void>,
+  options: ScheduleOptions,
+): Promise<ScheduledTaskStatus[]> {
+  const count = dependencies.length;
+  const outcomes: (ScheduledTaskStatus | undefined)[] = new Array(count).fill(
+    undefined,
+  );
+  const started = new Array<boolean>(count).fill(false);
+  const concurrency = Math.max(1, options.concurrency);
+  let running = 0;
+
+  for (const index of options.excluded || []) {
+    outcomes[index] = 'skipped';
+    options.onExclude?.(index);
+  }
+
+  return new Promise((resolve) => {
+    const settle = () => {
+      // Skip everything downstream of a failure until nothing changes
+      let changed = true;
+      while (changed) {
+        changed = false;
+        for (let index = 0; index < count; index++) {
+          if (started[index] || outcomes[index]) continue;
+          const failedDep = dependencies[index].find(
+            (dep) => outcomes[dep] === 'failed' || outcomes[dep] === 'skipped',
+          );
+          if (failedDep !== undefined) {
+            outcomes[index] = 'skipped';
+            options.onSkip?.(index, failedDep);
+            changed = true;
+          }
+        }
+      }
+
+      for (let index = 0; index < count && running < concurrency; index++) {
+        if (started[index] || outcomes[index]) continue;
+        if (!dependencies[index].every((dep) => outcomes[dep] === 'completed'))
+          continue;
+
+        started[index] = true;
+        running++;
+        run(index)
+          .then(
+            () => {
+              outcomes[index] = 'completed';
+            },
+            () => {
+              outcomes[index] = 'failed';
+            },
+          )
+          .finally(() => {
+            running--;
+            settle();
+          });
+      }
+
+      if (running === 0 && outcomes.every((outcome) => outcome !== undefined)) {
+        resolve(outcomes as ScheduledTaskStatus[]);
+      }
+    };
+
+    settle();
+  });
+}
@@ -12,6 +12,9 @@ import { AuthModule } from './modules/auth/auth.module';
 import { ChatModule } from './modules/chat/chat.module';
 import * as fs from 'fs';
 import { KnowledgeBaseModule } from './modules/knowledge-base/knowledge-base.module';
+import { ReportsModule } from './modules/reports/reports.module';
+import { UsersModule } from './modules/users/users.module';
+import { ApiKeysModule } from './modules/api-keys/api-keys.module';
 const host = process.env.DB_HOST;
 @Module({
   imports: [
@@ -19,6 +22,9 @@ const host = process.env.DB_HOST;
     ChatModule,
     UniAgentModule,
     KnowledgeBaseModule,
+    ReportsModule,
+    UsersModule,
+    ApiKeysModule,
     TypeOrmModule.forRoot({
       //Modify for production
       type: 'postgres',
@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './users.entity';
+
+export enum AccountTokenPurpose {
+  EMAIL_VERIFICATION = 'email_verification',
+  PASSWORD_RESET = 'password_reset',
+}
+
+// A single-use token emailed to a user to verify their address or reset their password, stored hashed
+@Entity('account_tokens')
+@Index(['user', 'purpose'])
+export class AccountToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ type: 'enum', enum: AccountTokenPurpose })
+  purpose: AccountTokenPurpose;
+
+  // SHA-256 of the token; the token itself is only ever in the email
+  @Column({ type: 'varchar', name: 'token_hash', length: 64, unique: true })
+  tokenHash: string;
+
+  @Column({ type: 'timestamp', name: 'expires_at' })
+  expiresAt: Date;
+
+  // Set when the token is used, or when a newer token for the same purpose replaces it
+  @Column({ type: 'timestamp', name: 'used_at', nullable: true })
+  usedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
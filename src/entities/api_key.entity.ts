@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './users.entity';
+
+// A personal API key for scripts, acting as its user within its scopes. Only its hash is stored.
+@Entity('api_keys')
+@Index(['user', 'createdAt'])
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  // The start of the key, shown in listings so the user can tell their keys apart
+  @Column({ type: 'varchar', length: 20 })
+  prefix: string;
+
+  // SHA-256 of the key
+  @Column({ type: 'varchar', name: 'key_hash', length: 64, unique: true })
+  keyHash: string;
+
+  // API key scopes (kb:read, reports:generate, ...), each granting one permission
+  @Column({ type: 'jsonb' })
+  scopes: string[];
+
+  // Null for keys that do not expire
+  @Column({ type: 'timestamp', name: 'expires_at', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'timestamp', name: 'last_used_at', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ type: 'timestamp', name: 'revoked_at', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
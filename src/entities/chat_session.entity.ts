@@ -27,6 +27,9 @@ export class ChatSession {
   @Column({ type: 'varchar', length: 50 })
   title: string;
 
+  @Column({ type: 'boolean', name: 'is_archived', default: false })
+  isArchived: boolean;
+
   @OneToMany(() => Message, (message) => message.session)
   messages: Message[];
 }
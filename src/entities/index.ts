@@ -2,3 +2,13 @@ export * from './users.entity';
 export * from './chat_session.entity';
 export * from './message.entity';
 export * from './knowledge_base.entity';
+export * from './planned_workflow.entity';
+export * from './job.entity';
+export * from './report.entity';
+export * from './validation_rule_set.entity';
+export * from './processing_run.entity';
+export * from './prompt_audit.entity';
+export * from './knowledge_base_share.entity';
+export * from './refresh_token.entity';
+export * from './account_token.entity';
+export * from './api_key.entity';
@@ -0,0 +1,83 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './users.entity';
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+// A long-running workflow queued for the in-process workers; the table doubles as the queue
+@Entity('jobs')
+@Index(['status', 'runAfter'])
+export class Job {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 50 })
+  type: string;
+
+  @Column({ type: 'jsonb' })
+  payload: any;
+
+  @Column({ type: 'enum', enum: JobStatus, default: JobStatus.QUEUED })
+  status: JobStatus;
+
+  @Column({ type: 'jsonb', nullable: true })
+  progress: any;
+
+  @Column({ type: 'jsonb', nullable: true })
+  result: any;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'int', name: 'max_attempts', default: 3 })
+  maxAttempts: number;
+
+  @Column({ type: 'int', name: 'timeout_ms' })
+  timeoutMs: number;
+
+  @Column({ type: 'boolean', name: 'cancel_requested', default: false })
+  cancelRequested: boolean;
+
+  @Column({
+    type: 'timestamp',
+    name: 'run_after',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  runAfter: Date;
+
+  @Column({ type: 'timestamp', name: 'locked_at', nullable: true })
+  lockedAt: Date | null;
+
+  @Column({ type: 'timestamp', name: 'started_at', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ type: 'timestamp', name: 'finished_at', nullable: true })
+  finishedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -1,4 +1,14 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { User } from './users.entity';
+import { KnowledgeBaseShare } from './knowledge_base_share.entity';
 
 @Entity('knowledge_base')
 export class KnowledgeBase {
@@ -14,18 +24,62 @@ export class KnowledgeBase {
   @Column({ type: 'varchar', length: 100, nullable: true })
   tags: string;
 
-  @Column({ type: 'text', nullable: true }) 
-  raw_content: string; 
-  
-  @Column({ type: 'text', nullable: true }) 
-  analysis_summary: string; 
-  
-  @Column({ type: 'varchar', length: 100, nullable: true }) 
-  filename: string; 
-  
-  @Column({ type: 'varchar', length: 20, nullable: true }) 
+  @Column({ type: 'text', nullable: true })
+  raw_content: string;
+
+  @Column({ type: 'text', nullable: true })
+  analysis_summary: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  filename: string;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
   file_type: string;
-  
+
+  // Cleaning pipeline steps that produced `content`, re-run on new versions of the file
+  @Column({ type: 'jsonb', nullable: true })
+  pipeline: any[] | null;
+
+  // Incremented each time a new version of the file is processed into this record
+  @Column({ type: 'int', default: 1 })
+  version: number;
+
+  // Delimiter, quote, header, number format and encoding detected in the uploaded file
+  @Column({ type: 'jsonb', nullable: true })
+  dialect: Record<string, any> | null;
+
+  // Inferred semantic type of each column, with any corrections made by users
+  @Column({ type: 'jsonb', nullable: true })
+  schema: { columns: any[]; rowCount: number } | null;
+
+  // Set on records built from other records (append, join, project): the operation, its options and the parents' ids and versions
+  @Column({ type: 'jsonb', nullable: true })
+  derived_from: {
+    operation: string;
+    parents: { id: string; version: number }[];
+    options: Record<string, any>;
+  } | null;
+
+  // Uploader of the record; null only for records stored before records had owners. Deleting a
+  // user hands their records to the deleting admin first, so the database refuses to orphan one.
+  @ManyToOne(() => User, { nullable: true, onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'owner_id' })
+  owner: User | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  owner_id: string | null;
+
+  // The owner's department when the record was stored
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  department: string | null;
+
+  // private (owner only), department or organization; shares grant access on top of it
+  @Column({ type: 'varchar', length: 20, default: 'private' })
+  visibility: string;
+
+  @OneToMany(() => KnowledgeBaseShare, (share) => share.record)
+  shares: KnowledgeBaseShare[];
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 }
@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './users.entity';
+import { KnowledgeBase } from './knowledge_base.entity';
+
+// Access to a record granted to one user or to everyone in a department, whatever its visibility
+@Entity('knowledge_base_shares')
+@Index(['record', 'user_id'], { unique: true, where: 'user_id IS NOT NULL' })
+@Index(['record', 'department'], {
+  unique: true,
+  where: 'department IS NOT NULL',
+})
+export class KnowledgeBaseShare {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => KnowledgeBase, (record) => record.shares, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'record_id' })
+  record: KnowledgeBase;
+
+  // Set for a share with one user; null for a department share
+  @ManyToOne(() => User, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  user_id: string | null;
+
+  // Set for a share with a department; null for a user share
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  department: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
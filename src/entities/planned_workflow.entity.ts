@@ -0,0 +1,59 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { User } from './users.entity';
+import { ChatSession } from './chat_session.entity';
+
+export enum PlannedWorkflowStatus {
+  PENDING_APPROVAL = 'pending_approval',
+  RUNNING = 'running',
+  EXECUTED = 'executed',
+  FAILED = 'failed',
+  REJECTED = 'rejected',
+}
+
+// A workflow plan produced in preview mode, kept until the user approves or rejects it
+@Entity('planned_workflows')
+export class PlannedWorkflow {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @ManyToOne(() => ChatSession, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'session_id' })
+  session: ChatSession | null;
+
+  @Column({ type: 'text' })
+  request: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  context: any;
+
+  @Column({ type: 'jsonb' })
+  plan: any;
+
+  @Column({
+    type: 'enum',
+    enum: PlannedWorkflowStatus,
+    default: PlannedWorkflowStatus.PENDING_APPROVAL,
+  })
+  status: PlannedWorkflowStatus;
+
+  @Column({ type: 'jsonb', nullable: true })
+  result: any;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
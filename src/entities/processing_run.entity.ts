@@ -0,0 +1,46 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { KnowledgeBase } from './knowledge_base.entity';
+
+// One run of the cleaning pipeline over a version of a record's file, with what each step changed
+@Entity('processing_runs')
+@Index(['record', 'version'], { unique: true })
+export class ProcessingRun {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => KnowledgeBase, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'record_id' })
+  record: KnowledgeBase;
+
+  @Column({ type: 'int' })
+  version: number;
+
+  @Column({ type: 'jsonb' })
+  pipeline: any[];
+
+  // Per-step row counts and change counts (ChangeLog.steps)
+  @Column({ type: 'jsonb' })
+  steps: any[];
+
+  // Cell-level changes (ChangeLog.changes), capped; see `truncated`
+  @Column({ type: 'jsonb' })
+  changes: any[];
+
+  @Column({ type: 'boolean', default: false })
+  truncated: boolean;
+
+  // Column profile of the version's processed data (DataProfile), computed on first request
+  @Column({ type: 'jsonb', nullable: true })
+  profile: Record<string, any> | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './users.entity';
+
+// One prompt sent to the LLM, with the personal data masked out of it and the policy applied
+@Entity('prompt_audits')
+@Index(['user', 'createdAt'])
+export class PromptAudit {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Kept when the user is deleted, as the audit trail must outlive the account
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'user_id' })
+  user: User | null;
+
+  // planner, data_analysis, summary, insights, reduce or query
+  @Column({ type: 'varchar', length: 50 })
+  chain: string;
+
+  // Records whose data went into the prompt
+  @Column({ type: 'jsonb', name: 'record_ids', default: () => "'[]'" })
+  recordIds: string[];
+
+  @Column({ type: 'varchar', name: 'model_provider', length: 50 })
+  modelProvider: string;
+
+  @Column({ type: 'varchar', name: 'model_name', length: 100 })
+  modelName: string;
+
+  // The viewer's role and department and the actions per PII type they resolved to
+  @Column({ type: 'jsonb' })
+  policy: Record<string, any>;
+
+  // MaskedField[]: field, PII type, action and count
+  @Column({ type: 'jsonb', name: 'masked_fields' })
+  maskedFields: any[];
+
+  @Column({ type: 'int', name: 'masked_values', default: 0 })
+  maskedValues: number;
+
+  // Characters sent, after masking
+  @Column({ type: 'int', name: 'prompt_length' })
+  promptLength: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
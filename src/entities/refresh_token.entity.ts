@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './users.entity';
+
+// A refresh token, stored hashed. Each refresh replaces it with a new one from the same family.
+@Entity('refresh_tokens')
+@Index(['family'])
+export class RefreshToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  // SHA-256 of the token; the token itself is only ever given to the client
+  @Column({ type: 'varchar', name: 'token_hash', length: 64, unique: true })
+  tokenHash: string;
+
+  // Shared by every token rotated from the same login, and carried as `sid` in its access tokens
+  @Column({ type: 'uuid' })
+  family: string;
+
+  @Column({ type: 'timestamp', name: 'expires_at' })
+  expiresAt: Date;
+
+  // Set once the token has been used or its family was logged out
+  @Column({ type: 'timestamp', name: 'revoked_at', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
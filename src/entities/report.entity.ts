@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { User } from './users.entity';
+import { KnowledgeBase } from './knowledge_base.entity';
+
+// A generated report, stored so it can be listed and exported again without calling the LLM
+@Entity('reports')
+export class Report {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User | null;
+
+  // Null for reports generated from direct data input, or once the record is deleted
+  @ManyToOne(() => KnowledgeBase, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'record_id' })
+  record: KnowledgeBase | null;
+
+  @Column({ type: 'varchar', length: 255 })
+  title: string;
+
+  @Column({ type: 'varchar', name: 'report_type', length: 50 })
+  reportType: string;
+
+  // The GeneratedReport as produced by UniAgentService.generateReport, with personal data
+  // still pseudonymized
+  @Column({ type: 'jsonb' })
+  content: any;
+
+  // Placeholder -> original value, so each viewer gets the values their PII policy reveals
+  @Column({ type: 'jsonb', nullable: true })
+  pseudonyms: Record<string, string> | null;
+
+  @Column({ type: 'varchar', name: 'model_provider', length: 50 })
+  modelProvider: string;
+
+  @Column({ type: 'varchar', name: 'model_name', length: 100 })
+  modelName: string;
+
+  @Column({ type: 'jsonb', name: 'prompt_versions' })
+  promptVersions: Record<string, string>;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -1,32 +1,44 @@
-import { Entity, PrimaryColumn, Column, CreateDateColumn, PrimaryGeneratedColumn } from "typeorm";
-import { OneToMany } from "typeorm";
-import { ChatSession } from "./chat_session.entity";
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { OneToMany } from 'typeorm';
+import { ChatSession } from './chat_session.entity';
 
 @Entity('users')
 export class User {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
 
-    @PrimaryGeneratedColumn('uuid')
-    id: string;
+  @OneToMany(() => ChatSession, (session) => session.user)
+  chatSessions: ChatSession[];
 
-    @OneToMany(() => ChatSession, (session) => session.user)
-    chatSessions: ChatSession[];
+  @Column({ length: 100 })
+  name: string;
 
-    @Column({ length: 100 })
-    name: string;
+  @Column()
+  password: string;
 
-    @Column()
-    password: string;
+  @Column({ length: 150, unique: true })
+  email: string;
 
-    @Column({ length: 150, unique: true })
-    email: string;
+  @Column({ length: 50, nullable: true })
+  role: string;
 
-    @Column({ length: 50, nullable: true })
-    role: string;
+  @Column({ length: 100, nullable: true })
+  department: string;
 
-    @Column({ length: 100, nullable: true })
-    department: string;
+  // Set once the user opens the link in their verification email
+  @Column({ default: false })
+  email_verified: boolean;
 
-    @CreateDateColumn()
-    created_at: Date;
+  // Disabled users cannot log in, and their tokens stop working at once
+  @Column({ default: true })
+  is_active: boolean;
 
-}
\ No newline at end of file
+  @CreateDateColumn()
+  created_at: Date;
+}
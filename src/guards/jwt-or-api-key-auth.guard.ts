@@ -0,0 +1,6 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+// Accepts a JWT ("Authorization: Bearer ...") or a personal API key ("Authorization: ApiKey ...")
+@Injectable()
+export class JwtOrApiKeyAuthGuard extends AuthGuard(['jwt', 'api-key']) {}
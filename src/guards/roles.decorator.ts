@@ -0,0 +1,17 @@
+import { SetMetadata, applyDecorators } from '@nestjs/common';
+import { PERMISSIONS } from '../modules/auth/roles';
+import type { Permission, Role } from '../modules/auth/roles';
+
+export const ROLES_KEY = 'roles';
+export const PERMISSION_KEY = 'permission';
+
+// Restricts a route (or every route of a controller) to the given roles; enforced by RolesGuard
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
+
+// Restricts a route to the roles the permission matrix grants the permission to, and to API keys
+// with a scope for it
+export const RequirePermission = (permission: Permission) =>
+  applyDecorators(
+    SetMetadata(PERMISSION_KEY, permission),
+    Roles(...PERMISSIONS[permission]),
+  );
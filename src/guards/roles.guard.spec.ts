@@ -0,0 +1,78 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RolesGuard } from './roles.guard';
+import { RequirePermission } from './roles.decorator';
+import { JobsController } from '../modules/jobs/jobs.controller';
+
+class ExampleController {
+  @RequirePermission('knowledge-base:read')
+  read() {}
+
+  @RequirePermission('knowledge-base:write')
+  write() {}
+
+  unguarded() {}
+}
+
+function contextFor(
+  controller: abstract new (...args: never[]) => object,
+  handler: string,
+  user: object,
+): ExecutionContext {
+  const prototype = controller.prototype as Record<string, () => void>;
+  return {
+    getHandler: () => prototype[handler],
+    getClass: () => controller,
+    switchToHttp: () => ({ getRequest: () => ({ user }) }),
+  } as unknown as ExecutionContext;
+}
+
+describe('RolesGuard', () => {
+  const guard = new RolesGuard(new Reflector());
+  const viewer = { userId: 'user-1', role: 'viewer' };
+  const analyst = { userId: 'user-2', role: 'analyst' };
+
+  it('allows the roles the permission matrix grants', () => {
+    expect(
+      guard.canActivate(contextFor(ExampleController, 'read', viewer)),
+    ).toBe(true);
+    expect(
+      guard.canActivate(contextFor(ExampleController, 'write', analyst)),
+    ).toBe(true);
+    expect(() =>
+      guard.canActivate(contextFor(ExampleController, 'write', viewer)),
+    ).toThrow('This action requires one of the roles: admin, analyst');
+  });
+
+  it('limits API keys to routes one of their scopes grants', () => {
+    const key = { ...analyst, apiKeyId: 'key-1', apiKeyScopes: ['kb:read'] };
+
+    expect(guard.canActivate(contextFor(ExampleController, 'read', key))).toBe(
+      true,
+    );
+    expect(() =>
+      guard.canActivate(contextFor(ExampleController, 'write', key)),
+    ).toThrow('This API key has no scope for knowledge-base:write');
+    expect(() =>
+      guard.canActivate(contextFor(ExampleController, 'unguarded', key)),
+    ).toThrow(ForbiddenException);
+    expect(
+      guard.canActivate(contextFor(ExampleController, 'unguarded', analyst)),
+    ).toBe(true);
+  });
+
+  it('keeps keys without a jobs scope away from job results', () => {
+    const readOnly = { ...viewer, apiKeyScopes: ['kb:read'] };
+    const poller = { ...viewer, apiKeyScopes: ['jobs:read'] };
+
+    expect(() =>
+      guard.canActivate(contextFor(JobsController, 'getJob', readOnly)),
+    ).toThrow('This API key has no scope for jobs:read');
+    expect(
+      guard.canActivate(contextFor(JobsController, 'getJob', poller)),
+    ).toBe(true);
+    expect(() =>
+      guard.canActivate(contextFor(JobsController, 'cancelJob', poller)),
+    ).toThrow('This API key has no scope for jobs:cancel');
+  });
+});
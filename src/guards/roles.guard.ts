@@ -0,0 +1,51 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PERMISSION_KEY, ROLES_KEY } from './roles.decorator';
+import { toRole } from '../modules/auth/roles';
+import type { Permission, Role } from '../modules/auth/roles';
+import { scopesGrant } from '../modules/api-keys/api-key-scopes';
+
+// Checks the role in the JWT against @Roles(); runs after JwtAuthGuard, which sets req.user.
+// Requests made with an API key also need a scope for the route's @RequirePermission(), so a key
+// cannot reach routes without one.
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    const roles = this.reflector.getAllAndOverride<Role[] | undefined>(
+      ROLES_KEY,
+      targets,
+    );
+    const permission = this.reflector.getAllAndOverride<Permission | undefined>(
+      PERMISSION_KEY,
+      targets,
+    );
+    const { user } = context.switchToHttp().getRequest();
+
+    if (roles && (!user || !roles.includes(toRole(user.role)))) {
+      throw new ForbiddenException(
+        `This action requires one of the roles: ${roles.join(', ')}`,
+      );
+    }
+    if (user?.apiKeyScopes) {
+      if (!permission) {
+        throw new ForbiddenException(
+          'This route cannot be used with an API key',
+        );
+      }
+      if (!scopesGrant(user.apiKeyScopes, permission)) {
+        throw new ForbiddenException(
+          `This API key has no scope for ${permission}`,
+        );
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,30 @@
+import type { Permission } from '../auth/roles';
+
+// What an API key may be used for, each scope granting the permission of the same routes.
+// Managing users is left to interactive logins.
+export const API_KEY_SCOPES = {
+  'kb:read': 'knowledge-base:read',
+  'kb:write': 'knowledge-base:write',
+  'kb:delete': 'knowledge-base:delete',
+  'workflows:run': 'workflows:run',
+  'reports:read': 'reports:read',
+  'reports:generate': 'reports:generate',
+  'reports:export': 'reports:export',
+  'jobs:read': 'jobs:read',
+  'jobs:cancel': 'jobs:cancel',
+} satisfies Record<string, Permission>;
+export type ApiKeyScope = keyof typeof API_KEY_SCOPES;
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && Object.hasOwn(API_KEY_SCOPES, value);
+}
+
+// Whether any of the scopes grants the permission
+export function scopesGrant(
+  scopes: readonly string[],
+  permission: Permission,
+): boolean {
+  return scopes.some(
+    (scope) => isApiKeyScope(scope) && API_KEY_SCOPES[scope] === permission,
+  );
+}
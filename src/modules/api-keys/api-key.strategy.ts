@@ -0,0 +1,18 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import type { Request } from 'express';
+import { ApiKeysService } from './api-keys.service';
+
+// Authenticates "Authorization: ApiKey <key>"; other requests are left to the JWT strategy
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(private readonly apiKeysService: ApiKeysService) {
+    super();
+  }
+
+  async validate(req: Request) {
+    const match = /^ApiKey\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+    return match ? this.apiKeysService.authenticate(match[1]) : null;
+  }
+}
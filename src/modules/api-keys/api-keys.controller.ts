@@ -0,0 +1,44 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../../guards/jwt-auth.guard';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto';
+
+// The user's own API keys; managed with a login, never with another key
+@Controller('api-keys')
+@UseGuards(JwtAuthGuard)
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  async createKey(@Body() createApiKeyDto: CreateApiKeyDto, @Request() req) {
+    return this.apiKeysService.createKey(req.user.userId, createApiKeyDto);
+  }
+
+  @Get()
+  async listKeys(
+    @Query('page') page: string,
+    @Query('limit') limit: string,
+    @Request() req,
+  ) {
+    return this.apiKeysService.listKeys(req.user.userId, {
+      page: page ? parseInt(page, 10) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+
+  @Delete(':id')
+  async revokeKey(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    return this.apiKeysService.revokeKey(req.user.userId, id);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PassportModule } from '@nestjs/passport';
+import { ApiKey } from '../../entities/api_key.entity';
+import { User } from '../../entities/users.entity';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeyStrategy } from './api-key.strategy';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ApiKey, User]), PassportModule],
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService, ApiKeyStrategy],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
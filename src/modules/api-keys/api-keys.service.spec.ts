@@ -0,0 +1,188 @@
+import { BadRequestException } from '@nestjs/common';
+import type { Request } from 'express';
+import { Repository } from 'typeorm';
+import { ApiKey } from '../../entities/api_key.entity';
+import { User } from '../../entities/users.entity';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeyStrategy } from './api-key.strategy';
+import type { ApiKeyScope } from './api-key-scopes';
+
+type TestUser = Pick<
+  User,
+  'id' | 'email' | 'role' | 'department' | 'is_active'
+>;
+
+// Just enough of the two repositories for the service, over an array of keys
+function createService(user: TestUser) {
+  const keys: ApiKey[] = [];
+  const apiKeyRepository = {
+    create: (values: Partial<ApiKey>) => ({ ...values }) as ApiKey,
+    save: (key: ApiKey) => {
+      const stored = keys.find((candidate) => candidate.id === key.id);
+      if (stored) {
+        Object.assign(stored, key);
+      } else {
+        Object.assign(key, {
+          id: `key-${keys.length + 1}`,
+          createdAt: new Date(),
+          lastUsedAt: null,
+          revokedAt: null,
+        });
+        keys.push(key);
+      }
+      return Promise.resolve(key);
+    },
+    findOne: ({
+      where,
+    }: {
+      where: { id?: string; keyHash?: string; user?: { id: string } };
+    }) => {
+      const key = keys.find((candidate) =>
+        where.keyHash
+          ? candidate.keyHash === where.keyHash && !candidate.revokedAt
+          : candidate.id === where.id && candidate.user.id === where.user?.id,
+      );
+      return Promise.resolve(key ? { ...key, user: user as User } : null);
+    },
+    update: (id: string, values: Partial<ApiKey>) =>
+      Promise.resolve(
+        Object.assign(keys.find((key) => key.id === id)!, values),
+      ),
+    findAndCount: () => Promise.resolve([keys, keys.length]),
+  };
+  const userRepository = {
+    findOne: ({ where }: { where: { id: string } }) =>
+      Promise.resolve(where.id === user.id ? user : null),
+  };
+  const service = new ApiKeysService(
+    apiKeyRepository as unknown as Repository<ApiKey>,
+    userRepository as unknown as Repository<User>,
+  );
+  return { service, keys };
+}
+
+describe('ApiKeysService', () => {
+  let user: TestUser;
+
+  beforeEach(() => {
+    user = {
+      id: 'user-1',
+      email: 'ana@example.com',
+      role: 'viewer',
+      department: 'Sales',
+      is_active: true,
+    };
+  });
+
+  it('returns the key once and stores only its hash', async () => {
+    const { service, keys } = createService(user);
+    const created = await service.createKey(user.id, {
+      name: ' nightly export ',
+      scopes: ['kb:read', 'kb:read', 'reports:read'],
+    });
+
+    expect(created.key).toMatch(/^cak_[\w-]{43}$/);
+    expect(created.name).toBe('nightly export');
+    expect(created.scopes).toEqual(['kb:read', 'reports:read']);
+    expect(created.prefix).toBe(created.key.substring(0, 12));
+    expect(keys[0].keyHash).toHaveLength(64);
+    expect(JSON.stringify(keys[0])).not.toContain(created.key);
+
+    const listed = await service.listKeys(user.id, {});
+    expect(listed.items[0]).not.toHaveProperty('key');
+    expect(listed.items[0]).not.toHaveProperty('keyHash');
+  });
+
+  it('refuses unknown scopes and scopes the role lacks', async () => {
+    const { service } = createService(user);
+
+    await expect(
+      service.createKey(user.id, {
+        name: 'etl',
+        scopes: ['kb:write', 'users:manage'] as ApiKeyScope[],
+      }),
+    ).rejects.toMatchObject({
+      response: {
+        errors: [
+          'Your role cannot grant the scope "kb:write"',
+          'Unknown scope "users:manage"',
+        ],
+      },
+    });
+    await expect(
+      service.createKey(user.id, { name: 'etl', scopes: [] }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.createKey(user.id, {
+        name: 'etl',
+        scopes: ['kb:read'],
+        expiresAt: '2000-01-01',
+      }),
+    ).rejects.toThrow('expiresAt must be a date in the future');
+  });
+
+  it('authenticates a key as its user with its scopes', async () => {
+    const { service, keys } = createService(user);
+    const { key } = await service.createKey(user.id, {
+      name: 'etl',
+      scopes: ['kb:read'],
+    });
+
+    await expect(service.authenticate(key)).resolves.toEqual({
+      userId: user.id,
+      email: user.email,
+      role: 'viewer',
+      department: 'Sales',
+      apiKeyId: keys[0].id,
+      apiKeyScopes: ['kb:read'],
+    });
+    expect(keys[0].lastUsedAt).toBeInstanceOf(Date);
+    await expect(service.authenticate(`${key}x`)).resolves.toBeNull();
+    await expect(service.authenticate('not-a-key')).resolves.toBeNull();
+  });
+
+  it('stops accepting revoked and expired keys and keys of disabled users', async () => {
+    const { service, keys } = createService(user);
+    const revoked = await service.createKey(user.id, {
+      name: 'revoked',
+      scopes: ['kb:read'],
+    });
+    const expiring = await service.createKey(user.id, {
+      name: 'expiring',
+      scopes: ['kb:read'],
+      expiresAt: new Date(Date.now() + 60000).toISOString(),
+    });
+
+    await service.revokeKey(user.id, revoked.id);
+    await expect(service.authenticate(revoked.key)).resolves.toBeNull();
+
+    keys[1].expiresAt = new Date(Date.now() - 1000);
+    await expect(service.authenticate(expiring.key)).resolves.toBeNull();
+
+    keys[1].expiresAt = null;
+    user.is_active = false;
+    await expect(service.authenticate(expiring.key)).resolves.toBeNull();
+  });
+});
+
+describe('ApiKeyStrategy', () => {
+  const request = (authorization?: string) =>
+    ({ headers: { authorization } }) as Request;
+
+  it('reads the key from an ApiKey authorization header only', async () => {
+    const authenticate = jest.fn().mockResolvedValue({ userId: 'user-1' });
+    const strategy = new ApiKeyStrategy({
+      authenticate,
+    } as unknown as ApiKeysService);
+
+    await expect(strategy.validate(request('ApiKey cak_abc'))).resolves.toEqual(
+      { userId: 'user-1' },
+    );
+    expect(authenticate).toHaveBeenCalledWith('cak_abc');
+
+    // Left to the JWT strategy
+    await expect(strategy.validate(request('Bearer abc'))).resolves.toBeNull();
+    await expect(strategy.validate(request())).resolves.toBeNull();
+    expect(authenticate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey } from '../../entities/api_key.entity';
+import { User } from '../../entities/users.entity';
+import { hasPermission, toRole } from '../auth/roles';
+import type { Role } from '../auth/roles';
+import { API_KEY_SCOPES, isApiKeyScope } from './api-key-scopes';
+import type { ApiKeyScope } from './api-key-scopes';
+import { CreateApiKeyDto } from './dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Every key starts with it, so leaked keys are easy to spot in logs and code
+const API_KEY_PREFIX = 'cak_';
+// Characters of the key kept in `prefix`
+const VISIBLE_KEY_LENGTH = 12;
+
+// req.user for a request authenticated with an API key
+export interface ApiKeyUser {
+  userId: string;
+  email: string;
+  role: Role;
+  department: string | null;
+  apiKeyId: string;
+  apiKeyScopes: ApiKeyScope[];
+}
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly apiKeyRepository: Repository<ApiKey>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  // The key itself is only in this response; it cannot be shown again
+  async createKey(userId: string, dto: CreateApiKeyDto) {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const name = typeof dto.name === 'string' ? dto.name.trim() : '';
+    if (!name || name.length > 100) {
+      throw new BadRequestException('name must be 1 to 100 characters long');
+    }
+    const scopes = this.parseScopes(dto.scopes, user.role);
+
+    let expiresAt: Date | null = null;
+    if (dto.expiresAt !== undefined && dto.expiresAt !== null) {
+      expiresAt = new Date(dto.expiresAt);
+      if (Number.isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+        throw new BadRequestException('expiresAt must be a date in the future');
+      }
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const saved = await this.apiKeyRepository.save(
+      this.apiKeyRepository.create({
+        user: { id: user.id },
+        name,
+        prefix: key.substring(0, VISIBLE_KEY_LENGTH),
+        keyHash: this.hashKey(key),
+        scopes,
+        expiresAt,
+      }),
+    );
+
+    return { ...this.toResponse(saved), key };
+  }
+
+  async listKeys(userId: string, options: { page?: number; limit?: number }) {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, options.limit || DEFAULT_PAGE_SIZE),
+    );
+
+    const [keys, total] = await this.apiKeyRepository.findAndCount({
+      where: { user: { id: userId } },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      items: keys.map((key) => this.toResponse(key)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  // Revoked keys stop working at once and stay listed
+  async revokeKey(userId: string, id: string) {
+    const key = await this.apiKeyRepository.findOne({
+      where: { id, user: { id: userId } },
+    });
+    if (!key) {
+      throw new NotFoundException(`API key ${id} not found`);
+    }
+    if (!key.revokedAt) {
+      key.revokedAt = new Date();
+      await this.apiKeyRepository.save(key);
+    }
+    return this.toResponse(key);
+  }
+
+  /**
+   * The user a key acts as, or null when the key is unknown, revoked or expired, or its user is
+   * disabled. The role is the user's current one, so a key never does more than its user can.
+   */
+  async authenticate(key: string): Promise<ApiKeyUser | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: { keyHash: this.hashKey(key), revokedAt: IsNull() },
+      relations: ['user'],
+    });
+    if (
+      !apiKey ||
+      (apiKey.expiresAt && apiKey.expiresAt <= new Date()) ||
+      !apiKey.user.is_active
+    ) {
+      return null;
+    }
+
+    await this.apiKeyRepository.update(apiKey.id, { lastUsedAt: new Date() });
+
+    return {
+      userId: apiKey.user.id,
+      email: apiKey.user.email,
+      role: toRole(apiKey.user.role),
+      department: apiKey.user.department || null,
+      apiKeyId: apiKey.id,
+      apiKeyScopes: apiKey.scopes.filter(isApiKeyScope),
+    };
+  }
+
+  // Known scopes, each granting a permission the user's role has
+  private parseScopes(scopes: unknown, role: string): ApiKeyScope[] {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      throw new BadRequestException(
+        `scopes must be a non-empty list of: ${Object.keys(API_KEY_SCOPES).join(', ')}`,
+      );
+    }
+
+    const errors: string[] = [];
+    for (const scope of scopes) {
+      if (!isApiKeyScope(scope)) {
+        errors.push(`Unknown scope "${String(scope)}"`);
+      } else if (!hasPermission(role, API_KEY_SCOPES[scope])) {
+        errors.push(`Your role cannot grant the scope "${scope}"`);
+      }
+    }
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid scopes', errors });
+    }
+    return [...new Set(scopes as ApiKeyScope[])];
+  }
+
+  // Keys are random, so a fast unsalted hash is enough to keep them out of the database
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  // Never the key or its hash
+  private toResponse(key: ApiKey) {
+    return {
+      id: key.id,
+      name: key.name,
+      prefix: key.prefix,
+      scopes: key.scopes,
+      expiresAt: key.expiresAt,
+      lastUsedAt: key.lastUsedAt,
+      revokedAt: key.revokedAt,
+      createdAt: key.createdAt,
+    };
+  }
+}
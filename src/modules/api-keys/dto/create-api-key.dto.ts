@@ -0,0 +1,30 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { API_KEY_SCOPES } from '../api-key-scopes';
+import type { ApiKeyScope } from '../api-key-scopes';
+
+export class CreateApiKeyDto {
+  // What the key is for, e.g. "nightly ETL"
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(Object.keys(API_KEY_SCOPES), { each: true })
+  scopes: ApiKeyScope[];
+
+  // ISO date; the key never expires without one
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
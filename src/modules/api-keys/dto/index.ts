@@ -0,0 +1 @@
+export * from './create-api-key.dto';
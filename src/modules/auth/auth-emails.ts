@@ -0,0 +1,39 @@
+import type { MailMessage } from '../mail/mail.transport';
+
+type AuthEmail = Omit<MailMessage, 'to'>;
+
+export function emailVerificationEmail(
+  name: string,
+  link: string,
+  ttlHours: number,
+): AuthEmail {
+  return {
+    subject: 'Verify your email address',
+    text: [
+      `Hi ${name},`,
+      '',
+      'Open this link to verify your email address:',
+      link,
+      '',
+      `The link works once and expires in ${ttlHours} hours.`,
+    ].join('\n'),
+  };
+}
+
+export function passwordResetEmail(
+  name: string,
+  link: string,
+  ttlMinutes: number,
+): AuthEmail {
+  return {
+    subject: 'Reset your password',
+    text: [
+      `Hi ${name},`,
+      '',
+      'Open this link to choose a new password:',
+      link,
+      '',
+      `The link works once and expires in ${ttlMinutes} minutes. If you did not ask to reset your password, ignore this email.`,
+    ].join('\n'),
+  };
+}
@@ -1,19 +1,28 @@
 import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
+import type { JwtSignOptions } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { JwtStrategy } from './jwt.strategy';
 import { User } from '../../entities/users.entity';
+import { RefreshToken } from '../../entities/refresh_token.entity';
+import { AccountToken } from '../../entities/account_token.entity';
+import { MailModule } from '../mail/mail.module';
+
+// Short-lived; clients renew their access token with their refresh token
+const ACCESS_TOKEN_TTL = (process.env.JWT_EXPIRES_IN ||
+  '1h') as JwtSignOptions['expiresIn'];
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([User, RefreshToken, AccountToken]),
     PassportModule,
+    MailModule,
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'your-secret-key',
-      signOptions: { expiresIn: '1h' },
+      signOptions: { expiresIn: ACCESS_TOKEN_TTL },
     }),
   ],
   controllers: [AuthController],
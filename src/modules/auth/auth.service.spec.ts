@@ -0,0 +1,391 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import * as bcrypt from 'bcrypt';
+import { FindOperator, Repository } from 'typeorm';
+import { AccountToken } from '../../entities/account_token.entity';
+import { RefreshToken } from '../../entities/refresh_token.entity';
+import { User } from '../../entities/users.entity';
+import { MailService } from '../mail/mail.service';
+import { AccessTokenPayload, AuthService } from './auth.service';
+
+type Row = Record<string, unknown>;
+
+// Equality, nested relations and the few operators the service filters refresh tokens with
+function matches(row: Row, where: Row): boolean {
+  return Object.entries(where).every(([key, expected]) => {
+    const actual = row[key];
+    if (expected instanceof FindOperator) {
+      const operand = expected.value as unknown;
+      switch (expected.type) {
+        case 'isNull':
+          return actual === null || actual === undefined;
+        case 'not':
+          return actual !== operand;
+        case 'moreThan':
+          return (actual as Date) > (operand as Date);
+        default:
+          throw new Error(`Unsupported operator ${expected.type}`);
+      }
+    }
+    if (expected && typeof expected === 'object') {
+      return matches((actual ?? {}) as Row, expected as Row);
+    }
+    return actual === expected;
+  });
+}
+
+// Rows matching a where clause, for the repositories below
+function rows<T>(store: T[], where: Row): T[] {
+  return store.filter((item) => matches(item as unknown as Row, where));
+}
+
+function createAuth(user: User) {
+  const users = [user];
+  const tokens: RefreshToken[] = [];
+  const accountTokens: AccountToken[] = [];
+  // Tokens of the links sent by email, by path
+  const links: { path: string; token: string }[] = [];
+  const withUser = <T extends { user: User }>(token: T) => ({
+    ...token,
+    user: users.find((candidate) => candidate.id === token.user.id)!,
+  });
+  const markRows = <T>(store: T[]) => ({
+    update: (where: Row, values: Partial<T>) => {
+      const matched = rows(store, where);
+      matched.forEach((item) => Object.assign(item as object, values));
+      return Promise.resolve({ affected: matched.length });
+    },
+  });
+
+  const refreshTokenRepository = {
+    ...markRows(tokens),
+    create: (values: Partial<RefreshToken>) => values as RefreshToken,
+    save: (token: RefreshToken) => {
+      tokens.push({
+        ...token,
+        id: `token-${tokens.length + 1}`,
+        revokedAt: null,
+      });
+      return Promise.resolve(token);
+    },
+    findOne: ({ where }: { where: Row }) => {
+      const token = rows(tokens, where)[0];
+      return Promise.resolve(token ? withUser(token) : null);
+    },
+    exists: ({ where }: { where: Row }) =>
+      Promise.resolve(rows(tokens, where).length > 0),
+  };
+  const accountTokenRepository = {
+    ...markRows(accountTokens),
+    create: (values: Partial<AccountToken>) => values as AccountToken,
+    save: (token: AccountToken) => {
+      accountTokens.push({
+        ...token,
+        id: `account-token-${accountTokens.length + 1}`,
+        usedAt: null,
+      });
+      return Promise.resolve(token);
+    },
+    findOne: ({ where }: { where: Row }) => {
+      const token = rows(accountTokens, where)[0];
+      return Promise.resolve(token ? withUser(token) : null);
+    },
+  };
+  const userRepository = {
+    findOne: ({ where }: { where: Row }) =>
+      Promise.resolve(rows(users, where)[0] ?? null),
+    create: (values: Partial<User>) => values as User,
+    save: (created: User) => {
+      users.push(
+        Object.assign(created, {
+          id: `user-${users.length + 1}`,
+          department: null,
+          is_active: true,
+          email_verified: false,
+        }),
+      );
+      return Promise.resolve(created);
+    },
+    update: (id: string, values: Partial<User>) =>
+      Promise.resolve(
+        Object.assign(users.find((candidate) => candidate.id === id)!, values),
+      ),
+  };
+  const mailService = {
+    link: (path: string, query: { token: string }) => {
+      links.push({ path, token: query.token });
+      return `https://app.example.com${path}`;
+    },
+    send: () => Promise.resolve(),
+  };
+  const jwtService = new JwtService({ secret: 'test-secret' });
+
+  const auth = new AuthService(
+    userRepository as unknown as Repository<User>,
+    refreshTokenRepository as unknown as Repository<RefreshToken>,
+    accountTokenRepository as unknown as Repository<AccountToken>,
+    jwtService,
+    mailService as unknown as MailService,
+  );
+  const sessionOf = (accessToken: string) =>
+    jwtService.verify<AccessTokenPayload>(accessToken);
+  const lastLink = (path: string) =>
+    links.filter((link) => link.path === path).pop()!.token;
+  return { auth, users, tokens, accountTokens, sessionOf, lastLink };
+}
+
+describe('AuthService refresh tokens', () => {
+  let user: User;
+
+  beforeEach(() => {
+    user = {
+      id: 'user-1',
+      name: 'Ana',
+      email: 'ana@example.com',
+      password: bcrypt.hashSync('correct horse', 4),
+      role: 'analyst',
+      department: 'Sales',
+      is_active: true,
+      email_verified: true,
+    } as User;
+  });
+
+  it('rotates the refresh token within the session of the login', async () => {
+    const { auth, tokens, sessionOf } = createAuth(user);
+    const login = await auth.login({
+      email: user.email,
+      password: 'correct horse',
+    });
+
+    const refreshed = await auth.refresh(login.refresh_token);
+    const session = sessionOf(refreshed.access_token);
+
+    expect(refreshed.refresh_token).not.toBe(login.refresh_token);
+    expect(session.sid).toBe(sessionOf(login.access_token).sid);
+    expect(tokens.map((token) => token.revokedAt !== null)).toEqual([
+      true,
+      false,
+    ]);
+    expect(tokens[0].tokenHash).not.toBe(login.refresh_token);
+    await expect(auth.findSessionUser(session)).resolves.toBeTruthy();
+  });
+
+  it('revokes the whole family when a used refresh token comes back', async () => {
+    const { auth, sessionOf } = createAuth(user);
+    const stolen = await auth.login({
+      email: user.email,
+      password: 'correct horse',
+    });
+    const otherDevice = await auth.login({
+      email: user.email,
+      password: 'correct horse',
+    });
+    const rotated = await auth.refresh(stolen.refresh_token);
+
+    await expect(auth.refresh(stolen.refresh_token)).rejects.toThrow(
+      'Refresh token has been used or revoked; log in again',
+    );
+    await expect(auth.refresh(rotated.refresh_token)).rejects.toThrow(
+      UnauthorizedException,
+    );
+    await expect(
+      auth.findSessionUser(sessionOf(rotated.access_token)),
+    ).resolves.toBeNull();
+
+    // Other logins are separate families
+    await expect(
+      auth.findSessionUser(sessionOf(otherDevice.access_token)),
+    ).resolves.toBeTruthy();
+  });
+
+  it('refuses expired tokens and tokens of disabled users', async () => {
+    const { auth, tokens } = createAuth(user);
+    const first = await auth.login({
+      email: user.email,
+      password: 'correct horse',
+    });
+    const second = await auth.login({
+      email: user.email,
+      password: 'correct horse',
+    });
+
+    tokens[0].expiresAt = new Date(Date.now() - 1000);
+    await expect(auth.refresh(first.refresh_token)).rejects.toThrow(
+      'Refresh token has expired',
+    );
+
+    user.is_active = false;
+    await expect(auth.refresh(second.refresh_token)).rejects.toThrow(
+      'This account is disabled',
+    );
+    await expect(auth.refresh('made-up')).rejects.toThrow(
+      'Invalid refresh token',
+    );
+  });
+
+  it('ends the other sessions when the password changes', async () => {
+    const { auth, sessionOf } = createAuth(user);
+    const current = await auth.login({
+      email: user.email,
+      password: 'correct horse',
+    });
+    const other = await auth.login({
+      email: user.email,
+      password: 'correct horse',
+    });
+    const currentSession = sessionOf(current.access_token);
+
+    await auth.changePassword(
+      user.id,
+      currentSession.sid,
+      'correct horse',
+      'battery staple',
+    );
+
+    await expect(auth.findSessionUser(currentSession)).resolves.toBeTruthy();
+    await expect(
+      auth.findSessionUser(sessionOf(other.access_token)),
+    ).resolves.toBeNull();
+    await expect(auth.refresh(other.refresh_token)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('reads the role and department of the session from the user, not the token', async () => {
+    const { auth, users, sessionOf } = createAuth({
+      ...user,
+      role: 'admin',
+    } as User);
+    const login = await auth.login({
+      email: user.email,
+      password: 'correct horse',
+    });
+    const session = sessionOf(login.access_token);
+
+    await expect(auth.findSessionUser(session)).resolves.toMatchObject({
+      role: 'admin',
+    });
+    // Demoted and moved by an admin while the access token is still valid
+    Object.assign(users[0], { role: 'viewer', department: 'HR' });
+    expect(session.role).toBe('admin');
+    await expect(auth.findSessionUser(session)).resolves.toMatchObject({
+      role: 'viewer',
+      department: 'HR',
+    });
+  });
+
+  it('logs out only the session of the token', async () => {
+    const { auth, sessionOf } = createAuth(user);
+    const first = await auth.login({
+      email: user.email,
+      password: 'correct horse',
+    });
+    const second = await auth.login({
+      email: user.email,
+      password: 'correct horse',
+    });
+
+    await expect(auth.logout(first.refresh_token)).resolves.toEqual({
+      success: true,
+    });
+    await expect(auth.logout('unknown')).resolves.toEqual({ success: true });
+
+    await expect(
+      auth.findSessionUser(sessionOf(first.access_token)),
+    ).resolves.toBeNull();
+    await expect(
+      auth.findSessionUser(sessionOf(second.access_token)),
+    ).resolves.toBeTruthy();
+  });
+});
+
+describe('AuthService registration', () => {
+  afterEach(() => {
+    delete process.env.ADMIN_EMAILS;
+  });
+
+  it('makes an ADMIN_EMAILS address an admin only once it is verified', async () => {
+    process.env.ADMIN_EMAILS = 'boss@example.com';
+    const { auth, users, lastLink } = createAuth({
+      id: 'user-1',
+      email: 'someone@example.com',
+    } as User);
+
+    const registered = await auth.register({
+      name: 'Boss',
+      email: 'boss@example.com',
+      password: 'correct horse',
+    });
+    expect(registered.user.role).toBe('analyst');
+    expect(users[1].role).toBe('analyst');
+
+    await auth.verifyEmail(lastLink('/verify-email'));
+    expect(users[1]).toMatchObject({ role: 'admin', email_verified: true });
+  });
+});
+
+describe('AuthService account links', () => {
+  let user: User;
+
+  beforeEach(() => {
+    user = {
+      id: 'user-1',
+      name: 'Ana',
+      email: 'ana@example.com',
+      password: bcrypt.hashSync('correct horse', 4),
+      role: 'analyst',
+      department: 'Sales',
+      is_active: true,
+      email_verified: false,
+    } as User;
+  });
+
+  it('verifies the address once per link, and only with the latest link', async () => {
+    const { auth, lastLink } = createAuth(user);
+    await auth.resendEmailVerification(user.email);
+    const first = lastLink('/verify-email');
+    await auth.resendEmailVerification(user.email);
+    const latest = lastLink('/verify-email');
+
+    await expect(auth.verifyEmail(first)).rejects.toThrow(
+      'This link is invalid or has expired',
+    );
+    await expect(auth.verifyEmail(latest)).resolves.toEqual({ success: true });
+    expect(user.email_verified).toBe(true);
+    await expect(auth.verifyEmail(latest)).rejects.toThrow(
+      'This link is invalid or has expired',
+    );
+  });
+
+  it('resets the password once, before the link expires, and ends every session', async () => {
+    const { auth, accountTokens, sessionOf, lastLink } = createAuth(user);
+    const login = await auth.login({
+      email: user.email,
+      password: 'correct horse',
+    });
+
+    await auth.forgotPassword(user.email);
+    accountTokens[0].expiresAt = new Date(Date.now() - 1000);
+    await expect(
+      auth.resetPassword(lastLink('/reset-password'), 'battery staple'),
+    ).rejects.toThrow('This link is invalid or has expired');
+
+    await auth.forgotPassword(user.email);
+    const token = lastLink('/reset-password');
+    await expect(auth.verifyEmail(token)).rejects.toThrow(
+      'This link is invalid or has expired',
+    );
+    await expect(auth.resetPassword(token, 'battery staple')).resolves.toEqual({
+      success: true,
+    });
+    await expect(auth.resetPassword(token, 'another one')).rejects.toThrow(
+      'This link is invalid or has expired',
+    );
+
+    expect(bcrypt.compareSync('battery staple', user.password)).toBe(true);
+    expect(user.email_verified).toBe(true);
+    await expect(
+      auth.findSessionUser(sessionOf(login.access_token)),
+    ).resolves.toBeNull();
+  });
+});
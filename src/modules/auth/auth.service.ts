@@ -1,24 +1,81 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, MoreThan, Not, Repository } from 'typeorm';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes, randomUUID } from 'crypto';
 import { User } from '../../entities/users.entity';
+import { RefreshToken } from '../../entities/refresh_token.entity';
+import {
+  AccountToken,
+  AccountTokenPurpose,
+} from '../../entities/account_token.entity';
 import { LoginDto, RegisterDto } from '../../modules/auth/dto';
+import { getDefaultRole, isAdminEmail, toRole } from './roles';
+import { MailService } from '../mail/mail.service';
+import type { MailMessage } from '../mail/mail.transport';
+import { emailVerificationEmail, passwordResetEmail } from './auth-emails';
+
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+const DEFAULT_EMAIL_VERIFICATION_TTL_HOURS = 48;
+const DEFAULT_PASSWORD_RESET_TTL_MINUTES = 60;
+const MIN_PASSWORD_LENGTH = 6;
+
+// Days a refresh token can be used; each refresh issues a new one with a new lifetime
+export function getRefreshTokenTtlDays(): number {
+  const days = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '', 10);
+  return days > 0 ? days : DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+}
+
+export function getEmailVerificationTtlHours(): number {
+  const hours = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '', 10);
+  return hours > 0 ? hours : DEFAULT_EMAIL_VERIFICATION_TTL_HOURS;
+}
+
+export function getPasswordResetTtlMinutes(): number {
+  const minutes = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '', 10);
+  return minutes > 0 ? minutes : DEFAULT_PASSWORD_RESET_TTL_MINUTES;
+}
+
+// With REQUIRE_EMAIL_VERIFICATION=true, users cannot log in until they verify their email address
+export function isEmailVerificationRequired(): boolean {
+  return process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+}
+
+// The claims JwtStrategy gets from a verified access token
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  role: string;
+  department: string | null;
+  // Family of the refresh token issued with it
+  sid?: string;
+}
 
 @Injectable()
 export class AuthService {
   constructor(
     @InjectRepository(User)
     private userRepository: Repository<User>,
+    @InjectRepository(RefreshToken)
+    private refreshTokenRepository: Repository<RefreshToken>,
+    @InjectRepository(AccountToken)
+    private accountTokenRepository: Repository<AccountToken>,
     private jwtService: JwtService,
+    private mailService: MailService,
   ) {}
 
   async register(registerDto: RegisterDto) {
-    const { name, email, password, role, department } = registerDto;
+    const { name, email, password } = registerDto;
 
     // Check if user already exists
-    const existingUser = await this.userRepository.findOne({ where: { email } });
+    const existingUser = await this.userRepository.findOne({
+      where: { email },
+    });
     if (existingUser) {
       throw new UnauthorizedException('User with this email already exists');
     }
@@ -26,31 +83,32 @@ export class AuthService {
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 10);
 
-    // Create user
+    // Create user; the role is decided here and the department by an admin, never by the client.
+    // ADMIN_EMAILS only make an admin once the address is verified, so claiming one is not enough.
     const user = this.userRepository.create({
       name,
       email,
       password: hashedPassword,
-      role: role || 'user',
-      department,
+      role: getDefaultRole(),
     });
 
     const savedUser = await this.userRepository.save(user);
+    await this.sendEmailVerification(savedUser);
 
-    // Generate JWT token
-    const payload = { sub: savedUser.id, email: savedUser.email };
-    const token = this.jwtService.sign(payload);
-
-    return {
-      access_token: token,
+    const response = {
       user: {
         id: savedUser.id,
         name: savedUser.name,
         email: savedUser.email,
-        role: savedUser.role,
+        role: toRole(savedUser.role),
         department: savedUser.department,
+        emailVerified: savedUser.email_verified,
       },
     };
+    // Tokens wait for the verification when it is required to log in
+    return isEmailVerificationRequired()
+      ? response
+      : { ...(await this.issueTokens(savedUser)), ...response };
   }
 
   async login(loginDto: LoginDto) {
@@ -67,21 +125,350 @@ export class AuthService {
     if (!isPasswordValid) {
       throw new UnauthorizedException('Invalid credentials');
     }
-
-    // Generate JWT token
-    const payload = { sub: user.id, email: user.email };
-    const token = this.jwtService.sign(payload);
+    if (!user.is_active) {
+      throw new UnauthorizedException('This account is disabled');
+    }
+    if (isEmailVerificationRequired() && !user.email_verified) {
+      throw new UnauthorizedException(
+        'Verify your email address before logging in',
+      );
+    }
 
     return {
-      access_token: token,
+      ...(await this.issueTokens(user)),
       user: {
         id: user.id,
         name: user.name,
         email: user.email,
-        role: user.role,
+        role: toRole(user.role),
         department: user.department,
+        emailVerified: user.email_verified,
+      },
+    };
+  }
+
+  // ===== EMAIL VERIFICATION AND PASSWORDS =====
+
+  async verifyEmail(token: string) {
+    const user = await this.consumeAccountToken(
+      token,
+      AccountTokenPurpose.EMAIL_VERIFICATION,
+    );
+    await this.userRepository.update(user.id, this.verifiedEmailUpdate(user));
+    return { success: true };
+  }
+
+  // Always succeeds, so the response does not tell whether the email is registered
+  async resendEmailVerification(email: string) {
+    const user = email
+      ? await this.userRepository.findOne({ where: { email } })
+      : null;
+    if (user && !user.email_verified) {
+      await this.sendEmailVerification(user);
+    }
+    return { success: true };
+  }
+
+  // Always succeeds, so the response does not tell whether the email is registered
+  async forgotPassword(email: string) {
+    const user = email
+      ? await this.userRepository.findOne({ where: { email } })
+      : null;
+    if (user?.is_active) {
+      const ttlMinutes = getPasswordResetTtlMinutes();
+      const token = await this.createAccountToken(
+        user,
+        AccountTokenPurpose.PASSWORD_RESET,
+        ttlMinutes * 60 * 1000,
+      );
+      await this.sendMail({
+        to: user.email,
+        ...passwordResetEmail(
+          user.name,
+          this.mailService.link('/reset-password', { token }),
+          ttlMinutes,
+        ),
+      });
+    }
+    return { success: true };
+  }
+
+  // Sets a new password from a reset link and ends every session, in case the account was taken over
+  async resetPassword(token: string, password: string) {
+    this.assertPasswordStrength(password);
+    const user = await this.consumeAccountToken(
+      token,
+      AccountTokenPurpose.PASSWORD_RESET,
+    );
+
+    // The link arrived in the user's inbox, which verifies the address too
+    await this.userRepository.update(user.id, {
+      password: await bcrypt.hash(password, 10),
+      ...this.verifiedEmailUpdate(user),
+    });
+    await this.revokeAllSessions(user.id);
+    return { success: true };
+  }
+
+  // Changes the password of a logged-in user and ends their other sessions
+  async changePassword(
+    userId: string,
+    sessionId: string | undefined,
+    currentPassword: string,
+    newPassword: string,
+  ) {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (
+      !user ||
+      !currentPassword ||
+      !(await bcrypt.compare(currentPassword, user.password))
+    ) {
+      throw new UnauthorizedException('Current password is incorrect');
+    }
+    this.assertPasswordStrength(newPassword);
+
+    await this.userRepository.update(user.id, {
+      password: await bcrypt.hash(newPassword, 10),
+    });
+    await this.refreshTokenRepository.update(
+      {
+        user: { id: user.id },
+        revokedAt: IsNull(),
+        ...(sessionId ? { family: Not(sessionId) } : {}),
+      },
+      { revokedAt: new Date() },
+    );
+    return { success: true };
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token and refresh token. Each refresh token works
+   * once: presenting one that was already used means it was stolen (or the client replayed it),
+   * so the whole family is revoked and its user has to log in again.
+   */
+  async refresh(refreshToken: string) {
+    const token = refreshToken
+      ? await this.refreshTokenRepository.findOne({
+          where: { tokenHash: this.hashToken(refreshToken) },
+          relations: ['user'],
+        })
+      : null;
+    if (!token) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    // Claimed atomically, so two refreshes with the same token cannot both succeed
+    const claimed = token.revokedAt
+      ? { affected: 0 }
+      : await this.refreshTokenRepository.update(
+          { id: token.id, revokedAt: IsNull() },
+          { revokedAt: new Date() },
+        );
+    if (claimed.affected === 0) {
+      await this.revokeFamily(token.family);
+      throw new UnauthorizedException(
+        'Refresh token has been used or revoked; log in again',
+      );
+    }
+    if (token.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Refresh token has expired');
+    }
+    if (!token.user.is_active) {
+      throw new UnauthorizedException('This account is disabled');
+    }
+
+    return this.issueTokens(token.user, token.family);
+  }
+
+  // Ends the session of a refresh token; unknown tokens are ignored so logout always succeeds
+  async logout(refreshToken: string) {
+    const token = refreshToken
+      ? await this.refreshTokenRepository.findOne({
+          where: { tokenHash: this.hashToken(refreshToken) },
+        })
+      : null;
+    if (token) {
+      await this.revokeFamily(token.family);
+    }
+    return { success: true };
+  }
+
+  // Ends every session of the user, on every device
+  async logoutAll(userId: string) {
+    await this.revokeAllSessions(userId);
+    return { success: true };
+  }
+
+  async revokeAllSessions(userId: string) {
+    await this.refreshTokenRepository.update(
+      { user: { id: userId }, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+  }
+
+  /**
+   * Checked on every authenticated request, so logging out and disabling a user take effect at
+   * once rather than when the access token expires. The token's session must still have a live
+   * refresh token; tokens without a session predate refresh tokens and are no longer accepted.
+   * Returns the user, whose current role and department count rather than those in the token.
+   */
+  async findSessionUser(payload: AccessTokenPayload): Promise<User | null> {
+    if (!payload.sid) {
+      return null;
+    }
+    const user = await this.userRepository.findOne({
+      where: { id: payload.sub },
+      select: ['id', 'email', 'role', 'department', 'is_active'],
+    });
+    if (!user?.is_active) {
+      return null;
+    }
+    const live = await this.refreshTokenRepository.exists({
+      where: {
+        user: { id: user.id },
+        family: payload.sid,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
       },
+    });
+    return live ? user : null;
+  }
+
+  // An access token and a refresh token; a new login starts a new family
+  private async issueTokens(user: User, family: string = randomUUID()) {
+    const refreshToken = randomBytes(48).toString('base64url');
+    const expiresAt = new Date(
+      Date.now() + getRefreshTokenTtlDays() * 24 * 60 * 60 * 1000,
+    );
+    await this.refreshTokenRepository.save(
+      this.refreshTokenRepository.create({
+        user: { id: user.id },
+        tokenHash: this.hashToken(refreshToken),
+        family,
+        expiresAt,
+      }),
+    );
+
+    return {
+      access_token: this.signToken(user, family),
+      refresh_token: refreshToken,
+      refresh_token_expires_at: expiresAt,
+    };
+  }
+
+  private async revokeFamily(family: string) {
+    await this.refreshTokenRepository.update(
+      { family, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+  }
+
+  private async sendEmailVerification(user: User) {
+    const ttlHours = getEmailVerificationTtlHours();
+    const token = await this.createAccountToken(
+      user,
+      AccountTokenPurpose.EMAIL_VERIFICATION,
+      ttlHours * 60 * 60 * 1000,
+    );
+    await this.sendMail({
+      to: user.email,
+      ...emailVerificationEmail(
+        user.name,
+        this.mailService.link('/verify-email', { token }),
+        ttlHours,
+      ),
+    });
+  }
+
+  // A failed email is logged rather than failing the request, which would tell whether the email is registered
+  private async sendMail(message: MailMessage) {
+    try {
+      await this.mailService.send(message);
+    } catch (error) {
+      console.error(`Failed to send "${message.subject}" email:`, error);
+    }
+  }
+
+  // Only the newest token of a purpose works: asking for another link disables the earlier ones
+  private async createAccountToken(
+    user: User,
+    purpose: AccountTokenPurpose,
+    ttlMs: number,
+  ): Promise<string> {
+    await this.accountTokenRepository.update(
+      { user: { id: user.id }, purpose, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    const token = randomBytes(32).toString('base64url');
+    await this.accountTokenRepository.save(
+      this.accountTokenRepository.create({
+        user: { id: user.id },
+        purpose,
+        tokenHash: this.hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMs),
+      }),
+    );
+    return token;
+  }
+
+  // The token's user, once; claimed atomically so a link cannot be used twice at the same time
+  private async consumeAccountToken(
+    token: string,
+    purpose: AccountTokenPurpose,
+  ): Promise<User> {
+    const record = token
+      ? await this.accountTokenRepository.findOne({
+          where: { tokenHash: this.hashToken(token), purpose },
+          relations: ['user'],
+        })
+      : null;
+    if (!record || record.usedAt || record.expiresAt <= new Date()) {
+      throw new BadRequestException('This link is invalid or has expired');
+    }
+
+    const claimed = await this.accountTokenRepository.update(
+      { id: record.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (claimed.affected === 0) {
+      throw new BadRequestException('This link is invalid or has expired');
+    }
+    return record.user;
+  }
+
+  // Marks the address verified; an address in ADMIN_EMAILS gets the admin role with it
+  private verifiedEmailUpdate(user: User): Partial<User> {
+    return {
+      email_verified: true,
+      ...(isAdminEmail(user.email) ? { role: 'admin' } : {}),
+    };
+  }
+
+  // Checked here as well as in the DTOs, which are not validated by a pipe
+  private assertPasswordStrength(password: string) {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      throw new BadRequestException(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+      );
+    }
+  }
+
+  // Tokens are random, so a fast unsalted hash is enough to keep them out of the database
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  // Role and department travel in the token for clients; requests use the stored ones
+  private signToken(user: User, family: string): string {
+    const payload: AccessTokenPayload = {
+      sub: user.id,
+      email: user.email,
+      role: toRole(user.role),
+      department: user.department ?? null,
+      sid: family,
     };
+    return this.jwtService.sign(payload);
   }
 
   async validateUser(userId: string) {
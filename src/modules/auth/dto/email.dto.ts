@@ -0,0 +1,7 @@
+import { IsEmail } from 'class-validator';
+
+// For the requests that email a link: forgot password and resend verification
+export class EmailDto {
+  @IsEmail()
+  email: string;
+}
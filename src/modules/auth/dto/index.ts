@@ -1,2 +1,7 @@
 export * from './login.dto';
 export * from './register.dto';
+export * from './refresh-token.dto';
+export * from './email.dto';
+export * from './verify-email.dto';
+export * from './reset-password.dto';
+export * from './change-password.dto';
@@ -1,7 +1,9 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { AuthService } from '../../modules/auth/auth.service';
+import type { AccessTokenPayload } from '../../modules/auth/auth.service';
+import { toRole } from './roles';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
@@ -13,7 +15,20 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  async validate(payload: any) {
-    return { userId: payload.sub, email: payload.email };
+  async validate(payload: AccessTokenPayload) {
+    // Logged-out sessions and disabled users are rejected before the token expires, and role
+    // changes apply at once
+    const user = await this.authService.findSessionUser(payload);
+    if (!user) {
+      throw new UnauthorizedException('Session has ended; log in again');
+    }
+
+    return {
+      userId: user.id,
+      email: user.email,
+      role: toRole(user.role),
+      department: user.department ?? null,
+      sessionId: payload.sid,
+    };
   }
 }
@@ -0,0 +1,61 @@
+export const ROLES = ['admin', 'analyst', 'viewer'] as const;
+export type Role = (typeof ROLES)[number];
+
+const ALL_ROLES: readonly Role[] = ROLES;
+
+// Who may do what; guarded routes name one of these instead of listing roles
+export const PERMISSIONS = {
+  'knowledge-base:read': ALL_ROLES,
+  // Uploading, processing and reprocessing files, correcting schemas, combining records
+  'knowledge-base:write': ['admin', 'analyst'],
+  'knowledge-base:delete': ['admin', 'analyst'],
+  // Planning and running agent workflows, which can do everything the actions below do
+  'workflows:run': ['admin', 'analyst'],
+  'reports:read': ALL_ROLES,
+  // Anything that calls the LLM to analyze data or write a report
+  'reports:generate': ['admin', 'analyst'],
+  // Rendering stored reports; exporting without a reportId also needs reports:generate
+  'reports:export': ALL_ROLES,
+  // Following and cancelling background jobs, which are always the user's own
+  'jobs:read': ALL_ROLES,
+  'jobs:cancel': ALL_ROLES,
+  'users:manage': ['admin'],
+} satisfies Record<string, readonly Role[]>;
+export type Permission = keyof typeof PERMISSIONS;
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/**
+ * Role given to self-registered users and to accounts whose stored role predates the fixed
+ * roles (such as the old default "user"). REGISTRATION_ROLE can lower it to viewer; admin is
+ * only ever granted by another admin or by verifying an address in ADMIN_EMAILS.
+ */
+export function getDefaultRole(env: NodeJS.ProcessEnv = process.env): Role {
+  return env.REGISTRATION_ROLE === 'viewer' ? 'viewer' : 'analyst';
+}
+
+// A stored role as one of the fixed roles
+export function toRole(value: string | null | undefined): Role {
+  return isRole(value) ? value : getDefaultRole();
+}
+
+// Emails (comma-separated in ADMIN_EMAILS) that become admins once verified, to create the first one
+export function isAdminEmail(
+  email: string,
+  env: NodeJS.ProcessEnv = process.env,
+): boolean {
+  return (env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .includes(email.trim().toLowerCase());
+}
+
+export function hasPermission(
+  role: string | null | undefined,
+  permission: Permission,
+): boolean {
+  return (PERMISSIONS[permission] as readonly Role[]).includes(toRole(role));
+}
@@ -2,30 +2,63 @@ import {
   Controller,
   Post,
   Get,
+  Patch,
   Delete,
   Body,
+  Param,
+  Query,
   UseGuards,
   UseInterceptors,
   UploadedFile,
   Request,
+  Res,
+  BadRequestException,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
 import { JwtAuthGuard } from '../../guards/jwt-auth.guard';
+import { RolesGuard } from '../../guards/roles.guard';
+import { RequirePermission } from '../../guards/roles.decorator';
 import { ChatService } from './chat.service';
-import { SendMessageDto, SendFileMessageDto } from '../../modules/chat/dto';
+import { streamAgentEvents } from '../../agents/uni-agent/agent-events';
+import {
+  SendMessageDto,
+  SendFileMessageDto,
+  CreateSessionDto,
+  UpdateSessionDto,
+  ApprovePlanDto,
+} from '../../modules/chat/dto';
 
 @Controller('chat')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, RolesGuard)
 export class ChatController {
   constructor(private readonly chatService: ChatService) {}
 
   @Post('send')
+  @RequirePermission('workflows:run')
   async sendMessage(@Body() sendMessageDto: SendMessageDto, @Request() req) {
     const userId = req.user.userId;
-    return this.chatService.sendMessage(userId, sendMessageDto.content);
+    return this.chatService.sendMessage(userId, sendMessageDto);
+  }
+
+  // Streams agent progress as Server-Sent Events; the final `complete` event
+  // carries the same payload as POST /chat/send
+  @Post('send/stream')
+  @RequirePermission('workflows:run')
+  async sendMessageStream(
+    @Body() sendMessageDto: SendMessageDto,
+    @Request() req,
+    @Res() res: Response,
+  ) {
+    const userId = req.user.userId;
+    await streamAgentEvents(res, (emit) =>
+      this.chatService.sendMessage(userId, sendMessageDto, emit),
+    );
   }
 
   @Post('send-file')
+  @RequirePermission('workflows:run')
   @UseInterceptors(FileInterceptor('file'))
   async sendFileMessage(
     @UploadedFile() file: Express.Multer.File,
@@ -33,24 +66,120 @@ export class ChatController {
     @Request() req,
   ) {
     const userId = req.user.userId;
-    return this.chatService.sendFileMessage(userId, file, sendFileMessageDto.request);
+    return this.chatService.sendFileMessage(
+      userId,
+      file,
+      sendFileMessageDto.request,
+      sendFileMessageDto.sessionId,
+    );
   }
 
   @Get('messages')
-  async getMessages(@Request() req) {
+  async getMessages(
+    @Query('sessionId', new ParseUUIDPipe({ optional: true }))
+    sessionId: string,
+    @Request() req,
+  ) {
+    if (!sessionId) {
+      throw new BadRequestException('sessionId is required');
+    }
+
     const userId = req.user.userId;
-    return this.chatService.getMessages(userId);
+    return this.chatService.getMessages(userId, sessionId);
+  }
+
+  // ===== PLAN REVIEW ENDPOINTS =====
+
+  @Post('plans/:planId/approve')
+  @RequirePermission('workflows:run')
+  async approvePlan(
+    @Param('planId', ParseUUIDPipe) planId: string,
+    @Body() approvePlanDto: ApprovePlanDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    return this.chatService.approvePlan(userId, planId, approvePlanDto.tasks);
+  }
+
+  @Post('plans/:planId/reject')
+  @RequirePermission('workflows:run')
+  async rejectPlan(
+    @Param('planId', ParseUUIDPipe) planId: string,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    return this.chatService.rejectPlan(userId, planId);
+  }
+
+  // ===== SESSION ENDPOINTS =====
+
+  @Post('sessions')
+  async createSession(
+    @Body() createSessionDto: CreateSessionDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    return this.chatService.createSession(userId, createSessionDto);
   }
 
   @Get('sessions')
-  async getSession(@Request() req) {
+  async listSessions(
+    @Query('page') page: string,
+    @Query('limit') limit: string,
+    @Query('archived') archived: string,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    return this.chatService.listSessions(userId, {
+      page: page ? parseInt(page, 10) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      archived: archived === 'true',
+    });
+  }
+
+  @Get('sessions/:id')
+  async getSession(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    const userId = req.user.userId;
+    return this.chatService.getSession(userId, id);
+  }
+
+  @Get('sessions/:id/messages')
+  async getSessionMessages(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    return this.chatService.getMessages(userId, id);
+  }
+
+  @Patch('sessions/:id')
+  async updateSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateSessionDto: UpdateSessionDto,
+    @Request() req,
+  ) {
+    const userId = req.user.userId;
+    return this.chatService.updateSession(userId, id, updateSessionDto);
+  }
+
+  @Post('sessions/:id/archive')
+  async archiveSession(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    const userId = req.user.userId;
+    return this.chatService.updateSession(userId, id, { archived: true });
+  }
+
+  @Post('sessions/:id/unarchive')
+  async unarchiveSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req,
+  ) {
     const userId = req.user.userId;
-    return this.chatService.getSession(userId);
+    return this.chatService.updateSession(userId, id, { archived: false });
   }
 
-  @Delete('sessions')
-  async clearSession(@Request() req) {
+  @Delete('sessions/:id')
+  async deleteSession(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
     const userId = req.user.userId;
-    return this.chatService.clearSession(userId);
+    return this.chatService.deleteSession(userId, id);
   }
 }
@@ -1,8 +1,24 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { isUUID } from 'class-validator';
 import { ChatSession, Message, SenderType } from '../../entities';
 import { UniAgentService } from '../../agents/uni-agent/uni-agent.service';
+import { AgentEventListener } from '../../agents/uni-agent/agent-events';
+import {
+  PlanTaskDecision,
+  WorkflowPlansService,
+} from '../../agents/uni-agent/workflow-plans.service';
+import { CreateSessionDto, SendMessageDto, UpdateSessionDto } from './dto';
+
+const DEFAULT_SESSION_TITLE = 'New Chat Session';
+const MAX_TITLE_LENGTH = 50;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
 
 @Injectable()
 export class ChatService {
@@ -12,32 +28,97 @@ export class ChatService {
     @InjectRepository(Message)
     private messageRepository: Repository<Message>,
     private uniAgentService: UniAgentService,
+    private workflowPlansService: WorkflowPlansService,
   ) {}
 
-  async getOrCreateSession(userId: string): Promise<ChatSession> {
-    // Find existing session for user
-    let session = await this.chatSessionRepository.findOne({
-      where: { user: { id: userId } },
-      relations: ['user'],
+  // ===== SESSION MANAGEMENT =====
+
+  async createSession(userId: string, dto: CreateSessionDto = {}) {
+    const session = await this.createSessionEntity(userId, dto.title);
+    return this.toSessionResponse(session, 0);
+  }
+
+  async listSessions(
+    userId: string,
+    options: { page?: number; limit?: number; archived?: boolean } = {},
+  ) {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, options.limit || DEFAULT_PAGE_SIZE),
+    );
+
+    const [sessions, total] = await this.chatSessionRepository.findAndCount({
+      where: { user: { id: userId }, isArchived: options.archived ?? false },
+      order: { lastActivityAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
     });
 
-    if (!session) {
-      // Create new session
-      session = this.chatSessionRepository.create({
-        user: { id: userId } as any,
-        title: 'New Chat Session',
-        startedAt: new Date(),
-        lastActivityAt: new Date(),
-      });
-      session = await this.chatSessionRepository.save(session);
+    const counts = await this.countMessages(
+      sessions.map((session) => session.id),
+    );
+
+    return {
+      items: sessions.map((session) =>
+        this.toSessionResponse(session, counts[session.id] || 0),
+      ),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async getSession(userId: string, sessionId: string) {
+    const session = await this.findUserSession(userId, sessionId);
+    const messageCount = await this.messageRepository.count({
+      where: { session: { id: session.id } },
+    });
+
+    return this.toSessionResponse(session, messageCount);
+  }
+
+  async updateSession(
+    userId: string,
+    sessionId: string,
+    dto: UpdateSessionDto,
+  ) {
+    const session = await this.findUserSession(userId, sessionId);
+
+    if (dto.title !== undefined) {
+      const title = dto.title.trim();
+      if (!title) {
+        throw new BadRequestException('Session title cannot be empty');
+      }
+      session.title = title.substring(0, MAX_TITLE_LENGTH);
     }
 
-    return session;
+    if (dto.archived !== undefined) {
+      session.isArchived = dto.archived;
+    }
+
+    await this.chatSessionRepository.save(session);
+    return this.getSession(userId, session.id);
   }
 
-  async sendMessage(userId: string, content: string) {
-    // Get or create session
-    const session = await this.getOrCreateSession(userId);
+  async deleteSession(userId: string, sessionId: string) {
+    const session = await this.findUserSession(userId, sessionId);
+
+    // Delete all messages first (due to foreign key constraint)
+    await this.messageRepository.delete({ session: { id: session.id } });
+    await this.chatSessionRepository.delete(session.id);
+
+    return { message: 'Session deleted successfully' };
+  }
+
+  // ===== MESSAGING =====
+
+  async sendMessage(
+    userId: string,
+    { content, sessionId, mode }: SendMessageDto,
+    emit?: AgentEventListener,
+  ) {
+    const session = await this.resolveSession(userId, sessionId, content);
 
     // Save user message
     const userMessage = this.messageRepository.create({
@@ -51,38 +132,60 @@ export class ChatService {
     session.lastActivityAt = new Date();
     await this.chatSessionRepository.save(session);
 
+    if (mode === 'preview') {
+      const preview = await this.workflowPlansService.createPreview(
+        userId,
+        content,
+        { userId },
+        session.id,
+      );
+      return this.saveAgentResponse(session, {
+        type: 'plan_preview',
+        ...preview,
+      });
+    }
+
     // Process with UniAgent
-    const aiResponse = await this.uniAgentService.processRequest(content);
+    // The agent only reaches the records the user can see
+    const aiResponse = await this.uniAgentService.processRequest(
+      content,
+      { userId },
+      emit,
+    );
 
-    // Save AI response
-    const aiMessage = this.messageRepository.create({
-      session,
-      sender: SenderType.AGENT,
-      content: JSON.stringify(aiResponse),
-    });
-    await this.messageRepository.save(aiMessage);
+    return this.saveAgentResponse(session, aiResponse);
+  }
 
-    return {
-      message: {
-        id: aiMessage.id,
-        sessionId: session.id,
-        content: aiResponse,
-        role: 'agent',
-        timestamp: aiMessage.createdAt.toISOString()
-      },
-      session: {
-        id: session.id,
-        title: session.title,
-        createdAt: session.startedAt.toISOString(),
-        updatedAt: session.lastActivityAt.toISOString(),
-        messageCount: await this.messageRepository.count({ where: { session: { id: session.id } } })
-      }
-    };
+  // Runs a previewed plan and posts its outcome to the session it was requested in
+  async approvePlan(
+    userId: string,
+    planId: string,
+    decisions?: PlanTaskDecision[],
+  ) {
+    const outcome = await this.workflowPlansService.approve(
+      userId,
+      planId,
+      decisions,
+    );
+    return this.postPlanOutcome(userId, outcome);
   }
 
-  async sendFileMessage(userId: string, file: Express.Multer.File, request?: string) {
-    // Get or create session
-    const session = await this.getOrCreateSession(userId);
+  async rejectPlan(userId: string, planId: string) {
+    const outcome = await this.workflowPlansService.reject(userId, planId);
+    return this.postPlanOutcome(userId, outcome);
+  }
+
+  async sendFileMessage(
+    userId: string,
+    file: Express.Multer.File,
+    request?: string,
+    sessionId?: string,
+  ) {
+    const session = await this.resolveSession(
+      userId,
+      sessionId,
+      file.originalname,
+    );
 
     // Save user message (file upload)
     const userMessage = this.messageRepository.create({
@@ -97,9 +200,117 @@ export class ChatService {
     await this.chatSessionRepository.save(session);
 
     // Process with UniAgent
-    const aiResponse = await this.uniAgentService.processFileUpload(file, request || 'Process and analyze this file');
+    const aiResponse = await this.uniAgentService.processFileUpload(
+      file,
+      request || 'Process and analyze this file',
+      { userId },
+    );
+
+    return this.saveAgentResponse(session, aiResponse);
+  }
+
+  async getMessages(userId: string, sessionId: string) {
+    const session = await this.findUserSession(userId, sessionId);
+
+    const messages = await this.messageRepository.find({
+      where: { session: { id: session.id } },
+      order: { createdAt: 'ASC' },
+    });
+
+    return messages.map((message) => ({
+      id: message.id,
+      sessionId: session.id,
+      content:
+        message.sender === SenderType.USER
+          ? message.content
+          : JSON.parse(message.content),
+      role: message.sender === SenderType.USER ? 'user' : 'agent',
+      timestamp: message.createdAt.toISOString(),
+    }));
+  }
+
+  // ===== HELPERS =====
+
+  private async findUserSession(
+    userId: string,
+    sessionId: string,
+  ): Promise<ChatSession> {
+    // DTOs are not validated globally, and Postgres rejects a malformed uuid with a 500
+    if (typeof sessionId !== 'string' || !isUUID(sessionId)) {
+      throw new BadRequestException('sessionId must be a UUID');
+    }
+
+    const session = await this.chatSessionRepository.findOne({
+      where: { id: sessionId, user: { id: userId } },
+    });
+
+    if (!session) {
+      throw new NotFoundException(`Chat session ${sessionId} not found`);
+    }
+
+    return session;
+  }
+
+  // Uses the given session, or starts a new one titled after the first message
+  private async resolveSession(
+    userId: string,
+    sessionId: string | undefined,
+    titleHint: string,
+  ): Promise<ChatSession> {
+    if (!sessionId) {
+      return this.createSessionEntity(userId, titleHint);
+    }
 
-    // Save AI response
+    const session = await this.findUserSession(userId, sessionId);
+    if (session.isArchived) {
+      throw new BadRequestException(
+        'Cannot send messages to an archived session',
+      );
+    }
+
+    return session;
+  }
+
+  private async createSessionEntity(
+    userId: string,
+    title?: string,
+  ): Promise<ChatSession> {
+    const now = new Date();
+    const normalizedTitle = (title || '').replace(/\s+/g, ' ').trim();
+
+    const session = this.chatSessionRepository.create({
+      user: { id: userId } as any,
+      title: (normalizedTitle || DEFAULT_SESSION_TITLE).substring(
+        0,
+        MAX_TITLE_LENGTH,
+      ),
+      startedAt: now,
+      lastActivityAt: now,
+      isArchived: false,
+    });
+
+    return this.chatSessionRepository.save(session);
+  }
+
+  private async postPlanOutcome(
+    userId: string,
+    outcome: { sessionId: string | null },
+  ) {
+    if (!outcome.sessionId) {
+      return outcome;
+    }
+
+    const session = await this.findUserSession(userId, outcome.sessionId);
+    session.lastActivityAt = new Date();
+    await this.chatSessionRepository.save(session);
+
+    return this.saveAgentResponse(session, {
+      type: 'plan_outcome',
+      ...outcome,
+    });
+  }
+
+  private async saveAgentResponse(session: ChatSession, aiResponse: any) {
     const aiMessage = this.messageRepository.create({
       session,
       sender: SenderType.AGENT,
@@ -107,68 +318,51 @@ export class ChatService {
     });
     await this.messageRepository.save(aiMessage);
 
+    const messageCount = await this.messageRepository.count({
+      where: { session: { id: session.id } },
+    });
+
     return {
       message: {
         id: aiMessage.id,
         sessionId: session.id,
         content: aiResponse,
         role: 'agent',
-        timestamp: aiMessage.createdAt.toISOString()
+        timestamp: aiMessage.createdAt.toISOString(),
       },
-      session: {
-        id: session.id,
-        title: session.title,
-        createdAt: session.startedAt.toISOString(),
-        updatedAt: session.lastActivityAt.toISOString(),
-        messageCount: await this.messageRepository.count({ where: { session: { id: session.id } } })
-      }
+      session: this.toSessionResponse(session, messageCount),
     };
   }
 
-  async getMessages(userId: string) {
-    const session = await this.getOrCreateSession(userId);
-    
-    const messages = await this.messageRepository.find({
-      where: { session: { id: session.id } },
-      order: { createdAt: 'ASC' },
-    });
+  private async countMessages(
+    sessionIds: string[],
+  ): Promise<Record<string, number>> {
+    if (sessionIds.length === 0) {
+      return {};
+    }
 
-    return messages.map(message => ({
-      id: message.id,
-      sessionId: session.id,
-      content: message.sender === SenderType.USER ? message.content : JSON.parse(message.content),
-      role: message.sender === SenderType.USER ? 'user' : 'agent',
-      timestamp: message.createdAt.toISOString()
-    }));
+    const rows: { sessionId: string; count: string }[] =
+      await this.messageRepository
+        .createQueryBuilder('message')
+        .select('message.session_id', 'sessionId')
+        .addSelect('COUNT(message.id)', 'count')
+        .where('message.session_id IN (:...sessionIds)', { sessionIds })
+        .groupBy('message.session_id')
+        .getRawMany();
+
+    return Object.fromEntries(
+      rows.map((row) => [row.sessionId, parseInt(row.count, 10)]),
+    );
   }
 
-  async getSession(userId: string) {
-    const session = await this.getOrCreateSession(userId);
-    const messageCount = await this.messageRepository.count({ 
-      where: { session: { id: session.id } } 
-    });
-    
+  private toSessionResponse(session: ChatSession, messageCount: number) {
     return {
       id: session.id,
       title: session.title,
+      archived: session.isArchived,
       createdAt: session.startedAt.toISOString(),
       updatedAt: session.lastActivityAt.toISOString(),
-      messageCount
+      messageCount,
     };
   }
-
-  async clearSession(userId: string) {
-    const session = await this.chatSessionRepository.findOne({
-      where: { user: { id: userId } },
-    });
-
-    if (session) {
-      // Delete all messages first (due to foreign key constraint)
-      await this.messageRepository.delete({ session: { id: session.id } });
-      // Delete session
-      await this.chatSessionRepository.delete(session.id);
-    }
-
-    return { message: 'Session cleared successfully' };
-  }
 }
@@ -0,0 +1,8 @@
+import { IsArray, IsOptional } from 'class-validator';
+import type { PlanTaskDecision } from '../../../agents/uni-agent/workflow-plans.service';
+
+export class ApprovePlanDto {
+  @IsArray()
+  @IsOptional()
+  tasks?: PlanTaskDecision[];
+}
@@ -0,0 +1,8 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+
+export class CreateSessionDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  title?: string;
+}
@@ -1,2 +1,5 @@
 export * from './send-message.dto';
 export * from './send-file-message.dto';
+export * from './create-session.dto';
+export * from './update-session.dto';
+export * from './approve-plan.dto';
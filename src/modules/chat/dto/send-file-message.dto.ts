@@ -1,7 +1,11 @@
-import { IsString, IsOptional } from 'class-validator';
+import { IsString, IsOptional, IsUUID } from 'class-validator';
 
 export class SendFileMessageDto {
   @IsString()
   @IsOptional()
   request?: string;
+
+  @IsUUID()
+  @IsOptional()
+  sessionId?: string;
 }
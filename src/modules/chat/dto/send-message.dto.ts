@@ -1,7 +1,22 @@
-import { IsString, IsNotEmpty } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  IsIn,
+} from 'class-validator';
 
 export class SendMessageDto {
   @IsString()
   @IsNotEmpty()
   content: string;
+
+  @IsUUID()
+  @IsOptional()
+  sessionId?: string;
+
+  // 'preview' plans the request and waits for approval instead of executing it
+  @IsIn(['execute', 'preview'])
+  @IsOptional()
+  mode?: 'execute' | 'preview';
 }
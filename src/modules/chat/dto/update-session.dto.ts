@@ -0,0 +1,12 @@
+import { IsString, IsOptional, IsBoolean, MaxLength } from 'class-validator';
+
+export class UpdateSessionDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  title?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  archived?: boolean;
+}
@@ -0,0 +1,114 @@
+import { Job } from '../../entities/job.entity';
+import { JobWorkerService } from './job-worker.service';
+import { JobContext, JobsService } from './jobs.service';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+const sleep = (ms: number) => new Promise((done) => setTimeout(done, ms));
+
+describe('JobWorkerService', () => {
+  let handlerDone: ReturnType<typeof deferred>;
+  let context: JobContext | undefined;
+  let jobsService: {
+    getHandler: jest.Mock;
+    claimNext: jest.Mock;
+    findCancelRequested: jest.Mock;
+    complete: jest.Mock;
+    fail: jest.Mock;
+    markCancelled: jest.Mock;
+    release: jest.Mock;
+    updateProgress: jest.Mock;
+    heartbeat: jest.Mock;
+  };
+  let worker: JobWorkerService;
+
+  const job = { id: 'job-1', type: 'test', payload: {}, attempts: 1 } as Job;
+
+  beforeEach(() => {
+    process.env.JOB_WORKER_CONCURRENCY = '1';
+    handlerDone = deferred();
+    context = undefined;
+    jobsService = {
+      // Ignores its signal, like a handler in the middle of a step
+      getHandler: jest.fn(() => (_payload: unknown, jobContext: JobContext) => {
+        context = jobContext;
+        return handlerDone.promise.then(() => 'late result');
+      }),
+      claimNext: jest.fn().mockResolvedValue(null),
+      findCancelRequested: jest.fn().mockResolvedValue([]),
+      complete: jest.fn().mockResolvedValue(undefined),
+      fail: jest.fn().mockResolvedValue(undefined),
+      markCancelled: jest.fn().mockResolvedValue(undefined),
+      release: jest.fn().mockResolvedValue(undefined),
+      updateProgress: jest.fn().mockResolvedValue(undefined),
+      heartbeat: jest.fn().mockResolvedValue(undefined),
+    };
+    worker = new JobWorkerService(jobsService as unknown as JobsService);
+  });
+
+  afterEach(() => {
+    delete process.env.JOB_WORKER_CONCURRENCY;
+  });
+
+  it('completes a job with the result of its handler', async () => {
+    worker['start']({ ...job, timeoutMs: 1000 } as Job);
+    handlerDone.resolve();
+    await Promise.all([...worker['active'].values()].map(({ done }) => done));
+
+    expect(jobsService.complete).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'job-1' }),
+      'late result',
+    );
+  });
+
+  it('keeps a timed-out run in its slot and only fails it for good once the handler settles', async () => {
+    worker['start']({ ...job, timeoutMs: 10 } as Job);
+    await sleep(30);
+
+    expect(context?.signal.aborted).toBe(true);
+    expect(jobsService.fail).not.toHaveBeenCalled();
+    expect(worker['active'].size).toBe(1);
+
+    // The slot is still taken, so nothing else is claimed, and the lock is kept so the
+    // job is not recovered as abandoned while it still runs
+    await worker['poll']();
+    expect(jobsService.claimNext).not.toHaveBeenCalled();
+    await worker['heartbeat']();
+    expect(jobsService.heartbeat).toHaveBeenCalledWith(['job-1']);
+
+    handlerDone.resolve();
+    await Promise.all([...worker['active'].values()].map(({ done }) => done));
+
+    expect(jobsService.fail).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'job-1' }),
+      'Job timed out after 10ms',
+      false,
+    );
+    expect(jobsService.complete).not.toHaveBeenCalled();
+    expect(worker['active'].size).toBe(0);
+  });
+
+  it('marks a cancelled job at once but holds its slot until the handler settles', async () => {
+    jobsService.findCancelRequested.mockResolvedValue(['job-1']);
+    worker['start']({ ...job, timeoutMs: 1000 } as Job);
+    await worker['poll']();
+    await sleep(0);
+
+    expect(context?.signal.reason).toBe('cancelled');
+    expect(jobsService.markCancelled).toHaveBeenCalled();
+    expect(worker['active'].size).toBe(1);
+
+    // Progress reported after the abort is dropped
+    context?.reportProgress({ step: 2 });
+    handlerDone.resolve();
+    await Promise.all([...worker['active'].values()].map(({ done }) => done));
+
+    expect(jobsService.updateProgress).not.toHaveBeenCalled();
+    expect(jobsService.complete).not.toHaveBeenCalled();
+    expect(worker['active'].size).toBe(0);
+  });
+});
@@ -0,0 +1,233 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { Job } from '../../entities/job.entity';
+import { JobsService } from './jobs.service';
+
+const DEFAULT_WORKER_CONCURRENCY = 2;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+// Well under the grace period after which jobs without a heartbeat are recovered
+const HEARTBEAT_INTERVAL_MS = 20 * 1000;
+
+// Reasons a running job gets aborted; anything else thrown by a handler is a regular failure
+const CANCELLED = 'cancelled';
+const TIMED_OUT = 'timed_out';
+const SHUTDOWN = 'shutdown';
+
+function envInt(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) || value < min ? fallback : value;
+}
+
+/**
+ * In-process worker pool for the jobs table. Polls for queued jobs while fewer than
+ * JOB_WORKER_CONCURRENCY are running here (0 disables the worker, e.g. on API-only instances),
+ * enforces each job's timeout and aborts jobs whose cancellation was requested.
+ */
+@Injectable()
+export class JobWorkerService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly concurrency = envInt(
+    'JOB_WORKER_CONCURRENCY',
+    DEFAULT_WORKER_CONCURRENCY,
+    0,
+  );
+  private readonly pollIntervalMs = envInt(
+    'JOB_POLL_INTERVAL_MS',
+    DEFAULT_POLL_INTERVAL_MS,
+    100,
+  );
+  private readonly active = new Map<
+    string,
+    { job: Job; controller: AbortController; done: Promise<void> }
+  >();
+  private pollTimer?: NodeJS.Timeout;
+  private staleTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private polling = false;
+  private stopped = false;
+
+  constructor(private readonly jobsService: JobsService) {}
+
+  onApplicationBootstrap() {
+    if (this.concurrency === 0) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => void this.poll(), this.pollIntervalMs);
+    this.staleTimer = setInterval(
+      () => void this.recoverStaleJobs(),
+      STALE_CHECK_INTERVAL_MS,
+    );
+    this.heartbeatTimer = setInterval(
+      () => void this.heartbeat(),
+      HEARTBEAT_INTERVAL_MS,
+    );
+    void this.recoverStaleJobs();
+  }
+
+  // Stops claiming work and hands running jobs back to the queue for the next instance
+  async onApplicationShutdown() {
+    this.stopped = true;
+    clearInterval(this.pollTimer);
+    clearInterval(this.staleTimer);
+    clearInterval(this.heartbeatTimer);
+
+    const running = [...this.active.values()];
+    running.forEach(({ controller }) => controller.abort(SHUTDOWN));
+    await Promise.all(running.map(({ done }) => done));
+  }
+
+  private async poll() {
+    if (this.polling || this.stopped) return;
+    this.polling = true;
+
+    try {
+      await this.abortCancelledJobs();
+
+      while (!this.stopped && this.active.size < this.concurrency) {
+        const job = await this.jobsService.claimNext();
+        if (!job) break;
+        this.start(job);
+      }
+    } catch (error) {
+      console.error('Job worker poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async abortCancelledJobs() {
+    const cancelled = await this.jobsService.findCancelRequested([
+      ...this.active.keys(),
+    ]);
+    for (const jobId of cancelled) {
+      this.active.get(jobId)?.controller.abort(CANCELLED);
+    }
+  }
+
+  // Covers aborted runs too, which keep running until their handler settles
+  private async heartbeat() {
+    try {
+      await this.jobsService.heartbeat([...this.active.keys()]);
+    } catch (error) {
+      console.error('Job heartbeat failed:', error);
+    }
+  }
+
+  private async recoverStaleJobs() {
+    try {
+      const recovered = await this.jobsService.recoverStaleJobs();
+      if (recovered > 0) {
+        console.warn(`Recovered ${recovered} abandoned job(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to recover stale jobs:', error);
+    }
+  }
+
+  private start(job: Job) {
+    const controller = new AbortController();
+    const done = this.run(job, controller).finally(() => {
+      this.active.delete(job.id);
+    });
+    this.active.set(job.id, { job, controller, done });
+  }
+
+  private async run(job: Job, controller: AbortController) {
+    const handler = this.jobsService.getHandler(job.type);
+    if (!handler) {
+      await this.jobsService.fail(
+        job,
+        `No handler registered for job type "${job.type}"`,
+        false,
+      );
+      return;
+    }
+
+    const timeout = setTimeout(
+      () => controller.abort(TIMED_OUT),
+      job.timeoutMs,
+    );
+
+    // Progress writes are chained so they land in the order they were reported
+    let progressWrites = Promise.resolve();
+    const reportProgress = (progress: any) => {
+      if (controller.signal.aborted) return;
+      progressWrites = progressWrites
+        .then(() => this.jobsService.updateProgress(job, progress))
+        .catch((error) =>
+          console.error(`Failed to save progress of job ${job.id}:`, error),
+        );
+    };
+
+    // Handlers stop at their next step once the signal is aborted, not mid-step, so an aborted
+    // run stops being waited for but keeps its slot until the handler settles; its late result
+    // is discarded.
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () =>
+        reject(new Error(`Job aborted: ${controller.signal.reason}`)),
+      );
+    });
+    const running = handler(job.payload, {
+      jobId: job.id,
+      attempt: job.attempts,
+      signal: controller.signal,
+      reportProgress,
+    });
+
+    try {
+      const result = await Promise.race([running, aborted]);
+      await progressWrites;
+      await this.jobsService.complete(job, result);
+    } catch (error) {
+      await progressWrites;
+      if (controller.signal.aborted) {
+        await this.settleAborted(
+          job,
+          String(controller.signal.reason),
+          running.then(
+            () => undefined,
+            () => undefined,
+          ),
+        );
+      } else {
+        console.error(`Job ${job.id} (${job.type}) failed:`, error);
+        await this.jobsService.fail(job, error?.message || String(error));
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // A job that may run again is only requeued once the aborted handler has settled, so two
+  // runs of it never write at the same time. A timeout fails the job for good: a handler that
+  // ran that long may have written part of its work already.
+  private async settleAborted(
+    job: Job,
+    reason: string,
+    handlerSettled: Promise<void>,
+  ) {
+    switch (reason) {
+      case CANCELLED:
+        await this.jobsService.markCancelled(job);
+        await handlerSettled;
+        break;
+      case SHUTDOWN:
+        await handlerSettled;
+        await this.jobsService.release(job);
+        break;
+      default:
+        await handlerSettled;
+        await this.jobsService.fail(
+          job,
+          `Job timed out after ${job.timeoutMs}ms`,
+          false,
+        );
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { JwtOrApiKeyAuthGuard } from '../../guards/jwt-or-api-key-auth.guard';
+import { RolesGuard } from '../../guards/roles.guard';
+import { RequirePermission } from '../../guards/roles.decorator';
+import { JobStatus } from '../../entities/job.entity';
+import { JobsService } from './jobs.service';
+
+@Controller('jobs')
+@UseGuards(JwtOrApiKeyAuthGuard, RolesGuard)
+export class JobsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  @Get()
+  @RequirePermission('jobs:read')
+  async listJobs(
+    @Query('page') page: string,
+    @Query('limit') limit: string,
+    @Query('status') status: string,
+    @Request() req,
+  ) {
+    if (status && !Object.values(JobStatus).includes(status as JobStatus)) {
+      throw new BadRequestException(
+        `status must be one of: ${Object.values(JobStatus).join(', ')}`,
+      );
+    }
+
+    return this.jobsService.listJobs(req.user.userId, {
+      page: page ? parseInt(page, 10) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      status: status as JobStatus | undefined,
+    });
+  }
+
+  @Get(':id')
+  @RequirePermission('jobs:read')
+  async getJob(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    return this.jobsService.getJob(req.user.userId, id);
+  }
+
+  @Post(':id/cancel')
+  @RequirePermission('jobs:cancel')
+  async cancelJob(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    return this.jobsService.cancel(req.user.userId, id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Job } from '../../entities/job.entity';
+import { JobsService } from './jobs.service';
+import { JobWorkerService } from './job-worker.service';
+import { JobsController } from './jobs.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Job])],
+  controllers: [JobsController],
+  providers: [JobsService, JobWorkerService],
+  exports: [JobsService],
+})
+export class JobsModule {}
@@ -0,0 +1,29 @@
+import { Repository } from 'typeorm';
+import { Job } from '../../entities/job.entity';
+import { JobsService } from './jobs.service';
+
+describe('JobsService.enqueue', () => {
+  const jobRepository = {
+    create: (values: Partial<Job>) => values as Job,
+    save: (job: Job) => Promise.resolve(job),
+  };
+  const handler = () => Promise.resolve();
+
+  it('applies the options the handler was registered with', async () => {
+    const service = new JobsService(
+      jobRepository as unknown as Repository<Job>,
+    );
+    service.registerHandler('writes', handler, { maxAttempts: 1 });
+    service.registerHandler('reads', handler);
+
+    await expect(service.enqueue('user-1', 'writes', {})).resolves.toEqual(
+      expect.objectContaining({ maxAttempts: 1 }),
+    );
+    await expect(service.enqueue('user-1', 'reads', {})).resolves.toEqual(
+      expect.objectContaining({ maxAttempts: 3 }),
+    );
+    await expect(
+      service.enqueue('user-1', 'writes', {}, { maxAttempts: 2 }),
+    ).resolves.toEqual(expect.objectContaining({ maxAttempts: 2 }));
+  });
+});
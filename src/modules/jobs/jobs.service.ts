@@ -0,0 +1,339 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Job, JobStatus } from '../../entities/job.entity';
+
+export interface JobContext {
+  jobId: string;
+  attempt: number;
+  // Aborted when the job is cancelled, times out or its worker shuts down; handlers should stop
+  // before their next step. A job that timed out is not retried, and one whose worker shut down
+  // is only requeued once the handler has returned.
+  signal: AbortSignal;
+  reportProgress: (progress: any) => void;
+}
+
+export type JobHandler = (payload: any, context: JobContext) => Promise<any>;
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  timeoutMs?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_JOB_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_JOB_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_SECONDS = 5;
+// How long past its timeout a running job may go without a heartbeat before it counts as abandoned
+const STALE_GRACE_MS = 60 * 1000;
+
+function envInt(name: string, fallback: number, min = 1): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) || value < min ? fallback : value;
+}
+
+@Injectable()
+export class JobsService {
+  private readonly handlers = new Map<
+    string,
+    { handler: JobHandler; options: EnqueueOptions }
+  >();
+
+  constructor(
+    @InjectRepository(Job)
+    private readonly jobRepository: Repository<Job>,
+  ) {}
+
+  // ===== HANDLERS =====
+
+  // The options are the defaults for jobs of the type, e.g. maxAttempts: 1 for handlers that are
+  // not safe to run twice
+  registerHandler(
+    type: string,
+    handler: JobHandler,
+    options: EnqueueOptions = {},
+  ) {
+    if (this.handlers.has(type)) {
+      throw new Error(`A handler for job type "${type}" is already registered`);
+    }
+    this.handlers.set(type, { handler, options });
+  }
+
+  getHandler(type: string): JobHandler | undefined {
+    return this.handlers.get(type)?.handler;
+  }
+
+  // ===== USER-FACING =====
+
+  async enqueue(
+    userId: string,
+    type: string,
+    payload: any,
+    options: EnqueueOptions = {},
+  ) {
+    const registered = this.handlers.get(type);
+    if (!registered) {
+      throw new Error(`No handler registered for job type "${type}"`);
+    }
+    options = { ...registered.options, ...options };
+
+    const job = await this.jobRepository.save(
+      this.jobRepository.create({
+        user: { id: userId } as any,
+        type,
+        payload,
+        status: JobStatus.QUEUED,
+        maxAttempts:
+          options.maxAttempts ??
+          envInt('JOB_MAX_ATTEMPTS', DEFAULT_JOB_MAX_ATTEMPTS),
+        timeoutMs:
+          options.timeoutMs ?? envInt('JOB_TIMEOUT_MS', DEFAULT_JOB_TIMEOUT_MS),
+      }),
+    );
+
+    return this.toResponse(job);
+  }
+
+  async listJobs(
+    userId: string,
+    options: { page?: number; limit?: number; status?: JobStatus } = {},
+  ) {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, options.limit || DEFAULT_PAGE_SIZE),
+    );
+
+    const [jobs, total] = await this.jobRepository.findAndCount({
+      where: {
+        user: { id: userId },
+        ...(options.status ? { status: options.status } : {}),
+      },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      items: jobs.map((job) => this.toResponse(job, false)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async getJob(userId: string, jobId: string) {
+    const job = await this.findUserJob(userId, jobId);
+    return this.toResponse(job);
+  }
+
+  // Queued jobs are cancelled right away; running ones are aborted by their worker on its next poll
+  async cancel(userId: string, jobId: string) {
+    const job = await this.findUserJob(userId, jobId);
+
+    if (job.status === JobStatus.QUEUED) {
+      const cancelled = await this.jobRepository.update(
+        { id: job.id, status: JobStatus.QUEUED },
+        {
+          status: JobStatus.CANCELLED,
+          cancelRequested: true,
+          finishedAt: () => 'CURRENT_TIMESTAMP',
+        },
+      );
+      if (cancelled.affected) {
+        return this.getJob(userId, jobId);
+      }
+      // A worker picked it up in the meantime
+    }
+
+    const requested = await this.jobRepository.update(
+      { id: job.id, status: JobStatus.RUNNING },
+      { cancelRequested: true },
+    );
+    if (!requested.affected) {
+      throw new ConflictException(
+        `Job has already finished (status: ${job.status})`,
+      );
+    }
+
+    return this.getJob(userId, jobId);
+  }
+
+  // ===== WORKER-FACING =====
+
+  /**
+   * Claims the oldest runnable job. FOR UPDATE SKIP LOCKED lets any number of workers,
+   * in this process or others, poll the same table without handing out a job twice.
+   */
+  async claimNext(): Promise<Job | null> {
+    // UPDATE queries resolve to [rows, affectedCount]
+    const [rows] = await this.jobRepository.query(
+      `UPDATE jobs
+          SET status = 'running',
+              attempts = attempts + 1,
+              locked_at = CURRENT_TIMESTAMP,
+              started_at = COALESCE(started_at, CURRENT_TIMESTAMP),
+              updated_at = CURRENT_TIMESTAMP
+        WHERE id = (
+          SELECT id FROM jobs
+           WHERE status = 'queued' AND run_after <= CURRENT_TIMESTAMP
+           ORDER BY created_at
+           LIMIT 1
+           FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id`,
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return this.jobRepository.findOne({ where: { id: rows[0].id } });
+  }
+
+  async updateProgress(job: Job, progress: any) {
+    await this.jobRepository.update(
+      { id: job.id, status: JobStatus.RUNNING, attempts: job.attempts },
+      { progress },
+    );
+  }
+
+  async complete(job: Job, result: any) {
+    await this.jobRepository.update(
+      { id: job.id, status: JobStatus.RUNNING, attempts: job.attempts },
+      {
+        status: JobStatus.COMPLETED,
+        result,
+        error: null,
+        lockedAt: null,
+        finishedAt: () => 'CURRENT_TIMESTAMP',
+      },
+    );
+  }
+
+  // Requeues the job with exponential backoff until it runs out of attempts
+  async fail(job: Job, error: string, retryable = true) {
+    const canRetry = retryable && job.attempts < job.maxAttempts;
+    const delaySeconds = RETRY_BASE_DELAY_SECONDS * 2 ** (job.attempts - 1);
+
+    await this.jobRepository.update(
+      { id: job.id, status: JobStatus.RUNNING, attempts: job.attempts },
+      canRetry
+        ? {
+            status: JobStatus.QUEUED,
+            error,
+            lockedAt: null,
+            runAfter: () =>
+              `CURRENT_TIMESTAMP + interval '${delaySeconds} seconds'`,
+          }
+        : {
+            status: JobStatus.FAILED,
+            error,
+            lockedAt: null,
+            finishedAt: () => 'CURRENT_TIMESTAMP',
+          },
+    );
+  }
+
+  async markCancelled(job: Job) {
+    await this.jobRepository.update(
+      { id: job.id, status: JobStatus.RUNNING, attempts: job.attempts },
+      {
+        status: JobStatus.CANCELLED,
+        lockedAt: null,
+        finishedAt: () => 'CURRENT_TIMESTAMP',
+      },
+    );
+  }
+
+  // Puts a job back in the queue without using up an attempt, e.g. on shutdown
+  async release(job: Job) {
+    await this.jobRepository.update(
+      { id: job.id, status: JobStatus.RUNNING, attempts: job.attempts },
+      {
+        status: JobStatus.QUEUED,
+        attempts: job.attempts - 1,
+        lockedAt: null,
+      },
+    );
+  }
+
+  // Refreshes the lock of jobs still running here, so they are not taken for abandoned
+  async heartbeat(jobIds: string[]) {
+    if (jobIds.length === 0) {
+      return;
+    }
+
+    await this.jobRepository.update(
+      { id: In(jobIds), status: JobStatus.RUNNING },
+      { lockedAt: () => 'CURRENT_TIMESTAMP' },
+    );
+  }
+
+  async findCancelRequested(jobIds: string[]): Promise<string[]> {
+    if (jobIds.length === 0) {
+      return [];
+    }
+
+    const jobs = await this.jobRepository.find({
+      select: ['id'],
+      where: {
+        id: In(jobIds),
+        status: JobStatus.RUNNING,
+        cancelRequested: true,
+      },
+    });
+    return jobs.map((job) => job.id);
+  }
+
+  // Recovers jobs whose worker died mid-run, which stops their heartbeat: back to the queue, or
+  // failed when out of attempts
+  async recoverStaleJobs(): Promise<number> {
+    const [, affected] = await this.jobRepository.query(
+      `UPDATE jobs
+          SET status = (CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END)::jobs_status_enum,
+              error = 'Worker stopped while the job was running',
+              locked_at = NULL,
+              finished_at = (CASE WHEN attempts >= max_attempts THEN CURRENT_TIMESTAMP ELSE NULL END),
+              updated_at = CURRENT_TIMESTAMP
+        WHERE status = 'running'
+          AND locked_at < CURRENT_TIMESTAMP - (timeout_ms + $1) * interval '1 millisecond'`,
+      [STALE_GRACE_MS],
+    );
+    return affected || 0;
+  }
+
+  private async findUserJob(userId: string, jobId: string): Promise<Job> {
+    const job = await this.jobRepository.findOne({
+      where: { id: jobId, user: { id: userId } },
+    });
+
+    if (!job) {
+      throw new NotFoundException(`Job ${jobId} not found`);
+    }
+
+    return job;
+  }
+
+  // The payload can hold whole uploaded files, so it is not echoed back
+  private toResponse(job: Job, includeResult = true) {
+    return {
+      jobId: job.id,
+      type: job.type,
+      status: job.status,
+      progress: job.progress ?? null,
+      ...(includeResult ? { result: job.result ?? null } : {}),
+      error: job.error ?? null,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      cancelRequested: job.cancelRequested,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+    };
+  }
+}
@@ -0,0 +1,2 @@
+export * from './share-record.dto';
+export * from './update-record-access.dto';
@@ -0,0 +1,15 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { RECORD_VISIBILITIES } from '../record-access';
+import type { RecordVisibility } from '../record-access';
+
+export class UpdateRecordAccessDto {
+  @IsOptional()
+  @IsIn(RECORD_VISIBILITIES)
+  visibility?: RecordVisibility;
+
+  // The department a department-visible record is visible to
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  department?: string;
+}
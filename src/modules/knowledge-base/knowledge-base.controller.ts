@@ -1,21 +1,84 @@
-import { Controller, Get, Delete, Param, UseGuards } from '@nestjs/common';
-import { JwtAuthGuard } from '../../guards/jwt-auth.guard';
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtOrApiKeyAuthGuard } from '../../guards/jwt-or-api-key-auth.guard';
+import { RolesGuard } from '../../guards/roles.guard';
+import { RequirePermission } from '../../guards/roles.decorator';
 import { KnowledgeBaseService } from './knowledge-base.service';
+import { ShareRecordDto, UpdateRecordAccessDto } from './dto';
 
 @Controller('knowledge-base')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtOrApiKeyAuthGuard, RolesGuard)
 export class KnowledgeBaseController {
   constructor(private readonly knowledgeBaseService: KnowledgeBaseService) {}
 
   @Get()
-  async list() {
-    return this.knowledgeBaseService.findAll();
+  @RequirePermission('knowledge-base:read')
+  async list(@Request() req) {
+    return this.knowledgeBaseService.findAll(req.user.userId);
+  }
+
+  @Get(':id')
+  @RequirePermission('knowledge-base:read')
+  async get(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    return this.knowledgeBaseService.findRecord(id, req.user.userId);
   }
 
   @Delete(':id')
-  async delete(@Param('id') id: string) {
-    return this.knowledgeBaseService.remove(id);
+  @RequirePermission('knowledge-base:delete')
+  async delete(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    return this.knowledgeBaseService.remove(req.user.userId, id);
   }
-}
 
+  // ===== SHARING =====
+  // Only the owner of a record or an admin
 
+  @Patch(':id')
+  @RequirePermission('knowledge-base:write')
+  async updateAccess(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateRecordAccessDto: UpdateRecordAccessDto,
+    @Request() req,
+  ) {
+    return this.knowledgeBaseService.updateAccess(
+      req.user.userId,
+      id,
+      updateRecordAccessDto,
+    );
+  }
+
+  @Get(':id/shares')
+  @RequirePermission('knowledge-base:read')
+  async listShares(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    return this.knowledgeBaseService.listShares(req.user.userId, id);
+  }
+
+  @Post(':id/shares')
+  @RequirePermission('knowledge-base:write')
+  async share(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() shareRecordDto: ShareRecordDto,
+    @Request() req,
+  ) {
+    return this.knowledgeBaseService.share(req.user.userId, id, shareRecordDto);
+  }
+
+  @Delete(':id/shares/:shareId')
+  @RequirePermission('knowledge-base:write')
+  async unshare(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('shareId', ParseUUIDPipe) shareId: string,
+    @Request() req,
+  ) {
+    return this.knowledgeBaseService.unshare(req.user.userId, id, shareId);
+  }
+}
@@ -1,15 +1,17 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { KnowledgeBase } from '../../entities/knowledge_base.entity';
+import { KnowledgeBaseShare } from '../../entities/knowledge_base_share.entity';
+import { User } from '../../entities/users.entity';
 import { KnowledgeBaseService } from './knowledge-base.service';
 import { KnowledgeBaseController } from './knowledge-base.controller';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([KnowledgeBase])],
+  imports: [
+    TypeOrmModule.forFeature([KnowledgeBase, KnowledgeBaseShare, User]),
+  ],
   controllers: [KnowledgeBaseController],
   providers: [KnowledgeBaseService],
   exports: [KnowledgeBaseService],
 })
 export class KnowledgeBaseModule {}
-
-
@@ -0,0 +1,170 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { KnowledgeBase } from '../../entities/knowledge_base.entity';
+import { KnowledgeBaseShare } from '../../entities/knowledge_base_share.entity';
+import { User } from '../../entities/users.entity';
+import { KnowledgeBaseService } from './knowledge-base.service';
+
+type Share = {
+  recordId: string;
+  user_id: string | null;
+  department: string | null;
+};
+type Condition = Record<string, unknown> & {
+  shares?: { user_id?: string; department?: string };
+  record?: { id: string };
+};
+
+const users = [
+  { id: 'owner', role: 'analyst', department: 'HR' },
+  { id: 'colleague', role: 'analyst', department: 'HR' },
+  { id: 'outsider', role: 'viewer', department: 'Sales' },
+  { id: 'admin', role: 'admin', department: null },
+];
+
+function record(id: string, values: Partial<KnowledgeBase>): KnowledgeBase {
+  return {
+    id,
+    title: id,
+    owner_id: 'owner',
+    department: 'HR',
+    visibility: 'private',
+    createdAt: new Date(),
+    ...values,
+  } as KnowledgeBase;
+}
+
+// Records and shares in memory, queried with the conditions the service builds
+function createService(records: KnowledgeBase[], shares: Share[] = []) {
+  const sharesOf = (recordId: string) =>
+    shares.filter((share) => share.recordId === recordId);
+  const matches = (candidate: KnowledgeBase, condition: Condition) =>
+    Object.entries(condition).every(([key, expected]) =>
+      key === 'shares'
+        ? sharesOf(candidate.id).some(
+            (share) =>
+              (condition.shares?.user_id === undefined ||
+                share.user_id === condition.shares.user_id) &&
+              (condition.shares?.department === undefined ||
+                share.department === condition.shares.department),
+          )
+        : candidate[key as keyof KnowledgeBase] === expected,
+    );
+
+  const knowledgeBaseRepository = {
+    findOne: ({ where }: { where: { id: string } }) =>
+      Promise.resolve(records.find((item) => item.id === where.id) ?? null),
+    find: ({ where }: { where?: Condition | Condition[] }) =>
+      Promise.resolve(
+        records.filter((item) =>
+          [where ?? {}].flat().some((condition) => matches(item, condition)),
+        ),
+      ),
+  };
+  const shareRepository = {
+    exists: ({ where }: { where: Condition[] }) =>
+      Promise.resolve(
+        where.some((condition) =>
+          sharesOf(condition.record!.id).some(
+            (share) =>
+              (condition.user_id !== undefined &&
+                share.user_id === condition.user_id) ||
+              (condition.department !== undefined &&
+                share.department === condition.department),
+          ),
+        ),
+      ),
+  };
+  const userRepository = {
+    findOne: ({ where }: { where: { id: string } }) =>
+      Promise.resolve(users.find((user) => user.id === where.id) ?? null),
+  };
+
+  return new KnowledgeBaseService(
+    knowledgeBaseRepository as unknown as Repository<KnowledgeBase>,
+    shareRepository as unknown as Repository<KnowledgeBaseShare>,
+    userRepository as unknown as Repository<User>,
+  );
+}
+
+describe('KnowledgeBaseService visibility', () => {
+  const records = [
+    record('own', {}),
+    record('department', { visibility: 'department' }),
+    record('organization', { visibility: 'organization' }),
+    record('shared', { owner_id: 'colleague' }),
+  ];
+
+  it('shows each user the records their visibility or a share grants', async () => {
+    const service = createService(records, [
+      { recordId: 'shared', user_id: 'outsider', department: null },
+    ]);
+    const titles = async (userId: string) =>
+      (await service.findAll(userId)).map((item) => item.id).sort();
+
+    expect(await titles('owner')).toEqual([
+      'department',
+      'organization',
+      'own',
+    ]);
+    expect(await titles('colleague')).toEqual([
+      'department',
+      'organization',
+      'shared',
+    ]);
+    expect(await titles('outsider')).toEqual(['organization', 'shared']);
+    expect(await titles('admin')).toHaveLength(4);
+  });
+
+  it('answers 404 for records the user cannot see and 403 for managing visible ones', async () => {
+    const service = createService(records);
+
+    await expect(service.findRecord('own', 'colleague')).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(
+      service.findRecord('department', 'colleague', 'manage'),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(service.findRecord('department', 'outsider')).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(service.findRecord('own', '')).rejects.toThrow(
+      'User not found',
+    );
+  });
+
+  it('keeps a record without an owner private unless it is visible to the organization', async () => {
+    const service = createService([
+      record('orphaned', { owner_id: null }),
+      record('legacy', { owner_id: null, visibility: 'organization' }),
+    ]);
+
+    await expect(service.findRecord('orphaned', 'colleague')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect((await service.findAll('outsider')).map((item) => item.id)).toEqual([
+      'legacy',
+    ]);
+    await expect(
+      service.findRecord('orphaned', 'admin', 'manage'),
+    ).resolves.toMatchObject({ id: 'orphaned' });
+  });
+
+  it("prefers the user's own record among records with the same title", async () => {
+    const service = createService([
+      record('theirs', {
+        title: 'payroll',
+        visibility: 'organization',
+        owner_id: 'colleague',
+      }),
+      record('mine', { title: 'payroll' }),
+    ]);
+
+    await expect(
+      service.findRecordByTitle('payroll', 'owner'),
+    ).resolves.toMatchObject({ id: 'mine' });
+    await expect(
+      service.findRecordByTitle('payroll', 'outsider'),
+    ).resolves.toMatchObject({ id: 'theirs' });
+  });
+});
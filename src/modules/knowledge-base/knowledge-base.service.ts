@@ -1,26 +1,294 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { FindOptionsWhere, Repository } from 'typeorm';
 import { KnowledgeBase } from '../../entities/knowledge_base.entity';
+import { KnowledgeBaseShare } from '../../entities/knowledge_base_share.entity';
+import { User } from '../../entities/users.entity';
+import { toRole } from '../auth/roles';
+import type { Role } from '../auth/roles';
+import { ShareRecordDto, UpdateRecordAccessDto } from './dto';
+import { RECORD_VISIBILITIES } from './record-access';
+import type { RecordAccess } from './record-access';
+
+interface RecordViewer {
+  id: string;
+  role: Role;
+  department: string | null;
+}
 
 @Injectable()
 export class KnowledgeBaseService {
   constructor(
     @InjectRepository(KnowledgeBase)
     private readonly knowledgeBaseRepository: Repository<KnowledgeBase>,
+    @InjectRepository(KnowledgeBaseShare)
+    private readonly shareRepository: Repository<KnowledgeBaseShare>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
   ) {}
 
-  async findAll(): Promise<KnowledgeBase[]> {
-    return this.knowledgeBaseRepository.find({ order: { createdAt: 'DESC' } });
+  // Records the user can see, most recent first
+  async findAll(userId: string): Promise<KnowledgeBase[]> {
+    const viewer = await this.findViewer(userId);
+    return this.knowledgeBaseRepository.find({
+      where: this.visibleTo(viewer),
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * A record by id, checked against the user's access. Records the user cannot see are reported
+   * as not found.
+   */
+  async findRecord(
+    id: string,
+    userId: string,
+    access: RecordAccess = 'view',
+  ): Promise<KnowledgeBase> {
+    const viewer = await this.findViewer(userId);
+    const record = await this.knowledgeBaseRepository.findOne({
+      where: { id },
+    });
+    if (!record) {
+      throw new NotFoundException(`Record with id ${id} not found`);
+    }
+    await this.assertAccess(record, viewer, access);
+    return record;
   }
 
-  async remove(id: string): Promise<{ success: boolean }> {
-    const result = await this.knowledgeBaseRepository.delete(id);
-    if (result.affected === 0) {
-      throw new NotFoundException('Knowledge base file not found');
+  /**
+   * A record by title among those the user can see. Titles are not unique, so the user's own
+   * record wins, then the most recent one.
+   */
+  async findRecordByTitle(
+    title: string,
+    userId: string,
+  ): Promise<KnowledgeBase> {
+    const viewer = await this.findViewer(userId);
+    const where = this.visibleTo(viewer);
+    const records = await this.knowledgeBaseRepository.find({
+      where: where
+        ? where.map((condition) => ({ ...condition, title }))
+        : { title },
+      order: { createdAt: 'DESC' },
+    });
+    const record =
+      records.find((candidate) => candidate.owner_id === viewer.id) ??
+      records[0];
+    if (!record) {
+      throw new NotFoundException(`Record with filename "${title}" not found`);
     }
+    return record;
+  }
+
+  async remove(userId: string, id: string): Promise<{ success: boolean }> {
+    const record = await this.findRecord(id, userId, 'manage');
+    await this.knowledgeBaseRepository.remove(record);
     return { success: true };
   }
-}
 
+  // Changes the visibility of a record, or the department it is visible to
+  async updateAccess(userId: string, id: string, dto: UpdateRecordAccessDto) {
+    const record = await this.findRecord(id, userId, 'manage');
+
+    if (dto.visibility !== undefined) {
+      if (!RECORD_VISIBILITIES.includes(dto.visibility)) {
+        throw new BadRequestException(
+          `visibility must be one of: ${RECORD_VISIBILITIES.join(', ')}`,
+        );
+      }
+      record.visibility = dto.visibility;
+    }
+    if (dto.department !== undefined) {
+      record.department = dto.department.trim().substring(0, 100) || null;
+    }
+    if (record.visibility === 'department' && !record.department) {
+      throw new BadRequestException(
+        'A record visible to its department needs a department',
+      );
+    }
+
+    await this.knowledgeBaseRepository.save(record);
+    return this.toAccessResponse(record);
+  }
+
+  async listShares(userId: string, id: string) {
+    const record = await this.findRecord(id, userId, 'manage');
+    return this.toAccessResponse(record, await this.findShares(record.id));
+  }
+
+  // Shares a record with one user (by id or email) or with a department
+  async share(userId: string, id: string, dto: ShareRecordDto) {
+    const record = await this.findRecord(id, userId, 'manage');
+    const department = dto.department?.trim();
+    const targets = [dto.userId, dto.email, department].filter(Boolean);
+    if (targets.length !== 1) {
+      throw new BadRequestException(
+        'Must provide exactly one of userId, email or department',
+      );
+    }
+
+    let target: Pick<KnowledgeBaseShare, 'user_id' | 'department'>;
+    if (department) {
+      target = { user_id: null, department };
+    } else {
+      const user = await this.userRepository.findOne({
+        where: dto.userId ? { id: dto.userId } : { email: dto.email },
+        select: ['id'],
+      });
+      if (!user) {
+        throw new NotFoundException(
+          `User ${dto.userId ?? dto.email} not found`,
+        );
+      }
+      target = { user_id: user.id, department: null };
+    }
+
+    // Sharing twice with the same user or department is a no-op
+    const exists = await this.shareRepository.exists({
+      where: {
+        record: { id: record.id },
+        ...(department ? { department } : { user_id: target.user_id! }),
+      },
+    });
+    if (!exists) {
+      await this.shareRepository.save(
+        this.shareRepository.create({ record: { id: record.id }, ...target }),
+      );
+    }
+
+    return this.toAccessResponse(record, await this.findShares(record.id));
+  }
+
+  async unshare(userId: string, id: string, shareId: string) {
+    const record = await this.findRecord(id, userId, 'manage');
+    const share = await this.shareRepository.findOne({
+      where: { id: shareId, record: { id: record.id } },
+    });
+    if (!share) {
+      throw new NotFoundException(`Share ${shareId} not found`);
+    }
+    await this.shareRepository.remove(share);
+    return this.toAccessResponse(record, await this.findShares(record.id));
+  }
+
+  // Every lookup is made for a user; a missing one must not match the first user in the table
+  private async findViewer(userId: string): Promise<RecordViewer> {
+    const user = userId
+      ? await this.userRepository.findOne({
+          where: { id: userId },
+          select: ['id', 'role', 'department'],
+        })
+      : null;
+    if (!user) {
+      throw new ForbiddenException('User not found');
+    }
+    return {
+      id: user.id,
+      role: toRole(user.role),
+      department: user.department || null,
+    };
+  }
+
+  // Conditions (any of which grants access) for the records a user can see; none for admins
+  private visibleTo(
+    viewer: RecordViewer,
+  ): FindOptionsWhere<KnowledgeBase>[] | undefined {
+    if (viewer.role === 'admin') {
+      return undefined;
+    }
+    return [
+      { owner_id: viewer.id },
+      { visibility: 'organization' },
+      { shares: { user_id: viewer.id } },
+      ...(viewer.department
+        ? [
+            { visibility: 'department', department: viewer.department },
+            { shares: { department: viewer.department } },
+          ]
+        : []),
+    ];
+  }
 
+  // Admins can do anything; records without an owner follow their visibility and are managed by admins only
+  private async assertAccess(
+    record: KnowledgeBase,
+    viewer: RecordViewer,
+    access: RecordAccess,
+  ) {
+    if (viewer.role === 'admin' || record.owner_id === viewer.id) {
+      return;
+    }
+    if (!(await this.canView(record, viewer))) {
+      throw new NotFoundException(`Record with id ${record.id} not found`);
+    }
+    if (access === 'manage') {
+      throw new ForbiddenException(
+        'Only the owner of the record or an admin can do this',
+      );
+    }
+  }
+
+  private async canView(record: KnowledgeBase, viewer: RecordViewer) {
+    if (record.visibility === 'organization') {
+      return true;
+    }
+    if (
+      viewer.department &&
+      record.visibility === 'department' &&
+      record.department === viewer.department
+    ) {
+      return true;
+    }
+    return this.shareRepository.exists({
+      where: [
+        { record: { id: record.id }, user_id: viewer.id },
+        ...(viewer.department
+          ? [{ record: { id: record.id }, department: viewer.department }]
+          : []),
+      ],
+    });
+  }
+
+  private findShares(recordId: string) {
+    return this.shareRepository.find({
+      where: { record: { id: recordId } },
+      relations: ['user'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  private toAccessResponse(
+    record: KnowledgeBase,
+    shares?: KnowledgeBaseShare[],
+  ) {
+    return {
+      id: record.id,
+      ownerId: record.owner_id,
+      department: record.department,
+      visibility: record.visibility,
+      ...(shares
+        ? {
+            shares: shares.map((share) => ({
+              id: share.id,
+              // Never the user's password hash
+              user: share.user
+                ? {
+                    id: share.user.id,
+                    name: share.user.name,
+                    email: share.user.email,
+                  }
+                : null,
+              department: share.department,
+              createdAt: share.createdAt,
+            })),
+          }
+        : {}),
+    };
+  }
+}
@@ -0,0 +1,9 @@
+export const RECORD_VISIBILITIES = [
+  'private',
+  'department',
+  'organization',
+] as const;
+export type RecordVisibility = (typeof RECORD_VISIBILITIES)[number];
+
+// view: reading and processing the record; manage: deleting it and changing who can see it
+export type RecordAccess = 'view' | 'manage';
@@ -0,0 +1,53 @@
+export type MailTransportType = 'smtp' | 'file' | 'console';
+
+export const MAIL_TRANSPORT_TYPES: MailTransportType[] = [
+  'smtp',
+  'file',
+  'console',
+];
+
+export interface MailConfig {
+  transport: MailTransportType;
+  // Sender of every message, e.g. "CorpoAgent <no-reply@example.com>"
+  from: string;
+  smtp: {
+    host: string;
+    port: number;
+    // TLS from the start (usually port 465); otherwise STARTTLS when the server offers it
+    secure: boolean;
+    user?: string;
+    pass?: string;
+  };
+  // Directory the file transport writes .eml files to
+  outputDir: string;
+  // Base URL of the web app, which the links in emails point to
+  appUrl: string;
+}
+
+// Defaults to the console transport, so development needs no mail server
+export function loadMailConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): MailConfig {
+  const transport = (env.MAIL_TRANSPORT || 'console').toLowerCase();
+  if (!MAIL_TRANSPORT_TYPES.includes(transport as MailTransportType)) {
+    throw new Error(
+      `Unsupported MAIL_TRANSPORT "${env.MAIL_TRANSPORT}". Expected one of: ${MAIL_TRANSPORT_TYPES.join(', ')}`,
+    );
+  }
+
+  const port = parseInt(env.SMTP_PORT || '587', 10);
+
+  return {
+    transport: transport as MailTransportType,
+    from: env.MAIL_FROM || 'CorpoAgent <no-reply@localhost>',
+    smtp: {
+      host: env.SMTP_HOST || 'localhost',
+      port: Number.isNaN(port) ? 587 : port,
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER || undefined,
+      pass: env.SMTP_PASS || undefined,
+    },
+    outputDir: env.MAIL_OUTPUT_DIR || './.tmp/mail',
+    appUrl: (env.APP_URL || 'http://localhost:4200').replace(/\/+$/, ''),
+  };
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { MAIL_CONFIG, MAIL_TRANSPORT, mailProviders } from './mail.provider';
+import { MailService } from './mail.service';
+
+@Module({
+  providers: [...mailProviders, MailService],
+  exports: [MAIL_CONFIG, MAIL_TRANSPORT, MailService],
+})
+export class MailModule {}
@@ -0,0 +1,41 @@
+import { Provider } from '@nestjs/common';
+import { MailConfig, loadMailConfig } from './mail.config';
+import {
+  ConsoleMailTransport,
+  FileMailTransport,
+  MailTransport,
+  SmtpMailTransport,
+} from './mail.transport';
+
+export const MAIL_CONFIG = 'MAIL_CONFIG';
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export function createMailTransport(config: MailConfig): MailTransport {
+  switch (config.transport) {
+    case 'smtp':
+      return new SmtpMailTransport(config.smtp);
+
+    case 'file':
+      return new FileMailTransport(config.outputDir);
+
+    case 'console':
+      return new ConsoleMailTransport();
+
+    default:
+      throw new Error(
+        `Unsupported mail transport: ${String(config.transport)}`,
+      );
+  }
+}
+
+export const mailProviders: Provider[] = [
+  {
+    provide: MAIL_CONFIG,
+    useFactory: () => loadMailConfig(),
+  },
+  {
+    provide: MAIL_TRANSPORT,
+    useFactory: (config: MailConfig) => createMailTransport(config),
+    inject: [MAIL_CONFIG],
+  },
+];
@@ -0,0 +1,24 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { MAIL_CONFIG, MAIL_TRANSPORT } from './mail.provider';
+import type { MailConfig } from './mail.config';
+import type { MailMessage, MailTransport } from './mail.transport';
+
+@Injectable()
+export class MailService {
+  constructor(
+    @Inject(MAIL_CONFIG)
+    private readonly config: MailConfig,
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+  ) {}
+
+  async send(message: MailMessage) {
+    await this.transport.send({ ...message, from: this.config.from });
+  }
+
+  // A link into the web app, e.g. link('/reset-password', { token })
+  link(pathname: string, query: Record<string, string> = {}): string {
+    const search = new URLSearchParams(query).toString();
+    return `${this.config.appUrl}${pathname}${search ? `?${search}` : ''}`;
+  }
+}
@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import type { MailConfig } from './mail.config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+// Where emails go; chosen by MAIL_TRANSPORT
+export interface MailTransport {
+  send(message: OutgoingMail): Promise<void>;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(smtp: MailConfig['smtp']) {
+    this.transporter = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      auth: smtp.user ? { user: smtp.user, pass: smtp.pass } : undefined,
+    });
+  }
+
+  async send(message: OutgoingMail) {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Writes each message as an .eml file, which mail clients open as is
+export class FileMailTransport implements MailTransport {
+  private readonly transporter: Transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: 'unix',
+  });
+
+  constructor(private readonly outputDir: string) {}
+
+  async send(message: OutgoingMail) {
+    const info = await this.transporter.sendMail(message);
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`;
+    await fs.promises.writeFile(
+      path.join(this.outputDir, name),
+      info.message as Buffer,
+    );
+  }
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  send(message: OutgoingMail) {
+    console.log(
+      `=== MAIL to ${message.to}: ${message.subject} ===\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
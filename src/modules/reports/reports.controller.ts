@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  Request,
+  Res,
+  UseGuards,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { JwtOrApiKeyAuthGuard } from '../../guards/jwt-or-api-key-auth.guard';
+import { RolesGuard } from '../../guards/roles.guard';
+import { RequirePermission } from '../../guards/roles.decorator';
+import { REPORT_EXPORT_FORMATS, ReportsService } from './reports.service';
+import type { ReportExportFormat } from './reports.service';
+
+@Controller('reports')
+@UseGuards(JwtOrApiKeyAuthGuard, RolesGuard)
+export class ReportsController {
+  constructor(private readonly reportsService: ReportsService) {}
+
+  @Get()
+  @RequirePermission('reports:read')
+  async listReports(
+    @Query('page') page: string,
+    @Query('limit') limit: string,
+    @Query('recordId') recordId: string,
+    @Request() req,
+  ) {
+    return this.reportsService.listReports(req.user.userId, {
+      page: page ? parseInt(page, 10) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      recordId: recordId || undefined,
+    });
+  }
+
+  @Get(':id')
+  @RequirePermission('reports:read')
+  async getReport(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    return this.reportsService.getReport(req.user.userId, id);
+  }
+
+  @Get(':id/export')
+  @RequirePermission('reports:export')
+  async exportReport(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('format') format: string,
+    @Query('includeCharts') includeCharts: string,
+    @Request() req,
+    @Res() res: Response,
+  ) {
+    if (!REPORT_EXPORT_FORMATS.includes(format as ReportExportFormat)) {
+      throw new BadRequestException(
+        `format must be one of: ${REPORT_EXPORT_FORMATS.join(', ')}`,
+      );
+    }
+
+    const rendered = await this.reportsService.exportReport(
+      req.user.userId,
+      id,
+      format as ReportExportFormat,
+      includeCharts === 'true',
+    );
+
+    res.setHeader('Content-Type', rendered.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `inline; filename="${rendered.filename}"`,
+    );
+    return res.send(rendered.body);
+  }
+}
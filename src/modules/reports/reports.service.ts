@@ -0,0 +1,162 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Report } from '../../entities/report.entity';
+import { UniAgentService } from '../../agents/uni-agent/uni-agent.service';
+
+export const REPORT_EXPORT_FORMATS = ['pdf', 'md', 'json', 'html'] as const;
+export type ReportExportFormat = (typeof REPORT_EXPORT_FORMATS)[number];
+
+export interface RenderedReport {
+  filename: string;
+  contentType: string;
+  body: Buffer | string;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+@Injectable()
+export class ReportsService {
+  constructor(
+    @InjectRepository(Report)
+    private readonly reportRepository: Repository<Report>,
+    private readonly uniAgentService: UniAgentService,
+  ) {}
+
+  async listReports(
+    userId: string,
+    options: { page?: number; limit?: number; recordId?: string } = {},
+  ) {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, options.limit || DEFAULT_PAGE_SIZE),
+    );
+
+    const [reports, total] = await this.reportRepository.findAndCount({
+      where: {
+        user: { id: userId },
+        ...(options.recordId ? { record: { id: options.recordId } } : {}),
+      },
+      relations: ['record'],
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      items: reports.map((report) => this.toResponse(report)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async getReport(userId: string, reportId: string) {
+    const report = await this.findUserReport(userId, reportId);
+    return this.toResponse(
+      report,
+      await this.uniAgentService.revealStoredReport(report, userId),
+    );
+  }
+
+  // Renders the stored report; nothing here calls the LLM
+  async exportReport(
+    userId: string,
+    reportId: string,
+    format: ReportExportFormat,
+    includeCharts = false,
+  ): Promise<RenderedReport> {
+    const stored = await this.findUserReport(userId, reportId);
+    const report = await this.uniAgentService.getStoredReport(
+      stored.id,
+      userId,
+    );
+    const title = report.metadata.title;
+
+    switch (format) {
+      case 'pdf': {
+        if (includeCharts && !stored.record) {
+          throw new BadRequestException(
+            'Charts need the source record, which is not stored for this report',
+          );
+        }
+        return {
+          filename: `${title}.pdf`,
+          contentType: 'application/pdf',
+          body: await this.uniAgentService.exportPdf(
+            report,
+            includeCharts
+              ? await this.uniAgentService.resolveReportData({
+                  reportId: stored.id,
+                  userId,
+                })
+              : undefined,
+          ),
+        };
+      }
+      case 'md':
+        return {
+          filename: `${title}.md`,
+          contentType: 'text/markdown; charset=utf-8',
+          body: await this.uniAgentService.formatReportAsMarkdown(report),
+        };
+      case 'json':
+        return {
+          filename: `${title}.json`,
+          contentType: 'application/json; charset=utf-8',
+          body: JSON.stringify(
+            await this.uniAgentService.formatReportAsJson(report),
+            null,
+            2,
+          ),
+        };
+      case 'html':
+        return {
+          filename: `${title}.html`,
+          contentType: 'text/html; charset=utf-8',
+          body: await this.uniAgentService.formatReportAsHtml(report),
+        };
+      default:
+        throw new BadRequestException(
+          `format must be one of: ${REPORT_EXPORT_FORMATS.join(', ')}`,
+        );
+    }
+  }
+
+  private async findUserReport(
+    userId: string,
+    reportId: string,
+  ): Promise<Report> {
+    const report = await this.reportRepository.findOne({
+      where: { id: reportId, user: { id: userId } },
+      relations: ['record'],
+    });
+
+    if (!report) {
+      throw new NotFoundException(`Report ${reportId} not found`);
+    }
+
+    return report;
+  }
+
+  // The content is only included when given, re-identified for the viewer
+  private toResponse(report: Report, content?: any) {
+    return {
+      id: report.id,
+      title: report.title,
+      reportType: report.reportType,
+      recordId: report.record?.id ?? null,
+      modelProvider: report.modelProvider,
+      modelName: report.modelName,
+      promptVersions: report.promptVersions,
+      createdAt: report.createdAt,
+      ...(content ? { report: content } : {}),
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ROLES } from '../../auth/roles';
+import type { Role } from '../../auth/roles';
+
+export class UpdateUserDto {
+  @IsOptional()
+  @IsIn(ROLES)
+  role?: Role;
+
+  // An empty string clears the department
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  department?: string;
+
+  // false disables the account and ends all its sessions
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
@@ -1,4 +1,59 @@
-import { Controller } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../../guards/jwt-auth.guard';
+import { RolesGuard } from '../../guards/roles.guard';
+import { RequirePermission } from '../../guards/roles.decorator';
+import { UsersService } from './users.service';
+import { UpdateUserDto } from './dto';
 
+// User management is for admins only
 @Controller('users')
-export class UsersController {}
+@UseGuards(JwtAuthGuard, RolesGuard)
+@RequirePermission('users:manage')
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @Get()
+  async listUsers(
+    @Query('page') page: string,
+    @Query('limit') limit: string,
+    @Query('role') role: string,
+    @Query('department') department: string,
+  ) {
+    return this.usersService.listUsers({
+      page: page ? parseInt(page, 10) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      role: role || undefined,
+      department: department || undefined,
+    });
+  }
+
+  @Get(':id')
+  async getUser(@Param('id', ParseUUIDPipe) id: string) {
+    return this.usersService.getUser(id);
+  }
+
+  @Patch(':id')
+  async updateUser(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateUserDto: UpdateUserDto,
+    @Request() req,
+  ) {
+    return this.usersService.updateUser(req.user.userId, id, updateUserDto);
+  }
+
+  @Delete(':id')
+  async removeUser(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    return this.usersService.removeUser(req.user.userId, id);
+  }
+}
@@ -0,0 +1,58 @@
+import { BadRequestException } from '@nestjs/common';
+import { EntityManager, Repository } from 'typeorm';
+import { KnowledgeBase } from '../../entities/knowledge_base.entity';
+import { User } from '../../entities/users.entity';
+import { AuthService } from '../auth/auth.service';
+import { UsersService } from './users.service';
+
+describe('UsersService.removeUser', () => {
+  it('hands the records of the deleted user to the admin before deleting them', async () => {
+    const user = { id: 'user-1', role: 'analyst' } as User;
+    const records = [
+      { id: 'rec-1', owner_id: 'user-1', visibility: 'private' },
+      { id: 'rec-2', owner_id: 'user-2', visibility: 'private' },
+    ];
+    const steps: string[] = [];
+    const manager = {
+      update: (
+        entity: unknown,
+        where: { owner_id: string },
+        values: { owner_id: string },
+      ) => {
+        expect(entity).toBe(KnowledgeBase);
+        records
+          .filter((item) => item.owner_id === where.owner_id)
+          .forEach((item) => Object.assign(item, values));
+        steps.push('reassign');
+        return Promise.resolve();
+      },
+      remove: (removed: User) => {
+        steps.push(`remove ${removed.id}`);
+        return Promise.resolve(removed);
+      },
+    };
+    const userRepository = {
+      findOne: () => Promise.resolve(user),
+      manager: {
+        transaction: (work: (manager: EntityManager) => Promise<void>) =>
+          work(manager as unknown as EntityManager),
+      },
+    };
+    const service = new UsersService(
+      userRepository as unknown as Repository<User>,
+      {} as AuthService,
+    );
+
+    await expect(service.removeUser('admin-1', 'user-1')).resolves.toEqual({
+      success: true,
+    });
+    expect(steps).toEqual(['reassign', 'remove user-1']);
+    expect(records).toEqual([
+      { id: 'rec-1', owner_id: 'admin-1', visibility: 'private' },
+      { id: 'rec-2', owner_id: 'user-2', visibility: 'private' },
+    ]);
+    await expect(service.removeUser('admin-1', 'admin-1')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
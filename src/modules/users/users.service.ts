@@ -1,4 +1,140 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { KnowledgeBase } from '../../entities/knowledge_base.entity';
+import { User } from '../../entities/users.entity';
+import { ROLES, isRole, toRole } from '../auth/roles';
+import { AuthService } from '../auth/auth.service';
+import { UpdateUserDto } from './dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
 
 @Injectable()
-export class UsersService {}
+export class UsersService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly authService: AuthService,
+  ) {}
+
+  async listUsers(
+    options: {
+      page?: number;
+      limit?: number;
+      role?: string;
+      department?: string;
+    } = {},
+  ) {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, options.limit || DEFAULT_PAGE_SIZE),
+    );
+
+    const [users, total] = await this.userRepository.findAndCount({
+      where: {
+        ...(options.role ? { role: options.role } : {}),
+        ...(options.department ? { department: options.department } : {}),
+      },
+      order: { created_at: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      items: users.map((user) => this.toResponse(user)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async getUser(id: string) {
+    return this.toResponse(await this.findUser(id));
+  }
+
+  // Changes a user's role or department or disables the user; each applies from their next request
+  async updateUser(adminId: string, id: string, dto: UpdateUserDto) {
+    const user = await this.findUser(id);
+
+    if (dto.role !== undefined) {
+      if (!isRole(dto.role)) {
+        throw new BadRequestException(
+          `role must be one of: ${ROLES.join(', ')}`,
+        );
+      }
+      // So the last admin cannot lock everyone out by accident
+      if (id === adminId && dto.role !== 'admin') {
+        throw new BadRequestException('Admins cannot change their own role');
+      }
+      user.role = dto.role;
+    }
+
+    if (dto.department !== undefined) {
+      user.department = dto.department.trim().substring(0, 100);
+    }
+
+    if (dto.active !== undefined) {
+      if (typeof dto.active !== 'boolean') {
+        throw new BadRequestException('active must be true or false');
+      }
+      if (id === adminId && !dto.active) {
+        throw new BadRequestException(
+          'Admins cannot disable their own account',
+        );
+      }
+      user.is_active = dto.active;
+    }
+
+    await this.userRepository.save(user);
+    if (dto.active === false) {
+      await this.authService.revokeAllSessions(user.id);
+    }
+    return this.toResponse(user);
+  }
+
+  // Deletes a user; the records they own are handed to the deleting admin
+  async removeUser(adminId: string, id: string) {
+    if (id === adminId) {
+      throw new BadRequestException('Admins cannot delete their own account');
+    }
+    const user = await this.findUser(id);
+    // In one transaction, since the foreign key refuses to delete a user who still owns records
+    await this.userRepository.manager.transaction(async (manager) => {
+      await manager.update(
+        KnowledgeBase,
+        { owner_id: user.id },
+        { owner_id: adminId },
+      );
+      await manager.remove(user);
+    });
+    return { success: true };
+  }
+
+  private async findUser(id: string): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id } });
+    if (!user) {
+      throw new NotFoundException(`User ${id} not found`);
+    }
+    return user;
+  }
+
+  // Never returns the password hash
+  private toResponse(user: User) {
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: toRole(user.role),
+      department: user.department,
+      active: user.is_active,
+      emailVerified: user.email_verified,
+      createdAt: user.created_at,
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Param,
+  Body,
+  Query,
+  Request,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../../guards/jwt-auth.guard';
+import { RolesGuard } from '../../guards/roles.guard';
+import { RequirePermission } from '../../guards/roles.decorator';
+import { ValidationRulesService } from './validation-rules.service';
+
+@Controller('validation-rules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ValidationRulesController {
+  constructor(
+    private readonly validationRulesService: ValidationRulesService,
+  ) {}
+
+  @Get()
+  async listRuleSets(
+    @Query('page') page: string,
+    @Query('limit') limit: string,
+    @Request() req,
+  ) {
+    return this.validationRulesService.listRuleSets(req.user.userId, {
+      page: page ? parseInt(page, 10) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+
+  @Get(':name')
+  async getRuleSet(@Param('name') name: string, @Request() req) {
+    return this.validationRulesService.getRuleSet(req.user.userId, name);
+  }
+
+  // `definition` is a JSON/YAML string or an already parsed JSON object
+  @Put(':name')
+  @RequirePermission('knowledge-base:write')
+  async saveRuleSet(
+    @Param('name') name: string,
+    @Body() body: { definition: string | object; description?: string },
+    @Request() req,
+  ) {
+    if (!body?.definition) {
+      throw new BadRequestException('definition is required');
+    }
+
+    return this.validationRulesService.saveRuleSet(
+      req.user.userId,
+      name,
+      body.definition,
+      body.description,
+    );
+  }
+
+  @Delete(':name')
+  @RequirePermission('knowledge-base:write')
+  async deleteRuleSet(@Param('name') name: string, @Request() req) {
+    return this.validationRulesService.deleteRuleSet(req.user.userId, name);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ValidationRuleSet } from '../../entities/validation_rule_set.entity';
+import { ValidationRulesService } from './validation-rules.service';
+import { ValidationRulesController } from './validation-rules.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ValidationRuleSet])],
+  controllers: [ValidationRulesController],
+  providers: [ValidationRulesService],
+  exports: [ValidationRulesService],
+})
+export class ValidationRulesModule {}
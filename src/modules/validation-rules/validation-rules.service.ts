@@ -0,0 +1,166 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ValidationRuleSet } from '../../entities/validation_rule_set.entity';
+import {
+  parseRuleSet,
+  RuleSet,
+  RuleSetError,
+} from '../../agents/uni-agent/validation-rules';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]{0,99}$/;
+
+@Injectable()
+export class ValidationRulesService {
+  constructor(
+    @InjectRepository(ValidationRuleSet)
+    private readonly ruleSetRepository: Repository<ValidationRuleSet>,
+  ) {}
+
+  async listRuleSets(
+    userId: string,
+    options: { page?: number; limit?: number } = {},
+  ) {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, options.limit || DEFAULT_PAGE_SIZE),
+    );
+
+    const [ruleSets, total] = await this.ruleSetRepository.findAndCount({
+      where: { user: { id: userId } },
+      order: { name: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      items: ruleSets.map((ruleSet) => this.toResponse(ruleSet, false)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  async getRuleSet(userId: string, name: string) {
+    const ruleSet = await this.findUserRuleSet(userId, name);
+    return this.toResponse(ruleSet);
+  }
+
+  // Creates the rule set, or replaces the definition of the one with the same name
+  async saveRuleSet(
+    userId: string,
+    name: string,
+    definition: string | object,
+    description?: string,
+  ) {
+    if (!NAME_PATTERN.test(name)) {
+      throw new BadRequestException(
+        'name must be 1-100 letters, digits, "_", "." or "-", starting with a letter or digit',
+      );
+    }
+
+    const rules = this.parse(definition);
+    const source =
+      typeof definition === 'string'
+        ? definition
+        : JSON.stringify(definition, null, 2);
+
+    const existing = await this.ruleSetRepository.findOne({
+      where: { user: { id: userId }, name },
+    });
+    const ruleSet = existing
+      ? Object.assign(existing, {
+          source,
+          rules,
+          description: description ?? existing.description,
+        })
+      : this.ruleSetRepository.create({
+          user: { id: userId } as any,
+          name,
+          source,
+          rules,
+          description: description ?? null,
+        });
+
+    return this.toResponse(await this.ruleSetRepository.save(ruleSet));
+  }
+
+  async deleteRuleSet(userId: string, name: string) {
+    const ruleSet = await this.findUserRuleSet(userId, name);
+    await this.ruleSetRepository.remove(ruleSet);
+    return { deleted: true, name };
+  }
+
+  /**
+   * Resolves the rules to apply to an upload: a stored rule set by name, or an inline
+   * JSON/YAML definition. Returns null when neither is given.
+   */
+  async resolve(
+    userId: string | undefined,
+    source: { ruleSet?: string; rules?: string | object },
+  ): Promise<RuleSet | null> {
+    if (source.rules) {
+      return this.parse(source.rules);
+    }
+    if (!source.ruleSet) {
+      return null;
+    }
+    if (!userId) {
+      throw new BadRequestException(
+        'Stored rule sets can only be used by an authenticated user',
+      );
+    }
+
+    const ruleSet = await this.findUserRuleSet(userId, source.ruleSet);
+    return ruleSet.rules as RuleSet;
+  }
+
+  private parse(definition: string | object): RuleSet {
+    try {
+      return parseRuleSet(definition);
+    } catch (error) {
+      if (error instanceof RuleSetError) {
+        throw new BadRequestException({
+          message: 'Invalid rule set',
+          errors: error.issues,
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async findUserRuleSet(
+    userId: string,
+    name: string,
+  ): Promise<ValidationRuleSet> {
+    const ruleSet = await this.ruleSetRepository.findOne({
+      where: { user: { id: userId }, name },
+    });
+
+    if (!ruleSet) {
+      throw new NotFoundException(`Rule set "${name}" not found`);
+    }
+
+    return ruleSet;
+  }
+
+  private toResponse(ruleSet: ValidationRuleSet, includeDefinition = true) {
+    return {
+      id: ruleSet.id,
+      name: ruleSet.name,
+      description: ruleSet.description,
+      ...(includeDefinition
+        ? { source: ruleSet.source, rules: ruleSet.rules }
+        : {}),
+      createdAt: ruleSet.createdAt,
+      updatedAt: ruleSet.updatedAt,
+    };
+  }
+}
@@ -27,17 +27,21 @@ async function testChatEndpoints() {
     console.log('✅ User logged in:', loginResponse.data.user.name);
     const authToken = loginResponse.data.access_token;
 
-    // 3. Get session (should create one)
-    console.log('\n3. Getting chat session...');
-    const sessionResponse = await axios.get(`${BASE_URL}/chat/session`, {
+    // 3. Create a session
+    console.log('\n3. Creating chat session...');
+    const sessionResponse = await axios.post(`${BASE_URL}/chat/sessions`, {
+      title: 'Data analysis'
+    }, {
       headers: { Authorization: `Bearer ${authToken}` }
     });
-    console.log('✅ Session retrieved:', sessionResponse.data.id);
+    console.log('✅ Session created:', sessionResponse.data.id);
+    const sessionId = sessionResponse.data.id;
 
     // 4. Send a text message
     console.log('\n4. Sending text message...');
     const messageResponse = await axios.post(`${BASE_URL}/chat/send`, {
-      content: 'Hello, can you help me analyze some data?'
+      content: 'Hello, can you help me analyze some data?',
+      sessionId
     }, {
       headers: { Authorization: `Bearer ${authToken}` }
     });
@@ -45,7 +49,7 @@ async function testChatEndpoints() {
 
     // 5. Get messages
     console.log('\n5. Getting messages...');
-    const messagesResponse = await axios.get(`${BASE_URL}/chat/messages`, {
+    const messagesResponse = await axios.get(`${BASE_URL}/chat/messages?sessionId=${sessionId}`, {
       headers: { Authorization: `Bearer ${authToken}` }
     });
     console.log(`✅ Retrieved ${messagesResponse.data.length} messages`);
@@ -62,6 +66,7 @@ async function testChatEndpoints() {
     const form = new FormData();
     form.append('file', fs.createReadStream('test-data.csv'));
     form.append('request', 'Analyze this employee data');
+    form.append('sessionId', sessionId);
 
     const fileResponse = await axios.post(`${BASE_URL}/chat/send-file`, form, {
       headers: { 
@@ -73,17 +78,17 @@ async function testChatEndpoints() {
 
     // 7. Get updated messages
     console.log('\n7. Getting updated messages...');
-    const updatedMessagesResponse = await axios.get(`${BASE_URL}/chat/messages`, {
+    const updatedMessagesResponse = await axios.get(`${BASE_URL}/chat/messages?sessionId=${sessionId}`, {
       headers: { Authorization: `Bearer ${authToken}` }
     });
     console.log(`✅ Retrieved ${updatedMessagesResponse.data.length} messages after file upload`);
 
-    // 8. Clear session
-    console.log('\n8. Clearing session...');
-    const clearResponse = await axios.delete(`${BASE_URL}/chat/session`, {
+    // 8. Delete session
+    console.log('\n8. Deleting session...');
+    const clearResponse = await axios.delete(`${BASE_URL}/chat/sessions/${sessionId}`, {
       headers: { Authorization: `Bearer ${authToken}` }
     });
-    console.log('✅ Session cleared:', clearResponse.data.message);
+    console.log('✅ Session deleted:', clearResponse.data.message);
 
     console.log('\n🎉 All tests passed! Chat backend is working correctly.');
 